@@ -5,8 +5,12 @@ import {
   GameID,
   GameRecord,
   GameStartInfo,
+  LobbyAction,
   PlayerRecord,
+  ServerDesyncMessage,
+  ServerLobbyMessage,
   ServerMessage,
+  Turn,
 } from "../core/Schemas";
 import { createGameRecord } from "../core/Util";
 import { ServerConfig } from "../core/configuration/Config";
@@ -24,11 +28,12 @@ import { GameView, PlayerView } from "../core/game/GameView";
 import { loadTerrainMap, TerrainMapData } from "../core/game/TerrainMapLoader";
 import { UserSettings } from "../core/game/UserSettings";
 import { WorkerClient } from "../core/worker/WorkerClient";
-import { BuildingDropEvent, HotkeyTransportShipEvent, InputHandler, MouseMoveEvent, MouseUpEvent } from "./InputHandler";
+import { BuildingDropEvent, HotkeyTransportShipEvent, InputHandler, MouseMoveEvent, MouseUpEvent, RefreshGraphicsEvent } from "./InputHandler";
 import { endGame, startGame, startTime } from "./LocalPersistantStats";
 import { getPersistentIDFromCookie } from "./Main";
 import {
   BuildUnitIntentEvent,
+  ReplaySeekEvent,
   SendAttackIntentEvent,
   SendBoatAttackIntentEvent,
   SendHashEvent,
@@ -38,6 +43,8 @@ import {
 } from "./Transport";
 import { createCanvas, translateText } from "./Utils";
 import { createRenderer, GameRenderer } from "./graphics/GameRenderer";
+import { SpawnRejectedEvent } from "./graphics/layers/EventsDisplay";
+import { ReplayTimelineEvent } from "./graphics/layers/ReplayPanel";
 import { SoundManager } from "./soundeffects/effects/SoundManager";
 
 export interface LobbyConfig {
@@ -53,6 +60,17 @@ export interface LobbyConfig {
   gameRecord?: GameRecord;
   // Optional wallet address for blockchain games
   walletAddress?: string | null;
+  // Join a multiplayer game as an observer that never spawns.
+  spectator?: boolean;
+  // Turns of an autosaved singleplayer game being continued.
+  savedTurns?: Turn[];
+}
+
+// Detail of the "lobby-update" document event, fired for every lobby
+// message from the server until the game starts.
+export interface LobbyUpdateEvent {
+  lobby: ServerLobbyMessage;
+  clientID: ClientID;
 }
 
 export function joinLobby(
@@ -81,9 +99,19 @@ export function joinLobby(
   let terrainLoad: Promise<TerrainMapData> | null = null;
 
   const onmessage = (message: ServerMessage) => {
+    if (message.type === "lobby") {
+      document.dispatchEvent(
+        new CustomEvent("lobby-update", {
+          detail: {
+            lobby: message,
+            clientID: lobbyConfig.clientID,
+          } satisfies LobbyUpdateEvent,
+        }),
+      );
+    }
     if (message.type === "prestart") {
       //consolex.log(`lobby: game prestarting: ${JSON.stringify(message)}`);
-      terrainLoad = loadTerrainMap(message.gameMap);
+      terrainLoad = loadTerrainMap(message.gameMap, message.mapSeed);
       onPrestart();
     }
     if (message.type === "start") {
@@ -105,8 +133,15 @@ export function joinLobby(
 
   transport.connect(onconnect, onmessage);
 
+  // Lobby panels send their actions as "lobby-action" document events.
+  const onLobbyAction = (event: Event) => {
+    transport.sendLobbyAction((event as CustomEvent<LobbyAction>).detail);
+  };
+  document.addEventListener("lobby-action", onLobbyAction);
+
   return () => {
     consolex.log("leaving game");
+    document.removeEventListener("lobby-action", onLobbyAction);
     transport.leaveGame();
   };
 }
@@ -132,11 +167,15 @@ export async function createClientGame(
   if (terrainLoad) {
     gameMap = await terrainLoad;
   } else {
-    gameMap = await loadTerrainMap(lobbyConfig.gameStartInfo.config.gameMap);
+    gameMap = await loadTerrainMap(
+      lobbyConfig.gameStartInfo.config.gameMap,
+      lobbyConfig.gameStartInfo.config.mapSeed,
+    );
   }
   const worker = new WorkerClient(
     lobbyConfig.gameStartInfo,
     lobbyConfig.clientID,
+    lobbyConfig.gameRecord !== undefined,
   );
   await worker.initialize();
   const gameView = new GameView(
@@ -146,6 +185,7 @@ export async function createClientGame(
     lobbyConfig.clientID,
     lobbyConfig.gameStartInfo.gameID,
     lobbyConfig.gameStartInfo.players.length,
+    gameMap.nationMap.spawnZones,
   );
 
   consolex.log("going to init path finder");
@@ -177,6 +217,13 @@ export async function createClientGame(
   );
 }
 
+// The server stops answering resync requests after as many, a client
+// that still desyncs then is told so instead.
+const maxResyncAttempts = 3;
+// Gives up on a resync when no peer sent a snapshot by then, e.g. because
+// every other client desynced too.
+const resyncTimeoutMs = 60 * 1000;
+
 export class ClientGameRunner {
   private myPlayer: PlayerView | null = null;
   private isActive = false;
@@ -191,6 +238,12 @@ export class ClientGameRunner {
 
   private didSendDeathNotification: boolean = false;
 
+  private seeking = false;
+  private resyncAttempts = 0;
+  // The desync being recovered from while waiting for a snapshot.
+  private resyncing: ServerDesyncMessage | null = null;
+  private resyncTimeout: NodeJS.Timeout | null = null;
+
   constructor(
     private lobby: LobbyConfig,
     private eventBus: EventBus,
@@ -273,6 +326,9 @@ export class ClientGameRunner {
     this.renderer.initialize();
     this.input.setTransformHandler(this.renderer.transformHandler);
     this.input.initialize();
+    if (this.lobby.gameRecord !== undefined) {
+      this.startReplay(this.lobby.gameRecord.num_turns);
+    }
     this.worker.start((gu: GameUpdateViewData | ErrorUpdate) => {
       if (this.lobby.gameStartInfo === undefined) {
         throw new Error("missing gameStartInfo");
@@ -352,6 +408,10 @@ export class ClientGameRunner {
 
       this.gameView.update(gu);
       this.renderer.tick();
+      if (gu.fullSync) {
+        // The map may have changed anywhere, e.g. after a replay seek.
+        this.eventBus.emit(new RefreshGraphicsEvent());
+      }
 
       if (gu.updates[GameUpdateType.Win].length > 0) {
         this.saveGame(gu.updates[GameUpdateType.Win][0]);
@@ -387,19 +447,28 @@ export class ClientGameRunner {
           this.worker.sendTurn(turn);
           this.turnsSeen++;
         }
+        if (this.lobby.savedTurns !== undefined) {
+          this.restoreSavedGame();
+        }
       }
       if (message.type === "desync") {
-        if (this.lobby.gameStartInfo === undefined) {
-          throw new Error("missing gameStartInfo");
+        if (this.resyncing !== null) {
+          return;
         }
-        showErrorModal(
-          `desync from server: ${JSON.stringify(message)}`,
-          "",
-          this.lobby.gameStartInfo.gameID,
-          this.lobby.clientID,
-          true,
-          "You are desynced from other players. What you see might differ from other players.",
-        );
+        if (
+          !this.transport.isLocal &&
+          this.resyncAttempts < maxResyncAttempts
+        ) {
+          this.requestResync(message);
+          return;
+        }
+        this.showDesyncError(message);
+      }
+      if (message.type === "snapshot_request") {
+        this.sendSnapshot(message.clientID);
+      }
+      if (message.type === "snapshot") {
+        this.resync(message.snapshot);
       }
       if (message.type === "turn") {
         if (!this.hasJoined) {
@@ -481,9 +550,113 @@ export class ClientGameRunner {
     this.transport.connect(onconnect, onmessage);
   }
 
+  private startReplay(numTurns: number) {
+    this.eventBus.emit(new ReplayTimelineEvent(numTurns, []));
+    this.worker.onReplayEvents((events) =>
+      this.eventBus.emit(new ReplayTimelineEvent(numTurns, events)),
+    );
+    this.eventBus.on(ReplaySeekEvent, (e) => this.onReplaySeek(e));
+  }
+
+  private async onReplaySeek(event: ReplaySeekEvent) {
+    if (!this.isActive || this.seeking) {
+      return;
+    }
+    // Missing turns are delivered synchronously through onmessage.
+    const target = this.transport.startReplaySeek(event.turn);
+    this.seeking = true;
+    try {
+      await this.worker.replaySeek(target);
+    } catch (error) {
+      consolex.error(`failed to seek replay to turn ${target}: ${error}`);
+    } finally {
+      // The local server has cut its turns at the target either way, so
+      // playback continues from there.
+      this.turnsSeen = target;
+      this.transport.finishReplaySeek();
+      this.seeking = false;
+    }
+  }
+
+  // Skips rendering the saved turns, the worker executes them all at once
+  // and sends a full sync.
+  private async restoreSavedGame() {
+    try {
+      await this.worker.fastForward();
+    } catch (error) {
+      consolex.error(`failed to fast-forward saved game: ${error}`);
+    } finally {
+      // Turns the worker did not execute run as the game continues.
+      this.transport.finishRestore();
+    }
+  }
+
+  private requestResync(desync: ServerDesyncMessage) {
+    consolex.warn(`desync on turn ${desync.turn}, requesting resync`);
+    this.resyncing = desync;
+    this.resyncAttempts++;
+    this.transport.requestResync();
+    this.resyncTimeout = setTimeout(() => {
+      consolex.warn("no snapshot received, giving up on resync");
+      this.endResync();
+      this.showDesyncError(desync);
+    }, resyncTimeoutMs);
+  }
+
+  // Answers the server on behalf of a desynced client with the state of
+  // this game.
+  private async sendSnapshot(clientID: ClientID) {
+    try {
+      this.transport.sendSnapshot(clientID, await this.worker.snapshot());
+    } catch (error) {
+      consolex.warn(`failed to send snapshot for ${clientID}: ${error}`);
+    }
+  }
+
+  // Replaces the desynced simulation with a peer's. Turns the peer had not
+  // executed yet are already queued in the worker and run after it.
+  private async resync(snapshot: string) {
+    const desync = this.resyncing;
+    if (desync === null) {
+      return;
+    }
+    try {
+      await this.worker.restoreSnapshot(snapshot);
+      consolex.log("resynced from snapshot");
+    } catch (error) {
+      consolex.warn(`failed to restore snapshot: ${error}`);
+      this.showDesyncError(desync);
+    } finally {
+      this.endResync();
+    }
+  }
+
+  private endResync() {
+    this.resyncing = null;
+    if (this.resyncTimeout) {
+      clearTimeout(this.resyncTimeout);
+      this.resyncTimeout = null;
+    }
+  }
+
+  private showDesyncError(desync: ServerDesyncMessage) {
+    if (this.lobby.gameStartInfo === undefined) {
+      throw new Error("missing gameStartInfo");
+    }
+    showErrorModal(
+      `desync from server: ${JSON.stringify(desync)}`,
+      "",
+      this.lobby.gameStartInfo.gameID,
+      this.lobby.clientID,
+      true,
+      "You are desynced from other players. What you see might differ from other players.",
+    );
+  }
+
   public stop(saveFullGame: boolean = false) {
     this.worker.cleanup();
     this.isActive = false;
+    this.endResync();
     this.transport.leaveGame(saveFullGame);
     if (this.connectionCheckInterval) {
       clearInterval(this.connectionCheckInterval);
@@ -509,6 +682,10 @@ export class ClientGameRunner {
       !this.gameView.hasOwner(tile) &&
       this.gameView.inSpawnPhase()
     ) {
+      if (!this.gameView.inSpawnZone(tile)) {
+        this.eventBus.emit(new SpawnRejectedEvent());
+        return;
+      }
       console.log(
         `[ClientGameRunner] Sending spawn intent for clientID: ${this.lobby.clientID}, username: ${this.lobby.playerName}, cell:`,
         cell,
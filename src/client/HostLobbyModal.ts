@@ -1,32 +1,57 @@
 import { LitElement, html } from "lit";
 import { customElement, query, state } from "lit/decorators.js";
 import randomMap from "../../resources/images/RandomMap.webp";
-import { translateText } from "../client/Utils";
+import { randomMapSeed, translateText } from "../client/Utils";
+import { builtinBalanceProfiles } from "../core/configuration/BalanceProfile";
 import { getServerConfigFromClient } from "../core/configuration/ConfigLoader";
 import { consolex } from "../core/Consolex";
 import {
   Difficulty,
   Duos,
+  GameMapID,
   GameMapType,
   GameMode,
   UnitType,
+  VictoryMode,
   mapCategories,
 } from "../core/game/Game";
-import { GameConfig, GameInfo } from "../core/Schemas";
+import {
+  BalanceProfile,
+  BalanceProfileSchema,
+  GameConfig,
+  GameInfo,
+  VictoryCondition,
+} from "../core/Schemas";
 import { generateID } from "../core/Util";
+import { LobbyUpdateEvent } from "./ClientGameRunner";
 import "./components/baseComponents/Modal";
 import "./components/Difficulties";
 import { DifficultyDescription } from "./components/Difficulties";
+import "./components/LobbyPanel";
+import { LobbyPanel } from "./components/LobbyPanel";
 import "./components/Maps";
 import { JoinLobbyEvent } from "./Main";
 
+// Translation key and default of the setting each victory mode takes.
+const victorySettings: Partial<
+  Record<VictoryMode, { key: string; value: number }>
+> = {
+  [VictoryMode.Score]: { key: "host_modal.victory_minutes", value: 30 },
+  [VictoryMode.KingOfTheHill]: {
+    key: "host_modal.victory_hold_seconds",
+    value: 180,
+  },
+  [VictoryMode.CaptureCities]: { key: "host_modal.victory_cities", value: 3 },
+};
+
 @customElement("host-lobby-modal")
 export class HostLobbyModal extends LitElement {
   @query("o-modal") private modalEl!: HTMLElement & {
     open: () => void;
     close: () => void;
   };
-  @state() private selectedMap: GameMapType = GameMapType.Space1;
+  @state() private selectedMap: GameMapID = GameMapType.Space1;
+  @state() private mapSeed: number = randomMapSeed();
   @state() private selectedDifficulty: Difficulty = Difficulty.Medium;
   @state() private disableNPCs = false;
   @state() private gameMode: GameMode = GameMode.FFA;
@@ -35,16 +60,25 @@ export class HostLobbyModal extends LitElement {
   @state() private infiniteGold: boolean = false;
   @state() private infiniteTroops: boolean = false;
   @state() private instantBuild: boolean = false;
+  @state() private fogOfWar: boolean = false;
   @state() private lobbyId = "";
   @state() private copySuccess = false;
   @state() private players: string[] = [];
   @state() private useRandomMap: boolean = false;
   @state() private disabledUnits: UnitType[] = [];
+  @state() private victoryMode: VictoryMode = VictoryMode.Territory;
+  @state() private victoryValue: number = 0;
+  @state() private balanceProfile: BalanceProfile | null = null;
+  @state() private balanceError: string | null = null;
 
-  private playersInterval: NodeJS.Timeout | null = null;
   // Add a new timer for debouncing bot changes
   private botsUpdateTimer: number | null = null;
 
+  private onLobbyUpdate = (event: Event) => {
+    const { lobby } = (event as CustomEvent<LobbyUpdateEvent>).detail;
+    this.players = lobby.players.map((p) => p.username);
+  };
+
   render() {
     return html`
       <o-modal title=${translateText("host_modal.title")}>
@@ -115,6 +149,25 @@ export class HostLobbyModal extends LitElement {
                   </div>
                 `,
               )}
+              <map-package-list
+                .selected=${this.useRandomMap ? "" : this.selectedMap}
+                @map-selected=${(e: CustomEvent<GameMapID>) =>
+                  this.handleMapSelection(e.detail)}
+              ></map-package-list>
+              ${
+                this.selectedMap === GameMapType.Procedural &&
+                !this.useRandomMap
+                  ? html`<label class="option-card-title">
+                      ${translateText("map.seed")}
+                      <input
+                        type="number"
+                        class="text-black px-1 w-32"
+                        .value=${String(this.mapSeed)}
+                        @change=${this.handleMapSeedChange}
+                      />
+                    </label>`
+                  : html``
+              }
               <div
                 class="option-card random-map ${
                   this.useRandomMap ? "selected" : ""
@@ -213,6 +266,103 @@ export class HostLobbyModal extends LitElement {
                 `
           }
 
+          <!-- Victory Condition Selection -->
+          <div class="options-section">
+            <div class="option-title">
+              ${translateText("host_modal.victory")}
+            </div>
+            <div class="option-cards">
+              ${[
+                [VictoryMode.Territory, "victory_mode.territory"],
+                [VictoryMode.Score, "victory_mode.score"],
+                [VictoryMode.KingOfTheHill, "victory_mode.king_of_the_hill"],
+                [VictoryMode.LastStanding, "victory_mode.last_standing"],
+                [VictoryMode.CaptureCities, "victory_mode.capture_cities"],
+              ].map(
+                ([mode, translationKey]: [VictoryMode, string]) => html`
+                  <div
+                    class="option-card ${this.victoryMode === mode
+                      ? "selected"
+                      : ""}"
+                    @click=${() => this.handleVictoryModeSelection(mode)}
+                  >
+                    <div class="option-card-title">
+                      ${translateText(translationKey)}
+                    </div>
+                  </div>
+                `,
+              )}
+              ${
+                victorySettings[this.victoryMode] === undefined
+                  ? ""
+                  : html`
+                      <label for="victory-value" class="option-card">
+                        <input
+                          type="number"
+                          id="victory-value"
+                          min="1"
+                          .value=${String(this.victoryValue)}
+                          @change=${this.handleVictoryValueChange}
+                        />
+                        <div class="option-card-title">
+                          ${translateText(
+                            victorySettings[this.victoryMode]!.key,
+                          )}
+                        </div>
+                      </label>
+                    `
+              }
+            </div>
+          </div>
+
+          <!-- Balance Profile Selection -->
+          <div class="options-section">
+            <div class="option-title">
+              ${translateText("host_modal.balance")}
+            </div>
+            <div class="option-cards">
+              <div
+                class="option-card ${
+                  this.balanceProfile === null ? "selected" : ""
+                }"
+                @click=${() => this.handleBalanceProfileSelection(null)}
+              >
+                <div class="option-card-title">
+                  ${translateText("host_modal.balance_default")}
+                </div>
+              </div>
+              ${this.balanceProfiles().map(
+                (profile) => html`
+                  <div
+                    class="option-card ${this.balanceProfile === profile
+                      ? "selected"
+                      : ""}"
+                    @click=${() => this.handleBalanceProfileSelection(profile)}
+                  >
+                    <div class="option-card-title">${profile.name}</div>
+                  </div>
+                `,
+              )}
+              <label for="balance-upload" class="option-card">
+                <input
+                  type="file"
+                  id="balance-upload"
+                  accept="application/json,.json"
+                  style="display: none"
+                  @change=${this.handleBalanceProfileUpload}
+                />
+                <div class="option-card-title">
+                  ${translateText("host_modal.balance_upload")}
+                </div>
+              </label>
+            </div>
+            ${
+              this.balanceError === null
+                ? ""
+                : html`<div class="option-title">${this.balanceError}</div>`
+            }
+          </div>
+
           <!-- Game Options -->
           <div class="options-section">
             <div class="option-title">
@@ -303,6 +453,22 @@ export class HostLobbyModal extends LitElement {
                   </div>
                 </label>
 
+                <label
+                  for="fog-of-war"
+                  class="option-card ${this.fogOfWar ? "selected" : ""}"
+                >
+                  <div class="checkbox-icon"></div>
+                  <input
+                    type="checkbox"
+                    id="fog-of-war"
+                    @change=${this.handleFogOfWarChange}
+                    .checked=${this.fogOfWar}
+                  />
+                  <div class="option-card-title">
+                    ${translateText("host_modal.fog_of_war")}
+                  </div>
+                </label>
+
                 <hr style="width: 100%; border-top: 1px solid #444; margin: 16px 0;" />
 
                 <!-- Individual disables for structures/weapons -->
@@ -385,11 +551,7 @@ export class HostLobbyModal extends LitElement {
             }
           </div>
 
-          <div class="players-list">
-            ${this.players.map(
-              (player) => html`<span class="player-tag">${player}</span>`,
-            )}
-          </div>
+          <lobby-panel></lobby-panel>
         </div>
 
         <div class="start-game-button-container">
@@ -415,6 +577,16 @@ export class HostLobbyModal extends LitElement {
     return this;
   }
 
+  connectedCallback() {
+    super.connectedCallback();
+    document.addEventListener("lobby-update", this.onLobbyUpdate);
+  }
+
+  disconnectedCallback() {
+    document.removeEventListener("lobby-update", this.onLobbyUpdate);
+    super.disconnectedCallback();
+  }
+
   public open() {
     createLobby()
       .then((lobby) => {
@@ -434,16 +606,13 @@ export class HostLobbyModal extends LitElement {
         );
       });
     this.modalEl?.open();
-    this.playersInterval = setInterval(() => this.pollPlayers(), 1000);
   }
 
   public close() {
     this.modalEl?.close();
     this.copySuccess = false;
-    if (this.playersInterval) {
-      clearInterval(this.playersInterval);
-      this.playersInterval = null;
-    }
+    this.players = [];
+    this.querySelector<LobbyPanel>("lobby-panel")?.reset();
     // Clear any pending bot updates
     if (this.botsUpdateTimer !== null) {
       clearTimeout(this.botsUpdateTimer);
@@ -456,12 +625,24 @@ export class HostLobbyModal extends LitElement {
     this.putGameConfig();
   }
 
-  private async handleMapSelection(value: GameMapType) {
+  private async handleMapSelection(value: GameMapID) {
     this.selectedMap = value;
     this.useRandomMap = false;
+    // Picking the procedural map again rolls a new one.
+    if (value === GameMapType.Procedural) {
+      this.mapSeed = randomMapSeed();
+    }
     this.putGameConfig();
   }
 
+  private async handleMapSeedChange(e: Event) {
+    const seed = parseInt((e.target as HTMLInputElement).value);
+    if (Number.isInteger(seed)) {
+      this.mapSeed = seed;
+      this.putGameConfig();
+    }
+  }
+
   private async handleDifficultySelection(value: Difficulty) {
     this.selectedDifficulty = value;
     this.putGameConfig();
@@ -504,6 +685,11 @@ export class HostLobbyModal extends LitElement {
     this.putGameConfig();
   }
 
+  private handleFogOfWarChange(e: Event) {
+    this.fogOfWar = Boolean((e.target as HTMLInputElement).checked);
+    this.putGameConfig();
+  }
+
   private async handleDisableNPCsChange(e: Event) {
     this.disableNPCs = Boolean((e.target as HTMLInputElement).checked);
     consolex.log(`updating disable npcs to ${this.disableNPCs}`);
@@ -515,6 +701,79 @@ export class HostLobbyModal extends LitElement {
     this.putGameConfig();
   }
 
+  private async handleVictoryModeSelection(value: VictoryMode) {
+    this.victoryMode = value;
+    this.victoryValue = victorySettings[value]?.value ?? 0;
+    this.putGameConfig();
+  }
+
+  private async handleVictoryValueChange(e: Event) {
+    const value = parseInt((e.target as HTMLInputElement).value);
+    if (isNaN(value) || value < 1) {
+      return;
+    }
+    this.victoryValue = value;
+    this.putGameConfig();
+  }
+
+  private victoryCondition(): VictoryCondition {
+    switch (this.victoryMode) {
+      case VictoryMode.Score:
+        return { mode: this.victoryMode, durationMinutes: this.victoryValue };
+      case VictoryMode.KingOfTheHill:
+        return { mode: this.victoryMode, holdSeconds: this.victoryValue };
+      case VictoryMode.CaptureCities:
+        return { mode: this.victoryMode, count: this.victoryValue };
+      default:
+        return { mode: this.victoryMode };
+    }
+  }
+
+  // The built-in profiles, followed by the uploaded one.
+  private balanceProfiles(): BalanceProfile[] {
+    if (
+      this.balanceProfile === null ||
+      builtinBalanceProfiles.includes(this.balanceProfile)
+    ) {
+      return builtinBalanceProfiles;
+    }
+    return [...builtinBalanceProfiles, this.balanceProfile];
+  }
+
+  private async handleBalanceProfileSelection(profile: BalanceProfile | null) {
+    this.balanceProfile = profile;
+    this.balanceError = null;
+    this.putGameConfig();
+  }
+
+  private async handleBalanceProfileUpload(e: Event) {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = "";
+    if (file === undefined) {
+      return;
+    }
+    let json: unknown;
+    try {
+      json = JSON.parse(await file.text());
+    } catch (error) {
+      this.balanceError = translateText("host_modal.balance_invalid", {
+        error: String(error),
+      });
+      return;
+    }
+    const result = BalanceProfileSchema.safeParse(json);
+    if (!result.success) {
+      this.balanceError = translateText("host_modal.balance_invalid", {
+        error: result.error.issues
+          .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+          .join(", "),
+      });
+      return;
+    }
+    this.handleBalanceProfileSelection(result.data);
+  }
+
   private async handleTeamCountSelection(value: number | typeof Duos) {
     this.teamCount = value === Duos ? Duos : Number(value);
     this.putGameConfig();
@@ -531,15 +790,22 @@ export class HostLobbyModal extends LitElement {
         },
         body: JSON.stringify({
           gameMap: this.selectedMap,
+          mapSeed:
+            this.selectedMap === GameMapType.Procedural
+              ? this.mapSeed
+              : undefined,
           difficulty: this.selectedDifficulty,
           disableNPCs: this.disableNPCs,
           bots: this.bots,
           infiniteGold: this.infiniteGold,
           infiniteTroops: this.infiniteTroops,
           instantBuild: this.instantBuild,
+          fogOfWar: this.fogOfWar,
           gameMode: this.gameMode,
           disabledUnits: this.disabledUnits,
           playerTeams: this.teamCount,
+          victory: this.victoryCondition(),
+          balance: this.balanceProfile ?? undefined,
         } satisfies Partial<GameConfig>),
       },
     );
@@ -589,24 +855,6 @@ export class HostLobbyModal extends LitElement {
       consolex.error(`Failed to copy text: ${err}`);
     }
   }
-
-  private async pollPlayers() {
-    const config = await getServerConfigFromClient();
-    fetch(
-      `${process.env.API_URL}/${config.workerPath(this.lobbyId)}/api/game/${this.lobbyId}`,
-      {
-        method: "GET",
-        headers: {
-          "Content-Type": "application/json",
-        },
-      },
-    )
-      .then((response) => response.json())
-      .then((data: GameInfo) => {
-        console.log(`got game info response: ${JSON.stringify(data)}`);
-        this.players = data.clients?.map((p) => p.username) ?? [];
-      });
-  }
 }
 
 async function createLobby(): Promise<GameInfo> {
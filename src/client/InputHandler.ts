@@ -1,5 +1,5 @@
 import { EventBus, GameEvent } from "../core/EventBus";
-import { Cell, UnitType } from "../core/game/Game";
+import { Cell, UnitType, WarshipOrder } from "../core/game/Game";
 import { UnitView } from "../core/game/GameView";
 import { UserSettings } from "../core/game/UserSettings";
 import { MultiSelectModeEvent } from "./graphics/layers/MultiSelectButton";
@@ -107,6 +107,26 @@ export class HotkeyTransportShipEvent implements GameEvent {
   ) {}
 }
 
+/**
+ * Ctrl+1..9 saves the selected warships as a control group, Shift+1..9
+ * selects the group again
+ */
+export class ControlGroupEvent implements GameEvent {
+  constructor(
+    public readonly group: number,
+    public readonly assign: boolean,
+  ) {}
+}
+
+export class CycleFormationEvent implements GameEvent {}
+
+/**
+ * The next order given to the selected warships
+ */
+export class WarshipOrderModeEvent implements GameEvent {
+  constructor(public readonly order: WarshipOrder) {}
+}
+
 export class SelectionBoxStartEvent implements GameEvent {
   constructor(
     public readonly startCell: Cell,
@@ -223,6 +243,10 @@ export class InputHandler {
       moveRight: "KeyD",
       zoomOut: "KeyQ",
       zoomIn: "KeyE",
+      cycleFormation: "KeyF",
+      attackMove: "KeyX",
+      patrol: "KeyP",
+      escort: "KeyV",
       ...JSON.parse(localStorage.getItem("settings.keybinds") ?? "{}"),
     };
 
@@ -350,6 +374,11 @@ export class InputHandler {
         this.eventBus.emit(new CloseViewEvent());
       }
 
+      // Keep the browser from switching tabs on Ctrl+1..9
+      if (e.ctrlKey && /^Digit[1-9]$/.test(e.code)) {
+        e.preventDefault();
+      }
+
       if (
         [
           keybinds.moveUp,
@@ -388,6 +417,36 @@ export class InputHandler {
         this.eventBus.emit(new RefreshGraphicsEvent());
       }
 
+      const controlGroup = /^Digit([1-9])$/.exec(e.code);
+      if (controlGroup !== null && (e.ctrlKey || e.shiftKey)) {
+        e.preventDefault();
+        this.eventBus.emit(
+          new ControlGroupEvent(Number(controlGroup[1]), e.ctrlKey),
+        );
+        this.activeKeys.delete(e.code);
+        return;
+      }
+
+      if (e.code === keybinds.cycleFormation) {
+        e.preventDefault();
+        this.eventBus.emit(new CycleFormationEvent());
+      }
+
+      if (e.code === keybinds.attackMove) {
+        e.preventDefault();
+        this.eventBus.emit(new WarshipOrderModeEvent(WarshipOrder.AttackMove));
+      }
+
+      if (e.code === keybinds.patrol) {
+        e.preventDefault();
+        this.eventBus.emit(new WarshipOrderModeEvent(WarshipOrder.Patrol));
+      }
+
+      if (e.code === keybinds.escort) {
+        e.preventDefault();
+        this.eventBus.emit(new WarshipOrderModeEvent(WarshipOrder.Escort));
+      }
+
       // Hotkey 1 - Colony
       if (e.code === "Digit1") {
         e.preventDefault();
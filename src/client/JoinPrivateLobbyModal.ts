@@ -2,10 +2,13 @@ import { LitElement, html } from "lit";
 import { customElement, query, state } from "lit/decorators.js";
 import { translateText } from "../client/Utils";
 import { consolex } from "../core/Consolex";
-import { GameInfo, GameRecord } from "../core/Schemas";
+import { GameRecord } from "../core/Schemas";
 import { generateID } from "../core/Util";
 import { getServerConfigFromClient } from "../core/configuration/ConfigLoader";
+import { LobbyUpdateEvent } from "./ClientGameRunner";
 import { JoinLobbyEvent } from "./Main";
+import "./components/LobbyPanel";
+import { LobbyPanel } from "./components/LobbyPanel";
 import "./components/baseComponents/Button";
 import "./components/baseComponents/Modal";
 @customElement("join-private-lobby-modal")
@@ -19,7 +22,10 @@ export class JoinPrivateLobbyModal extends LitElement {
   @state() private hasJoined = false;
   @state() private players: string[] = [];
 
-  private playersInterval: NodeJS.Timeout | null = null;
+  private onLobbyUpdate = (event: Event) => {
+    const { lobby } = (event as CustomEvent<LobbyUpdateEvent>).detail;
+    this.players = lobby.players.map((p) => p.username);
+  };
 
   render() {
     return html`
@@ -64,21 +70,23 @@ export class JoinPrivateLobbyModal extends LitElement {
                     : translateText("private_lobby.players")}
                 </div>
 
-                <div class="players-list">
-                  ${this.players.map(
-                    (player) => html`<span class="player-tag">${player}</span>`,
-                  )}
-                </div>
+                <lobby-panel></lobby-panel>
               </div>`
             : ""}
         </div>
         <div class="flex justify-center">
           ${!this.hasJoined
             ? html` <o-button
-                title=${translateText("private_lobby.join_lobby")}
-                block
-                @click=${this.joinLobby}
-              ></o-button>`
+                  title=${translateText("private_lobby.join_lobby")}
+                  block
+                  @click=${() => this.joinLobby()}
+                ></o-button>
+                <o-button
+                  title=${translateText("private_lobby.spectate")}
+                  block
+                  secondary
+                  @click=${() => this.joinLobby(true)}
+                ></o-button>`
             : ""}
         </div>
       </o-modal>
@@ -89,6 +97,16 @@ export class JoinPrivateLobbyModal extends LitElement {
     return this; // light DOM
   }
 
+  connectedCallback() {
+    super.connectedCallback();
+    document.addEventListener("lobby-update", this.onLobbyUpdate);
+  }
+
+  disconnectedCallback() {
+    document.removeEventListener("lobby-update", this.onLobbyUpdate);
+    super.disconnectedCallback();
+  }
+
   public open(id: string = "") {
     this.modalEl?.open();
     if (id) {
@@ -100,10 +118,8 @@ export class JoinPrivateLobbyModal extends LitElement {
   public close() {
     this.lobbyIdInput.value = "";
     this.modalEl?.close();
-    if (this.playersInterval) {
-      clearInterval(this.playersInterval);
-      this.playersInterval = null;
-    }
+    this.players = [];
+    this.querySelector<LobbyPanel>("lobby-panel")?.reset();
   }
 
   public closeAndLeave() {
@@ -149,14 +165,14 @@ export class JoinPrivateLobbyModal extends LitElement {
     }
   }
 
-  private async joinLobby(): Promise<void> {
+  private async joinLobby(spectate: boolean = false): Promise<void> {
     const lobbyId = this.lobbyIdInput.value;
     consolex.log(`Joining lobby with ID: ${lobbyId}`);
     this.message = `${translateText("private_lobby.checking")}`;
 
     try {
       // First, check if the game exists in active lobbies
-      const gameExists = await this.checkActiveLobby(lobbyId);
+      const gameExists = await this.checkActiveLobby(lobbyId, spectate);
       if (gameExists) return;
 
       // If not active, check archived games
@@ -170,7 +186,10 @@ export class JoinPrivateLobbyModal extends LitElement {
     }
   }
 
-  private async checkActiveLobby(lobbyId: string): Promise<boolean> {
+  private async checkActiveLobby(
+    lobbyId: string,
+    spectate: boolean,
+  ): Promise<boolean> {
     const config = await getServerConfigFromClient();
     const url = `/${config.workerPath(lobbyId)}/api/game/${lobbyId}/exists`;
 
@@ -182,7 +201,11 @@ export class JoinPrivateLobbyModal extends LitElement {
     const gameInfo = await response.json();
 
     if (gameInfo.exists) {
-      this.message = translateText("private_lobby.joined_waiting");
+      this.message = translateText(
+        spectate
+          ? "private_lobby.spectating_waiting"
+          : "private_lobby.joined_waiting",
+      );
       this.hasJoined = true;
 
       // Add a delay for player 2 to ensure server is ready
@@ -196,14 +219,13 @@ export class JoinPrivateLobbyModal extends LitElement {
             detail: {
               gameID: lobbyId,
               clientID: clientID,
+              spectate,
             } as JoinLobbyEvent,
             bubbles: true,
             composed: true,
           }),
         );
       }, 1500); // 1.5 second delay to ensure server is ready
-
-      this.playersInterval = setInterval(() => this.pollPlayers(), 1000);
       return true;
     }
 
@@ -254,26 +276,4 @@ export class JoinPrivateLobbyModal extends LitElement {
 
     return false;
   }
-
-  private async pollPlayers() {
-    if (!this.lobbyIdInput?.value) return;
-    const config = await getServerConfigFromClient();
-
-    fetch(
-      `/${config.workerPath(this.lobbyIdInput.value)}/api/game/${this.lobbyIdInput.value}`,
-      {
-        method: "GET",
-        headers: {
-          "Content-Type": "application/json",
-        },
-      },
-    )
-      .then((response) => response.json())
-      .then((data: GameInfo) => {
-        this.players = data.clients?.map((p) => p.username) ?? [];
-      })
-      .catch((error) => {
-        consolex.error("Error polling players:", error);
-      });
-  }
 }
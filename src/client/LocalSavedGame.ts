@@ -0,0 +1,71 @@
+import { consolex } from "../core/Consolex";
+import { GameStartInfo, Turn } from "../core/Schemas";
+
+// A singleplayer game in progress. The simulation is deterministic, so the
+// start info and the turns are enough to rebuild the game.
+export interface SavedGame {
+  gameStartInfo: GameStartInfo;
+  turns: Turn[];
+  savedAt: number;
+}
+
+const dbName = "solarfront";
+const storeName = "saved-games";
+// Only the last singleplayer game can be continued.
+const saveKey = "singleplayer";
+
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(dbName, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(storeName);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest,
+): Promise<T | null> {
+  if (typeof indexedDB === "undefined") {
+    return null;
+  }
+  try {
+    const db = await openDB();
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(storeName, mode);
+      const request = action(tx.objectStore(storeName));
+      tx.oncomplete = () => {
+        db.close();
+        resolve(request.result);
+      };
+      tx.onerror = () => {
+        db.close();
+        reject(tx.error);
+      };
+    });
+  } catch (error) {
+    consolex.warn(`LocalSavedGame: ${error}`);
+    return null;
+  }
+}
+
+export function saveGame(save: SavedGame): Promise<void> {
+  return withStore<IDBValidKey>("readwrite", (store) =>
+    store.put(save, saveKey),
+  ).then(() => {});
+}
+
+export function loadSavedGame(): Promise<SavedGame | null> {
+  return withStore<SavedGame | undefined>("readonly", (store) =>
+    store.get(saveKey),
+  ).then((save) => save ?? null);
+}
+
+export function clearSavedGame(): Promise<void> {
+  return withStore<undefined>("readwrite", (store) =>
+    store.delete(saveKey),
+  ).then(() => {});
+}
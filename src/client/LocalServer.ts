@@ -13,8 +13,15 @@ import {
 } from "../core/Schemas";
 import { createGameRecord, decompressGameRecord } from "../core/Util";
 import { LobbyConfig } from "./ClientGameRunner";
+import { clearSavedGame, saveGame } from "./LocalSavedGame";
 import { getPersistentIDFromCookie } from "./Main";
 
+// Turns a replay may send ahead of the worker executing them.
+const maxReplayBacklog = 40;
+
+// Singleplayer games are saved every 30 seconds of game time.
+const autosaveIntervalTurns = 300;
+
 export class LocalServer {
   // All turns from the game record on replay.
   private replayTurns: Turn[] = [];
@@ -26,6 +33,12 @@ export class LocalServer {
 
   private paused = false;
 
+  private replaySpeed = 1;
+  private lastReplayTurnTime = 0;
+  private seeking = false;
+  // Set while the client fast-forwards through the turns of a saved game.
+  private restoring = false;
+
   private winner: ClientSendWinnerMessage | null = null;
   private allPlayersStats: AllPlayersStats = {};
 
@@ -43,15 +56,18 @@ export class LocalServer {
 
   start() {
     this.turnCheckInterval = setInterval(() => {
-      if (this.turnsExecuted === this.turns.length) {
-        if (
-          this.isReplay ||
-          Date.now() >
-            this.lastTurnCompletedTime +
-              this.lobbyConfig.serverConfig.turnIntervalMs()
-        ) {
-          this.endTurn();
-        }
+      if (this.isReplay) {
+        this.sendReplayTurns();
+        return;
+      }
+      if (
+        !this.restoring &&
+        this.turnsExecuted === this.turns.length &&
+        Date.now() >
+          this.lastTurnCompletedTime +
+            this.lobbyConfig.serverConfig.turnIntervalMs()
+      ) {
+        this.endTurn();
       }
     }, 5);
 
@@ -65,16 +81,27 @@ export class LocalServer {
     if (this.lobbyConfig.gameStartInfo === undefined) {
       throw new Error("missing gameStartInfo");
     }
+    if (this.lobbyConfig.savedTurns !== undefined) {
+      this.turns = [...this.lobbyConfig.savedTurns];
+      this.restoring = true;
+    }
     this.clientMessage(
       ServerStartGameMessageSchema.parse({
         type: "start",
         gameID: this.lobbyConfig.gameStartInfo.gameID,
         gameStartInfo: this.lobbyConfig.gameStartInfo,
-        turns: [],
+        turns: this.turns,
       }),
     );
   }
 
+  // Called once the client has executed the turns of the saved game.
+  finishRestore() {
+    this.turnsExecuted = this.turns.length;
+    this.lastTurnCompletedTime = Date.now();
+    this.restoring = false;
+  }
+
   pause() {
     this.paused = true;
   }
@@ -83,6 +110,32 @@ export class LocalServer {
     this.paused = false;
   }
 
+  setReplaySpeed(speed: number) {
+    this.replaySpeed = speed;
+  }
+
+  /**
+   * Rewinds or fast-forwards the turn log to `turn`, sending the client any
+   * archived turns it does not have yet. Returns the clamped turn. Turns stop
+   * being sent until finishReplaySeek() is called.
+   */
+  startReplaySeek(turn: number): number {
+    const target = Math.max(0, Math.min(turn, this.replayTurns.length));
+    this.seeking = true;
+    while (this.turns.length < target) {
+      this.sendReplayTurn();
+    }
+    this.turns.length = target;
+    return target;
+  }
+
+  // Called once the client has rebuilt its state at the seeked turn.
+  finishReplaySeek() {
+    this.turnsExecuted = this.turns.length;
+    this.lastReplayTurnTime = Date.now();
+    this.seeking = false;
+  }
+
   onMessage(message: string) {
     const clientMsg: ClientMessage = ClientMessageSchema.parse(
       JSON.parse(message),
@@ -145,17 +198,49 @@ export class LocalServer {
     this.lastTurnCompletedTime = Date.now();
   }
 
+  // Sends archived turns at the replay speed. Keeps running once all turns
+  // are sent so the viewer can still seek back.
+  private sendReplayTurns() {
+    const now = Date.now();
+    if (this.paused || this.seeking) {
+      this.lastReplayTurnTime = now;
+      return;
+    }
+    const interval =
+      this.lobbyConfig.serverConfig.turnIntervalMs() / this.replaySpeed;
+    const due = Math.floor((now - this.lastReplayTurnTime) / interval);
+    const count = Math.min(
+      due,
+      maxReplayBacklog - (this.turns.length - this.turnsExecuted),
+      this.replayTurns.length - this.turns.length,
+    );
+    for (let i = 0; i < count; i++) {
+      this.sendReplayTurn();
+    }
+    if (count < due) {
+      // Worker is behind or the replay is over, don't build up a burst.
+      this.lastReplayTurnTime = now;
+    } else {
+      this.lastReplayTurnTime += count * interval;
+    }
+  }
+
+  private sendReplayTurn() {
+    const turn: Turn = {
+      turnNumber: this.turns.length,
+      intents: this.replayTurns[this.turns.length].intents,
+    };
+    this.turns.push(turn);
+    this.clientMessage({
+      type: "turn",
+      turn,
+    });
+  }
+
   private endTurn() {
     if (this.paused) {
       return;
     }
-    if (this.replayTurns.length > 0) {
-      if (this.turns.length >= this.replayTurns.length) {
-        this.endGame();
-        return;
-      }
-      this.intents = this.replayTurns[this.turns.length].intents;
-    }
     const pastTurn: Turn = {
       turnNumber: this.turns.length,
       intents: this.intents,
@@ -166,6 +251,20 @@ export class LocalServer {
       type: "turn",
       turn: pastTurn,
     });
+    if (this.turns.length % autosaveIntervalTurns === 0) {
+      this.autosave();
+    }
+  }
+
+  private autosave() {
+    if (this.lobbyConfig.gameStartInfo === undefined) {
+      return;
+    }
+    saveGame({
+      gameStartInfo: this.lobbyConfig.gameStartInfo,
+      turns: this.turns,
+      savedAt: Date.now(),
+    });
   }
 
   public endGame(saveFullGame: boolean = false) {
@@ -174,6 +273,11 @@ export class LocalServer {
     if (this.isReplay) {
       return;
     }
+    if (this.winner !== null) {
+      clearSavedGame();
+    } else if (!this.restoring) {
+      this.autosave();
+    }
     const players: PlayerRecord[] = [
       {
         ip: null,
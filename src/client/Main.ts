@@ -1,7 +1,7 @@
 import page from "page";
 import favicon from "../../resources/images/Favicon.svg";
 import { consolex } from "../core/Consolex";
-import { GameRecord, GameStartInfo } from "../core/Schemas";
+import { GameRecord, GameStartInfo, Turn } from "../core/Schemas";
 import { CursorManager } from "./CursorManager";
 import { getServerConfigFromClient } from "../core/configuration/ConfigLoader";
 import { GameType } from "../core/game/Game";
@@ -18,6 +18,7 @@ import { JoinPrivateLobbyModal } from "./JoinPrivateLobbyModal";
 import "./LangSelector";
 import { LangSelector } from "./LangSelector";
 import { LanguageModal } from "./LanguageModal";
+import { MapEditorModal } from "./MapEditorModal";
 import { NewsModal } from "./NewsModal";
 import "./PublicLobby";
 import { PublicLobby } from "./PublicLobby";
@@ -45,6 +46,9 @@ export interface JoinLobbyEvent {
   // GameRecord exists when replaying an archived game.
   gameRecord?: GameRecord;
   persistentID?: string; // Added for sandbox mode to override default
+  spectate?: boolean;
+  // Continues an autosaved singleplayer game from these turns.
+  savedTurns?: Turn[];
 }
 
 class Client {
@@ -171,6 +175,14 @@ class Client {
       });
     }
 
+    const mapEditorModal = document.querySelector(
+      "map-editor-modal",
+    ) as MapEditorModal;
+    mapEditorModal instanceof MapEditorModal;
+    document.getElementById("map-editor")?.addEventListener("click", () => {
+      mapEditorModal.open();
+    });
+
     // const ctModal = document.querySelector("chat-modal") as ChatModal;
     // ctModal instanceof ChatModal;
     // document.getElementById("chat-button").addEventListener("click", () => {
@@ -282,6 +294,8 @@ class Client {
         clientID: lobby.clientID,
         gameStartInfo: lobby.gameStartInfo ?? lobby.gameRecord?.gameStartInfo,
         gameRecord: lobby.gameRecord,
+        spectator: lobby.spectate,
+        savedTurns: lobby.savedTurns,
       },
       () => {
         console.log("Closing modals");
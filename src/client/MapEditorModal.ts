@@ -0,0 +1,393 @@
+import { LitElement, html } from "lit";
+import { customElement, query, state } from "lit/decorators.js";
+import { translateText } from "../client/Utils";
+import { SpawnZone } from "../core/game/Game";
+import {
+  MapManifest,
+  MapManifestSchema,
+  manifestErrors,
+} from "../core/game/MapPackage";
+import "./components/baseComponents/Button";
+import "./components/baseComponents/Modal";
+
+type Nation = MapManifest["nations"][number];
+
+/**
+ * Offline editor for map package manifests: load the terrain PNG, click on
+ * the preview to place nations or drag to draw spawn zones, then download
+ * the manifest.json to put next to terrain.png in resources/maps/packages.
+ */
+@customElement("map-editor-modal")
+export class MapEditorModal extends LitElement {
+  @query("o-modal") private modalEl!: HTMLElement & {
+    open: () => void;
+    close: () => void;
+  };
+  @query("#map-editor-canvas") private canvas!: HTMLCanvasElement;
+
+  @state() private mapId = "";
+  @state() private mapName = "";
+  @state() private author = "";
+  @state() private description = "";
+  @state() private nations: Nation[] = [];
+  @state() private spawnZones: SpawnZone[] = [];
+  @state() private tool: "nation" | "zone" = "nation";
+  @state() private selectedNation: number | null = null;
+  @state() private errors: string[] = [];
+
+  private terrain: HTMLImageElement | null = null;
+  private dragStart: [number, number] | null = null;
+
+  createRenderRoot() {
+    return this;
+  }
+
+  render() {
+    return html`
+      <o-modal title=${translateText("map_editor.title")}>
+        <div class="flex flex-col gap-3 text-white">
+          <div class="flex flex-wrap gap-3 items-center">
+            <label>
+              ${translateText("map_editor.terrain")}
+              <input
+                type="file"
+                accept="image/png"
+                @change=${this.handleTerrainFile}
+              />
+            </label>
+            <label>
+              ${translateText("map_editor.import")}
+              <input
+                type="file"
+                accept="application/json"
+                @change=${this.handleManifestFile}
+              />
+            </label>
+          </div>
+          <div class="flex flex-wrap gap-3">
+            ${this.renderTextInput("map_editor.id", this.mapId, (v) => {
+              this.mapId = v;
+            })}
+            ${this.renderTextInput("map_editor.name", this.mapName, (v) => {
+              this.mapName = v;
+            })}
+            ${this.renderTextInput("map_editor.author", this.author, (v) => {
+              this.author = v;
+            })}
+            ${this.renderTextInput(
+              "map_editor.description",
+              this.description,
+              (v) => {
+                this.description = v;
+              },
+            )}
+          </div>
+          <div class="flex gap-3 items-center">
+            <label>
+              <input
+                type="radio"
+                name="map-editor-tool"
+                .checked=${this.tool === "nation"}
+                @change=${() => (this.tool = "nation")}
+              />
+              ${translateText("map_editor.place_nations")}
+            </label>
+            <label>
+              <input
+                type="radio"
+                name="map-editor-tool"
+                .checked=${this.tool === "zone"}
+                @change=${() => (this.tool = "zone")}
+              />
+              ${translateText("map_editor.draw_spawn_zones")}
+            </label>
+          </div>
+          <canvas
+            id="map-editor-canvas"
+            class="w-full border border-gray-600"
+            style="image-rendering: pixelated; cursor: crosshair;"
+            @mousedown=${this.handleMouseDown}
+            @mouseup=${this.handleMouseUp}
+          ></canvas>
+          ${this.renderNations()} ${this.renderSpawnZones()}
+          ${this.errors.length > 0
+            ? html`<ul class="text-red-400">
+                ${this.errors.map((e) => html`<li>${e}</li>`)}
+              </ul>`
+            : html``}
+        </div>
+        <o-button
+          title=${translateText("map_editor.export")}
+          @click=${this.exportManifest}
+          blockDesktop
+        ></o-button>
+      </o-modal>
+    `;
+  }
+
+  private renderTextInput(
+    key: string,
+    value: string,
+    onInput: (value: string) => void,
+  ) {
+    return html`
+      <label class="flex flex-col">
+        ${translateText(key)}
+        <input
+          type="text"
+          class="text-black px-1"
+          .value=${value}
+          @input=${(e: Event) => onInput((e.target as HTMLInputElement).value)}
+        />
+      </label>
+    `;
+  }
+
+  private renderNations() {
+    return html`
+      <div>
+        <div class="font-bold">${translateText("map_editor.nations")}</div>
+        ${this.nations.map(
+          (nation, i) => html`
+            <div
+              class="flex gap-2 items-center ${this.selectedNation === i
+                ? "bg-blue-900"
+                : ""}"
+              @click=${() => this.selectNation(i)}
+            >
+              <span class="w-20">${nation.coordinates.join(", ")}</span>
+              <input
+                type="text"
+                class="text-black px-1"
+                .value=${nation.name}
+                @input=${(e: Event) =>
+                  this.updateNation(i, {
+                    name: (e.target as HTMLInputElement).value,
+                  })}
+              />
+              <input
+                type="number"
+                class="text-black px-1 w-16"
+                min="0.1"
+                step="0.1"
+                title=${translateText("map_editor.strength")}
+                .value=${String(nation.strength)}
+                @input=${(e: Event) =>
+                  this.updateNation(i, {
+                    strength: Number((e.target as HTMLInputElement).value),
+                  })}
+              />
+              <button @click=${() => this.removeNation(i)}>✕</button>
+            </div>
+          `,
+        )}
+      </div>
+    `;
+  }
+
+  private renderSpawnZones() {
+    if (this.spawnZones.length === 0) {
+      return html``;
+    }
+    return html`
+      <div>
+        <div class="font-bold">${translateText("map_editor.spawn_zones")}</div>
+        ${this.spawnZones.map(
+          (zone, i) => html`
+            <div class="flex gap-2 items-center">
+              <span>
+                ${zone.x}, ${zone.y} (${zone.width} × ${zone.height})
+              </span>
+              <button @click=${() => this.removeSpawnZone(i)}>✕</button>
+            </div>
+          `,
+        )}
+      </div>
+    `;
+  }
+
+  private handleTerrainFile(e: Event) {
+    const file = (e.target as HTMLInputElement).files?.[0];
+    if (!file) return;
+    const image = new Image();
+    image.onload = () => {
+      this.terrain = image;
+      this.canvas.width = image.width;
+      this.canvas.height = image.height;
+      this.draw();
+    };
+    image.src = URL.createObjectURL(file);
+  }
+
+  private async handleManifestFile(e: Event) {
+    const file = (e.target as HTMLInputElement).files?.[0];
+    if (!file) return;
+    let json: unknown;
+    try {
+      json = JSON.parse(await file.text());
+    } catch (error) {
+      this.errors = [String(error)];
+      return;
+    }
+    const result = MapManifestSchema.safeParse(json);
+    if (!result.success) {
+      this.errors = result.error.issues.map(
+        (issue) => `${issue.path.join(".")}: ${issue.message}`,
+      );
+      return;
+    }
+    const manifest = result.data;
+    this.mapId = manifest.id;
+    this.mapName = manifest.name;
+    this.author = manifest.author ?? "";
+    this.description = manifest.description ?? "";
+    this.nations = manifest.nations;
+    this.spawnZones = manifest.spawnZones;
+    this.selectedNation = null;
+    this.errors = [];
+    this.draw();
+  }
+
+  // Pixel of the terrain under the mouse.
+  private terrainPixel(e: MouseEvent): [number, number] | null {
+    if (this.terrain === null) return null;
+    const rect = this.canvas.getBoundingClientRect();
+    const x = Math.floor(
+      ((e.clientX - rect.left) / rect.width) * this.canvas.width,
+    );
+    const y = Math.floor(
+      ((e.clientY - rect.top) / rect.height) * this.canvas.height,
+    );
+    return [
+      Math.max(0, Math.min(this.canvas.width - 1, x)),
+      Math.max(0, Math.min(this.canvas.height - 1, y)),
+    ];
+  }
+
+  private handleMouseDown(e: MouseEvent) {
+    this.dragStart = this.terrainPixel(e);
+  }
+
+  private handleMouseUp(e: MouseEvent) {
+    const start = this.dragStart;
+    const end = this.terrainPixel(e);
+    this.dragStart = null;
+    if (start === null || end === null) return;
+
+    if (this.tool === "nation") {
+      this.nations = [
+        ...this.nations,
+        {
+          coordinates: end,
+          name: `Nation ${this.nations.length + 1}`,
+          strength: 1,
+          flag: "",
+        },
+      ];
+      this.selectedNation = this.nations.length - 1;
+    } else {
+      const x = Math.min(start[0], end[0]);
+      const y = Math.min(start[1], end[1]);
+      const width = Math.abs(end[0] - start[0]) + 1;
+      const height = Math.abs(end[1] - start[1]) + 1;
+      this.spawnZones = [...this.spawnZones, { x, y, width, height }];
+    }
+    this.draw();
+  }
+
+  private selectNation(i: number) {
+    this.selectedNation = i;
+    this.draw();
+  }
+
+  private updateNation(i: number, update: Partial<Nation>) {
+    this.nations = this.nations.map((n, j) =>
+      j === i ? { ...n, ...update } : n,
+    );
+    this.draw();
+  }
+
+  private removeNation(i: number) {
+    this.nations = this.nations.filter((_, j) => j !== i);
+    this.selectedNation = null;
+    this.draw();
+  }
+
+  private removeSpawnZone(i: number) {
+    this.spawnZones = this.spawnZones.filter((_, j) => j !== i);
+    this.draw();
+  }
+
+  private draw() {
+    const ctx = this.canvas?.getContext("2d");
+    if (!ctx || this.terrain === null) return;
+    ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    ctx.drawImage(this.terrain, 0, 0);
+
+    // Scale markers with the map so they stay visible on large maps.
+    const radius = Math.max(3, this.canvas.width / 200);
+    ctx.lineWidth = radius / 2;
+    ctx.strokeStyle = "rgba(255, 215, 0, 0.9)";
+    ctx.fillStyle = "rgba(255, 215, 0, 0.2)";
+    for (const zone of this.spawnZones) {
+      ctx.fillRect(zone.x, zone.y, zone.width, zone.height);
+      ctx.strokeRect(zone.x, zone.y, zone.width, zone.height);
+    }
+
+    ctx.font = `${radius * 3}px sans-serif`;
+    ctx.textAlign = "center";
+    this.nations.forEach((nation, i) => {
+      const [x, y] = nation.coordinates;
+      ctx.fillStyle = i === this.selectedNation ? "#4a9eff" : "#ff4a4a";
+      ctx.beginPath();
+      ctx.arc(x, y, radius, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillStyle = "white";
+      ctx.fillText(nation.name, x, y - radius * 1.5);
+    });
+  }
+
+  private exportManifest() {
+    if (this.terrain === null) {
+      this.errors = [translateText("map_editor.no_terrain")];
+      return;
+    }
+    const result = MapManifestSchema.safeParse({
+      id: this.mapId,
+      name: this.mapName,
+      author: this.author || undefined,
+      description: this.description || undefined,
+      nations: this.nations,
+      spawnZones: this.spawnZones,
+    });
+    if (!result.success) {
+      this.errors = result.error.issues.map(
+        (issue) => `${issue.path.join(".")}: ${issue.message}`,
+      );
+      return;
+    }
+    this.errors = manifestErrors(
+      result.data,
+      this.terrain.width,
+      this.terrain.height,
+    );
+    if (this.errors.length > 0) return;
+
+    const blob = new Blob([JSON.stringify(result.data, null, 2) + "\n"], {
+      type: "application/json",
+    });
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(blob);
+    link.download = "manifest.json";
+    link.click();
+    URL.revokeObjectURL(link.href);
+  }
+
+  public open() {
+    this.modalEl?.open();
+  }
+
+  public close() {
+    this.modalEl?.close();
+  }
+}
@@ -1,11 +1,12 @@
 import { LitElement, html } from "lit";
 import { customElement, query, state } from "lit/decorators.js";
 import randomMap from "../../resources/images/RandomMap.webp";
-import { translateText } from "../client/Utils";
+import { randomMapSeed, translateText } from "../client/Utils";
 import { consolex } from "../core/Consolex";
 import {
   Difficulty,
   Duos,
+  GameMapID,
   GameMapType,
   GameMode,
   GameType,
@@ -19,6 +20,7 @@ import "./components/Difficulties";
 import { DifficultyDescription } from "./components/Difficulties";
 import "./components/Maps";
 import { FlagInput } from "./FlagInput";
+import { loadSavedGame, SavedGame } from "./LocalSavedGame";
 import { JoinLobbyEvent } from "./Main";
 import { UsernameInput } from "./UsernameInput";
 
@@ -28,7 +30,8 @@ export class SinglePlayerModal extends LitElement {
     open: () => void;
     close: () => void;
   };
-  @state() private selectedMap: GameMapType = GameMapType.Space1;
+  @state() private selectedMap: GameMapID = GameMapType.Space1;
+  @state() private mapSeed: number = randomMapSeed();
   @state() private selectedDifficulty: Difficulty = Difficulty.Medium;
   @state() private disableNPCs: boolean = false;
   @state() private disableNukes: boolean = false;
@@ -36,16 +39,21 @@ export class SinglePlayerModal extends LitElement {
   @state() private infiniteGold: boolean = false;
   @state() private infiniteTroops: boolean = false;
   @state() private instantBuild: boolean = false;
+  @state() private fogOfWar: boolean = false;
   @state() private useRandomMap: boolean = false;
   @state() private gameMode: GameMode = GameMode.FFA;
   @state() private teamCount: number | typeof Duos = 2;
 
   @state() private disabledUnits: string[] = [];
 
+  // Autosave of the last unfinished game, if any.
+  @state() private savedGame: SavedGame | null = null;
+
   render() {
     return html`
       <o-modal title=${translateText("single_modal.title")}>
         <div class="options-layout">
+          ${this.renderSavedGame()}
           <!-- Map Selection -->
           <div class="options-section">
             <div class="option-title">${translateText("map.map")}</div>
@@ -83,6 +91,23 @@ export class SinglePlayerModal extends LitElement {
                   </div>
                 `,
               )}
+              <map-package-list
+                .selected=${this.useRandomMap ? "" : this.selectedMap}
+                @map-selected=${(e: CustomEvent<GameMapID>) =>
+                  this.handleMapSelection(e.detail)}
+              ></map-package-list>
+              ${this.selectedMap === GameMapType.Procedural &&
+              !this.useRandomMap
+                ? html`<label class="option-card-title">
+                    ${translateText("map.seed")}
+                    <input
+                      type="number"
+                      class="text-black px-1 w-32"
+                      .value=${String(this.mapSeed)}
+                      @change=${this.handleMapSeedChange}
+                    />
+                  </label>`
+                : html``}
               <div
                 class="option-card random-map ${this.useRandomMap
                   ? "selected"
@@ -272,6 +297,22 @@ export class SinglePlayerModal extends LitElement {
                   ${translateText("single_modal.infinite_troops")}
                 </div>
               </label>
+
+              <label
+                for="singleplayer-modal-fog-of-war"
+                class="option-card ${this.fogOfWar ? "selected" : ""}"
+              >
+                <div class="checkbox-icon"></div>
+                <input
+                  type="checkbox"
+                  id="singleplayer-modal-fog-of-war"
+                  @change=${this.handleFogOfWarChange}
+                  .checked=${this.fogOfWar}
+                />
+                <div class="option-card-title">
+                  ${translateText("single_modal.fog_of_war")}
+                </div>
+              </label>
             </div>
 
             <hr
@@ -344,9 +385,41 @@ export class SinglePlayerModal extends LitElement {
     return this; // light DOM
   }
 
+  private renderSavedGame() {
+    if (this.savedGame === null) {
+      return html``;
+    }
+    const { gameStartInfo, turns, savedAt } = this.savedGame;
+    const mapKey = Object.keys(GameMapType).find(
+      (key) => GameMapType[key] === gameStartInfo.config.gameMap,
+    );
+    // Turns are 100ms apart.
+    const minutes = Math.floor(turns.length / 600);
+    return html`
+      <div class="options-section">
+        <div class="option-title">
+          ${translateText("single_modal.saved_game")}
+        </div>
+        <p class="text-center text-gray-300 mb-2">
+          ${translateText("single_modal.saved_game_info", {
+            map: translateText(`map.${mapKey?.toLowerCase()}`),
+            minutes,
+            date: new Date(savedAt).toLocaleString(),
+          })}
+        </p>
+        <o-button
+          title=${translateText("single_modal.continue")}
+          @click=${this.continueGame}
+          blockDesktop
+        ></o-button>
+      </div>
+    `;
+  }
+
   public open() {
     this.modalEl?.open();
     this.useRandomMap = false;
+    loadSavedGame().then((save) => (this.savedGame = save));
   }
 
   public close() {
@@ -357,9 +430,20 @@ export class SinglePlayerModal extends LitElement {
     this.useRandomMap = true;
   }
 
-  private handleMapSelection(value: GameMapType) {
+  private handleMapSelection(value: GameMapID) {
     this.selectedMap = value;
     this.useRandomMap = false;
+    // Picking the procedural map again rolls a new one.
+    if (value === GameMapType.Procedural) {
+      this.mapSeed = randomMapSeed();
+    }
+  }
+
+  private handleMapSeedChange(e: Event) {
+    const seed = parseInt((e.target as HTMLInputElement).value);
+    if (Number.isInteger(seed)) {
+      this.mapSeed = seed;
+    }
   }
 
   private handleDifficultySelection(value: Difficulty) {
@@ -386,6 +470,10 @@ export class SinglePlayerModal extends LitElement {
     this.infiniteTroops = Boolean((e.target as HTMLInputElement).checked);
   }
 
+  private handleFogOfWarChange(e: Event) {
+    this.fogOfWar = Boolean((e.target as HTMLInputElement).checked);
+  }
+
   private handleDisableNPCsChange(e: Event) {
     this.disableNPCs = Boolean((e.target as HTMLInputElement).checked);
   }
@@ -409,6 +497,29 @@ export class SinglePlayerModal extends LitElement {
     return maps[randIdx];
   }
 
+  private continueGame() {
+    if (this.savedGame === null) {
+      return;
+    }
+    const { gameStartInfo, turns } = this.savedGame;
+    consolex.log(
+      `Continuing single player game ${gameStartInfo.gameID} at turn ${turns.length}`,
+    );
+    this.dispatchEvent(
+      new CustomEvent("join-lobby", {
+        detail: {
+          clientID: gameStartInfo.players[0].clientID,
+          gameID: gameStartInfo.gameID,
+          gameStartInfo,
+          savedTurns: turns,
+        } as JoinLobbyEvent,
+        bubbles: true,
+        composed: true,
+      }),
+    );
+    this.close();
+  }
+
   private startGame() {
     // If random map is selected, choose a random map now
     if (this.useRandomMap) {
@@ -452,6 +563,10 @@ export class SinglePlayerModal extends LitElement {
             ],
             config: {
               gameMap: this.selectedMap,
+              mapSeed:
+                this.selectedMap === GameMapType.Procedural
+                  ? this.mapSeed
+                  : undefined,
               gameType: GameType.Singleplayer,
               gameMode: this.gameMode,
               playerTeams: this.teamCount,
@@ -462,6 +577,7 @@ export class SinglePlayerModal extends LitElement {
               infiniteGold: this.infiniteGold,
               infiniteTroops: this.infiniteTroops,
               instantBuild: this.instantBuild,
+              fogOfWar: this.fogOfWar,
               disabledUnits: this.disabledUnits,
             },
           },
@@ -9,7 +9,9 @@ import {
   Team,
   Tick,
   UnitType,
+  WarshipOrder,
 } from "../core/game/Game";
+import { TileRef } from "../core/game/GameMap";
 import { PlayerView } from "../core/game/GameView";
 import {
   AllPlayersStats,
@@ -17,13 +19,18 @@ import {
   ClientID,
   ClientIntentMessage,
   ClientJoinMessage,
+  ClientLobbyMessage,
   ClientLogMessage,
   ClientPingMessage,
   ClientPlayerDataMessage,
+  ClientResyncMessage,
   ClientSendWinnerMessage,
+  ClientSnapshotMessage,
   Intent,
+  LobbyAction,
   ServerMessage,
   ServerMessageSchema,
+  WarshipMovement,
 } from "../core/Schemas";
 import { LobbyConfig } from "./ClientGameRunner";
 import { LocalServer } from "./LocalServer";
@@ -32,6 +39,14 @@ export class PauseGameEvent implements GameEvent {
   constructor(public readonly paused: boolean) {}
 }
 
+export class ReplaySpeedEvent implements GameEvent {
+  constructor(public readonly speed: number) {}
+}
+
+export class ReplaySeekEvent implements GameEvent {
+  constructor(public readonly turn: number) {}
+}
+
 export class SendAllianceRequestIntentEvent implements GameEvent {
   constructor(
     public readonly requestor: PlayerView,
@@ -82,6 +97,32 @@ export class BuildUnitIntentEvent implements GameEvent {
   ) {}
 }
 
+export class UpgradeStructureIntentEvent implements GameEvent {
+  constructor(public readonly unitId: number) {}
+}
+
+export class CancelQueuedShipIntentEvent implements GameEvent {
+  constructor(
+    public readonly portId: number,
+    public readonly entryId: number,
+  ) {}
+}
+
+export class ReorderQueuedShipIntentEvent implements GameEvent {
+  constructor(
+    public readonly portId: number,
+    public readonly entryId: number,
+    public readonly index: number,
+  ) {}
+}
+
+export class SetRallyPointIntentEvent implements GameEvent {
+  constructor(
+    public readonly portId: number,
+    public readonly tile: TileRef | null,
+  ) {}
+}
+
 export class SendTargetPlayerIntentEvent implements GameEvent {
   constructor(public readonly targetID: PlayerID) {}
 }
@@ -141,6 +182,16 @@ export class SendEmbargoIntentEvent implements GameEvent {
   ) {}
 }
 
+export class SendTradeAgreementIntentEvent implements GameEvent {
+  constructor(
+    public readonly partner: PlayerView,
+    public readonly action: "offer" | "cancel",
+    // Percent of the trade gold kept by this player.
+    public readonly share: number,
+    public readonly duration: Tick,
+  ) {}
+}
+
 export class CancelAttackIntentEvent implements GameEvent {
   constructor(
     public readonly playerID: PlayerID,
@@ -209,7 +260,16 @@ export class MoveWarshipIntentEvent implements GameEvent {
 
 export class BatchMoveWarshipsIntentEvent implements GameEvent {
   constructor(
-    public readonly movements: Array<{ unitId: number; targetTile: number }>,
+    public readonly movements: WarshipMovement[],
+    public readonly order: WarshipOrder = WarshipOrder.Move,
+  ) {}
+}
+
+export class EscortTradeIntentEvent implements GameEvent {
+  constructor(
+    public readonly unitIds: number[],
+    public readonly port: number,
+    public readonly destination: number | null,
   ) {}
 }
 
@@ -277,6 +337,9 @@ export class Transport {
     this.eventBus.on(SendEmbargoIntentEvent, (e) =>
       this.onSendEmbargoIntent(e),
     );
+    this.eventBus.on(SendTradeAgreementIntentEvent, (e) =>
+      this.onSendTradeAgreementIntent(e),
+    );
     this.eventBus.on(SendSetTargetTroopRatioEvent, (e) =>
       this.onSendSetTargetTroopRatioEvent(e),
     );
@@ -287,9 +350,22 @@ export class Transport {
       this.onSendAutoPlayAttackRatioUpdateEvent(e),
     );
     this.eventBus.on(BuildUnitIntentEvent, (e) => this.onBuildUnitIntent(e));
+    this.eventBus.on(UpgradeStructureIntentEvent, (e) =>
+      this.onUpgradeStructureIntent(e),
+    );
+    this.eventBus.on(CancelQueuedShipIntentEvent, (e) =>
+      this.onCancelQueuedShipIntent(e),
+    );
+    this.eventBus.on(ReorderQueuedShipIntentEvent, (e) =>
+      this.onReorderQueuedShipIntent(e),
+    );
+    this.eventBus.on(SetRallyPointIntentEvent, (e) =>
+      this.onSetRallyPointIntent(e),
+    );
 
     this.eventBus.on(SendLogEvent, (e) => this.onSendLogEvent(e));
     this.eventBus.on(PauseGameEvent, (e) => this.onPauseGameEvent(e));
+    this.eventBus.on(ReplaySpeedEvent, (e) => this.onReplaySpeedEvent(e));
     this.eventBus.on(SendWinnerEvent, (e) => this.onSendWinnerEvent(e));
     this.eventBus.on(SendPlayerDataEvent, (e) => this.onSendPlayerDataEvent(e));
     this.eventBus.on(SendHashEvent, (e) => this.onSendHashEvent(e));
@@ -302,6 +378,7 @@ export class Transport {
     this.eventBus.on(BatchMoveWarshipsIntentEvent, (e) => {
       this.onBatchMoveWarshipsEvent(e);
     });
+    this.eventBus.on(EscortTradeIntentEvent, (e) => this.onEscortTradeEvent(e));
     this.eventBus.on(SendWhisperEvent, (e) => this.onSendWhisperIntent(e));
   }
 
@@ -417,6 +494,20 @@ export class Transport {
     }
   }
 
+  // Replay only, see LocalServer.startReplaySeek.
+  public startReplaySeek(turn: number): number {
+    return this.localServer.startReplaySeek(turn);
+  }
+
+  public finishReplaySeek() {
+    this.localServer.finishReplaySeek();
+  }
+
+  // Singleplayer only, see LocalServer.finishRestore.
+  public finishRestore() {
+    this.localServer.finishRestore();
+  }
+
   private onSendLogEvent(event: SendLogEvent) {
     this.sendMsg(
       JSON.stringify({
@@ -438,10 +529,41 @@ export class Transport {
         username: this.lobbyConfig.playerName,
         flag: this.lobbyConfig.flag,
         walletAddress: this.lobbyConfig.walletAddress || null,
+        spectator: this.lobbyConfig.spectator ?? false,
       } satisfies ClientJoinMessage),
     );
   }
 
+  // Asks the server for a snapshot of another client's game after a desync.
+  requestResync() {
+    this.sendMsg(
+      JSON.stringify({
+        type: "resync",
+      } satisfies ClientResyncMessage),
+    );
+  }
+
+  // Answers a snapshot_request, the server relays it to the desynced client.
+  sendSnapshot(clientID: ClientID, snapshot: string) {
+    this.sendMsg(
+      JSON.stringify({
+        type: "snapshot",
+        clientID,
+        snapshot,
+      } satisfies ClientSnapshotMessage),
+    );
+  }
+
+  // Chat, ready and host actions while waiting in a private lobby.
+  sendLobbyAction(action: LobbyAction) {
+    this.sendMsg(
+      JSON.stringify({
+        type: "lobby",
+        action,
+      } satisfies ClientLobbyMessage),
+    );
+  }
+
   leaveGame(saveFullGame: boolean = false) {
     if (this.isLocal) {
       this.localServer.endGame(saveFullGame);
@@ -593,6 +715,17 @@ export class Transport {
     });
   }
 
+  private onSendTradeAgreementIntent(event: SendTradeAgreementIntentEvent) {
+    this.sendIntent({
+      type: "trade_agreement",
+      clientID: this.lobbyConfig.clientID,
+      partner: event.partner.id(),
+      action: event.action,
+      share: event.share,
+      duration: event.duration,
+    });
+  }
+
   private onSendSetTargetTroopRatioEvent(event: SendSetTargetTroopRatioEvent) {
     this.sendIntent({
       type: "troop_ratio",
@@ -632,6 +765,42 @@ export class Transport {
     });
   }
 
+  private onUpgradeStructureIntent(event: UpgradeStructureIntentEvent) {
+    this.sendIntent({
+      type: "upgrade_structure",
+      clientID: this.lobbyConfig.clientID,
+      unitId: event.unitId,
+    });
+  }
+
+  private onCancelQueuedShipIntent(event: CancelQueuedShipIntentEvent) {
+    this.sendIntent({
+      type: "cancel_queued_ship",
+      clientID: this.lobbyConfig.clientID,
+      unitId: event.portId,
+      entryId: event.entryId,
+    });
+  }
+
+  private onReorderQueuedShipIntent(event: ReorderQueuedShipIntentEvent) {
+    this.sendIntent({
+      type: "reorder_queued_ship",
+      clientID: this.lobbyConfig.clientID,
+      unitId: event.portId,
+      entryId: event.entryId,
+      index: event.index,
+    });
+  }
+
+  private onSetRallyPointIntent(event: SetRallyPointIntentEvent) {
+    this.sendIntent({
+      type: "set_rally_point",
+      clientID: this.lobbyConfig.clientID,
+      unitId: event.portId,
+      tile: event.tile,
+    });
+  }
+
   private onPauseGameEvent(event: PauseGameEvent) {
     if (!this.isLocal) {
       console.log(`cannot pause multiplayer games`);
@@ -644,6 +813,13 @@ export class Transport {
     }
   }
 
+  private onReplaySpeedEvent(event: ReplaySpeedEvent) {
+    if (this.lobbyConfig.gameRecord === undefined) {
+      return;
+    }
+    this.localServer.setReplaySpeed(event.speed);
+  }
+
   private onSendWinnerEvent(event: SendWinnerEvent) {
     if (this.isLocal || this.socket?.readyState === WebSocket.OPEN) {
       const msg = {
@@ -732,6 +908,17 @@ export class Transport {
       type: "batch_move_warships",
       clientID: this.lobbyConfig.clientID,
       movements: event.movements,
+      order: event.order,
+    });
+  }
+
+  private onEscortTradeEvent(event: EscortTradeIntentEvent) {
+    this.sendIntent({
+      type: "escort_trade",
+      clientID: this.lobbyConfig.clientID,
+      unitIds: event.unitIds,
+      port: event.port,
+      destination: event.destination,
     });
   }
 
@@ -746,6 +933,10 @@ export class Transport {
   }
 
   private sendIntent(intent: Intent) {
+    if (this.lobbyConfig.spectator) {
+      // The server ignores intents from spectators anyway.
+      return;
+    }
     if (this.isLocal || this.socket?.readyState === WebSocket.OPEN) {
       const msg = {
         type: "intent",
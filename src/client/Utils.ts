@@ -73,6 +73,11 @@ export function generateCryptoRandomUUID(): string {
   );
 }
 
+// Seed for a new procedural map.
+export function randomMapSeed(): number {
+  return Math.floor(Math.random() * 0x7fffffff);
+}
+
 // Re-export translateText from LangSelector
 export const translateText = (
   key: string,
@@ -0,0 +1,166 @@
+import { LitElement, html } from "lit";
+import { customElement, state } from "lit/decorators.js";
+import { GameMode } from "../../core/game/Game";
+import { ClientID, LobbyAction, ServerLobbyMessage } from "../../core/Schemas";
+import { LobbyUpdateEvent } from "../ClientGameRunner";
+import { translateText } from "../Utils";
+
+/**
+ * Players, ready checks and chat of the private lobby this client waits
+ * in. The host also gets kick and ban buttons and the auto start toggle.
+ */
+@customElement("lobby-panel")
+export class LobbyPanel extends LitElement {
+  @state() private lobby: ServerLobbyMessage | null = null;
+  @state() private clientID: ClientID | null = null;
+  @state() private chatInput = "";
+
+  private onLobbyUpdate = (event: Event) => {
+    const { lobby, clientID } = (event as CustomEvent<LobbyUpdateEvent>).detail;
+    this.lobby = lobby;
+    this.clientID = clientID;
+  };
+
+  createRenderRoot() {
+    return this; // light DOM
+  }
+
+  connectedCallback() {
+    super.connectedCallback();
+    document.addEventListener("lobby-update", this.onLobbyUpdate);
+  }
+
+  disconnectedCallback() {
+    document.removeEventListener("lobby-update", this.onLobbyUpdate);
+    super.disconnectedCallback();
+  }
+
+  // Forgets the lobby, called when the modal around it closes.
+  public reset() {
+    this.lobby = null;
+    this.chatInput = "";
+  }
+
+  private send(action: LobbyAction) {
+    document.dispatchEvent(new CustomEvent("lobby-action", { detail: action }));
+  }
+
+  private sendChat() {
+    const message = this.chatInput.trim();
+    if (message === "") {
+      return;
+    }
+    this.send({ kind: "chat", message: message.slice(0, 200) });
+    this.chatInput = "";
+  }
+
+  render() {
+    if (this.lobby === null) {
+      return html``;
+    }
+    const lobby = this.lobby;
+    const isHost = lobby.hostClientID === this.clientID;
+    const me = lobby.players.find((p) => p.clientID === this.clientID);
+    return html`
+      ${isHost
+        ? ""
+        : html`<div class="option-title">
+            ${translateText(
+              `map.${lobby.gameConfig.gameMap.toLowerCase().replace(/\s+/g, "")}`,
+            )}
+            ·
+            ${lobby.gameConfig.gameMode === GameMode.Team
+              ? translateText("game_mode.teams")
+              : translateText("game_mode.ffa")}
+          </div>`}
+      <div class="players-list">
+        ${lobby.players.map(
+          (player) => html`
+            <span class="player-tag">
+              ${player.ready ? "✓ " : ""}${player.username}
+              ${player.clientID === lobby.hostClientID
+                ? html`&nbsp;(${translateText("lobby_panel.host")})`
+                : ""}
+              ${isHost && player.clientID !== this.clientID
+                ? html`
+                    <button
+                      class="ml-2 text-gray-400 hover:text-white"
+                      title=${translateText("lobby_panel.kick")}
+                      @click=${() =>
+                        this.send({
+                          kind: "kick",
+                          target: player.clientID,
+                          ban: false,
+                        })}
+                    >
+                      ✕
+                    </button>
+                    <button
+                      class="ml-1 text-gray-400 hover:text-red-400"
+                      title=${translateText("lobby_panel.ban")}
+                      @click=${() =>
+                        this.send({
+                          kind: "kick",
+                          target: player.clientID,
+                          ban: true,
+                        })}
+                    >
+                      ⛔
+                    </button>
+                  `
+                : ""}
+            </span>
+          `,
+        )}
+      </div>
+      <div class="flex justify-center gap-4 my-2">
+        ${me !== undefined
+          ? html`<button
+              class="player-tag ${me.ready ? "bg-green-700" : ""}"
+              @click=${() => this.send({ kind: "ready", ready: !me.ready })}
+            >
+              ${me.ready
+                ? translateText("lobby_panel.not_ready")
+                : translateText("lobby_panel.ready")}
+            </button>`
+          : ""}
+        ${isHost
+          ? html`<label class="player-tag cursor-pointer">
+              <input
+                type="checkbox"
+                class="mr-2"
+                .checked=${lobby.autoStart}
+                @change=${(e: Event) =>
+                  this.send({
+                    kind: "auto_start",
+                    enabled: (e.target as HTMLInputElement).checked,
+                  })}
+              />
+              ${translateText("lobby_panel.auto_start")}
+            </label>`
+          : ""}
+      </div>
+      <div
+        class="mx-4 p-2 h-32 overflow-y-auto text-sm text-left text-white bg-black/30 rounded"
+      >
+        ${lobby.chat.map(
+          (msg) => html`<div><b>${msg.username}:</b> ${msg.message}</div>`,
+        )}
+      </div>
+      ${me !== undefined
+        ? html`<input
+            type="text"
+            class="mx-4 mt-2 p-1 w-[calc(100%-2rem)] text-sm text-black rounded"
+            maxlength="200"
+            placeholder=${translateText("lobby_panel.chat_placeholder")}
+            .value=${this.chatInput}
+            @input=${(e: Event) =>
+              (this.chatInput = (e.target as HTMLInputElement).value)}
+            @keydown=${(e: KeyboardEvent) => {
+              if (e.key === "Enter") this.sendChat();
+            }}
+          />`
+        : ""}
+    `;
+  }
+}
@@ -1,6 +1,9 @@
 import { LitElement, css, html } from "lit";
-import { customElement, property } from "lit/decorators.js";
-import { GameMapType } from "../../core/game/Game";
+import { customElement, property, state } from "lit/decorators.js";
+import { GameMapID, GameMapType } from "../../core/game/Game";
+import { MapPackageInfo } from "../../core/game/MapPackage";
+import { terrainMapFileLoader } from "../../core/game/TerrainMapFileLoader";
+import { translateText } from "../Utils";
 import { getMapsImage } from "../utilities/Maps";
 
 // Add map descriptions
@@ -9,6 +12,7 @@ export const MapDescription: Record<keyof typeof GameMapType, string> = {
   Space2: "Space2",
   FacingWorlds: "Facing Worlds",
   Testmap: "Test Map",
+  Procedural: "Procedural",
 };
 
 @customElement("map-display")
@@ -16,6 +20,8 @@ export class MapDisplay extends LitElement {
   @property({ type: String }) mapKey = "";
   @property({ type: Boolean }) selected = false;
   @property({ type: String }) translation: string = "";
+  // Overrides the built-in thumbnail, used for map packages.
+  @property({ type: String }) image = "";
 
   static styles = css`
     .option-card {
@@ -68,12 +74,13 @@ export class MapDisplay extends LitElement {
 
   render() {
     const mapValue = GameMapType[this.mapKey as keyof typeof GameMapType];
+    const image = this.image || getMapsImage(mapValue);
 
     return html`
       <div class="option-card ${this.selected ? "selected" : ""}">
-        ${getMapsImage(mapValue)
+        ${image
           ? html`<img
-              src="${getMapsImage(mapValue)}"
+              src="${image}"
               alt="${this.mapKey}"
               class="option-image"
             />`
@@ -89,3 +96,84 @@ export class MapDisplay extends LitElement {
     `;
   }
 }
+
+/**
+ * Cards for the map packages in the registry. Renders nothing when no
+ * package is registered, fires `map-selected` with the map id on click.
+ */
+@customElement("map-package-list")
+export class MapPackageList extends LitElement {
+  @property({ type: String }) selected: GameMapID = "";
+  @state() private packages: MapPackageInfo[] = [];
+  @state() private thumbnails = new Map<string, string>();
+
+  createRenderRoot() {
+    return this;
+  }
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.loadPackages();
+  }
+
+  private async loadPackages() {
+    try {
+      this.packages = await terrainMapFileLoader.mapPackages();
+    } catch (error) {
+      console.error("could not load map packages", error);
+      return;
+    }
+    for (const pkg of this.packages) {
+      terrainMapFileLoader
+        .thumbnail(pkg.id)
+        .then((url) => {
+          this.thumbnails = new Map(this.thumbnails).set(pkg.id, url);
+        })
+        .catch(() => {});
+    }
+  }
+
+  private select(map: GameMapID) {
+    this.dispatchEvent(
+      new CustomEvent("map-selected", {
+        detail: map,
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
+  render() {
+    if (this.packages.length === 0) {
+      return html``;
+    }
+    return html`
+      <div class="w-full mb-4">
+        <h3 class="text-lg font-semibold mb-2 text-center text-gray-300">
+          ${translateText("map_categories.community")}
+        </h3>
+        <div class="flex flex-row flex-wrap justify-center gap-4">
+          ${this.packages.map(
+            (pkg) => html`
+              <div
+                @click=${() => this.select(pkg.id)}
+                title=${pkg.author
+                  ? translateText("map_editor.by_author", {
+                      author: pkg.author,
+                    })
+                  : ""}
+              >
+                <map-display
+                  .mapKey=${pkg.id}
+                  .image=${this.thumbnails.get(pkg.id) ?? ""}
+                  .selected=${this.selected === pkg.id}
+                  .translation=${pkg.name}
+                ></map-display>
+              </div>
+            `,
+          )}
+        </div>
+      </div>
+    `;
+  }
+}
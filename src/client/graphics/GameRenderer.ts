@@ -12,6 +12,7 @@ import { ChatModal } from "./layers/ChatModal";
 import { ControlPanel } from "./layers/ControlPanel";
 import { EmojiTable } from "./layers/EmojiTable";
 import { EventsDisplay } from "./layers/EventsDisplay";
+import { FogLayer } from "./layers/FogLayer";
 import { HotkeyBar } from "./layers/HotkeyBar";
 import { Layer } from "./layers/Layer";
 import { Leaderboard } from "./layers/Leaderboard";
@@ -23,11 +24,14 @@ import { OptionsMenu } from "./layers/OptionsMenu";
 import { PlayerInfoOverlay } from "./layers/PlayerInfoOverlay";
 import { PlayerPanel } from "./layers/PlayerPanel";
 import { RadialMenu } from "./layers/RadialMenu";
+import { ReplayPanel } from "./layers/ReplayPanel";
 import { SpawnGuidancePopup } from "./layers/SpawnGuidancePopup";
 import { SpawnTimer } from "./layers/SpawnTimer";
+import { SpawnZoneLayer } from "./layers/SpawnZoneLayer";
 import { TutorialPopup } from "./layers/TutorialPopup";
 import { StructureLayer } from "./layers/StructureLayer";
 import { TeamStats } from "./layers/TeamStats";
+import { TradeDashboard } from "./layers/TradeDashboard";
 import { TerrainLayer } from "./layers/TerrainLayer";
 import { TerritoryLayer } from "./layers/TerritoryLayer";
 import { TopBar } from "./layers/TopBar";
@@ -84,6 +88,16 @@ export function createRenderer(
   teamStats.eventBus = eventBus;
   teamStats.game = game;
 
+  const tradeDashboard = document.querySelector(
+    "trade-dashboard",
+  ) as TradeDashboard;
+  if (!(tradeDashboard instanceof TradeDashboard)) {
+    consolex.error("TradeDashboard element not found in the DOM");
+  }
+  tradeDashboard.clientID = clientID;
+  tradeDashboard.eventBus = eventBus;
+  tradeDashboard.game = game;
+
   const controlPanel = document.querySelector("control-panel") as ControlPanel;
   if (!(controlPanel instanceof ControlPanel)) {
     consolex.error("ControlPanel element not found in the DOM");
@@ -152,6 +166,13 @@ export function createRenderer(
   optionsMenu.eventBus = eventBus;
   optionsMenu.game = game;
 
+  const replayPanel = document.querySelector("replay-panel") as ReplayPanel;
+  if (!(replayPanel instanceof ReplayPanel)) {
+    console.error("replay panel not found");
+  }
+  replayPanel.eventBus = eventBus;
+  replayPanel.game = game;
+
   const topBar = document.querySelector("top-bar") as TopBar;
   if (!(topBar instanceof TopBar)) {
     console.error("top bar not found");
@@ -185,8 +206,10 @@ export function createRenderer(
   const layers: Layer[] = [
     new TerrainLayer(game, transformHandler),
     new TerritoryLayer(game, eventBus),
+    new SpawnZoneLayer(game),
     new StructureLayer(game, eventBus, transformHandler),
     new UnitLayer(game, eventBus, clientID, transformHandler),
+    new FogLayer(game),
     new UILayer(game, eventBus, clientID, transformHandler),
     new NameLayer(game, transformHandler, clientID),
     new MusicController(game), // Add music controller to handle background music
@@ -212,7 +235,9 @@ export function createRenderer(
     playerInfo,
     winModel,
     optionsMenu,
+    replayPanel,
     teamStats,
+    tradeDashboard,
     topBar,
     playerPanel,
     multiTabModal,
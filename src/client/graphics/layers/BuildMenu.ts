@@ -14,10 +14,18 @@ import shieldIcon from "../../../../resources/images/ShieldIconWhite.svg";
 import orbitalCannonIcon from "../../../../resources/images/OrbitalCannon.svg";
 import { translateText } from "../../../client/Utils";
 import { EventBus } from "../../../core/EventBus";
-import { Cell, PlayerActions, UnitType } from "../../../core/game/Game";
+import {
+  Cell,
+  PlayerActions,
+  UnitType,
+  UpgradeableUnit,
+} from "../../../core/game/Game";
 import { TileRef } from "../../../core/game/GameMap";
 import { GameView } from "../../../core/game/GameView";
-import { BuildUnitIntentEvent } from "../../Transport";
+import {
+  BuildUnitIntentEvent,
+  UpgradeStructureIntentEvent,
+} from "../../Transport";
 import { renderNumber } from "../../Utils";
 import { Layer } from "./Layer";
 
@@ -359,12 +367,70 @@ export class BuildMenu extends LitElement implements Layer {
     this.hideMenu();
   };
 
+  public onUpgradeSelected = (upgrade: UpgradeableUnit) => {
+    this.eventBus.emit(new UpgradeStructureIntentEvent(upgrade.unitId));
+    this.hideMenu();
+  };
+
+  private renderUpgrade() {
+    const upgrade = this.playerActions?.upgradeableUnit ?? null;
+    const item = buildTable.flat().find((i) => i.unitType === upgrade?.type);
+    if (upgrade === null || item === undefined) {
+      return "";
+    }
+    const maxLevel = this.game.config().unitInfo(upgrade.type).maxLevel ?? 1;
+    const isMaxLevel = upgrade.level >= maxLevel;
+    return html`
+      <div class="build-row">
+        <button
+          class="build-button"
+          @click=${() => this.onUpgradeSelected(upgrade)}
+          ?disabled=${!upgrade.canUpgrade}
+          title=${!upgrade.canUpgrade && !isMaxLevel
+            ? translateText("build_menu.not_enough_money")
+            : ""}
+        >
+          <img src=${item.icon} alt="${item.unitType}" width="40" height="40" />
+          <span class="build-name"
+            >${translateText("build_menu.upgrade", {
+              unit: item.key ? translateText(item.key) : upgrade.type,
+            })}</span
+          >
+          <span class="build-description"
+            >${isMaxLevel
+              ? translateText("build_menu.max_level")
+              : translateText("build_menu.upgrade_level", {
+                  level: upgrade.level,
+                  next: upgrade.level + 1,
+                })}</span
+          >
+          ${isMaxLevel
+            ? ""
+            : html`<span class="build-cost" translate="no">
+                ${renderNumber(upgrade.cost)}
+                <img
+                  src=${goldCoinIcon}
+                  alt="gold"
+                  width="12"
+                  height="12"
+                  style="vertical-align: middle;"
+                />
+              </span>`}
+          <div class="build-count-chip">
+            <span class="build-count">${upgrade.level}</span>
+          </div>
+        </button>
+      </div>
+    `;
+  }
+
   render() {
     return html`
       <div
         class="build-menu ${this._hidden ? "hidden" : ""}"
         @contextmenu=${(e) => e.preventDefault()}
       >
+        ${this.renderUpgrade()}
         ${this.filteredBuildTable.map(
           (row) => html`
             <div class="build-row">
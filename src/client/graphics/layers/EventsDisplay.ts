@@ -2,7 +2,7 @@ import { html, LitElement } from "lit";
 import { customElement, state } from "lit/decorators.js";
 import { DirectiveResult } from "lit/directive.js";
 import { unsafeHTML, UnsafeHTMLDirective } from "lit/directives/unsafe-html.js";
-import { EventBus } from "../../../core/EventBus";
+import { EventBus, GameEvent } from "../../../core/EventBus";
 import {
   AllPlayers,
   MessageType,
@@ -54,6 +54,10 @@ interface Event {
   unitView?: UnitView;
 }
 
+// Emitted by ClientGameRunner when a spawn click falls outside the map's
+// spawn zones, the server would drop it without a word.
+export class SpawnRejectedEvent implements GameEvent {}
+
 @customElement("events-display")
 export class EventsDisplay extends LitElement implements Layer {
   public eventBus: EventBus;
@@ -99,7 +103,9 @@ export class EventsDisplay extends LitElement implements Layer {
     this.outgoingBoats = [];
   }
 
-  init() {}
+  init() {
+    this.eventBus.on(SpawnRejectedEvent, () => this.onSpawnRejected());
+  }
 
   tick() {
     this.active = true;
@@ -193,6 +199,15 @@ export class EventsDisplay extends LitElement implements Layer {
     });
   }
 
+  onSpawnRejected() {
+    this.addEvent({
+      description: "You can only spawn inside the marked spawn zones",
+      type: MessageType.WARN,
+      highlight: true,
+      createdAt: this.game.ticks(),
+    });
+  }
+
   onAllianceRequestEvent(update: AllianceRequestUpdate) {
     const myPlayer = this.game.playerByClientID(this.clientID);
     if (!myPlayer || update.recipientID !== myPlayer.smallID()) {
@@ -0,0 +1,79 @@
+import { GameView } from "../../../core/game/GameView";
+import { Layer } from "./Layer";
+
+// Alpha of the fog over tiles seen before and over tiles never seen.
+const exploredFogAlpha = 110;
+const unexploredFogAlpha = 200;
+
+/**
+ * Darkens what fog of war hides from this client. Drawn over territory,
+ * structures and units, so what the other layers keep from the last
+ * sighting shows through dimmed.
+ */
+export class FogLayer implements Layer {
+  private canvas: HTMLCanvasElement;
+  private context: CanvasRenderingContext2D;
+  private imageData: ImageData;
+
+  constructor(private game: GameView) {}
+
+  shouldTransform(): boolean {
+    return true;
+  }
+
+  init() {
+    this.redraw();
+  }
+
+  redraw() {
+    this.canvas = document.createElement("canvas");
+    const context = this.canvas.getContext("2d", { alpha: true });
+    if (context === null) throw new Error("2d context not supported");
+    this.context = context;
+    this.canvas.width = this.game.width();
+    this.canvas.height = this.game.height();
+    this.imageData = this.context.createImageData(
+      this.game.width(),
+      this.game.height(),
+    );
+    this.paintFog();
+  }
+
+  tick() {
+    if (this.game.visionUpdated()) {
+      this.paintFog();
+    }
+  }
+
+  renderLayer(context: CanvasRenderingContext2D) {
+    if (!this.game.fogOfWar()) {
+      return;
+    }
+    context.drawImage(
+      this.canvas,
+      -this.game.width() / 2,
+      -this.game.height() / 2,
+      this.game.width(),
+      this.game.height(),
+    );
+  }
+
+  private paintFog() {
+    const data = this.imageData.data;
+    this.game.forEachTile((tile) => {
+      const offset =
+        (this.game.y(tile) * this.game.width() + this.game.x(tile)) * 4;
+      data[offset] = 0;
+      data[offset + 1] = 0;
+      data[offset + 2] = 0;
+      if (this.game.isVisible(tile)) {
+        data[offset + 3] = 0;
+      } else if (this.game.isExplored(tile)) {
+        data[offset + 3] = exploredFogAlpha;
+      } else {
+        data[offset + 3] = unexploredFogAlpha;
+      }
+    });
+    this.context.putImageData(this.imageData, 0, 0);
+  }
+}
@@ -1,12 +1,23 @@
 import { LitElement, html, css } from "lit";
 import { customElement, state } from "lit/decorators.js";
 import { EventBus, GameEvent } from "../../../core/EventBus";
+import { WarshipOrder } from "../../../core/game/Game";
+import { Formation } from "../../../core/utilities/Formation";
+import { translateText } from "../../Utils";
 import { Layer } from "./Layer";
 
 export class MultiSelectModeEvent implements GameEvent {
   constructor(public readonly enabled: boolean) {}
 }
 
+// Event for the formation and order the next fleet command uses
+export class FleetCommandModeEvent implements GameEvent {
+  constructor(
+    public readonly formation: Formation,
+    public readonly order: WarshipOrder,
+  ) {}
+}
+
 @customElement("multi-select-button")
 export class MultiSelectButton extends LitElement implements Layer {
   public eventBus: EventBus;
@@ -17,6 +28,12 @@ export class MultiSelectButton extends LitElement implements Layer {
   @state()
   private isVisible = false;
 
+  @state()
+  private formation = Formation.Line;
+
+  @state()
+  private order = WarshipOrder.Move;
+
   static styles = css`
     :host {
       position: fixed;
@@ -95,6 +112,14 @@ export class MultiSelectButton extends LitElement implements Layer {
     .multi-select-btn:hover + .tooltip {
       opacity: 1;
     }
+
+    .fleet-mode {
+      margin-top: 6px;
+      text-align: center;
+      color: white;
+      font-size: 11px;
+      text-shadow: 0 1px 2px black;
+    }
   `;
 
   init() {
@@ -107,6 +132,11 @@ export class MultiSelectButton extends LitElement implements Layer {
         this.requestUpdate();
       }
     });
+
+    this.eventBus.on(FleetCommandModeEvent, (event) => {
+      this.formation = event.formation;
+      this.order = event.order;
+    });
   }
 
   tick() {
@@ -127,6 +157,10 @@ export class MultiSelectButton extends LitElement implements Layer {
           ? 'Multi-Select Mode: Drag to select multiple warships'
           : 'Click to enable Multi-Select Mode'}
       </div>
+      <div class="fleet-mode">
+        ${translateText(`fleet.${this.formation}`)}<br />
+        ${translateText(`fleet.${this.order}`)}
+      </div>
     `;
   }
 
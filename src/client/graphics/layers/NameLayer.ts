@@ -267,7 +267,11 @@ export class NameLayer implements Layer {
 
     // Screen space calculations
     const size = this.transformHandler.scale * baseSize;
-    if (size < 7 || !this.transformHandler.isOnScreen(render.location)) {
+    if (
+      size < 7 ||
+      !this.transformHandler.isOnScreen(render.location) ||
+      !this.isNameVisible(render.location)
+    ) {
       render.element.style.display = "none";
       return;
     }
@@ -520,6 +524,15 @@ export class NameLayer implements Layer {
     }
   }
 
+  // Names in the fog of war would give away where players are.
+  private isNameVisible(location: Cell): boolean {
+    const x = Math.floor(location.x);
+    const y = Math.floor(location.y);
+    return (
+      !this.game.isValidCoord(x, y) || this.game.isVisible(this.game.ref(x, y))
+    );
+  }
+
   private createIconElement(
     src: string,
     size: number,
@@ -10,7 +10,12 @@ import {
   UnitType,
 } from "../../../core/game/Game";
 import { TileRef } from "../../../core/game/GameMap";
-import { GameView, PlayerView, UnitView } from "../../../core/game/GameView";
+import {
+  GameView,
+  PlayerSighting,
+  PlayerView,
+  UnitView,
+} from "../../../core/game/GameView";
 import { ClientID } from "../../../core/Schemas";
 import { MouseMoveEvent } from "../../InputHandler";
 import { renderNumber, renderTroops } from "../../Utils";
@@ -99,13 +104,16 @@ export class PlayerInfoOverlay extends LitElement implements Layer {
     const tile = this.game.ref(worldCoord.x, worldCoord.y);
     if (!tile) return;
 
-    const owner = this.game.owner(tile);
+    // Tiles in the fog of war show who held them when last in sight.
+    const owner = this.game.isVisible(tile)
+      ? this.game.owner(tile)
+      : this.game.lastKnownOwner(tile);
 
     // Check for units with health at this location (including structures that occupy multiple tiles)
     const unitsAtTile = this.game
       .units()
       .filter((u) => {
-        if (!u.hasHealth()) return false;
+        if (!u.hasHealth() || !this.game.isVisible(u.tile())) return false;
 
         // For structures, check if the hovered tile is within their area
         const structureTypes = [
@@ -166,7 +174,11 @@ export class PlayerInfoOverlay extends LitElement implements Layer {
           UnitType.TradeShip,
           UnitType.TransportShip,
         )
-        .filter((u) => euclideanDistWorld(worldCoord, u.tile(), this.game) < 50)
+        .filter(
+          (u) =>
+            this.game.isVisible(u.tile()) &&
+            euclideanDistWorld(worldCoord, u.tile(), this.game) < 50,
+        )
         .sort(distSortUnitWorld(worldCoord, this.game));
 
       if (units.length > 0) {
@@ -244,10 +256,7 @@ export class PlayerInfoOverlay extends LitElement implements Layer {
     const myPlayer = this.myPlayer();
     const isFriendly = myPlayer?.isFriendly(player);
     let relationHtml: TemplateResult | null = null;
-    const attackingTroops = player
-      .outgoingAttacks()
-      .map((a) => a.troops)
-      .reduce((a, b) => a + b, 0);
+    const sighting = this.game.playerSighting(player);
 
     if (player.type() === PlayerType.FakeHuman && myPlayer !== null) {
       const relation =
@@ -300,53 +309,71 @@ export class PlayerInfoOverlay extends LitElement implements Layer {
         <div class="text-sm opacity-80">
           ${translateText("player_info_overlay.type")}: ${playerType}
         </div>
-        ${player.troops() >= 1
-          ? html`<div class="text-sm opacity-80" translate="no">
-              ${translateText("player_info_overlay.d_troops")}:
-              ${renderTroops(player.troops())}
-            </div>`
-          : ""}
-        ${attackingTroops >= 1
-          ? html`<div class="text-sm opacity-80" translate="no">
-              ${translateText("player_info_overlay.a_troops")}:
-              ${renderTroops(attackingTroops)}
-            </div>`
-          : ""}
-        <div class="text-sm opacity-80" translate="no">
-          ${translateText("player_info_overlay.gold")}:
-          ${renderNumber(player.gold())}
-        </div>
-        <div class="text-sm opacity-80" translate="no">
-          ${translateText("player_info_overlay.ports")}:
-          ${"🏭 " + player.units(UnitType.Port).length} &nbsp;&nbsp;&nbsp;
-          ${player.units(UnitType.Condor).length} &nbsp;&nbsp;&nbsp; &nbsp;
-          ${player.units(UnitType.Condor).length}
-        </div>
-        <div class="text-sm opacity-80" translate="no">
-          ${translateText("player_info_overlay.cities")}:
-          ${player.units(UnitType.City).length}
-        </div>
-        <div class="text-sm opacity-80" translate="no">
-          ${translateText("player_info_overlay.missile_launchers")}:
-          ${player.units(UnitType.MissileSilo).length}
-        </div>
-        <div class="text-sm opacity-80" translate="no">
-          ${translateText("player_info_overlay.sams")}:
-          ${player.units(UnitType.SAMLauncher).length}
-        </div>
-        <div class="text-sm opacity-80" translate="no">
-          ${translateText("player_info_overlay.warships")}:
-          ${player.units(UnitType.Viper).length}
-        </div>
-        <div class="text-sm opacity-80" translate="no">
-          ${translateText("player_info_overlay.viper2s")}:
-          ${player.units(UnitType.Condor).length}
-        </div>
+        ${sighting !== null
+          ? this.renderSighting(sighting)
+          : html`<div class="text-sm opacity-80">
+              ${translateText("player_info_overlay.not_scouted")}
+            </div>`}
         ${relationHtml}
       </div>
     `;
   }
 
+  private renderSighting(sighting: PlayerSighting) {
+    const count = (type: UnitType) => sighting.units[type] ?? 0;
+    const secondsAgo = Math.floor((this.game.ticks() - sighting.tick) / 10);
+    return html`
+      ${secondsAgo > 0
+        ? html`<div class="text-sm opacity-80">
+            ${translateText("player_info_overlay.last_seen", {
+              seconds: secondsAgo,
+            })}
+          </div>`
+        : ""}
+      ${sighting.troops >= 1
+        ? html`<div class="text-sm opacity-80" translate="no">
+            ${translateText("player_info_overlay.d_troops")}:
+            ${renderTroops(sighting.troops)}
+          </div>`
+        : ""}
+      ${sighting.attackingTroops >= 1
+        ? html`<div class="text-sm opacity-80" translate="no">
+            ${translateText("player_info_overlay.a_troops")}:
+            ${renderTroops(sighting.attackingTroops)}
+          </div>`
+        : ""}
+      <div class="text-sm opacity-80" translate="no">
+        ${translateText("player_info_overlay.gold")}:
+        ${renderNumber(sighting.gold)}
+      </div>
+      <div class="text-sm opacity-80" translate="no">
+        ${translateText("player_info_overlay.ports")}:
+        ${"🏭 " + count(UnitType.Port)} &nbsp;&nbsp;&nbsp;
+        ${count(UnitType.Condor)} &nbsp;&nbsp;&nbsp; &nbsp;
+        ${count(UnitType.Condor)}
+      </div>
+      <div class="text-sm opacity-80" translate="no">
+        ${translateText("player_info_overlay.cities")}: ${count(UnitType.City)}
+      </div>
+      <div class="text-sm opacity-80" translate="no">
+        ${translateText("player_info_overlay.missile_launchers")}:
+        ${count(UnitType.MissileSilo)}
+      </div>
+      <div class="text-sm opacity-80" translate="no">
+        ${translateText("player_info_overlay.sams")}:
+        ${count(UnitType.SAMLauncher)}
+      </div>
+      <div class="text-sm opacity-80" translate="no">
+        ${translateText("player_info_overlay.warships")}:
+        ${count(UnitType.Viper)}
+      </div>
+      <div class="text-sm opacity-80" translate="no">
+        ${translateText("player_info_overlay.viper2s")}:
+        ${count(UnitType.Condor)}
+      </div>
+    `;
+  }
+
   private renderUnitInfo(unit: UnitView) {
     const isAlly =
       (unit.owner() === this.myPlayer() ||
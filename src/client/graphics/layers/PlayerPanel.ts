@@ -15,10 +15,12 @@ import {
   UnitType,
 } from "../../../core/game/Game";
 import { TileRef } from "../../../core/game/GameMap";
-import { GameView, PlayerView } from "../../../core/game/GameView";
+import { GameView, PlayerView, UnitView } from "../../../core/game/GameView";
 import { flattenedEmojiTable } from "../../../core/Util";
 import { MouseUpEvent } from "../../InputHandler";
 import {
+  CancelQueuedShipIntentEvent,
+  ReorderQueuedShipIntentEvent,
   SendAllianceRequestIntentEvent,
   SendBreakAllianceIntentEvent,
   SendDonateGoldIntentEvent,
@@ -26,6 +28,7 @@ import {
   SendEmbargoIntentEvent,
   SendEmojiIntentEvent,
   SendTargetPlayerIntentEvent,
+  SetRallyPointIntentEvent,
 } from "../../Transport";
 import { renderNumber, renderTroops } from "../../Utils";
 import { EmojiTable } from "./EmojiTable";
@@ -146,6 +149,96 @@ export class PlayerPanel extends LitElement implements Layer {
     this.hide();
   }
 
+  private handleMoveUpClick(e: Event, port: UnitView, entryId: number) {
+    e.stopPropagation();
+    const index = port.portQueue().findIndex((entry) => entry.id === entryId);
+    this.eventBus.emit(
+      new ReorderQueuedShipIntentEvent(port.id(), entryId, index - 1),
+    );
+  }
+
+  private handleCancelQueuedClick(e: Event, port: UnitView, entryId: number) {
+    e.stopPropagation();
+    this.eventBus.emit(new CancelQueuedShipIntentEvent(port.id(), entryId));
+  }
+
+  private handleRallyClick(e: Event, port: UnitView, tile: TileRef | null) {
+    e.stopPropagation();
+    this.eventBus.emit(new SetRallyPointIntentEvent(port.id(), tile));
+  }
+
+  private renderPorts(myPlayer: PlayerView) {
+    const ports = myPlayer.units(UnitType.Port);
+    if (ports.length === 0) {
+      return html``;
+    }
+    return html`
+      <div class="flex flex-col gap-1">
+        <div class="text-white text-opacity-80 text-sm px-2">
+          ${translateText("player_panel.ports")}
+        </div>
+        ${ports.map(
+          (port, i) => html`
+            <div
+              class="bg-opacity-50 bg-gray-700 rounded p-2 text-white text-sm"
+            >
+              <div class="flex items-center justify-between gap-2">
+                <span
+                  >${translateText("player_panel.port", { num: i + 1 })}</span
+                >
+                ${port.rallyPoint() === undefined
+                  ? html`<button
+                      @click=${(e) => this.handleRallyClick(e, port, this.tile)}
+                      class="px-2 rounded bg-gray-600 hover:bg-gray-500"
+                    >
+                      ${translateText("player_panel.rally_here")}
+                    </button>`
+                  : html`<button
+                      @click=${(e) => this.handleRallyClick(e, port, null)}
+                      class="px-2 rounded bg-gray-600 hover:bg-gray-500"
+                    >
+                      ${translateText("player_panel.clear_rally")}
+                    </button>`}
+              </div>
+              ${port.portQueue().length === 0
+                ? html`<div class="text-opacity-60 text-white">
+                    ${translateText("player_panel.queue_empty")}
+                  </div>`
+                : port.portQueue().map(
+                    (entry, index) => html`
+                      <div class="flex items-center gap-2">
+                        <span class="flex-1">${entry.unitType}</span>
+                        <span translate="no">
+                          ${Math.floor(entry.progress * 100)}%
+                        </span>
+                        ${index > 0
+                          ? html`<button
+                              @click=${(e) =>
+                                this.handleMoveUpClick(e, port, entry.id)}
+                              title=${translateText("player_panel.move_up")}
+                              class="w-6 rounded bg-gray-600 hover:bg-gray-500"
+                            >
+                              ▲
+                            </button>`
+                          : ""}
+                        <button
+                          @click=${(e) =>
+                            this.handleCancelQueuedClick(e, port, entry.id)}
+                          title=${translateText("player_panel.cancel")}
+                          class="w-6 rounded bg-red-600 hover:bg-red-500"
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    `,
+                  )}
+            </div>
+          `,
+        )}
+      </div>
+    `;
+  }
+
   createRenderRoot() {
     return this;
   }
@@ -304,6 +397,8 @@ export class PlayerPanel extends LitElement implements Layer {
               </div>
             </div>
 
+            ${other === myPlayer ? this.renderPorts(myPlayer) : ""}
+
             <!-- Action buttons -->
             <div class="flex justify-center gap-2">
               ${canTarget
@@ -2,8 +2,12 @@ import * as d3 from "d3";
 import allianceIcon from "../../../../resources/images/AllianceIconWhite.svg";
 import buildIcon from "../../../../resources/images/BuildIconWhite.svg";
 import chatIcon from "../../../../resources/images/ChatIconWhite.svg";
+import cityIcon from "../../../../resources/images/CityIconWhite.svg";
 import disabledIcon from "../../../../resources/images/DisabledIcon.svg";
 import infoIcon from "../../../../resources/images/InfoIcon.svg";
+import orbitalCannonIcon from "../../../../resources/images/OrbitalCannon.svg";
+import portIcon from "../../../../resources/images/PortIcon.svg";
+import samLauncherIcon from "../../../../resources/images/SamLauncherIconWhite.svg";
 import spaceshipIcon from "../../../../resources/images/SpaceshipIconWhite.svg";
 import swordIcon from "../../../../resources/images/SwordIconWhite.svg";
 import traitorIcon from "../../../../resources/images/TraitorIconWhite.svg";
@@ -30,6 +34,7 @@ import {
   SendBoatAttackIntentEvent,
   SendBreakAllianceIntentEvent,
   SendSpawnIntentEvent,
+  UpgradeStructureIntentEvent,
 } from "../../Transport";
 import { TransformHandler } from "../TransformHandler";
 import { UIState } from "../UIState";
@@ -39,6 +44,13 @@ import { Layer } from "./Layer";
 import { PlayerInfoOverlay } from "./PlayerInfoOverlay";
 import { PlayerPanel } from "./PlayerPanel";
 
+const upgradeIcons: Partial<Record<UnitType, string>> = {
+  [UnitType.City]: cityIcon,
+  [UnitType.Port]: portIcon,
+  [UnitType.SAMLauncher]: samLauncherIcon,
+  [UnitType.OrbitalCannon]: orbitalCannonIcon,
+};
+
 enum Slot {
   Info,
   Spaceship,
@@ -429,6 +441,19 @@ export class RadialMenu implements Layer {
         );
       });
     }
+    // The ally slot is free on our own territory, use it to upgrade the
+    // structure under the cursor.
+    const upgrade = actions.upgradeableUnit;
+    if (upgrade?.canUpgrade && this.g.owner(tile) === myPlayer) {
+      this.activateMenuElement(
+        Slot.Ally,
+        "#d97706",
+        upgradeIcons[upgrade.type] ?? buildIcon,
+        () => {
+          this.eventBus.emit(new UpgradeStructureIntentEvent(upgrade.unitId));
+        },
+      );
+    }
     if (
       actions.buildableUnits.find((bu) => bu.type === UnitType.TransportShip)
         ?.canBuild
@@ -0,0 +1,168 @@
+import { LitElement, html } from "lit";
+import { customElement, state } from "lit/decorators.js";
+import { EventBus, GameEvent } from "../../../core/EventBus";
+import { GameView } from "../../../core/game/GameView";
+import { ReplayEvent } from "../../../core/ReplayController";
+import { ReplaySeekEvent, ReplaySpeedEvent } from "../../Transport";
+import { translateText } from "../../Utils";
+import { Layer } from "./Layer";
+
+// Emitted by ClientGameRunner when replaying, events accumulate as the
+// worker simulates further into the game.
+export class ReplayTimelineEvent implements GameEvent {
+  constructor(
+    public readonly numTurns: number,
+    public readonly events: ReplayEvent[],
+  ) {}
+}
+
+const speeds = [1, 2, 4, 16];
+
+// Turns to rewind before an event marker so the lead-up is visible.
+const markerLeadTurns = 50;
+
+const markerColors: Record<ReplayEvent["type"], string> = {
+  alliance: "bg-green-400",
+  betrayal: "bg-orange-400",
+  nuke: "bg-red-500",
+  elimination: "bg-gray-300",
+};
+
+const formatTime = (ms: number): string => {
+  const total = Math.floor(ms / 1000);
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  return `${m}:${s.toString().padStart(2, "0")}`;
+};
+
+@customElement("replay-panel")
+export class ReplayPanel extends LitElement implements Layer {
+  public game: GameView;
+  public eventBus: EventBus;
+
+  @state()
+  private numTurns = 0;
+
+  @state()
+  private currentTurn = 0;
+
+  @state()
+  private speed = 1;
+
+  @state()
+  private events: ReplayEvent[] = [];
+
+  // Slider position while dragging, null when following the game.
+  @state()
+  private dragTurn: number | null = null;
+
+  createRenderRoot() {
+    return this;
+  }
+
+  init() {
+    this.eventBus.on(ReplayTimelineEvent, (e) => {
+      this.numTurns = e.numTurns;
+      this.events = [...this.events, ...e.events];
+    });
+  }
+
+  tick() {
+    if (this.numTurns === 0) {
+      return;
+    }
+    this.currentTurn = this.game.ticks();
+  }
+
+  private onSpeedClick(speed: number) {
+    this.speed = speed;
+    this.eventBus.emit(new ReplaySpeedEvent(speed));
+  }
+
+  private seek(turn: number) {
+    this.dragTurn = null;
+    this.currentTurn = turn;
+    this.eventBus.emit(new ReplaySeekEvent(turn));
+  }
+
+  private describe(event: ReplayEvent): string {
+    const [first, second] = event.players;
+    switch (event.type) {
+      case "alliance":
+        return translateText("replay_panel.alliance", { first, second });
+      case "betrayal":
+        return translateText("replay_panel.betrayal", { first, second });
+      case "nuke":
+        return translateText("replay_panel.nuke", {
+          player: first,
+          unit: event.unitType ?? "",
+        });
+      case "elimination":
+        return translateText("replay_panel.elimination", { player: first });
+    }
+  }
+
+  render() {
+    if (this.numTurns === 0) {
+      return html``;
+    }
+    const turnMs = this.game.config().serverConfig().turnIntervalMs();
+    const shownTurn = this.dragTurn ?? this.currentTurn;
+    return html`
+      <div
+        class="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 w-11/12 lg:w-1/2
+               bg-opacity-60 bg-gray-900 p-2 rounded-lg backdrop-blur-md
+               text-white text-sm pointer-events-auto"
+        @contextmenu=${(e: Event) => e.preventDefault()}
+      >
+        <div class="flex items-center gap-2 mb-2">
+          <span class="mr-1">${translateText("replay_panel.speed")}</span>
+          ${speeds.map(
+            (speed) => html`
+              <button
+                class="px-2 py-0.5 rounded border-none cursor-pointer text-white
+                       ${speed === this.speed
+                  ? "bg-blue-600"
+                  : "bg-gray-700 hover:bg-gray-600"}"
+                @click=${() => this.onSpeedClick(speed)}
+              >
+                ${speed}x
+              </button>
+            `,
+          )}
+          <span class="ml-auto tabular-nums">
+            ${formatTime(shownTurn * turnMs)} /
+            ${formatTime(this.numTurns * turnMs)}
+          </span>
+        </div>
+        <div class="relative">
+          <input
+            type="range"
+            class="w-full cursor-pointer"
+            min="0"
+            max=${this.numTurns}
+            .value=${String(shownTurn)}
+            @input=${(e: Event) =>
+              (this.dragTurn = Number((e.target as HTMLInputElement).value))}
+            @change=${(e: Event) =>
+              this.seek(Number((e.target as HTMLInputElement).value))}
+          />
+          <div class="relative h-2 mt-1">
+            ${this.events.map(
+              (event) => html`
+                <div
+                  class="absolute top-0 w-1 h-2 rounded-sm cursor-pointer
+                         ${markerColors[event.type]}"
+                  style="left: ${(event.turn / this.numTurns) * 100}%"
+                  title=${this.describe(event)}
+                  @click=${() =>
+                    this.seek(Math.max(0, event.turn - markerLeadTurns))}
+                ></div>
+              `,
+            )}
+          </div>
+        </div>
+      </div>
+    `;
+  }
+}
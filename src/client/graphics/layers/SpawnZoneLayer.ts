@@ -0,0 +1,38 @@
+import { GameView } from "../../../core/game/GameView";
+import { Layer } from "./Layer";
+
+/**
+ * Outlines the map's spawn zones while players pick where to start. Maps
+ * without zones let players spawn anywhere, so nothing is drawn for them.
+ */
+export class SpawnZoneLayer implements Layer {
+  constructor(private game: GameView) {}
+
+  shouldTransform(): boolean {
+    return true;
+  }
+
+  init() {}
+
+  tick() {}
+
+  renderLayer(context: CanvasRenderingContext2D) {
+    if (!this.game.inSpawnPhase()) {
+      return;
+    }
+    const offsetX = -this.game.width() / 2;
+    const offsetY = -this.game.height() / 2;
+    context.save();
+    context.fillStyle = "rgba(255, 255, 255, 0.12)";
+    context.strokeStyle = "rgba(255, 255, 255, 0.8)";
+    context.lineWidth = 1;
+    context.setLineDash([4, 2]);
+    for (const zone of this.game.spawnZones()) {
+      const x = offsetX + zone.x;
+      const y = offsetY + zone.y;
+      context.fillRect(x, y, zone.width, zone.height);
+      context.strokeRect(x, y, zone.width, zone.height);
+    }
+    context.restore();
+  }
+}
@@ -25,6 +25,15 @@ import { GameView, UnitView } from "../../../core/game/GameView";
 
 const underConstructionColor = colord({ r: 150, g: 150, b: 150 });
 const reloadingColor = colord({ r: 255, g: 0, b: 0 });
+const healthBarColor = colord({ r: 0, g: 200, b: 0 });
+const healthBarRegenColor = colord({ r: 140, g: 255, b: 140 });
+const healthBarDamageColor = colord({ r: 255, g: 60, b: 60 });
+const healthBarBackgroundColor = colord({ r: 40, g: 40, b: 40 });
+const queuedShipColor = colord({ r: 255, g: 255, b: 255 });
+// Half width of the health and queue bars and their offset from the
+// structure center.
+const healthBarHalfWidth = 4;
+const healthBarOffset = 7;
 
 type DistanceFunction = typeof euclDistFN;
 
@@ -52,6 +61,10 @@ export class StructureLayer implements Layer {
   // Track building completions
   private trackedUnits = new Set<number>();
   private constructionUnits = new Set<number>();
+  // Health at the last render, to color the health bar by its trend.
+  private lastHealth = new Map<number, number>();
+  // Structures that changed in the fog, drawn once they are in sight.
+  private hiddenUpdates = new Map<number, UnitView>();
 
   // Configuration for supported unit types only
   private readonly unitConfigs: Partial<Record<UnitType, UnitRenderConfig>> = {
@@ -162,6 +175,11 @@ export class StructureLayer implements Layer {
       if (unit === undefined) continue;
       this.handleUnitRendering(unit);
     }
+    if (this.game.visionUpdated()) {
+      for (const unit of this.hiddenUpdates.values()) {
+        this.handleUnitRendering(unit);
+      }
+    }
   }
 
   init() {
@@ -341,6 +359,13 @@ export class StructureLayer implements Layer {
     
     if (!this.isUnitTypeSupported(unitType)) return;
 
+    // Structures in the fog keep how they looked when last in sight.
+    if (!this.game.isVisible(unit.tile())) {
+      this.hiddenUpdates.set(unitId, unit);
+      return;
+    }
+    this.hiddenUpdates.delete(unitId);
+
     const config = this.unitConfigs[unitType];
     let icon: ImageData | undefined;
 
@@ -362,8 +387,12 @@ export class StructureLayer implements Layer {
     )) {
       this.clearCell(new Cell(this.game.x(tile), this.game.y(tile)));
     }
+    this.clearBars(unit);
 
-    if (!unit.isActive()) return;
+    if (!unit.isActive()) {
+      this.lastHealth.delete(unitId);
+      return;
+    }
 
     let borderColor = this.theme.borderColor(unit.owner());
     if (unitType === UnitType.SAMLauncher && unit.isCooldown()) {
@@ -385,6 +414,62 @@ export class StructureLayer implements Layer {
     if (unitType === UnitType.Port) {
       this.drawPortQueueTimer(unit, config);
     }
+
+    this.drawHealthBar(unit);
+  }
+
+  // Cells of a bar drawn `offset` rows below the structure center.
+  private barCells(unit: UnitView, offset: number): Cell[] {
+    const x = this.game.x(unit.tile());
+    const y = this.game.y(unit.tile()) + offset;
+    const cells: Cell[] = [];
+    for (let dx = -healthBarHalfWidth; dx <= healthBarHalfWidth; dx++) {
+      if (this.game.isValidCoord(x + dx, y)) {
+        cells.push(new Cell(x + dx, y));
+      }
+    }
+    return cells;
+  }
+
+  private clearBars(unit: UnitView) {
+    for (const cell of [
+      ...this.barCells(unit, healthBarOffset),
+      ...this.barCells(unit, -healthBarOffset),
+    ]) {
+      this.clearCell(cell);
+    }
+  }
+
+  // Damaged structures show a health bar under their icon. It flashes red
+  // when hit and light green while the structure regenerates.
+  private drawHealthBar(unit: UnitView) {
+    const maxHealth = this.game.unitInfo(unit.type()).maxHealth;
+    const previous = this.lastHealth.get(unit.id());
+    this.lastHealth.set(unit.id(), unit.health());
+    if (
+      !unit.hasHealth() ||
+      maxHealth === undefined ||
+      unit.health() >= maxHealth
+    ) {
+      return;
+    }
+
+    let color = healthBarColor;
+    if (previous !== undefined && unit.health() < previous) {
+      color = healthBarDamageColor;
+    } else if (previous !== undefined && unit.health() > previous) {
+      color = healthBarRegenColor;
+    }
+
+    const cells = this.barCells(unit, healthBarOffset);
+    const filled = Math.ceil((cells.length * unit.health()) / maxHealth);
+    cells.forEach((cell, i) => {
+      if (i < filled) {
+        this.paintCell(cell, color, 255);
+      } else {
+        this.paintCell(cell, healthBarBackgroundColor, 200);
+      }
+    });
   }
 
   private renderIcon(
@@ -494,5 +579,12 @@ export class StructureLayer implements Layer {
 
     // Restore the context state
     this.context.restore();
+
+    // One pip above the port for every ship waiting behind the current one
+    const waiting = unit.portQueue().length - 1;
+    this.barCells(unit, -healthBarOffset)
+      .filter((cell, i) => i % 2 === 0)
+      .slice(0, waiting)
+      .forEach((cell) => this.paintCell(cell, queuedShipColor, 255));
   }
 }
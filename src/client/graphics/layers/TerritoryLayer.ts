@@ -58,6 +58,7 @@ export class TerritoryLayer implements Layer {
 
   tick() {
     this.game.recentlyUpdatedTiles().forEach((t) => this.enqueueTile(t));
+    this.game.revealedTiles().forEach((t) => this.enqueueTile(t));
     const updates = this.game.updatesSinceLastTick();
     const unitUpdates = updates !== null ? updates[GameUpdateType.Unit] : [];
     unitUpdates.forEach((update) => {
@@ -242,6 +243,10 @@ export class TerritoryLayer implements Layer {
   }
 
   paintTerritory(tile: TileRef, isBorder: boolean = false) {
+    // Tiles in the fog keep how they looked when last in sight.
+    if (!this.game.isVisible(tile)) {
+      return;
+    }
     if (isBorder && !this.game.hasOwner(tile)) {
       return;
     }
@@ -0,0 +1,393 @@
+import { LitElement, css, html } from "lit";
+import { customElement, state } from "lit/decorators.js";
+import { EventBus } from "../../../core/EventBus";
+import { PlayerType, UnitType } from "../../../core/game/Game";
+import { GameView, PlayerView } from "../../../core/game/GameView";
+import { ClientID } from "../../../core/Schemas";
+import { SendTradeAgreementIntentEvent } from "../../Transport";
+import { renderNumber } from "../../Utils";
+import { Layer } from "./Layer";
+
+const ticksPerMinute = 600;
+
+interface PartnerEntry {
+  partner: PlayerView;
+  routes: number;
+  income: string;
+  share: number | null;
+  minutesLeft: number | null;
+}
+
+interface OfferEntry {
+  from: PlayerView;
+  // The share of the trade gold offered to us.
+  share: number;
+  duration: number;
+}
+
+@customElement("trade-dashboard")
+export class TradeDashboard extends LitElement implements Layer {
+  public game: GameView;
+  public clientID: ClientID;
+  public eventBus: EventBus;
+
+  partners: PartnerEntry[] = [];
+  offers: OfferEntry[] = [];
+  tradingPartners: PlayerView[] = [];
+  shipsLost = 0;
+
+  @state()
+  private _dashboardHidden = true;
+  private _shownOnInit = false;
+
+  @state()
+  private proposePartner = "";
+  @state()
+  private proposeShare = 50;
+  @state()
+  private proposeMinutes = 10;
+
+  init() {}
+
+  tick() {
+    if (!this._shownOnInit && !this.game.inSpawnPhase()) {
+      this._shownOnInit = true;
+      this.requestUpdate();
+    }
+    if (this._dashboardHidden) return;
+
+    if (this.game.ticks() % 10 === 0) {
+      this.updateDashboard();
+    }
+  }
+
+  private updateDashboard() {
+    const myPlayer = this.game.myPlayer();
+    if (myPlayer === null) return;
+
+    const routes = new Map<PlayerView, number>();
+    for (const ship of myPlayer.units(UnitType.TradeShip)) {
+      const dstPortId = ship.targetUnitId();
+      if (dstPortId === undefined) continue;
+      const partner = this.game.unit(dstPortId)?.owner();
+      if (partner === undefined) continue;
+      routes.set(partner, (routes.get(partner) ?? 0) + 1);
+    }
+
+    const partners = new Set<PlayerView>(routes.keys());
+    const agreements = new Map(
+      myPlayer.tradeAgreements().map((a) => [a.partner, a]),
+    );
+    for (const p of this.game.playerViews()) {
+      if (
+        p !== myPlayer &&
+        (agreements.has(p.id()) || myPlayer.tradeIncome(p.id()) > 0)
+      ) {
+        partners.add(p);
+      }
+    }
+
+    this.partners = [...partners]
+      .map((partner) => {
+        const agreement = agreements.get(partner.id());
+        return {
+          partner,
+          routes: routes.get(partner) ?? 0,
+          income: renderNumber(myPlayer.tradeIncome(partner.id())),
+          share: agreement?.share ?? null,
+          minutesLeft:
+            agreement === undefined
+              ? null
+              : Math.ceil(
+                  (agreement.expiresAt - this.game.ticks()) / ticksPerMinute,
+                ),
+        };
+      })
+      .sort((a, b) => b.routes - a.routes);
+
+    this.offers = this.game.playerViews().flatMap((from) =>
+      from
+        .outgoingTradeOffers()
+        .filter((o) => o.partner === myPlayer.id())
+        .map((o) => ({
+          from,
+          share: 100 - o.share,
+          duration: o.duration,
+        })),
+    );
+
+    this.tradingPartners = this.game
+      .playerViews()
+      .filter(
+        (p) =>
+          p !== myPlayer &&
+          p.isAlive() &&
+          p.type() !== PlayerType.Bot &&
+          !p.hasEmbargoAgainst(myPlayer) &&
+          !myPlayer.hasEmbargoAgainst(p),
+      );
+    this.shipsLost = myPlayer.tradeShipsLost();
+
+    this.requestUpdate();
+  }
+
+  private accept(offer: OfferEntry) {
+    this.eventBus.emit(
+      new SendTradeAgreementIntentEvent(
+        offer.from,
+        "offer",
+        offer.share,
+        offer.duration,
+      ),
+    );
+  }
+
+  private cancel(partner: PlayerView) {
+    this.eventBus.emit(
+      new SendTradeAgreementIntentEvent(partner, "cancel", 0, 0),
+    );
+  }
+
+  private propose() {
+    const partner = this.tradingPartners.find(
+      (p) => p.id() === this.proposePartner,
+    );
+    if (partner === undefined) return;
+    this.eventBus.emit(
+      new SendTradeAgreementIntentEvent(
+        partner,
+        "offer",
+        this.proposeShare,
+        this.proposeMinutes * ticksPerMinute,
+      ),
+    );
+  }
+
+  renderLayer(context: CanvasRenderingContext2D) {}
+  shouldTransform(): boolean {
+    return false;
+  }
+
+  static styles = css`
+    :host {
+      display: block;
+    }
+    .trade-dashboard {
+      position: fixed;
+      bottom: 200px;
+      right: 10px;
+      z-index: 9999;
+      background-color: rgb(31 41 55 / 0.7);
+      padding: 10px;
+      padding-top: 0px;
+      box-shadow: 0 0 20px rgba(0, 0, 0, 0.5);
+      border-radius: 10px;
+      max-height: 40vh;
+      overflow-y: auto;
+      width: 340px;
+      backdrop-filter: blur(5px);
+      color: white;
+    }
+
+    .trade-dashboard-close-button {
+      background: none;
+      border: none;
+      color: white;
+      cursor: pointer;
+    }
+
+    table {
+      width: 100%;
+      border-collapse: collapse;
+    }
+
+    th,
+    td {
+      padding: 5px;
+      text-align: center;
+      border-bottom: 1px solid rgba(51, 51, 51, 0.2);
+      color: var(--text-color, white);
+    }
+
+    th {
+      background-color: rgb(31 41 55 / 0.5);
+      color: white;
+    }
+
+    h3 {
+      font-size: 14px;
+      margin: 8px 0 4px;
+    }
+
+    td button,
+    .propose button {
+      background-color: rgb(55 65 81);
+      color: white;
+      border: none;
+      border-radius: 4px;
+      padding: 2px 6px;
+      cursor: pointer;
+    }
+
+    .propose {
+      display: flex;
+      gap: 4px;
+      align-items: center;
+    }
+
+    .propose input {
+      width: 45px;
+    }
+
+    .hidden {
+      display: none !important;
+    }
+
+    .trade-dashboard-button {
+      position: fixed;
+      right: 10px;
+      bottom: 200px;
+      z-index: 9999;
+      background-color: rgb(31 41 55 / 0.7);
+      color: white;
+      border: none;
+      border-radius: 4px;
+      padding: 5px 10px;
+      cursor: pointer;
+    }
+  `;
+
+  render() {
+    return html`
+      <button
+        @click=${() => this.showDashboard()}
+        class="trade-dashboard-button ${this._shownOnInit &&
+        this._dashboardHidden
+          ? ""
+          : "hidden"}"
+      >
+        Trade
+      </button>
+      <div
+        class="trade-dashboard ${this._dashboardHidden ? "hidden" : ""}"
+        @contextmenu=${(e) => e.preventDefault()}
+      >
+        <button
+          class="trade-dashboard-close-button"
+          @click=${() => this.hideDashboard()}
+        >
+          Hide
+        </button>
+        <span>Ships lost to piracy: ${this.shipsLost}</span>
+        <table>
+          <thead>
+            <tr>
+              <th>Partner</th>
+              <th>Ships</th>
+              <th>Income</th>
+              <th>Agreement</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${this.partners.map(
+              (entry) => html`
+                <tr>
+                  <td>${entry.partner.displayName()}</td>
+                  <td>${entry.routes}</td>
+                  <td>${entry.income}</td>
+                  <td>
+                    ${entry.share === null
+                      ? "-"
+                      : html`${entry.share}%, ${entry.minutesLeft} min
+                          <button @click=${() => this.cancel(entry.partner)}>
+                            End
+                          </button>`}
+                  </td>
+                </tr>
+              `,
+            )}
+          </tbody>
+        </table>
+        ${this.offers.length === 0
+          ? ""
+          : html`
+              <h3>Offers</h3>
+              <table>
+                <tbody>
+                  ${this.offers.map(
+                    (offer) => html`
+                      <tr>
+                        <td>${offer.from.displayName()}</td>
+                        <td>${offer.share}%</td>
+                        <td>
+                          ${Math.round(offer.duration / ticksPerMinute)} min
+                        </td>
+                        <td>
+                          <button @click=${() => this.accept(offer)}>
+                            Accept
+                          </button>
+                        </td>
+                      </tr>
+                    `,
+                  )}
+                </tbody>
+              </table>
+            `}
+        <h3>Propose agreement</h3>
+        <div class="propose">
+          <select
+            @change=${(e: Event) =>
+              (this.proposePartner = (e.target as HTMLSelectElement).value)}
+          >
+            <option value="">Partner</option>
+            ${this.tradingPartners.map(
+              (p) => html`
+                <option
+                  value=${p.id()}
+                  ?selected=${p.id() === this.proposePartner}
+                >
+                  ${p.displayName()}
+                </option>
+              `,
+            )}
+          </select>
+          <input
+            type="number"
+            min="0"
+            max="100"
+            .value=${String(this.proposeShare)}
+            @change=${(e: Event) =>
+              (this.proposeShare = Number(
+                (e.target as HTMLInputElement).value,
+              ))}
+          />%
+          <input
+            type="number"
+            min="1"
+            max="30"
+            .value=${String(this.proposeMinutes)}
+            @change=${(e: Event) =>
+              (this.proposeMinutes = Number(
+                (e.target as HTMLInputElement).value,
+              ))}
+          />min
+          <button @click=${() => this.propose()}>Offer</button>
+        </div>
+      </div>
+    `;
+  }
+
+  showDashboard() {
+    this._dashboardHidden = false;
+    this.updateDashboard();
+  }
+
+  hideDashboard() {
+    this._dashboardHidden = true;
+    this.requestUpdate();
+  }
+
+  get isVisible() {
+    return !this._dashboardHidden;
+  }
+}
@@ -2,30 +2,43 @@ import { colord, Colord } from "colord";
 import { EventBus, GameEvent } from "../../../core/EventBus";
 import { ClientID } from "../../../core/Schemas";
 import { Theme } from "../../../core/configuration/Config";
-import { Cell, UnitType } from "../../../core/game/Game";
+import { Cell, UnitType, WarshipOrder } from "../../../core/game/Game";
 import { TileRef } from "../../../core/game/GameMap";
 import { GameUpdateType } from "../../../core/game/GameUpdates";
 import { GameView, PlayerView, UnitView } from "../../../core/game/GameView";
+import { Formation, formationTargets } from "../../../core/utilities/Formation";
 import { BezenhamLine } from "../../../core/utilities/Line";
 import {
   AlternateViewEvent,
+  CloseViewEvent,
+  ControlGroupEvent,
+  CycleFormationEvent,
   MouseUpEvent,
+  WarshipOrderModeEvent,
   UnitSelectionEvent,
   SelectionBoxStartEvent,
   SelectionBoxUpdateEvent,
   SelectionBoxEndEvent,
 } from "../../InputHandler";
-import { MoveWarshipIntentEvent, BatchMoveWarshipsIntentEvent } from "../../Transport";
+import {
+  BatchMoveWarshipsIntentEvent,
+  EscortTradeIntentEvent,
+} from "../../Transport";
 
 // Event for multi-unit selection
 export class MultiUnitSelectionEvent implements GameEvent {
   constructor(public readonly units: Set<UnitView>) {}
 }
+
+const formations = [Formation.Line, Formation.Wedge, Formation.Spread];
 import { TransformHandler } from "../TransformHandler";
 import { CoordinateTransformer } from "../CoordinateTransformer";
 import { Layer } from "./Layer";
 import { SoundManager } from "../../soundeffects/effects/SoundManager";
-import { MultiSelectModeEvent } from "./MultiSelectButton";
+import {
+  FleetCommandModeEvent,
+  MultiSelectModeEvent,
+} from "./MultiSelectButton";
 
 import {
   getColoredSprite,
@@ -81,6 +94,14 @@ export class UnitLayer implements Layer {
   // Selected unit property as suggested in the review comment
   private selectedUnit: UnitView | null = null;
   private selectedUnits: Set<UnitView> = new Set();
+
+  // Control groups, unit ids by hotkey number
+  private controlGroups = new Map<number, Set<number>>();
+  private formation = Formation.Line;
+  private order = WarshipOrder.Move;
+  // Start tiles and clicked waypoints of the patrol being plotted
+  private patrolStarts = new Map<number, TileRef>();
+  private patrolWaypoints: TileRef[] = [];
   private multiSelectMode = false;
 
   // Selection box for multi-select
@@ -118,6 +139,8 @@ export class UnitLayer implements Layer {
   }
 
   private unitToTrail = new Map<UnitView, TileRef[]>();
+  // Units not drawn as they are in the fog of war.
+  private hiddenUnits = new Set<number>();
 
   private explosions: Explosion[] = [];
   
@@ -208,6 +231,27 @@ export class UnitLayer implements Layer {
     this.eventBus.on(SelectionBoxStartEvent, (e) => this.onSelectionBoxStart(e));
     this.eventBus.on(SelectionBoxUpdateEvent, (e) => this.onSelectionBoxUpdate(e));
     this.eventBus.on(SelectionBoxEndEvent, (e) => this.onSelectionBoxEnd(e));
+    this.eventBus.on(ControlGroupEvent, (e) => this.onControlGroup(e));
+    this.eventBus.on(CycleFormationEvent, () => {
+      this.formation =
+        formations[
+          (formations.indexOf(this.formation) + 1) % formations.length
+        ];
+      this.emitCommandMode();
+    });
+    this.eventBus.on(WarshipOrderModeEvent, (e) => {
+      // Pressing the key again goes back to plain moves
+      this.setOrder(this.order === e.order ? WarshipOrder.Move : e.order);
+    });
+    this.eventBus.on(CloseViewEvent, () => {
+      if (
+        this.order === WarshipOrder.Patrol &&
+        this.patrolWaypoints.length > 0
+      ) {
+        this.clearSelection();
+      }
+      this.setOrder(WarshipOrder.Move);
+    });
     this.redraw();
 
     loadAllSprites();
@@ -260,55 +304,193 @@ export class UnitLayer implements Layer {
       event.y,
     );
 
-    // If we have multiple selected units, handle batch movement
-    if (this.selectedUnits.size > 0) {
+    // Selected warships, from a selection box, a control group or a click
+    const units =
+      this.selectedUnits.size > 0
+        ? Array.from(this.selectedUnits)
+        : this.selectedUnit
+          ? [this.selectedUnit]
+          : [];
+
+    if (units.length > 0) {
+      if (!this.game.isValidCoord(cell.x, cell.y)) {
+        return;
+      }
+      // Allow movement to any tile (land or water) for amphibious warships
       const clickRef = this.game.ref(cell.x, cell.y);
+      this.commandFleet(units, clickRef);
 
-      // Allow movement to any tile (land or water) for amphibious warships
-      // Move all selected units to the same target tile (like single unit movement)
-      const movements: Array<{ unitId: number; targetTile: number }> = [];
-      const unitsArray = Array.from(this.selectedUnits);
+      // Set move marker at target position
+      this.moveMarkerTarget = clickRef;
+      this.moveMarkerTimer = this.MOVE_MARKER_DURATION;
+      return;
+    }
 
-      // Send each unit to the same clicked tile
-      unitsArray.forEach(unit => {
-        movements.push({ unitId: unit.id(), targetTile: clickRef });
-      });
+    // Find warships near this cell, sorted by distance
+    const nearbyWarships = this.findWarshipsNearCell(cell);
+    if (nearbyWarships.length > 0) {
+      // Toggle selection of the closest warship
+      const clickedUnit = nearbyWarships[0];
+      this.eventBus.emit(new UnitSelectionEvent(clickedUnit, true));
+    }
+  }
 
-      if (movements.length > 0) {
-        this.eventBus.emit(new BatchMoveWarshipsIntentEvent(movements));
-        // Turn off multi-select mode after issuing command
-        this.eventBus.emit(new MultiSelectModeEvent(false));
+  /**
+   * Send the selected warships to `target` in the current formation.
+   * Patrol orders keep the fleet selected so more waypoints can be added.
+   */
+  private commandFleet(units: UnitView[], target: TileRef) {
+    const fleet = units.filter((unit) => unit.isActive());
 
-        // Set move marker at target position
-        this.moveMarkerTarget = clickRef;
-        this.moveMarkerTimer = this.MOVE_MARKER_DURATION;
-      }
-      // Clear selection and notify UILayer
-      this.clearSelection();
+    if (this.order === WarshipOrder.Escort) {
+      this.commandEscort(fleet, target);
       return;
     }
 
-    // Find warships near this cell, sorted by distance
-    const nearbyWarships = this.findWarshipsNearCell(cell);
+    if (this.order === WarshipOrder.Patrol) {
+      if (this.patrolWaypoints.length === 0) {
+        this.patrolStarts = new Map(
+          fleet.map((unit) => [unit.id(), unit.tile()]),
+        );
+      }
+      this.patrolWaypoints.push(target);
 
-    if (this.selectedUnit) {
-      const clickRef = this.game.ref(cell.x, cell.y);
-      // Allow movement to any tile (land or water) for amphibious warships
+      // Each leg keeps the formation, facing from the previous waypoint
+      const starts = fleet.map(
+        (unit) => this.patrolStarts.get(unit.id()) ?? unit.tile(),
+      );
+      const legs: TileRef[][] = [];
+      let from = starts;
+      for (const waypoint of this.patrolWaypoints) {
+        from = formationTargets(this.game, from, waypoint, this.formation);
+        legs.push(from);
+      }
       this.eventBus.emit(
-        new MoveWarshipIntentEvent(this.selectedUnit.id(), clickRef),
+        new BatchMoveWarshipsIntentEvent(
+          fleet.map((unit, i) => ({
+            unitId: unit.id(),
+            targetTile: legs[0][i],
+            patrolRoute: [starts[i], ...legs.map((leg) => leg[i])],
+          })),
+          WarshipOrder.Patrol,
+        ),
       );
+      return;
+    }
 
-      // Set move marker at target position
-      this.moveMarkerTarget = clickRef;
-      this.moveMarkerTimer = this.MOVE_MARKER_DURATION;
+    const targets = formationTargets(
+      this.game,
+      fleet.map((unit) => unit.tile()),
+      target,
+      this.formation,
+    );
+    this.eventBus.emit(
+      new BatchMoveWarshipsIntentEvent(
+        fleet.map((unit, i) => ({ unitId: unit.id(), targetTile: targets[i] })),
+        this.order,
+      ),
+    );
+    // Turn off multi-select mode after issuing command
+    this.eventBus.emit(new MultiSelectModeEvent(false));
+    // Clear selection and notify UILayer
+    this.clearSelection();
+    this.setOrder(WarshipOrder.Move);
+  }
 
-      // Deselect
-      this.eventBus.emit(new UnitSelectionEvent(this.selectedUnit, false));
-    } else if (nearbyWarships.length > 0) {
-      // Toggle selection of the closest warship
-      const clickedUnit = nearbyWarships[0];
-      this.eventBus.emit(new UnitSelectionEvent(clickedUnit, true));
+  /**
+   * Escort the trade ships leaving the clicked port, or those on the route
+   * of the clicked trade ship. Clicks on anything else are ignored.
+   */
+  private commandEscort(fleet: UnitView[], target: TileRef) {
+    const nearest = (type: UnitType) =>
+      this.game
+        .units(type)
+        .filter(
+          (unit) =>
+            unit.isActive() &&
+            unit.owner() === this.myPlayer &&
+            this.game.manhattanDist(unit.tile(), target) <=
+              this.WARSHIP_SELECTION_RADIUS,
+        )
+        .sort(
+          (a, b) =>
+            this.game.manhattanDist(a.tile(), target) -
+            this.game.manhattanDist(b.tile(), target),
+        );
+    const ship = nearest(UnitType.TradeShip).find(
+      (unit) => unit.sourcePortId() !== undefined,
+    );
+    const port = ship?.sourcePortId() ?? nearest(UnitType.Port)[0]?.id();
+    if (port === undefined) {
+      return;
     }
+    this.eventBus.emit(
+      new EscortTradeIntentEvent(
+        fleet.map((unit) => unit.id()),
+        port,
+        ship?.destinationPortId() ?? null,
+      ),
+    );
+    this.eventBus.emit(new MultiSelectModeEvent(false));
+    this.clearSelection();
+    this.setOrder(WarshipOrder.Move);
+  }
+
+  private setOrder(order: WarshipOrder) {
+    this.order = order;
+    this.patrolStarts.clear();
+    this.patrolWaypoints = [];
+    this.emitCommandMode();
+  }
+
+  private emitCommandMode() {
+    this.eventBus.emit(new FleetCommandModeEvent(this.formation, this.order));
+  }
+
+  private onControlGroup(event: ControlGroupEvent) {
+    if (event.assign) {
+      const units =
+        this.selectedUnits.size > 0
+          ? Array.from(this.selectedUnits)
+          : this.selectedUnit
+            ? [this.selectedUnit]
+            : [];
+      // Saving an empty selection clears the group
+      if (units.length === 0) {
+        this.controlGroups.delete(event.group);
+      } else {
+        this.controlGroups.set(
+          event.group,
+          new Set(units.map((unit) => unit.id())),
+        );
+      }
+      return;
+    }
+
+    const ids = this.controlGroups.get(event.group);
+    if (ids === undefined) {
+      return;
+    }
+    const units = this.game
+      .units(UnitType.Viper, UnitType.Condor)
+      .filter(
+        (unit) =>
+          ids.has(unit.id()) &&
+          unit.isActive() &&
+          unit.owner() === this.myPlayer,
+      );
+    // Forget destroyed or captured ships
+    this.controlGroups.set(
+      event.group,
+      new Set(units.map((unit) => unit.id())),
+    );
+
+    this.clearSelection();
+    this.setOrder(WarshipOrder.Move);
+    units.forEach((unit) => this.selectedUnits.add(unit));
+    this.eventBus.emit(
+      new MultiUnitSelectionEvent(new Set(this.selectedUnits)),
+    );
   }
 
   /**
@@ -424,7 +606,9 @@ export class UnitLayer implements Layer {
     this.multiSelectMode = false;
 
     // Emit event for multi-unit selection
-    this.eventBus.emit(new MultiUnitSelectionEvent(new Set(this.selectedUnits)));
+    this.eventBus.emit(
+      new MultiUnitSelectionEvent(new Set(this.selectedUnits)),
+    );
   }
 
   private clearSelection() {
@@ -561,6 +745,24 @@ export class UnitLayer implements Layer {
     this.context.stroke();
   }
 
+  // Our escorting warships get a dashed gold ring, inside the area cleared
+  // when the ship moves.
+  private drawEscortMarker(unit: UnitView) {
+    if (unit.escortPortId() === undefined || unit.owner() !== this.myPlayer) {
+      return;
+    }
+    const x = this.game.x(unit.tile());
+    const y = this.game.y(unit.tile());
+
+    this.context.strokeStyle = "rgba(255, 200, 40, 0.9)";
+    this.context.lineWidth = 1;
+    this.context.setLineDash([2, 2]);
+    this.context.beginPath();
+    this.context.arc(x, y, 10, 0, Math.PI * 2);
+    this.context.stroke();
+    this.context.setLineDash([]);
+  }
+
   renderLayer(context: CanvasRenderingContext2D) {
     context.drawImage(
       this.transportShipTrailCanvas,
@@ -623,6 +825,15 @@ export class UnitLayer implements Layer {
       .map((unit) => this.game.unit(unit.id))
       .filter((unitView) => unitView !== undefined) as UnitView[];
 
+    // Draw or clear units the fog of war revealed or covered.
+    if (this.game.visionUpdated()) {
+      for (const unit of this.game.units()) {
+        if (this.hiddenUnits.has(unit.id()) === this.isSeen(unit)) {
+          unitsToProcess.push(unit);
+        }
+      }
+    }
+
     // If a Viper or Condor is updated, we need to redraw all Vipers/Condors on its current and last tile
     const additionalUnitsToRedraw = new Map<number, UnitView>();
 
@@ -673,10 +884,32 @@ export class UnitLayer implements Layer {
     finalUnitsToRedraw.forEach((unitView) => {
       const ready = isSpriteReady(unitView.type());
       if (ready) this.clearUnitCells(unitView);
+      if (!this.isSeen(unitView)) {
+        this.hiddenUnits.add(unitView.id());
+        if (!unitView.isActive()) {
+          this.hiddenUnits.delete(unitView.id());
+          this.handleUnitDeactivation(unitView);
+        }
+        return;
+      }
+      this.hiddenUnits.delete(unitView.id());
       this.onUnitEvent(unitView);
     });
   }
 
+  // Nukes are seen by everyone, other units only out of the fog of war.
+  private isSeen(unit: UnitView): boolean {
+    switch (unit.type()) {
+      case UnitType.AtomBomb:
+      case UnitType.HydrogenBomb:
+      case UnitType.MIRV:
+      case UnitType.MIRVWarhead:
+        return true;
+      default:
+        return this.game.isVisible(unit.tile());
+    }
+  }
+
   private clearUnitCells(unit: UnitView) {
     const sprite = getColoredSprite(unit, this.theme);
 
@@ -854,6 +1087,7 @@ export class UnitLayer implements Layer {
         } else {
           this.drawSprite(u);
         }
+        this.drawEscortMarker(u);
       });
     }
 
@@ -863,6 +1097,7 @@ export class UnitLayer implements Layer {
     } else {
       this.drawSprite(unit);
     }
+    this.drawEscortMarker(unit);
 
     // Don't draw green circle highlight for multi-selected units
     // The UILayer will handle the proper selection box rendering
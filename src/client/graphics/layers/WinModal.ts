@@ -1,13 +1,18 @@
 import { LitElement, css, html } from "lit";
 import { customElement, state } from "lit/decorators.js";
-import { translateText } from "../../../client/Utils";
+import {
+  renderNumber,
+  renderTroops,
+  translateText,
+} from "../../../client/Utils";
 import { EventBus } from "../../../core/EventBus";
-import { PlayerType, Team } from "../../../core/game/Game";
+import { Team } from "../../../core/game/Game";
 import { GameUpdateType } from "../../../core/game/GameUpdates";
 import { GameView, PlayerView } from "../../../core/game/GameView";
+import { AllPlayersStats, PlayerStats } from "../../../core/Schemas";
+import { SoundManager } from "../../soundeffects/effects/SoundManager";
 import { SendWinnerEvent } from "../../Transport";
 import { Layer } from "./Layer";
-import { SoundManager } from "../../soundeffects/effects/SoundManager";
 
 @customElement("win-modal")
 export class WinModal extends LitElement implements Layer {
@@ -22,6 +27,9 @@ export class WinModal extends LitElement implements Layer {
 
   private _title: string;
 
+  // Set from the Win update, shown as the post-game summary.
+  private allPlayersStats: AllPlayersStats | null = null;
+
   // Override to prevent shadow DOM creation
   createRenderRoot() {
     return this;
@@ -47,6 +55,10 @@ export class WinModal extends LitElement implements Layer {
         visibility 0.3s ease-in-out;
     }
 
+    .win-modal.with-stats {
+      width: 560px;
+    }
+
     .win-modal.visible {
       display: block;
       animation: fadeIn 0.3s ease-out;
@@ -107,6 +119,46 @@ export class WinModal extends LitElement implements Layer {
       transform: translateY(1px);
     }
 
+    .win-stats {
+      max-height: 300px;
+      overflow-y: auto;
+      margin-bottom: 20px;
+      font-size: 13px;
+    }
+
+    .win-stats table {
+      width: 100%;
+      border-collapse: collapse;
+    }
+
+    .win-stats th,
+    .win-stats td {
+      padding: 4px 6px;
+      text-align: right;
+    }
+
+    .win-stats th:first-child,
+    .win-stats td:first-child {
+      text-align: left;
+      max-width: 140px;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .win-stats tr.me {
+      background-color: rgba(0, 150, 255, 0.3);
+    }
+
+    .win-stats ul {
+      list-style: none;
+      margin: 10px 0 0 0;
+      padding: 0;
+      display: grid;
+      grid-template-columns: 1fr 1fr;
+      gap: 4px 12px;
+    }
+
     @media (max-width: 768px) {
       .win-modal {
         width: 90%;
@@ -135,7 +187,12 @@ export class WinModal extends LitElement implements Layer {
 
   render() {
     return html`
-      <div class="win-modal ${this.isVisible ? "visible" : ""}">
+      <div
+        class="win-modal ${this.isVisible ? "visible" : ""} ${this
+          .allPlayersStats !== null
+          ? "with-stats"
+          : ""}"
+      >
         <h2>${this._title || ""}</h2>
         ${this.innerHtml()}
         <div class="button-container">
@@ -151,7 +208,76 @@ export class WinModal extends LitElement implements Layer {
   }
 
   innerHtml() {
-    return html``;
+    if (this.allPlayersStats === null) {
+      return html``;
+    }
+    const rows = Object.entries(this.allPlayersStats)
+      .filter(([id]) => this.game.hasPlayer(id))
+      .map(([id, stats]) => ({ player: this.game.player(id), stats }))
+      .sort((a, b) => sum(b.stats.tilesConquered) - sum(a.stats.tilesConquered))
+      .slice(0, 10);
+    const myPlayer = this.game.myPlayer();
+    const myStats =
+      myPlayer !== null ? this.allPlayersStats[myPlayer.id()] : undefined;
+
+    return html`
+      <div class="win-stats">
+        <table>
+          <tr>
+            <th>${translateText("win_modal.stats_player")}</th>
+            <th>${translateText("win_modal.stats_tiles")}</th>
+            <th>${translateText("win_modal.stats_troops_killed")}</th>
+            <th>${translateText("win_modal.stats_units")}</th>
+            <th>${translateText("win_modal.stats_trade_gold")}</th>
+          </tr>
+          ${rows.map(
+            ({ player, stats }) => html`
+              <tr class=${player === myPlayer ? "me" : ""}>
+                <td>${player.displayName()}</td>
+                <td>
+                  +${renderNumber(sum(stats.tilesConquered))} /
+                  -${renderNumber(sum(stats.tilesLost))}
+                </td>
+                <td>${renderTroops(stats.troopsKilled)}</td>
+                <td>${sum(stats.unitsDestroyed)} / ${sum(stats.unitsLost)}</td>
+                <td>${renderNumber(stats.tradeGold)}</td>
+              </tr>
+            `,
+          )}
+        </table>
+        ${myStats !== undefined ? this.myStatsHtml(myStats) : html``}
+      </div>
+    `;
+  }
+
+  private myStatsHtml(stats: PlayerStats) {
+    return html`
+      <ul>
+        <li>
+          ${translateText("win_modal.stats_troops_sent")}:
+          ${renderTroops(stats.troopsSent)}
+        </li>
+        <li>
+          ${translateText("win_modal.stats_boats_landed")}: ${stats.boatsLanded}
+        </li>
+        <li>
+          ${translateText("win_modal.stats_units_built")}:
+          ${sum(stats.unitsBuilt)}
+        </li>
+        <li>
+          ${translateText("win_modal.stats_condor_interceptions")}:
+          ${stats.condorInterceptions}
+        </li>
+        <li>
+          ${translateText("win_modal.stats_orbital_cannon_hits")}:
+          ${stats.orbitalCannonHits}
+        </li>
+        <li>
+          ${translateText("win_modal.stats_alliances")}:
+          ${stats.alliancesFormed} / ${stats.alliancesBetrayed}
+        </li>
+      </ul>
+    `;
   }
 
   async show() {
@@ -194,6 +320,7 @@ export class WinModal extends LitElement implements Layer {
     const updates = this.game.updatesSinceLastTick();
     const winUpdates = updates !== null ? updates[GameUpdateType.Win] : [];
     winUpdates.forEach((wu) => {
+      this.allPlayersStats = wu.allPlayersStats;
       if (wu.winnerType === "team") {
         this.eventBus.emit(
           new SendWinnerEvent(wu.winner as Team, wu.allPlayersStats, "team"),
@@ -244,3 +371,7 @@ export class WinModal extends LitElement implements Layer {
     return false;
   }
 }
+
+function sum(counts: Partial<Record<string, number>>): number {
+  return Object.values(counts).reduce<number>((a, b) => a + (b ?? 0), 0);
+}
@@ -3,9 +3,11 @@ import space1 from "../../../resources/maps/Space1Thumb.webp";
 import space2 from "../../../resources/maps/Space2Thumb.webp";
 import testmap from "../../../resources/maps/TestMapThumb.webp";
 
-import { GameMapType } from "../../core/game/Game";
+import { GameMapID, GameMapType } from "../../core/game/Game";
 
-export function getMapsImage(map: GameMapType): string {
+// Thumbnails of built-in maps, map packages load theirs through
+// terrainMapFileLoader.thumbnail.
+export function getMapsImage(map: GameMapID): string {
   switch (map) {
     case GameMapType.Space1:
       return space1;
@@ -1,4 +1,5 @@
 import { placeName } from "../client/graphics/NameBoxCalculator";
+import { Config } from "./configuration/Config";
 import { getConfig } from "./configuration/ConfigLoader";
 import { Executor } from "./execution/ExecutionManager";
 import { WinCheckExecution } from "./execution/WinCheckExecution";
@@ -6,7 +7,6 @@ import {
   AllPlayers,
   Cell,
   Game,
-  GameType,
   GameUpdates,
   NameViewData,
   Nation,
@@ -18,17 +18,23 @@ import {
   PlayerProfile,
   PlayerType,
 } from "./game/Game";
-import { createGame } from "./game/GameImpl";
-import { TileRef } from "./game/GameMap";
+import { createGame, createGameUpdatesMap } from "./game/GameImpl";
+import { GameMapImpl, TileRef } from "./game/GameMap";
 import {
   ErrorUpdate,
   GameUpdateType,
   GameUpdateViewData,
 } from "./game/GameUpdates";
-import { loadTerrainMap as loadGameMap } from "./game/TerrainMapLoader";
+import {
+  loadTerrainMap as loadGameMap,
+  TerrainMapData,
+} from "./game/TerrainMapLoader";
 import { PseudoRandom } from "./PseudoRandom";
 import { ClientID, GameStartInfo, Turn } from "./Schemas";
+import { snapshotTypes } from "./SnapshotTypes";
 import { sanitize, simpleHash } from "./Util";
+import { deepClone, shareInClones } from "./utilities/DeepClone";
+import { deserializeGraph, serializeGraph } from "./utilities/Serialize";
 
 function getRandomPortrait(random: PseudoRandom): string {
   // Allowed portraits: nation1, nation2, nation4, nation5, nation6, nation7
@@ -37,15 +43,34 @@ function getRandomPortrait(random: PseudoRandom): string {
   return `nation${allowed[idx]}`;
 }
 
-
-
 export async function createGameRunner(
   gameStart: GameStartInfo,
   clientID: ClientID,
   callBack: (gu: GameUpdateViewData) => void,
 ): Promise<GameRunner> {
   const config = await getConfig(gameStart.config, null);
-  const gameMap = await loadGameMap(gameStart.config.gameMap);
+  const gameMap = await loadGameMap(
+    gameStart.config.gameMap,
+    gameStart.config.mapSeed,
+  );
+  return createGameRunnerFromMap(
+    gameStart,
+    clientID,
+    callBack,
+    config,
+    gameMap,
+  );
+}
+
+// Builds a runner from an already loaded config and map. Used directly by
+// headless tools that cannot fetch /api/env or load maps through webpack.
+export function createGameRunnerFromMap(
+  gameStart: GameStartInfo,
+  clientID: ClientID,
+  callBack: (gu: GameUpdateViewData | ErrorUpdate) => void,
+  config: Config,
+  gameMap: TerrainMapData,
+): GameRunner {
   const random = new PseudoRandom(simpleHash(gameStart.gameID));
 
   const humans = gameStart.players.map(
@@ -85,6 +110,7 @@ export async function createGameRunner(
     gameMap.gameMap,
     gameMap.miniGameMap,
     config,
+    gameMap.nationMap.spawnZones,
   );
 
   const gr = new GameRunner(
@@ -96,6 +122,14 @@ export async function createGameRunner(
   return gr;
 }
 
+// Simulation state of a GameRunner after `turn` turns have been executed.
+export interface GameRunnerSnapshot {
+  turn: number;
+  game: Game;
+  execManager: Executor;
+  playerViewData: Record<PlayerID, NameViewData>;
+}
+
 export class GameRunner {
   private turns: Turn[] = [];
   private currTurn = 0;
@@ -134,7 +168,28 @@ export class GameRunner {
       return;
     }
     this.isExecuting = true;
+    const gu = this.executeTurn();
+    if (gu === null) {
+      return;
+    }
+    this.callBack(gu);
+    if ("errMsg" in gu) {
+      // Stop executing turns once the simulation has failed.
+      return;
+    }
+    this.isExecuting = false;
+  }
+
+  // Executes the next turn without sending its updates to the callback, so
+  // replays can fast-forward without rendering every tick.
+  public executeNextTickSilently(): GameUpdateViewData | ErrorUpdate | null {
+    if (this.currTurn >= this.turns.length) {
+      return null;
+    }
+    return this.executeTurn();
+  }
 
+  private executeTurn(): GameUpdateViewData | ErrorUpdate | null {
     this.game.addExecution(
       ...this.execManager.createExecs(this.turns[this.currTurn]),
     );
@@ -147,14 +202,14 @@ export class GameRunner {
     } catch (error: unknown) {
       if (error instanceof Error) {
         console.error("Game tick error:", error.message);
-        this.callBack({
+        return {
           errMsg: error.message,
           stack: error.stack,
-        } as ErrorUpdate);
+        } as ErrorUpdate;
       } else {
         console.error("Game tick error:", error);
       }
-      return;
+      return null;
     }
 
     if (this.game.inSpawnPhase() && this.game.ticks() % 2 === 0) {
@@ -179,13 +234,127 @@ export class GameRunner {
     const packedTileUpdates = updates[GameUpdateType.Tile].map((u) => u.update);
     updates[GameUpdateType.Tile] = [];
 
-    this.callBack({
+    return {
       tick: this.game.ticks(),
       packedTileUpdates: new BigUint64Array(packedTileUpdates),
       updates: updates,
       playerNameViewData: this.playerViewData,
+    };
+  }
+
+  // Executes every received turn without rendering them, used to continue
+  // a saved game. Returns a full sync update for the client, or the error
+  // if the simulation failed on the way.
+  public fastForward(): GameUpdateViewData | ErrorUpdate {
+    for (;;) {
+      const gu = this.executeNextTickSilently();
+      if (gu === null) {
+        return this.fullSyncUpdate();
+      }
+      if ("errMsg" in gu) {
+        return gu;
+      }
+    }
+  }
+
+  public numTurnsExecuted(): number {
+    return this.currTurn;
+  }
+
+  public numPendingTurns(): number {
+    return this.turns.length - this.currTurn;
+  }
+
+  // Drops received turns from index `turn` onwards, used when a replay seeks
+  // back so the turns are not executed twice once they are sent again.
+  public truncateTurns(turn: number) {
+    this.turns.length = Math.min(this.turns.length, turn);
+  }
+
+  public snapshot(): GameRunnerSnapshot {
+    shareInClones(this.game.config());
+    return deepClone({
+      turn: this.currTurn,
+      game: this.game,
+      execManager: this.execManager,
+      playerViewData: this.playerViewData,
     });
-    this.isExecuting = false;
+  }
+
+  public restore(snapshot: GameRunnerSnapshot) {
+    // Copy again so the snapshot can be restored more than once.
+    this.setState(deepClone(snapshot));
+  }
+
+  // Snapshot that a runner of the same game on another machine can restore
+  // with restoreSerialized, used to recover clients that desynced.
+  public serializedSnapshot(): string {
+    return serializeGraph(
+      {
+        turn: this.currTurn,
+        game: this.game,
+        execManager: this.execManager,
+        playerViewData: this.playerViewData,
+      },
+      snapshotTypes,
+      this.sharedState(),
+    );
+  }
+
+  public restoreSerialized(data: string) {
+    this.setState(
+      deserializeGraph<GameRunnerSnapshot>(
+        data,
+        snapshotTypes,
+        this.sharedState(),
+      ),
+    );
+  }
+
+  private setState(state: GameRunnerSnapshot) {
+    if (state.turn > this.turns.length) {
+      throw new Error(
+        `cannot restore turn ${state.turn}, only have ${this.turns.length} turns`,
+      );
+    }
+    this.game = state.game;
+    this.execManager = state.execManager;
+    this.playerViewData = state.playerViewData;
+    this.currTurn = state.turn;
+  }
+
+  // Built the same from the start info on every machine, so serialized
+  // snapshots reference them instead of copying.
+  private sharedState(): object[] {
+    return [
+      this.game.config(),
+      ...[this.game.map(), this.game.miniMap()].flatMap((map) =>
+        map instanceof GameMapImpl ? map.sharedData() : [],
+      ),
+    ];
+  }
+
+  // Update describing the whole game state, sent after restoring a snapshot
+  // so the client can rebuild its view from scratch.
+  public fullSyncUpdate(): GameUpdateViewData {
+    const updates = createGameUpdatesMap();
+    this.game
+      .allPlayers()
+      .forEach((p) => updates[GameUpdateType.Player].push(p.toUpdate()));
+    this.game
+      .units()
+      .forEach((u) => updates[GameUpdateType.Unit].push(u.toUpdate()));
+    const packedTileUpdates: bigint[] = [];
+    this.game.forEachTile((tile) =>
+      packedTileUpdates.push(this.game.map().toTileUpdate(tile)),
+    );
+    return {
+      tick: this.game.ticks(),
+      packedTileUpdates: new BigUint64Array(packedTileUpdates),
+      updates,
+      playerNameViewData: this.playerViewData,
+      fullSync: true,
+    };
   }
 
   public playerActions(
@@ -198,6 +367,7 @@ export class GameRunner {
     const actions = {
       canAttack: player.canAttack(tile),
       buildableUnits: player.buildableUnits(tile),
+      upgradeableUnit: player.upgradeableUnit(tile),
       canSendEmojiAllPlayers: player.canSendEmoji(AllPlayers),
     } as PlayerActions;
 
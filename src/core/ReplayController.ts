@@ -0,0 +1,162 @@
+import { PlayerID, UnitType } from "./game/Game";
+import {
+  ErrorUpdate,
+  GameUpdateType,
+  GameUpdateViewData,
+} from "./game/GameUpdates";
+import { GameRunner, GameRunnerSnapshot } from "./GameRunner";
+
+export type ReplayEventType = "alliance" | "betrayal" | "nuke" | "elimination";
+
+// Notable moment of a replay, shown as a marker on the timeline.
+export interface ReplayEvent {
+  // Number of turns executed when the event happened, i.e. a seek target.
+  turn: number;
+  type: ReplayEventType;
+  // Display names of the players involved, the actor first.
+  players: string[];
+  unitType?: UnitType;
+}
+
+const nukeTypes = [UnitType.AtomBomb, UnitType.HydrogenBomb, UnitType.MIRV];
+
+/**
+ * Adds seeking to a GameRunner replaying an archived game. Snapshots are
+ * taken every `checkpointInterval` turns so seeking back only re-simulates
+ * from the closest checkpoint, and notable events are collected from the
+ * updates of every newly simulated turn.
+ */
+export class ReplayController {
+  private checkpoints: GameRunnerSnapshot[] = [];
+  // Highest turn count whose updates have been observed.
+  private furthestTurn = 0;
+  private alivePlayers = new Set<PlayerID>();
+  private seenNukes = new Set<number>();
+
+  constructor(
+    private runner: GameRunner,
+    private onEvents: (events: ReplayEvent[]) => void,
+    private checkpointInterval = 300,
+    private maxCheckpoints = 20,
+  ) {
+    this.checkpoints.push(runner.snapshot());
+  }
+
+  // Must be called with the updates of every executed turn.
+  observe(gu: GameUpdateViewData) {
+    const turn = this.runner.numTurnsExecuted();
+    if (turn <= this.furthestTurn) {
+      // Already seen before seeking back.
+      return;
+    }
+    this.furthestTurn = turn;
+
+    const events = this.collectEvents(turn, gu);
+    if (events.length > 0) {
+      this.onEvents(events);
+    }
+    if (turn % this.checkpointInterval === 0) {
+      this.addCheckpoint();
+    }
+  }
+
+  /**
+   * Moves the simulation to `turn` executed turns. The runner must already
+   * have received every turn up to `turn`. Returns a full sync update for
+   * the client, or the error if the simulation failed on the way.
+   */
+  seek(turn: number): GameUpdateViewData | ErrorUpdate {
+    const current = this.runner.numTurnsExecuted();
+    const checkpoint = this.closestCheckpoint(turn);
+    if (turn < current || checkpoint.turn > current) {
+      this.runner.restore(checkpoint);
+    }
+    while (this.runner.numTurnsExecuted() < turn) {
+      const gu = this.runner.executeNextTickSilently();
+      if (gu === null) {
+        break;
+      }
+      if ("errMsg" in gu) {
+        return gu;
+      }
+      this.observe(gu);
+    }
+    this.runner.truncateTurns(turn);
+    return this.runner.fullSyncUpdate();
+  }
+
+  private closestCheckpoint(turn: number): GameRunnerSnapshot {
+    let closest = this.checkpoints[0];
+    for (const cp of this.checkpoints) {
+      if (cp.turn <= turn) {
+        closest = cp;
+      }
+    }
+    return closest;
+  }
+
+  private addCheckpoint() {
+    this.checkpoints.push(this.runner.snapshot());
+    if (this.checkpoints.length > this.maxCheckpoints) {
+      // Thin out to every other checkpoint so memory stays bounded on long
+      // games, the initial state is always kept.
+      this.checkpointInterval *= 2;
+      this.checkpoints = this.checkpoints.filter(
+        (cp) => cp.turn % this.checkpointInterval === 0,
+      );
+    }
+  }
+
+  private collectEvents(turn: number, gu: GameUpdateViewData): ReplayEvent[] {
+    const game = this.runner.game;
+    const name = (smallID: number) => {
+      const player = game.playerBySmallID(smallID);
+      return player.isPlayer() ? player.displayName() : "";
+    };
+    const events: ReplayEvent[] = [];
+
+    for (const reply of gu.updates[GameUpdateType.AllianceRequestReply]) {
+      if (reply.accepted) {
+        events.push({
+          turn,
+          type: "alliance",
+          players: [
+            name(reply.request.requestorID),
+            name(reply.request.recipientID),
+          ],
+        });
+      }
+    }
+    for (const broke of gu.updates[GameUpdateType.BrokeAlliance]) {
+      events.push({
+        turn,
+        type: "betrayal",
+        players: [name(broke.traitorID), name(broke.betrayedID)],
+      });
+    }
+    for (const unit of gu.updates[GameUpdateType.Unit]) {
+      if (!nukeTypes.includes(unit.unitType) || this.seenNukes.has(unit.id)) {
+        continue;
+      }
+      this.seenNukes.add(unit.id);
+      events.push({
+        turn,
+        type: "nuke",
+        players: [name(unit.ownerID)],
+        unitType: unit.unitType,
+      });
+    }
+    for (const player of gu.updates[GameUpdateType.Player]) {
+      if (player.isAlive) {
+        this.alivePlayers.add(player.id);
+      } else if (this.alivePlayers.delete(player.id)) {
+        events.push({
+          turn,
+          type: "elimination",
+          players: [player.displayName],
+        });
+      }
+    }
+    return events;
+  }
+}
@@ -0,0 +1,114 @@
+import { Config } from "./configuration/Config";
+import {
+  ErrorUpdate,
+  GameUpdateType,
+  GameUpdateViewData,
+} from "./game/GameUpdates";
+import { TerrainMapData } from "./game/TerrainMapLoader";
+import { createGameRunnerFromMap } from "./GameRunner";
+import { GameRecord, Intent, Turn } from "./Schemas";
+import { decompressGameRecord } from "./Util";
+
+export interface ReplayDivergence {
+  // First turn whose archived hash does not match the simulation.
+  turnNumber: number;
+  expectedHash: number;
+  actualHash: number | null;
+  // Last turn whose hash was verified, the desync happened after it.
+  lastVerifiedTurn: number | null;
+  // Intents of every turn between lastVerifiedTurn and turnNumber.
+  suspectTurns: { turnNumber: number; intents: Intent[] }[];
+}
+
+export interface ReplayVerificationResult {
+  gameID: string;
+  turnsReplayed: number;
+  hashesChecked: number;
+  divergence: ReplayDivergence | null;
+  // Set if the simulation threw while replaying.
+  error: (ErrorUpdate & { turnNumber: number }) | null;
+}
+
+/**
+ * Re-simulates an archived game from its GameStartInfo and turns, and compares
+ * the hash of every turn that has one against the archived value. Stops at the
+ * first divergence or simulation error.
+ */
+export function verifyReplay(
+  record: GameRecord,
+  config: Config,
+  terrain: TerrainMapData,
+): ReplayVerificationResult {
+  const turns = decompressGameRecord({ ...record }).turns;
+
+  const hashes = new Map<number, number>();
+  let error = null as ErrorUpdate | null;
+  const runner = createGameRunnerFromMap(
+    record.gameStartInfo,
+    record.gameStartInfo.players[0]?.clientID ?? "",
+    (gu: GameUpdateViewData | ErrorUpdate) => {
+      if ("errMsg" in gu) {
+        error = gu;
+        return;
+      }
+      gu.updates[GameUpdateType.Hash].forEach((hu) =>
+        hashes.set(hu.tick, hu.hash),
+      );
+    },
+    config,
+    terrain,
+  );
+
+  const result: ReplayVerificationResult = {
+    gameID: record.id,
+    turnsReplayed: 0,
+    hashesChecked: 0,
+    divergence: null,
+    error: null,
+  };
+
+  let lastVerifiedTurn: number | null = null;
+  for (const turn of turns) {
+    runner.addTurn({ turnNumber: turn.turnNumber, intents: turn.intents });
+    runner.executeNextTick();
+    result.turnsReplayed++;
+
+    if (error !== null) {
+      result.error = { ...error, turnNumber: turn.turnNumber };
+      return result;
+    }
+
+    if (turn.hash === undefined || turn.hash === null) {
+      continue;
+    }
+    result.hashesChecked++;
+    const actualHash = hashes.get(turn.turnNumber) ?? null;
+    if (actualHash !== turn.hash) {
+      result.divergence = {
+        turnNumber: turn.turnNumber,
+        expectedHash: turn.hash,
+        actualHash,
+        lastVerifiedTurn,
+        suspectTurns: suspectTurns(turns, lastVerifiedTurn, turn.turnNumber),
+      };
+      return result;
+    }
+    lastVerifiedTurn = turn.turnNumber;
+  }
+  return result;
+}
+
+function suspectTurns(
+  turns: Turn[],
+  lastVerifiedTurn: number | null,
+  divergedTurn: number,
+): { turnNumber: number; intents: Intent[] }[] {
+  return turns
+    .filter(
+      (t) =>
+        t.turnNumber > (lastVerifiedTurn ?? -1) &&
+        t.turnNumber <= divergedTurn &&
+        t.intents.length > 0,
+    )
+    .map((t) => ({ turnNumber: t.turnNumber, intents: t.intents }));
+}
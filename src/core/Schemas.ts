@@ -9,7 +9,10 @@ import {
   GameType,
   PlayerType,
   UnitType,
+  VictoryMode,
+  WarshipOrder,
 } from "./game/Game";
+import { MapPackageIdSchema } from "./game/MapPackage";
 import { flattenedEmojiTable } from "./Util";
 
 export type GameID = string;
@@ -29,12 +32,18 @@ export type Intent =
   | DonateTroopsIntent
   | TargetTroopRatioIntent
   | BuildUnitIntent
+  | UpgradeStructureIntent
+  | CancelQueuedShipIntent
+  | ReorderQueuedShipIntent
+  | SetRallyPointIntent
   | EmbargoIntent
+  | TradeAgreementIntent
   | QuickChatIntent
   | DirectChatIntent
   | AllChatIntent
   | MoveWarshipIntent
   | BatchMoveWarshipsIntent
+  | EscortTradeIntent
   | WhisperIntent
   | AutoPlayToggleIntent
   | AutoPlayAttackRatioUpdateIntent;
@@ -53,12 +62,25 @@ export type EmojiIntent = z.infer<typeof EmojiIntentSchema>;
 export type DonateGoldIntent = z.infer<typeof DonateGoldIntentSchema>;
 export type DonateTroopsIntent = z.infer<typeof DonateTroopIntentSchema>;
 export type EmbargoIntent = z.infer<typeof EmbargoIntentSchema>;
+export type TradeAgreementIntent = z.infer<typeof TradeAgreementIntentSchema>;
 export type TargetTroopRatioIntent = z.infer<
   typeof TargetTroopRatioIntentSchema
 >;
 export type BuildUnitIntent = z.infer<typeof BuildUnitIntentSchema>;
+export type UpgradeStructureIntent = z.infer<
+  typeof UpgradeStructureIntentSchema
+>;
+export type CancelQueuedShipIntent = z.infer<
+  typeof CancelQueuedShipIntentSchema
+>;
+export type ReorderQueuedShipIntent = z.infer<
+  typeof ReorderQueuedShipIntentSchema
+>;
+export type SetRallyPointIntent = z.infer<typeof SetRallyPointIntentSchema>;
 export type MoveWarshipIntent = z.infer<typeof MoveWarshipIntentSchema>;
 export type BatchMoveWarshipsIntent = z.infer<typeof BatchMoveWarshipsIntentSchema>;
+export type WarshipMovement = BatchMoveWarshipsIntent["movements"][number];
+export type EscortTradeIntent = z.infer<typeof EscortTradeIntentSchema>;
 export type QuickChatIntent = z.infer<typeof QuickChatIntentSchema>;
 export type DirectChatIntent = z.infer<typeof DirectChatIntentSchema>;
 export type AllChatIntent = z.infer<typeof AllChatIntentSchema>;
@@ -76,14 +98,20 @@ export type ClientMessage =
   | ClientPlayerDataMessage
   | ClientJoinMessage
   | ClientLogMessage
-  | ClientHashMessage;
+  | ClientHashMessage
+  | ClientLobbyMessage
+  | ClientResyncMessage
+  | ClientSnapshotMessage;
 export type ServerMessage =
   | ServerSyncMessage
   | ServerStartGameMessage
   | ServerEndGameMessage
   | ServerPingMessage
   | ServerDesyncMessage
-  | ServerPrestartMessage;
+  | ServerPrestartMessage
+  | ServerLobbyMessage
+  | ServerSnapshotRequestMessage
+  | ServerSnapshotMessage;
 
 export type ServerSyncMessage = z.infer<typeof ServerTurnMessageSchema>;
 export type ServerStartGameMessage = z.infer<
@@ -94,6 +122,12 @@ export type ServerEndGameMessage = z.infer<typeof ServerEndGameMessageSchema>;
 export type ServerPingMessage = z.infer<typeof ServerPingMessageSchema>;
 export type ServerDesyncMessage = z.infer<typeof ServerDesyncSchema>;
 export type ServerPrestartMessage = z.infer<typeof ServerPrestartMessageSchema>;
+export type ServerLobbyMessage = z.infer<typeof ServerLobbyMessageSchema>;
+export type ServerSnapshotRequestMessage = z.infer<
+  typeof ServerSnapshotRequestSchema
+>;
+export type ServerSnapshotMessage = z.infer<typeof ServerSnapshotMessageSchema>;
+export type LobbyChatMessage = z.infer<typeof LobbyChatMessageSchema>;
 export type ClientSendWinnerMessage = z.infer<typeof ClientSendWinnerSchema>;
 export type ClientPingMessage = z.infer<typeof ClientPingMessageSchema>;
 export type ClientIntentMessage = z.infer<typeof ClientIntentMessageSchema>;
@@ -103,9 +137,14 @@ export type ClientPlayerDataMessage = z.infer<
 export type ClientJoinMessage = z.infer<typeof ClientJoinMessageSchema>;
 export type ClientLogMessage = z.infer<typeof ClientLogMessageSchema>;
 export type ClientHashMessage = z.infer<typeof ClientHashSchema>;
+export type ClientLobbyMessage = z.infer<typeof ClientLobbyMessageSchema>;
+export type ClientResyncMessage = z.infer<typeof ClientResyncMessageSchema>;
+export type ClientSnapshotMessage = z.infer<typeof ClientSnapshotMessageSchema>;
+export type LobbyAction = z.infer<typeof LobbyActionSchema>;
 
 export type PlayerRecord = z.infer<typeof PlayerRecordSchema>;
 export type GameRecord = z.infer<typeof GameRecordSchema>;
+export type ClientFlag = z.infer<typeof ClientFlagSchema>;
 
 export type AllPlayersStats = z.infer<typeof AllPlayersStatsSchema>;
 export type PlayerStats = z.infer<typeof PlayerStatsSchema>;
@@ -113,12 +152,16 @@ export type Player = z.infer<typeof PlayerSchema>;
 export type ServerPlayerData = z.infer<typeof ServerPlayerDataSchema>;
 
 export type GameStartInfo = z.infer<typeof GameStartInfoSchema>;
+export type VictoryCondition = z.infer<typeof VictoryConditionSchema>;
+export type HillZone = z.infer<typeof HillZoneSchema>;
+export type BalanceProfile = z.infer<typeof BalanceProfileSchema>;
 const PlayerTypeSchema = z.nativeEnum(PlayerType);
 
 export interface GameInfo {
   gameID: GameID;
   clients?: ClientInfo[];
   numClients?: number;
+  numSpectators?: number;
   msUntilStart?: number;
   gameConfig?: GameConfig;
 }
@@ -134,8 +177,139 @@ export enum LogSeverity {
   Fatal = "FATAL",
 }
 
+const HillZoneSchema = z.object({
+  x: z.number().int().min(0),
+  y: z.number().int().min(0),
+  radius: z.number().int().min(1).max(200),
+});
+
+export const VictoryConditionSchema = z.discriminatedUnion("mode", [
+  // Own percentageTilesOwnedToWin() of the land.
+  z.object({ mode: z.literal(VictoryMode.Territory) }),
+  // Highest score once the time limit after the spawn phase is reached.
+  z.object({
+    mode: z.literal(VictoryMode.Score),
+    durationMinutes: z.number().int().min(1).max(180),
+  }),
+  // Control zones for a total of holdSeconds, counted once per zone held.
+  // Defaults to a single zone in the center of the map.
+  z.object({
+    mode: z.literal(VictoryMode.KingOfTheHill),
+    zones: z.array(HillZoneSchema).max(10).optional(),
+    holdSeconds: z.number().int().min(1),
+  }),
+  // Be the only player, or team, left alive.
+  z.object({ mode: z.literal(VictoryMode.LastStanding) }),
+  // Capture this many cities from other players.
+  z.object({
+    mode: z.literal(VictoryMode.CaptureCities),
+    count: z.number().int().min(1),
+  }),
+]);
+
+// Registered AI strategy per nation name, "*" applies to every other nation.
+// Nations without one use the built-in AI.
+export const NationStrategiesSchema = z.record(z.string(), z.string());
+
+const UnitBalanceSchema = z
+  .object({
+    cost: z.number().int().min(0),
+    maxHealth: z.number().int().min(1),
+    damage: z.number().int().min(0),
+    constructionDuration: z.number().int().min(0),
+    maxLevel: z.number().int().min(1).max(10),
+  })
+  .partial()
+  .strict();
+
+// Config rules a profile can replace with a constant, checked against
+// Config in BalanceProfile.ts.
+export const balanceRules = [
+  "samHittingChance",
+  "samWarheadHittingChance",
+  "spawnImmunityDuration",
+  "percentageTilesOwnedToWin",
+  "cityPopulationIncrease",
+  "radiusPortSpawn",
+  "portQueueSize",
+  "shellLifetime",
+  "boatMaxNumber",
+  "allianceDuration",
+  "allianceRequestCooldown",
+  "temporaryEmbargoDuration",
+  "tradeAgreementPortBonus",
+  "tradeAgreementMaxDuration",
+  "tradeOfferDuration",
+  "targetDuration",
+  "targetCooldown",
+  "donateCooldown",
+  "safeFromPiratesCooldownMax",
+  "defensePostRange",
+  "SAMCooldown",
+  "SiloCooldown",
+  "defensePostDefenseBonus",
+  "structureRegenDelay",
+  "structureRegenRate",
+  "warshipPatrolRange",
+  "warshipShellAttackRate",
+  "warshipTargettingRange",
+  "escortThreatRange",
+  "defensePostShellAttackRate",
+  "defensePostTargettingRange",
+  "territorySightRange",
+  "traitorDefenseDebuff",
+  "traitorDuration",
+  "defaultNukeSpeed",
+  "structureMinDist",
+] as const;
+
+// Rules computed from the game state, a profile can only scale them.
+export const balanceMultipliers = [
+  "startManpower",
+  "populationIncreaseRate",
+  "goldAdditionRate",
+  "maxPopulation",
+  "attackAmount",
+  "boatAttackAmount",
+  "tradeShipGold",
+  "tradeShipSpawnRate",
+] as const;
+
+// Overrides the rules of DefaultConfig for a single game.
+export const BalanceProfileSchema = z
+  .object({
+    name: z.string().max(50),
+    rules: z.record(z.enum(balanceRules), z.number().min(0)).optional(),
+    multipliers: z
+      .record(z.enum(balanceMultipliers), z.number().min(0).max(100))
+      .optional(),
+    units: z.record(z.nativeEnum(UnitType), UnitBalanceSchema).optional(),
+    nukeMagnitudes: z
+      .record(
+        z.enum([
+          UnitType.AtomBomb,
+          UnitType.HydrogenBomb,
+          UnitType.MIRVWarhead,
+        ]),
+        z.object({
+          inner: z.number().int().min(0).max(500),
+          outer: z.number().int().min(0).max(500),
+        }),
+      )
+      .optional(),
+  })
+  .strict();
+
+// Built-in maps, or map packages checked against the registry by the server.
+const GameMapIDSchema = z.union([
+  z.nativeEnum(GameMapType),
+  MapPackageIdSchema,
+]);
+
 const GameConfigSchema = z.object({
-  gameMap: z.nativeEnum(GameMapType),
+  gameMap: GameMapIDSchema,
+  // Seed of GameMapType.Procedural, ignored by other maps.
+  mapSeed: z.number().int().optional(),
   difficulty: z.nativeEnum(Difficulty),
   gameType: z.nativeEnum(GameType),
   gameMode: z.nativeEnum(GameMode),
@@ -144,10 +318,16 @@ const GameConfigSchema = z.object({
   infiniteGold: z.boolean(),
   infiniteTroops: z.boolean(),
   instantBuild: z.boolean(),
+  // Players only see around their territory, units and allies.
+  fogOfWar: z.boolean().optional(),
   maxPlayers: z.number().optional(),
   disabledUnits: z.array(z.nativeEnum(UnitType)).optional(),
   playerTeams: z.union([z.number().optional(), z.literal(Duos)]),
   spawnPhaseTurns: z.number().optional(),
+  // Defaults to territory victory if unset.
+  victory: VictoryConditionSchema.optional(),
+  nationStrategies: NationStrategiesSchema.optional(),
+  balance: BalanceProfileSchema.optional(),
   // Blockchain game flag
   isBlockchainGame: z.boolean().optional(),
 });
@@ -182,7 +362,7 @@ function isValidJWT(jwt: string, alg?: string): boolean {
   }
 }
 
-const PersistentIdSchema = z.string().uuid();
+export const PersistentIdSchema = z.string().uuid();
 const TokenSchema = z.string().refine(
   (v) => {
     // Accept valid UUIDs
@@ -216,8 +396,29 @@ const NukesEnum = z.enum([
 
 const NukeStatsSchema = z.record(NukesEnum, z.number());
 
+const UnitCountSchema = z.record(z.nativeEnum(UnitType), z.number());
+
+// Everything but sentNukes came later, records archived before default to
+// empty counts so they still parse.
 export const PlayerStatsSchema = z.object({
   sentNukes: z.record(ID, NukeStatsSchema),
+  // Tiles taken from / lost to each other player, keyed by their id.
+  tilesConquered: z.record(ID, z.number()).default(() => ({})),
+  tilesLost: z.record(ID, z.number()).default(() => ({})),
+  troopsSent: z.number().default(0),
+  troopsKilled: z.number().default(0),
+  tradeGold: z.number().default(0),
+  unitsBuilt: UnitCountSchema.default(() => ({})),
+  // Enemy units this player destroyed, and own units destroyed by others.
+  unitsDestroyed: UnitCountSchema.default(() => ({})),
+  unitsLost: UnitCountSchema.default(() => ({})),
+  // Units taken over from other players, e.g. cities on conquered land.
+  unitsCaptured: UnitCountSchema.default(() => ({})),
+  condorInterceptions: z.number().default(0),
+  orbitalCannonHits: z.number().default(0),
+  alliancesFormed: z.number().default(0),
+  alliancesBetrayed: z.number().default(0),
+  boatsLanded: z.number().default(0),
 });
 
 export const AllPlayersStatsSchema = z.record(ID, PlayerStatsSchema);
@@ -234,8 +435,14 @@ const BaseIntentSchema = z.object({
     "emoji",
     "troop_ratio",
     "build_unit",
+    "upgrade_structure",
+    "cancel_queued_ship",
+    "reorder_queued_ship",
+    "set_rally_point",
     "embargo",
+    "trade_agreement",
     "move_warship",
+    "escort_trade",
     "quick_chat",
     "direct_chat",
     "all_chat",
@@ -303,6 +510,17 @@ export const EmbargoIntentSchema = BaseIntentSchema.extend({
   action: z.union([z.literal("start"), z.literal("stop")]),
 });
 
+// Offering back an agreement offered by `partner`, with the remaining share
+// and the same duration, signs it.
+export const TradeAgreementIntentSchema = BaseIntentSchema.extend({
+  type: z.literal("trade_agreement"),
+  partner: ID,
+  action: z.union([z.literal("offer"), z.literal("cancel")]),
+  // Percent of the gold of each trade between the two kept by the sender.
+  share: z.number().min(0).max(100),
+  duration: z.number().min(0),
+});
+
 export const DonateGoldIntentSchema = BaseIntentSchema.extend({
   type: z.literal("donate_gold"),
   recipient: ID,
@@ -327,6 +545,30 @@ export const BuildUnitIntentSchema = BaseIntentSchema.extend({
   y: z.number(),
 });
 
+export const UpgradeStructureIntentSchema = BaseIntentSchema.extend({
+  type: z.literal("upgrade_structure"),
+  unitId: z.number(),
+});
+
+export const CancelQueuedShipIntentSchema = BaseIntentSchema.extend({
+  type: z.literal("cancel_queued_ship"),
+  unitId: z.number(),
+  entryId: z.number(),
+});
+
+export const ReorderQueuedShipIntentSchema = BaseIntentSchema.extend({
+  type: z.literal("reorder_queued_ship"),
+  unitId: z.number(),
+  entryId: z.number(),
+  index: z.number().int().nonnegative(),
+});
+
+export const SetRallyPointIntentSchema = BaseIntentSchema.extend({
+  type: z.literal("set_rally_point"),
+  unitId: z.number(),
+  tile: z.number().nullable(),
+});
+
 export const CancelAttackIntentSchema = BaseIntentSchema.extend({
   type: z.literal("cancel_attack"),
   attackID: z.string(),
@@ -343,7 +585,19 @@ export const BatchMoveWarshipsIntentSchema = BaseIntentSchema.extend({
   movements: z.array(z.object({
     unitId: z.number(),
     targetTile: z.number(),
+    // Waypoints of the unit for patrol orders
+    patrolRoute: z.array(z.number()).max(16).optional(),
   })),
+  order: z.nativeEnum(WarshipOrder).optional(),
+});
+
+export const EscortTradeIntentSchema = BaseIntentSchema.extend({
+  type: z.literal("escort_trade"),
+  unitIds: z.array(z.number()),
+  // The port whose trade ships are escorted
+  port: z.number(),
+  // Only escort the trade ships headed to this port
+  destination: z.number().nullable(),
 });
 
 export const QuickChatKeySchema = z.enum(
@@ -405,9 +659,15 @@ const IntentSchema = z.union([
   DonateTroopIntentSchema,
   TargetTroopRatioIntentSchema,
   BuildUnitIntentSchema,
+  UpgradeStructureIntentSchema,
+  CancelQueuedShipIntentSchema,
+  ReorderQueuedShipIntentSchema,
+  SetRallyPointIntentSchema,
   EmbargoIntentSchema,
+  TradeAgreementIntentSchema,
   MoveWarshipIntentSchema,
   BatchMoveWarshipsIntentSchema,
+  EscortTradeIntentSchema,
   QuickChatIntentSchema,
   DirectChatIntentSchema,
   AllChatIntentSchema,
@@ -426,7 +686,17 @@ export const TurnSchema = z.object({
 // Server
 
 const ServerBaseMessageSchema = z.object({
-  type: z.enum(["turn", "ping", "prestart", "start", "desync", "end"]),
+  type: z.enum([
+    "turn",
+    "ping",
+    "prestart",
+    "start",
+    "desync",
+    "end",
+    "lobby",
+    "snapshot_request",
+    "snapshot",
+  ]),
 });
 
 export const ServerTurnMessageSchema = ServerBaseMessageSchema.extend({
@@ -440,7 +710,8 @@ export const ServerPingMessageSchema = ServerBaseMessageSchema.extend({
 
 export const ServerPrestartMessageSchema = ServerBaseMessageSchema.extend({
   type: z.literal("prestart"),
-  gameMap: z.nativeEnum(GameMapType),
+  gameMap: GameMapIDSchema,
+  mapSeed: z.number().int().optional(),
 });
 
 export const PlayerSchema = z.object({
@@ -497,6 +768,44 @@ export const ServerDesyncSchema = ServerBaseMessageSchema.extend({
   yourHash: z.number().optional(),
 });
 
+// Asks a client that is in sync for a snapshot of its game, which the
+// server passes on to the desynced client `clientID`.
+export const ServerSnapshotRequestSchema = ServerBaseMessageSchema.extend({
+  type: z.literal("snapshot_request"),
+  clientID: ID,
+});
+
+// Serialized game state of a client that is in sync, restored by a desynced
+// client in place of its own.
+export const ServerSnapshotMessageSchema = ServerBaseMessageSchema.extend({
+  type: z.literal("snapshot"),
+  snapshot: z.string(),
+});
+
+export const LobbyChatMessageSchema = z.object({
+  clientID: ID,
+  username: SafeString,
+  message: SafeString.max(200),
+  time: z.number(),
+});
+
+// Lobby state sent to every player whenever it changes, until the game starts.
+export const ServerLobbyMessageSchema = ServerBaseMessageSchema.extend({
+  type: z.literal("lobby"),
+  hostClientID: ID.nullable(),
+  players: z.array(
+    z.object({
+      clientID: ID,
+      username: SafeString,
+      ready: z.boolean(),
+    }),
+  ),
+  chat: z.array(LobbyChatMessageSchema),
+  gameConfig: GameConfigSchema,
+  // Start as soon as every player is ready.
+  autoStart: z.boolean(),
+});
+
 export const ServerMessageSchema = z.union([
   ServerTurnMessageSchema,
   ServerPrestartMessageSchema,
@@ -504,6 +813,9 @@ export const ServerMessageSchema = z.union([
   ServerEndGameMessageSchema,
   ServerPingMessageSchema,
   ServerDesyncSchema,
+  ServerLobbyMessageSchema,
+  ServerSnapshotRequestSchema,
+  ServerSnapshotMessageSchema,
 ]);
 
 // Client
@@ -564,6 +876,32 @@ export const ClientJoinMessageSchema = z.object({
   flag: SafeString.nullable(),
   // Optional wallet address for blockchain games
   walletAddress: z.string().nullable().optional(),
+  // Spectators receive the turn stream but never get a player.
+  spectator: z.boolean().optional(),
+});
+
+// Only accepted before the game starts. Kicks and auto start are host only.
+export const LobbyActionSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("chat"), message: SafeString.max(200) }),
+  z.object({ kind: z.literal("ready"), ready: z.boolean() }),
+  z.object({ kind: z.literal("kick"), target: ID, ban: z.boolean() }),
+  z.object({ kind: z.literal("auto_start"), enabled: z.boolean() }),
+]);
+
+export const ClientLobbyMessageSchema = z.object({
+  type: z.literal("lobby"),
+  action: LobbyActionSchema,
+});
+
+export const ClientResyncMessageSchema = z.object({
+  type: z.literal("resync"),
+});
+
+// Answer to a snapshot_request for the desynced client `clientID`.
+export const ClientSnapshotMessageSchema = z.object({
+  type: z.literal("snapshot"),
+  clientID: ID,
+  snapshot: z.string(),
 });
 
 export const ClientMessageSchema = z.union([
@@ -574,6 +912,9 @@ export const ClientMessageSchema = z.union([
   ClientJoinMessageSchema,
   ClientLogMessageSchema,
   ClientHashSchema,
+  ClientLobbyMessageSchema,
+  ClientResyncMessageSchema,
+  ClientSnapshotMessageSchema,
 ]);
 
 export const PlayerRecordSchema = z.object({
@@ -583,6 +924,14 @@ export const PlayerRecordSchema = z.object({
   persistentID: PersistentIdSchema, // WARNING: PII
 });
 
+// Intents the server rejected from a client, and whether it was kicked.
+export const ClientFlagSchema = z.object({
+  clientID: ID,
+  reason: z.string(),
+  turn: z.number(),
+  kicked: z.boolean(),
+});
+
 export const GameRecordSchema = z.object({
   id: ID,
   gameStartInfo: GameStartInfoSchema,
@@ -598,4 +947,5 @@ export const GameRecordSchema = z.object({
   allPlayersStats: z.record(ID, PlayerStatsSchema),
   version: z.enum(["v0.0.1"]),
   gitCommit: z.string().nullable().optional(),
+  flaggedClients: z.array(ClientFlagSchema).optional(),
 });
@@ -0,0 +1,179 @@
+import { PriorityQueue } from "@datastructures-js/priority-queue";
+import {
+  ActionsAdapter,
+  AIPlayerExecution,
+  GameViewAdapter,
+  PlayerViewAdapter,
+} from "./execution/ai/AIPlayerExecution";
+import { ExpanderStrategy } from "./execution/ai/ExpanderStrategy";
+import { AllChatExecution } from "./execution/AllChatExecution";
+import { AllianceRequestExecution } from "./execution/alliance/AllianceRequestExecution";
+import { AllianceRequestReplyExecution } from "./execution/alliance/AllianceRequestReplyExecution";
+import { BreakAllianceExecution } from "./execution/alliance/BreakAllianceExecution";
+import {
+  AttackExecution,
+  byPriority,
+  TileContainer,
+} from "./execution/AttackExecution";
+import { AutoPlayExecution } from "./execution/AutoPlayExecution";
+import { BatchMoveWarshipsExecution } from "./execution/BatchMoveWarshipsExecution";
+import { BotExecution } from "./execution/BotExecution";
+import { CancelQueuedShipExecution } from "./execution/CancelQueuedShipExecution";
+import { CityExecution } from "./execution/CityExecution";
+import { CondorMissileExecution } from "./execution/CondorMissileExecution";
+import { ConstructionExecution } from "./execution/ConstructionExecution";
+import { DefensePostExecution } from "./execution/DefensePostExecution";
+import { DirectChatExecution } from "./execution/DirectChatExecution";
+import { DonateGoldExecution } from "./execution/DonateGoldExecution";
+import { DonateTroopsExecution } from "./execution/DonateTroopExecution";
+import { EmbargoExecution } from "./execution/EmbargoExecution";
+import { EmojiExecution } from "./execution/EmojiExecution";
+import { EscortTradeExecution } from "./execution/EscortTradeExecution";
+import { Executor } from "./execution/ExecutionManager";
+import { FakeHumanExecution } from "./execution/FakeHumanExecution";
+import { MirvExecution } from "./execution/MIRVExecution";
+import { MissileSiloExecution } from "./execution/MissileSiloExecution";
+import { MoveWarshipExecution } from "./execution/MoveWarshipExecution";
+import { NoOpExecution } from "./execution/NoOpExecution";
+import { NukeExecution } from "./execution/NukeExecution";
+import { OrbitalCannonExecution } from "./execution/OrbitalCannonExecution";
+import { OrbitalCannonMissileExecution } from "./execution/OrbitalCannonMissileExecution";
+import { PlayerExecution } from "./execution/PlayerExecution";
+import { PortExecution } from "./execution/PortExecution";
+import { QuickChatExecution } from "./execution/QuickChatExecution";
+import { ReorderQueuedShipExecution } from "./execution/ReorderQueuedShipExecution";
+import { RetreatExecution } from "./execution/RetreatExecution";
+import { SAMLauncherExecution } from "./execution/SAMLauncherExecution";
+import { SAMMissileExecution } from "./execution/SAMMissileExecution";
+import { SetRallyPointExecution } from "./execution/SetRallyPointExecution";
+import { SetTargetTroopRatioExecution } from "./execution/SetTargetTroopRatioExecution";
+import { ShellExecution } from "./execution/ShellExecution";
+import { SpawnExecution } from "./execution/SpawnExecution";
+import { TargetPlayerExecution } from "./execution/TargetPlayerExecution";
+import { TradeAgreementExecution } from "./execution/TradeAgreementExecution";
+import { TradeShipExecution } from "./execution/TradeShipExecution";
+import { TransportShipExecution } from "./execution/TransportShipExecution";
+import { UpgradeStructureExecution } from "./execution/UpgradeStructureExecution";
+import { BotBehavior } from "./execution/utils/BotBehavior";
+import { WarshipExecution } from "./execution/WarshipExecution";
+import { WhisperExecution } from "./execution/WhisperExecution";
+import { WinCheckExecution } from "./execution/WinCheckExecution";
+import { AllianceImpl } from "./game/AllianceImpl";
+import { AllianceRequestImpl } from "./game/AllianceRequestImpl";
+import { AttackImpl } from "./game/AttackImpl";
+import { Cell, Nation, PlayerInfo } from "./game/Game";
+import { GameImpl } from "./game/GameImpl";
+import { GameMapImpl } from "./game/GameMap";
+import { Donation, PlayerImpl } from "./game/PlayerImpl";
+import { StatsImpl } from "./game/StatsImpl";
+import { TerraNulliusImpl } from "./game/TerraNulliusImpl";
+import { UnitGrid } from "./game/UnitGrid";
+import { UnitImpl } from "./game/UnitImpl";
+import { MiniAStar } from "./pathfinding/MiniAStar";
+import {
+  AirPathFinder,
+  ParabolaPathFinder,
+  PathFinder,
+} from "./pathfinding/PathFinding";
+import { byFScore, SerialAStar } from "./pathfinding/SerialAStar";
+import { PseudoRandom } from "./PseudoRandom";
+import {
+  BezenhamLine,
+  CubicBezierCurve,
+  DistanceBasedBezierCurve,
+} from "./utilities/Line";
+import { SerializableTypes } from "./utilities/Serialize";
+
+// PriorityQueue keeps its items in a Heap that the package does not export.
+const Heap = Object.getPrototypeOf(
+  (new PriorityQueue(byPriority) as unknown as { _heap: object })._heap,
+).constructor;
+
+/**
+ * Every class, and comparator kept in a queue, that the state of a running
+ * game can hold. Snapshots of a game holding anything else, e.g. a strategy
+ * registered with registerAIStrategy, cannot be serialized.
+ */
+export const snapshotTypes: SerializableTypes = {
+  ActionsAdapter,
+  AIPlayerExecution,
+  AirPathFinder,
+  AllChatExecution,
+  AllianceImpl,
+  AllianceRequestExecution,
+  AllianceRequestImpl,
+  AllianceRequestReplyExecution,
+  AttackExecution,
+  AttackImpl,
+  AutoPlayExecution,
+  BatchMoveWarshipsExecution,
+  BezenhamLine,
+  BotBehavior,
+  BotExecution,
+  BreakAllianceExecution,
+  byFScore,
+  byPriority,
+  CancelQueuedShipExecution,
+  Cell,
+  CityExecution,
+  CondorMissileExecution,
+  ConstructionExecution,
+  CubicBezierCurve,
+  DefensePostExecution,
+  DirectChatExecution,
+  DistanceBasedBezierCurve,
+  DonateGoldExecution,
+  DonateTroopsExecution,
+  Donation,
+  EmbargoExecution,
+  EmojiExecution,
+  EscortTradeExecution,
+  Executor,
+  ExpanderStrategy,
+  FakeHumanExecution,
+  GameImpl,
+  GameMapImpl,
+  GameViewAdapter,
+  Heap,
+  MiniAStar,
+  MirvExecution,
+  MissileSiloExecution,
+  MoveWarshipExecution,
+  Nation,
+  NoOpExecution,
+  NukeExecution,
+  OrbitalCannonExecution,
+  OrbitalCannonMissileExecution,
+  ParabolaPathFinder,
+  PathFinder,
+  PlayerExecution,
+  PlayerImpl,
+  PlayerInfo,
+  PlayerViewAdapter,
+  PortExecution,
+  PriorityQueue,
+  PseudoRandom,
+  QuickChatExecution,
+  ReorderQueuedShipExecution,
+  RetreatExecution,
+  SAMLauncherExecution,
+  SAMMissileExecution,
+  SerialAStar,
+  SetRallyPointExecution,
+  SetTargetTroopRatioExecution,
+  ShellExecution,
+  SpawnExecution,
+  StatsImpl,
+  TargetPlayerExecution,
+  TerraNulliusImpl,
+  TileContainer,
+  TradeAgreementExecution,
+  TradeShipExecution,
+  TransportShipExecution,
+  UnitGrid,
+  UnitImpl,
+  UpgradeStructureExecution,
+  WarshipExecution,
+  WhisperExecution,
+  WinCheckExecution,
+};
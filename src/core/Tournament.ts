@@ -0,0 +1,230 @@
+import { Config } from "./configuration/Config";
+import {
+  Difficulty,
+  Game,
+  GameMapType,
+  GameMode,
+  GameType,
+  PlayerType,
+} from "./game/Game";
+import { GameUpdateType, WinUpdate } from "./game/GameUpdates";
+import { TerrainMapData } from "./game/TerrainMapLoader";
+import { createGameRunnerFromMap } from "./GameRunner";
+import {
+  BalanceProfile,
+  GameConfig,
+  GameStartInfo,
+  PlayerStats,
+  VictoryCondition,
+} from "./Schemas";
+
+// Strategy name for nations run by the built-in FakeHumanExecution.
+export const defaultStrategy = "default";
+
+export interface TournamentOptions {
+  map: GameMapType;
+  games: number;
+  // Assigned round-robin to the map's nations and rotated every game, so
+  // each strategy plays from every spawn.
+  strategies: string[];
+  // Cycled through, one per game.
+  difficulties: Difficulty[];
+  bots: number;
+  victory?: VictoryCondition;
+  balance?: BalanceProfile;
+  // Games without a winner by then are recorded as draws.
+  maxTicks: number;
+  // Ticks between two territory samples.
+  sampleInterval: number;
+  // Game ids are derived from it, the same seed replays the same games.
+  seed: string;
+}
+
+export interface TournamentPlayerResult {
+  name: string;
+  strategy: string;
+  tiles: number;
+  alive: boolean;
+  stats: PlayerStats | null;
+}
+
+export interface TerritorySample {
+  tick: number;
+  // Share of the land owned by each nation, keyed by name.
+  shares: Record<string, number>;
+}
+
+export interface TournamentGameResult {
+  game: number;
+  gameID: string;
+  map: GameMapType;
+  difficulty: Difficulty;
+  // Name of the winning player or team, null on a draw.
+  winner: string | null;
+  winnerStrategy: string | null;
+  ticks: number;
+  territory: TerritorySample[];
+  players: TournamentPlayerResult[];
+}
+
+// Strategy of every nation in game `index`, keyed by nation name.
+function assignStrategies(
+  options: TournamentOptions,
+  index: number,
+  terrain: TerrainMapData,
+): Record<string, string> {
+  const assignment: Record<string, string> = {};
+  terrain.nationMap.nations.forEach((nation, i) => {
+    assignment[nation.name] =
+      options.strategies[(i + index) % options.strategies.length];
+  });
+  return assignment;
+}
+
+function tournamentGameConfig(
+  options: TournamentOptions,
+  index: number,
+  strategies: Record<string, string>,
+): GameConfig {
+  const nationStrategies: Record<string, string> = {};
+  for (const [nation, strategy] of Object.entries(strategies)) {
+    if (strategy !== defaultStrategy) {
+      nationStrategies[nation] = strategy;
+    }
+  }
+  return {
+    gameMap: options.map,
+    difficulty: options.difficulties[index % options.difficulties.length],
+    gameType: GameType.Singleplayer,
+    gameMode: GameMode.FFA,
+    disableNPCs: false,
+    bots: options.bots,
+    infiniteGold: false,
+    infiniteTroops: false,
+    instantBuild: false,
+    playerTeams: undefined,
+    victory: options.victory,
+    nationStrategies,
+    balance: options.balance,
+  };
+}
+
+/**
+ * Simulates one game without humans at full speed. `terrain` must be freshly
+ * loaded, the game map holds tile ownership.
+ */
+export function runTournamentGame(
+  options: TournamentOptions,
+  index: number,
+  terrain: TerrainMapData,
+  createConfig: (gameConfig: GameConfig) => Config,
+): TournamentGameResult {
+  const strategies = assignStrategies(options, index, terrain);
+  const config = createConfig(tournamentGameConfig(options, index, strategies));
+  const gameStartInfo: GameStartInfo = {
+    gameID: `${options.seed}-${index}`,
+    config: config.gameConfig(),
+    players: [],
+  };
+  const runner = createGameRunnerFromMap(
+    gameStartInfo,
+    "",
+    () => {},
+    config,
+    terrain,
+  );
+
+  const territory: TerritorySample[] = [];
+  let win: WinUpdate | null = null;
+  while (win === null && runner.game.ticks() < options.maxTicks) {
+    runner.addTurn({ turnNumber: runner.numTurnsExecuted(), intents: [] });
+    const gu = runner.executeNextTickSilently();
+    if (gu === null) {
+      break;
+    }
+    if ("errMsg" in gu) {
+      throw new Error(`game ${index} failed: ${gu.errMsg}`);
+    }
+    win = gu.updates[GameUpdateType.Win][0] ?? null;
+    if (runner.game.ticks() % options.sampleInterval === 0 || win !== null) {
+      territory.push(sampleTerritory(runner.game));
+    }
+  }
+
+  const game = runner.game;
+  let winner: string | null = null;
+  let winnerStrategy: string | null = null;
+  if (win !== null && win.winnerType === "player") {
+    const player = game.playerBySmallID(win.winner as number);
+    if (player.isPlayer()) {
+      winner = player.name();
+      winnerStrategy = strategies[winner] ?? null;
+    }
+  } else if (win !== null) {
+    winner = win.winner as string;
+  }
+
+  return {
+    game: index,
+    gameID: gameStartInfo.gameID,
+    map: options.map,
+    difficulty: gameStartInfo.config.difficulty,
+    winner,
+    winnerStrategy,
+    ticks: game.ticks(),
+    territory,
+    players: nations(game).map((p) => ({
+      name: p.name(),
+      strategy: strategies[p.name()] ?? defaultStrategy,
+      tiles: p.numTilesOwned(),
+      alive: p.isAlive(),
+      stats: game.stats().stats()[p.id()] ?? null,
+    })),
+  };
+}
+
+function nations(game: Game) {
+  return game.allPlayers().filter((p) => p.type() === PlayerType.FakeHuman);
+}
+
+function sampleTerritory(game: Game): TerritorySample {
+  const shares: Record<string, number> = {};
+  for (const player of nations(game)) {
+    shares[player.name()] = player.numTilesOwned() / game.numLandTiles();
+  }
+  return { tick: game.ticks(), shares };
+}
+
+const csvColumns = [
+  "game",
+  "game_id",
+  "map",
+  "difficulty",
+  "winner",
+  "winner_strategy",
+  "ticks",
+  "strategies",
+];
+
+// One row per game, the per player data only goes to the JSON output.
+export function tournamentCSV(results: TournamentGameResult[]): string {
+  const escape = (value: string | number | null) => {
+    const str = value === null ? "" : String(value);
+    return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+  };
+  const rows = results.map((r) =>
+    [
+      r.game,
+      r.gameID,
+      r.map,
+      r.difficulty,
+      r.winner,
+      r.winnerStrategy,
+      r.ticks,
+      r.players.map((p) => `${p.name}=${p.strategy}`).join(";"),
+    ]
+      .map(escape)
+      .join(","),
+  );
+  return [csvColumns.join(","), ...rows].join("\n") + "\n";
+}
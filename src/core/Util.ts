@@ -5,6 +5,7 @@ import { Cell, Team, Unit } from "./game/Game";
 import { GameMap, TileRef } from "./game/GameMap";
 import {
   AllPlayersStats,
+  ClientFlag,
   ClientID,
   GameID,
   GameRecord,
@@ -200,6 +201,7 @@ export function createGameRecord(
   winner: ClientID | Team | null,
   winnerType: "player" | "team" | null,
   allPlayersStats: AllPlayersStats,
+  flaggedClients: ClientFlag[] = [],
 ): GameRecord {
   const record: GameRecord = {
     id: id,
@@ -232,6 +234,9 @@ export function createGameRecord(
     }
   }
   record.num_turns = turns.length;
+  if (flaggedClients.length > 0) {
+    record.flaggedClients = flaggedClients;
+  }
   return record;
 }
 
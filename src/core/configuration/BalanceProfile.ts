@@ -0,0 +1,138 @@
+import { Player, UnitInfo, UnitType } from "../game/Game";
+import { PlayerView } from "../game/GameView";
+import { BalanceProfile, balanceMultipliers, balanceRules } from "../Schemas";
+import { Config } from "./Config";
+
+// Profiles the host can pick without uploading a file.
+export const builtinBalanceProfiles: BalanceProfile[] = [
+  {
+    name: "Blitz",
+    multipliers: {
+      goldAdditionRate: 2,
+      populationIncreaseRate: 1.5,
+    },
+    rules: {
+      spawnImmunityDuration: 0,
+    },
+  },
+  {
+    name: "Fortress",
+    rules: {
+      defensePostDefenseBonus: 8,
+      defensePostRange: 40,
+    },
+    units: {
+      [UnitType.DefensePost]: { cost: 50_000, maxHealth: 4000 },
+      [UnitType.SAMLauncher]: { cost: 500_000 },
+    },
+  },
+  {
+    name: "Cold War",
+    rules: {
+      SAMCooldown: 40,
+      SiloCooldown: 150,
+    },
+    units: {
+      [UnitType.AtomBomb]: { cost: 1_500_000 },
+      [UnitType.HydrogenBomb]: { cost: 10_000_000 },
+    },
+    nukeMagnitudes: {
+      [UnitType.AtomBomb]: { inner: 8, outer: 20 },
+    },
+  },
+];
+
+type Method = (...args: unknown[]) => unknown;
+
+/**
+ * Wraps `config` so the rules of `profile` replace or scale its own, the
+ * config itself is left as it is. Every client gets the profile from the
+ * GameConfig, so simulations stay identical.
+ */
+export function withBalanceProfile(
+  config: Config,
+  profile: BalanceProfile,
+): Config {
+  // Each override is built from the method it replaces. Keyed by Config, so
+  // the rule lists in Schemas only compile with names of Config methods.
+  const overrides = new Map<keyof Config, (base: Method) => Method>();
+
+  for (const rule of balanceRules) {
+    const value = profile.rules?.[rule];
+    if (value !== undefined) {
+      overrides.set(rule, () => () => value);
+    }
+  }
+
+  for (const rule of balanceMultipliers) {
+    const factor = profile.multipliers?.[rule];
+    if (factor !== undefined) {
+      overrides.set(
+        rule,
+        (base) =>
+          (...args) =>
+            (base(...args) as number) * factor,
+      );
+    }
+  }
+
+  const units = profile.units ?? {};
+  if (Object.keys(units).length > 0) {
+    overrides.set(
+      "unitInfo",
+      (base) => (type) =>
+        balanceUnit(base(type) as UnitInfo, units[type as UnitType]),
+    );
+  }
+
+  const nukes = profile.nukeMagnitudes ?? {};
+  if (Object.keys(nukes).length > 0) {
+    overrides.set(
+      "nukeMagnitudes",
+      (base) => (type) => nukes[type as UnitType] ?? base(type),
+    );
+  }
+
+  const methods = new Map<keyof Config, Method>();
+  return new Proxy(config, {
+    get(target, prop, receiver) {
+      const override = overrides.get(prop as keyof Config);
+      if (override === undefined) {
+        return Reflect.get(target, prop, receiver);
+      }
+      let method = methods.get(prop as keyof Config);
+      if (method === undefined) {
+        // Called on the proxy, so the config's own calls see the profile.
+        const base = Reflect.get(target, prop, receiver) as Method;
+        method = override((...args) => base.apply(receiver, args));
+        methods.set(prop as keyof Config, method);
+      }
+      return method;
+    },
+  });
+}
+
+function balanceUnit(
+  info: UnitInfo,
+  balance: NonNullable<BalanceProfile["units"]>[UnitType],
+): UnitInfo {
+  if (balance === undefined) {
+    return info;
+  }
+  const { cost, constructionDuration, ...rest } = balance;
+  return {
+    ...info,
+    ...rest,
+    // The default cost still decides who builds for free, e.g. with
+    // infinite gold.
+    cost:
+      cost === undefined
+        ? info.cost
+        : (p: Player | PlayerView) => (info.cost(p) === 0 ? 0 : cost),
+    // Keep instant builds instant.
+    constructionDuration:
+      constructionDuration === undefined || info.constructionDuration === 0
+        ? info.constructionDuration
+        : constructionDuration,
+  };
+}
@@ -1,6 +1,6 @@
 import { Colord } from "colord";
 import { JWK } from "jose";
-import { GameConfig, GameID } from "../Schemas";
+import { GameConfig, GameID, VictoryCondition } from "../Schemas";
 import {
   Difficulty,
   Duos,
@@ -30,6 +30,7 @@ export interface ServerConfig {
   turnIntervalMs(): number;
   gameCreationRate(): number;
   lobbyMaxPlayers(map: GameMapType, mode: GameMode): number;
+  maxSpectators(): number;
   numWorkers(): number;
   workerIndex(gameID: GameID): number;
   workerPath(gameID: GameID): string;
@@ -45,10 +46,15 @@ export interface ServerConfig {
   r2Endpoint(): string;
   r2AccessKey(): string;
   r2SecretKey(): string;
+  // Local directory to archive games to instead of R2, "undefined" if unset.
+  archiveDir(): string;
   otelEndpoint(): string;
   otelUsername(): string;
   otelPassword(): string;
   otelEnabled(): boolean;
+  // Bearer token required to scrape /metrics, which is not served without
+  // one.
+  metricsToken(): string;
   jwtAudience(): string;
   jwtIssuer(): string;
   jwkPublicKey(): Promise<JWK>;
@@ -67,6 +73,9 @@ export interface Config {
   gameConfig(): GameConfig;
   theme(): Theme;
   percentageTilesOwnedToWin(): number;
+  victoryCondition(): VictoryCondition;
+  // Ranks players when a Score victory game runs out of time.
+  victoryScore(player: Player): number;
   numBots(): number;
   spawnNPCs(): boolean;
   isUnitDisabled(unitType: UnitType): boolean;
@@ -74,6 +83,7 @@ export interface Config {
   infiniteGold(): boolean;
   infiniteTroops(): boolean;
   instantBuild(): boolean;
+  fogOfWar(): boolean;
   numSpawnPhaseTurns(): number;
   userSettings(): UserSettings;
   playerTeams(): number | typeof Duos;
@@ -120,20 +130,44 @@ export interface Config {
   donateCooldown(): Tick;
   defaultDonationAmount(sender: Player): number;
   unitInfo(type: UnitType): UnitInfo;
+  // Gold to upgrade a structure from `level` to the next one.
+  upgradeCost(type: UnitType, level: number, player: Player | PlayerView): Gold;
+  // Multiplier on the effect of a structure at `level`: population for
+  // cities, trade ship spawns for ports, reload speed for SAM launchers and
+  // range for orbital cannons.
+  upgradeBonus(type: UnitType, level: number): number;
   tradeShipGold(dist: number): Gold;
   tradeShipSpawnRate(numberOfPorts: number): number;
+  // How many more times the ports of a trade agreement partner are picked.
+  tradeAgreementPortBonus(): number;
+  tradeAgreementMaxDuration(): Tick;
+  // Unanswered trade agreement offers are withdrawn after this long.
+  tradeOfferDuration(): Tick;
+  // Ships a Space Port can have queued, including the one being built.
+  portQueueSize(): number;
   safeFromPiratesCooldownMax(): number;
   defensePostRange(): number;
   SAMCooldown(): number;
   SiloCooldown(): number;
   defensePostDefenseBonus(): number;
+  // Structures start healing once they have not been hit for this long.
+  structureRegenDelay(): Tick;
+  // Health per second regained by a structure once it heals.
+  structureRegenRate(): number;
   falloutDefenseModifier(percentOfFallout: number): number;
   difficultyModifier(difficulty: Difficulty): number;
   warshipPatrolRange(): number;
   warshipShellAttackRate(): number;
   warshipTargettingRange(): number;
+  // Escorting warships engage enemy warships this close to their convoy.
+  escortThreatRange(): number;
   defensePostShellAttackRate(): number;
   defensePostTargettingRange(): number;
+  // Tiles seen past the border of a player's territory when fog of war is
+  // on, by manhattan distance.
+  territorySightRange(): number;
+  // Radius seen around a unit when fog of war is on, 0 for none.
+  unitSightRange(type: UnitType): number;
   // 0-1
   traitorDefenseDebuff(): number;
   traitorDuration(): number;
@@ -1,6 +1,7 @@
 import { consolex } from "../Consolex";
 import { UserSettings } from "../game/UserSettings";
 import { GameConfig } from "../Schemas";
+import { withBalanceProfile } from "./BalanceProfile";
 import { Config, GameEnv, ServerConfig } from "./Config";
 import { DefaultConfig } from "./DefaultConfig";
 import { DevConfig, DevServerConfig } from "./DevConfig";
@@ -15,6 +16,39 @@ export async function getConfig(
   isReplay: boolean = false,
 ): Promise<Config> {
   const sc = await getServerConfigFromClient();
+  return configForServer(sc, gameConfig, userSettings, isReplay);
+}
+// Same as getConfig, but for Node processes (server, scripts) that read
+// GAME_ENV directly instead of fetching /api/env.
+export function getConfigFromServer(
+  gameConfig: GameConfig,
+  userSettings: UserSettings | null,
+  isReplay: boolean = false,
+): Config {
+  return configForServer(
+    getServerConfigFromServer(),
+    gameConfig,
+    userSettings,
+    isReplay,
+  );
+}
+function configForServer(
+  sc: ServerConfig,
+  gameConfig: GameConfig,
+  userSettings: UserSettings | null,
+  isReplay: boolean,
+): Config {
+  const config = envConfig(sc, gameConfig, userSettings, isReplay);
+  return gameConfig.balance === undefined
+    ? config
+    : withBalanceProfile(config, gameConfig.balance);
+}
+function envConfig(
+  sc: ServerConfig,
+  gameConfig: GameConfig,
+  userSettings: UserSettings | null,
+  isReplay: boolean,
+): Config {
   switch (sc.env()) {
     case GameEnv.Dev:
       return new DevConfig(sc, gameConfig, userSettings, isReplay);
@@ -16,11 +16,12 @@ import {
   Tick,
   UnitInfo,
   UnitType,
+  VictoryMode,
 } from "../game/Game";
 import { TileRef } from "../game/GameMap";
 import { PlayerView } from "../game/GameView";
 import { UserSettings } from "../game/UserSettings";
-import { GameConfig, GameID } from "../Schemas";
+import { GameConfig, GameID, VictoryCondition } from "../Schemas";
 import { assertNever, simpleHash, within } from "../Util";
 import { Config, GameEnv, NukeMagnitude, ServerConfig, Theme } from "./Config";
 import { pastelTheme } from "./PastelTheme";
@@ -82,6 +83,9 @@ export abstract class DefaultServerConfig implements ServerConfig {
   otelPassword(): string {
     return process.env.OTEL_PASSWORD ?? "undefined";
   }
+  metricsToken(): string {
+    return process.env.METRICS_TOKEN ?? "";
+  }
   region(): string {
     if (this.env() === GameEnv.Dev) {
       return "dev";
@@ -104,6 +108,9 @@ export abstract class DefaultServerConfig implements ServerConfig {
   r2Bucket(): string {
     return process.env.R2_BUCKET ?? "undefined";
   }
+  archiveDir(): string {
+    return process.env.ARCHIVE_DIR ?? "undefined";
+  }
 
   adminHeader(): string {
     return "x-admin-key";
@@ -124,6 +131,10 @@ export abstract class DefaultServerConfig implements ServerConfig {
     return 30;
   }
 
+  maxSpectators(): number {
+    return 20;
+  }
+
   workerIndex(gameID: GameID): number {
     return simpleHash(gameID) % this.numWorkers();
   }
@@ -222,12 +233,21 @@ export class DefaultConfig implements Config {
     return this.SAMCooldown();
   }
 
+  portQueueSize(): number {
+    return 5;
+  }
   defensePostRange(): number {
     return 30;
   }
   defensePostDefenseBonus(): number {
     return 5;
   }
+  structureRegenDelay(): Tick {
+    return 30 * 10;
+  }
+  structureRegenRate(): number {
+    return 20;
+  }
   playerTeams(): number | typeof Duos {
     return this._gameConfig.playerTeams ?? 0;
   }
@@ -249,6 +269,9 @@ export class DefaultConfig implements Config {
   infiniteGold(): boolean {
     return this._gameConfig.infiniteGold;
   }
+  fogOfWar(): boolean {
+    return this._gameConfig.fogOfWar ?? false;
+  }
   infiniteTroops(): boolean {
     return this._gameConfig.infiniteTroops;
   }
@@ -258,6 +281,15 @@ export class DefaultConfig implements Config {
   tradeShipSpawnRate(numberOfPorts: number): number {
     return Math.round(10 * Math.pow(numberOfPorts, 0.6));
   }
+  tradeAgreementPortBonus(): number {
+    return 3;
+  }
+  tradeAgreementMaxDuration(): Tick {
+    return 1800 * 10; // 30 minutes.
+  }
+  tradeOfferDuration(): Tick {
+    return 60 * 10;
+  }
 
   unitInfo(type: UnitType): UnitInfo {
     switch (type) {
@@ -307,6 +339,7 @@ export class DefaultConfig implements Config {
           territoryBound: true,
           maxHealth: 2000,
           constructionDuration: this.instantBuild() ? 0 : 20, // 2 seconds * 10 ticks/sec
+          maxLevel: 3,
         };
       case UnitType.AtomBomb:
         return {
@@ -373,6 +406,7 @@ export class DefaultConfig implements Config {
           territoryBound: true,
           maxHealth: 2000,
           constructionDuration: this.instantBuild() ? 0 : 150, // 15 seconds * 10 ticks/sec
+          maxLevel: 3,
         };
       case UnitType.OrbitalCannon:
         return {
@@ -383,6 +417,7 @@ export class DefaultConfig implements Config {
           territoryBound: true,
           maxHealth: 2000,
           constructionDuration: this.instantBuild() ? 0 : 150, // 15 seconds * 10 ticks/sec
+          maxLevel: 3,
         };
       case UnitType.City:
         return {
@@ -393,6 +428,7 @@ export class DefaultConfig implements Config {
           territoryBound: true,
           maxHealth: 2000,
           constructionDuration: this.instantBuild() ? 0 : 20, // 2 seconds * 10 ticks/sec
+          maxLevel: 3,
         };
       case UnitType.Construction:
         return {
@@ -403,6 +439,25 @@ export class DefaultConfig implements Config {
         assertNever(type);
     }
   }
+  upgradeCost(
+    type: UnitType,
+    level: number,
+    player: Player | PlayerView,
+  ): Gold {
+    return this.unitInfo(type).cost(player) * level;
+  }
+  upgradeBonus(type: UnitType, level: number): number {
+    switch (type) {
+      case UnitType.City:
+      case UnitType.Port:
+      case UnitType.SAMLauncher:
+        return level;
+      case UnitType.OrbitalCannon:
+        return 1 + (level - 1) * 0.25;
+      default:
+        return 1;
+    }
+  }
   defaultDonationAmount(sender: Player): number {
     return Math.floor(sender.troops() / 3);
   }
@@ -437,6 +492,12 @@ export class DefaultConfig implements Config {
     }
     return 80;
   }
+  victoryCondition(): VictoryCondition {
+    return this._gameConfig.victory ?? { mode: VictoryMode.Territory };
+  }
+  victoryScore(player: Player): number {
+    return player.numTilesOwned() + 100 * player.units(UnitType.City).length;
+  }
   boatMaxNumber(): number {
     return 6;
   }
@@ -621,7 +682,14 @@ export class DefaultConfig implements Config {
       player.type() === PlayerType.Human && this.infiniteTroops()
         ? 1_000_000_000
         : 2 * (Math.pow(player.numTilesOwned(), 0.6) * 1000 + 50000) +
-          player.units(UnitType.City).length * this.cityPopulationIncrease();
+          player
+            .units(UnitType.City)
+            .reduce(
+              (sum, city) =>
+                sum + this.upgradeBonus(UnitType.City, city.level()),
+              0,
+            ) *
+            this.cityPopulationIncrease();
 
     if (player.type() === PlayerType.Bot) {
       return maxPop / 2;
@@ -720,7 +788,8 @@ export class DefaultConfig implements Config {
   }
 
   structureMinDist(): number {
-    // TODO: Increase this to ~15 once upgradable structures are implemented.
+    // A balance profile can raise this to ~15 so players upgrade structures
+    // instead of packing them together.
     return 1;
   }
 
@@ -736,6 +805,10 @@ export class DefaultConfig implements Config {
     return 130;
   }
 
+  escortThreatRange(): number {
+    return 80;
+  }
+
   warshipShellAttackRate(): number {
     return 20;
   }
@@ -751,4 +824,31 @@ export class DefaultConfig implements Config {
   defensePostTargettingRange(): number {
     return 75;
   }
+
+  territorySightRange(): number {
+    return 10;
+  }
+
+  unitSightRange(type: UnitType): number {
+    switch (type) {
+      case UnitType.Viper:
+      case UnitType.Condor:
+        return 40;
+      case UnitType.OrbitalCannon:
+      case UnitType.SAMLauncher:
+        return 35;
+      case UnitType.City:
+      case UnitType.Port:
+      case UnitType.DefensePost:
+        return 25;
+      case UnitType.MissileSilo:
+      case UnitType.Construction:
+      case UnitType.TransportShip:
+      case UnitType.TradeShip:
+        return 15;
+      default:
+        // Missiles and shells only show themselves.
+        return 0;
+    }
+  }
 }
@@ -15,13 +15,13 @@ import { PseudoRandom } from "../PseudoRandom";
 
 const malusForRetreat = 25;
 
+export const byPriority = (a: TileContainer, b: TileContainer) =>
+  a.priority - b.priority;
+
 export class AttackExecution implements Execution {
   private breakAlliance = false;
   private active: boolean = true;
-  private toConquer: PriorityQueue<TileContainer> =
-    new PriorityQueue<TileContainer>((a: TileContainer, b: TileContainer) => {
-      return a.priority - b.priority;
-    });
+  private toConquer = new PriorityQueue<TileContainer>(byPriority);
   private random = new PseudoRandom(123);
 
   private _owner: Player;
@@ -97,6 +97,7 @@ export class AttackExecution implements Execution {
     if (this.removeTroops) {
       this.startTroops = Math.min(this._owner.troops(), this.startTroops);
       this._owner.removeTroops(this.startTroops);
+      this.mg.stats().troopsSent(this._owner.id(), this.startTroops);
     }
     this.attack = this._owner.createAttack(
       this.target,
@@ -258,7 +259,8 @@ export class AttackExecution implements Execution {
       numTilesPerTick -= tilesPerTickUsed;
       this.attack.setTroops(this.attack.troops() - attackerTroopLoss);
       if (this.target.isPlayer()) {
-        this.target.removeTroops(defenderTroopLoss);
+        const killed = this.target.removeTroops(defenderTroopLoss);
+        this.mg.stats().troopsKilled(this._owner.id(), killed);
       }
       this._owner.conquer(tileToConquer);
       this.handleDeadDefender();
@@ -343,7 +345,7 @@ export class AttackExecution implements Execution {
   }
 }
 
-class TileContainer {
+export class TileContainer {
   constructor(
     public readonly tile: TileRef,
     public readonly priority: number,
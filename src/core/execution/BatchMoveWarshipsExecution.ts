@@ -1,11 +1,14 @@
-import { Execution, Game } from "../game/Game";
+import { Execution, Game, PlayerID, WarshipOrder } from "../game/Game";
+import { WarshipMovement } from "../Schemas";
 
 export class BatchMoveWarshipsExecution implements Execution {
   private active = true;
   private mg: Game | null = null;
 
   constructor(
-    public readonly movements: Array<{ unitId: number; targetTile: number }>,
+    private playerID: PlayerID,
+    public readonly movements: WarshipMovement[],
+    public readonly order: WarshipOrder = WarshipOrder.Move,
   ) {}
 
   init(mg: Game, ticks: number): void {
@@ -22,14 +25,21 @@ export class BatchMoveWarshipsExecution implements Execution {
     // Process each warship movement
     this.movements.forEach(movement => {
       const warship = this.mg!.units().find((u) => u.id() === movement.unitId);
-      if (!warship) {
-        console.log(`[SHIP DEBUG] BatchMoveWarshipsExecution: warship ${movement.unitId} is already dead or not found`);
+      if (!warship || warship.owner().id() !== this.playerID) {
+        console.log(`[SHIP DEBUG] BatchMoveWarshipsExecution: warship ${movement.unitId} is already dead, not found or not owned by ${this.playerID}`);
         return;
       }
 
       console.log(`[SHIP DEBUG] BatchMoveWarshipsExecution: Setting targetTile ${movement.targetTile} for warship ${movement.unitId} at tile ${warship.tile()}`);
+      if (this.order === WarshipOrder.Patrol) {
+        // Patrolling warships follow their route instead of a target tile
+        warship.setTargetTile(undefined);
+        warship.setWarshipOrder(this.order, movement.patrolRoute ?? [movement.targetTile]);
+        return;
+      }
       // Set the target tile for the warship
       warship.setTargetTile(movement.targetTile);
+      warship.setWarshipOrder(this.order);
     });
 
     console.log(`[SHIP DEBUG] BatchMoveWarshipsExecution: Complete, marking inactive`);
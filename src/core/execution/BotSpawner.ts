@@ -50,7 +50,7 @@ export class BotSpawner {
 
   spawnBot(botName: string, minDistance: number = 15): SpawnExecution | null {
     const tile = this.randTile();
-    if (!this.gs.isLand(tile)) {
+    if (!this.gs.isLand(tile) || !this.gs.inSpawnZone(tile)) {
       return null;
     }
     for (const spawn of this.bots) {
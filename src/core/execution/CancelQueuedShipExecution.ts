@@ -0,0 +1,47 @@
+import { consolex } from "../Consolex";
+import { Execution, Game, PlayerID, UnitType } from "../game/Game";
+
+export class CancelQueuedShipExecution implements Execution {
+  private active = true;
+  private mg: Game;
+
+  constructor(
+    private playerID: PlayerID,
+    private portId: number,
+    private entryId: number,
+  ) {}
+
+  init(mg: Game, ticks: number): void {
+    this.mg = mg;
+  }
+
+  tick(ticks: number): void {
+    this.active = false;
+    if (!this.mg.hasPlayer(this.playerID)) {
+      console.warn(
+        `CancelQueuedShipExecution: player ${this.playerID} not found`,
+      );
+      return;
+    }
+    const player = this.mg.player(this.playerID);
+    const port = player
+      .units(UnitType.Port)
+      .find((u) => u.id() === this.portId);
+    const entry = port?.removeQueuedShip(this.entryId) ?? null;
+    if (entry === null) {
+      consolex.warn(
+        `player ${player} cannot cancel queued ship ${this.entryId}`,
+      );
+      return;
+    }
+    player.addGold(entry.cost);
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  activeDuringSpawnPhase(): boolean {
+    return false;
+  }
+}
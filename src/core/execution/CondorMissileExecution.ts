@@ -9,6 +9,7 @@ import {
 import { TileRef } from "../game/GameMap";
 import { AirPathFinder } from "../pathfinding/PathFinding";
 import { PseudoRandom } from "../PseudoRandom";
+import { damageUnit } from "./Util";
 
 export class CondorMissileExecution implements Execution {
   private active = true;
@@ -77,12 +78,20 @@ export class CondorMissileExecution implements Execution {
             MessageType.SUCCESS,
             this._owner.id(),
           );
+          this.mg.stats().condorInterception(this._owner.id());
+          this.mg
+            .stats()
+            .unitDestroyed(
+              this._owner.id(),
+              this.target.owner().id(),
+              this.target.type(),
+            );
           this.target.delete();
           this.missile.delete(false);
         } else {
           // For regular targets, apply damage
           const damage = this.getCondorMissileDamage();
-          this.target.modifyHealth(-damage);
+          damageUnit(this.mg, this._owner, this.target, damage);
           this.missile.delete(false);
           // Message removed to reduce event log spam
         }
@@ -29,7 +29,6 @@ export class ConstructionExecution implements Execution {
   private originalConstructionDuration: Tick;
 
   private cost: number;
-  private associatedPort: Unit | null = null;
 
   constructor(
     private ownerId: PlayerID,
@@ -61,6 +60,15 @@ export class ConstructionExecution implements Execution {
         this.active = false;
         return;
       }
+      // Vipers and Condors wait in the production queue of a Space Port.
+      if (
+        this.constructionType === UnitType.Viper ||
+        this.constructionType === UnitType.Condor
+      ) {
+        this.queueWarship();
+        this.active = false;
+        return;
+      }
       this.construction = this.player.buildUnit(
         UnitType.Construction,
         spawnTile,
@@ -71,36 +79,10 @@ export class ConstructionExecution implements Execution {
       this.construction.setConstructionType(this.constructionType);
       this.ticksUntilComplete = info.constructionDuration;
       this.originalConstructionDuration = info.constructionDuration;
-
-      // For Viper/Condor, find and set up the associated port queue using closest port to cursor
-      if (this.constructionType === UnitType.Viper || this.constructionType === UnitType.Condor) {
-        this.associatedPort = this.player.getClosestAvailablePortForWarship(this.tile);
-        if (this.associatedPort) {
-          // Double-check the port is still available (prevent race conditions)
-          if (this.associatedPort.hasPortQueue()) {
-            consolex.warn(`Port at ${this.associatedPort.tile()} already has a queue, cancelling construction`);
-            this.construction.delete(false);
-            this.active = false;
-            return;
-          }
-          this.associatedPort.setPortQueue(this.constructionType, 0);
-        } else {
-          // No available ports, cancel construction
-          consolex.warn(`No available ports for ${this.constructionType}, cancelling construction`);
-          this.construction.delete(false);
-          this.active = false;
-          return;
-        }
-      }
-
       return;
     }
 
     if (!this.construction.isActive()) {
-      // Clear associated port queue if construction was interrupted
-      if (this.associatedPort && this.associatedPort.isActive()) {
-        this.associatedPort.clearPortQueue();
-      }
       this.active = false;
       return;
     }
@@ -125,11 +107,17 @@ export class ConstructionExecution implements Execution {
     const progress = 1 - (this.ticksUntilComplete / this.originalConstructionDuration);
     this.construction.setConstructionProgress(progress);
     this.construction.touch(); // Update the client
+  }
 
-    // Update associated port queue progress for Viper/Condor
-    if (this.associatedPort && this.associatedPort.isActive()) {
-      this.associatedPort.setPortQueue(this.constructionType, progress);
+  private queueWarship() {
+    const port = this.player.getClosestAvailablePortForWarship(this.tile);
+    if (port === null) {
+      consolex.warn(`No available ports for ${this.constructionType}`);
+      return;
     }
+    const cost = this.mg.unitInfo(this.constructionType).cost(this.player);
+    this.player.removeGold(cost);
+    port.enqueueShip(this.constructionType, cost);
   }
 
   private completeConstruction() {
@@ -150,19 +138,9 @@ export class ConstructionExecution implements Execution {
       //   break;
       case UnitType.Viper:
       case UnitType.Condor:
-        // Clear the associated port queue
-        if (this.associatedPort && this.associatedPort.isActive()) {
-          this.associatedPort.clearPortQueue();
-          // Spawn warship from the port that has it queued, not from cursor position
-          this.mg.addExecution(
-            new WarshipExecution(player.id(), this.associatedPort.tile(), this.constructionType),
-          );
-        } else {
-          // Fallback to original tile if no associated port (shouldn't happen)
-          this.mg.addExecution(
-            new WarshipExecution(player.id(), this.tile, this.constructionType),
-          );
-        }
+        this.mg.addExecution(
+          new WarshipExecution(player.id(), this.tile, this.constructionType),
+        );
         break;
       case UnitType.Port:
         this.mg.addExecution(new PortExecution(player.id(), this.tile));
@@ -0,0 +1,61 @@
+import { consolex } from "../Consolex";
+import { Execution, Game, PlayerID, Unit, UnitType } from "../game/Game";
+
+export class EscortTradeExecution implements Execution {
+  private active = true;
+  private mg: Game;
+
+  constructor(
+    private playerID: PlayerID,
+    private unitIds: number[],
+    private portId: number,
+    private destinationId: number | null,
+  ) {}
+
+  init(mg: Game, ticks: number): void {
+    this.mg = mg;
+  }
+
+  tick(ticks: number): void {
+    this.active = false;
+    if (!this.mg.hasPlayer(this.playerID)) {
+      console.warn(`EscortTradeExecution: player ${this.playerID} not found`);
+      return;
+    }
+    const player = this.mg.player(this.playerID);
+    const port = player
+      .units(UnitType.Port)
+      .find((u) => u.id() === this.portId);
+    if (port === undefined) {
+      consolex.warn(`player ${player} has no port ${this.portId}`);
+      return;
+    }
+    let destination: Unit | null = null;
+    if (this.destinationId !== null) {
+      destination =
+        this.mg
+          .units(UnitType.Port)
+          .find((u) => u.id() === this.destinationId) ?? null;
+      if (destination === null) {
+        consolex.warn(`escort destination ${this.destinationId} not found`);
+        return;
+      }
+    }
+    const ids = new Set(this.unitIds);
+    for (const warship of player.units(UnitType.Viper, UnitType.Condor)) {
+      if (ids.has(warship.id())) {
+        warship.setTargetTile(undefined);
+        warship.setEscortOrder({ port, destination });
+        warship.touch();
+      }
+    }
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  activeDuringSpawnPhase(): boolean {
+    return false;
+  }
+}
@@ -4,6 +4,8 @@ import { PlayerImpl } from "../game/PlayerImpl";
 import { PseudoRandom } from "../PseudoRandom";
 import { ClientID, GameID, Intent, Turn } from "../Schemas";
 import { simpleHash } from "../Util";
+import { createAIStrategy } from "./ai/AIPlayer";
+import { AIPlayerExecution } from "./ai/AIPlayerExecution";
 import { AllChatExecution } from "./AllChatExecution";
 import { AllianceRequestExecution } from "./alliance/AllianceRequestExecution";
 import { AllianceRequestReplyExecution } from "./alliance/AllianceRequestReplyExecution";
@@ -12,22 +14,28 @@ import { AttackExecution } from "./AttackExecution";
 import { AutoPlayExecution } from "./AutoPlayExecution";
 import { BotExecution } from "./BotExecution";
 import { BotSpawner } from "./BotSpawner";
+import { CancelQueuedShipExecution } from "./CancelQueuedShipExecution";
 import { ConstructionExecution } from "./ConstructionExecution";
 import { DirectChatExecution } from "./DirectChatExecution";
 import { DonateGoldExecution } from "./DonateGoldExecution";
 import { DonateTroopsExecution } from "./DonateTroopExecution";
 import { EmbargoExecution } from "./EmbargoExecution";
 import { EmojiExecution } from "./EmojiExecution";
+import { EscortTradeExecution } from "./EscortTradeExecution";
 import { FakeHumanExecution } from "./FakeHumanExecution";
 import { MoveWarshipExecution } from "./MoveWarshipExecution";
 import { BatchMoveWarshipsExecution } from "./BatchMoveWarshipsExecution";
 import { NoOpExecution } from "./NoOpExecution";
 import { QuickChatExecution } from "./QuickChatExecution";
+import { ReorderQueuedShipExecution } from "./ReorderQueuedShipExecution";
 import { RetreatExecution } from "./RetreatExecution";
+import { SetRallyPointExecution } from "./SetRallyPointExecution";
 import { SetTargetTroopRatioExecution } from "./SetTargetTroopRatioExecution";
 import { SpawnExecution } from "./SpawnExecution";
 import { TargetPlayerExecution } from "./TargetPlayerExecution";
+import { TradeAgreementExecution } from "./TradeAgreementExecution";
 import { TransportShipExecution } from "./TransportShipExecution";
+import { UpgradeStructureExecution } from "./UpgradeStructureExecution";
 import { WhisperExecution } from "./WhisperExecution";
 
 export class Executor {
@@ -80,7 +88,18 @@ export class Executor {
       case "move_warship":
         return new MoveWarshipExecution(intent.unitId, intent.tile);
       case "batch_move_warships":
-        return new BatchMoveWarshipsExecution(intent.movements);
+        return new BatchMoveWarshipsExecution(
+          playerID,
+          intent.movements,
+          intent.order,
+        );
+      case "escort_trade":
+        return new EscortTradeExecution(
+          playerID,
+          intent.unitIds,
+          intent.port,
+          intent.destination,
+        );
       case "spawn":
         return new SpawnExecution(
           player.info(),
@@ -124,6 +143,14 @@ export class Executor {
         return new SetTargetTroopRatioExecution(playerID, intent.ratio);
       case "embargo":
         return new EmbargoExecution(player, intent.targetID, intent.action);
+      case "trade_agreement":
+        return new TradeAgreementExecution(
+          player,
+          intent.partner,
+          intent.action,
+          intent.share,
+          intent.duration,
+        );
       case "build_unit":
         // Cast to PlayerImpl to access rate limiting methods
         const playerImpl = player as PlayerImpl;
@@ -153,6 +180,23 @@ export class Executor {
           this.mg.ref(intent.x, intent.y),
           intent.unit,
         );
+      case "upgrade_structure":
+        return new UpgradeStructureExecution(playerID, intent.unitId);
+      case "cancel_queued_ship":
+        return new CancelQueuedShipExecution(
+          playerID,
+          intent.unitId,
+          intent.entryId,
+        );
+      case "reorder_queued_ship":
+        return new ReorderQueuedShipExecution(
+          playerID,
+          intent.unitId,
+          intent.entryId,
+          intent.index,
+        );
+      case "set_rally_point":
+        return new SetRallyPointExecution(playerID, intent.unitId, intent.tile);
       case "quick_chat":
         return new QuickChatExecution(
           playerID,
@@ -187,11 +231,23 @@ export class Executor {
     return new BotSpawner(this.mg, this.gameID).spawnBots(numBots);
   }
 
-  // Nations use FakeHumanExecution for spawning and AI control
+  // Nations use FakeHumanExecution for spawning and AI control, unless the
+  // config assigns them a custom strategy.
   fakeHumanExecutions(): Execution[] {
+    const strategies = this.mg.config().gameConfig().nationStrategies ?? {};
     const execs: Execution[] = [];
     for (const nation of this.mg.nations()) {
-      execs.push(new FakeHumanExecution(this.gameID, nation));
+      const name =
+        strategies[nation.playerInfo.name] ?? strategies["*"] ?? null;
+      const strategy = name !== null ? createAIStrategy(name) : null;
+      if (name !== null && strategy === null) {
+        console.warn(`AI strategy ${name} not registered, using default`);
+      }
+      execs.push(
+        strategy !== null
+          ? new AIPlayerExecution(this.gameID, nation, strategy)
+          : new FakeHumanExecution(this.gameID, nation),
+      );
     }
     return execs;
   }
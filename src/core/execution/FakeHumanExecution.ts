@@ -9,7 +9,6 @@ import {
   PlayerID,
   PlayerType,
   Relation,
-  TerrainType,
   Tick,
   Unit,
   UnitType,
@@ -23,7 +22,8 @@ import { EmojiExecution } from "./EmojiExecution";
 import { NukeExecution } from "./NukeExecution";
 import { SpawnExecution } from "./SpawnExecution";
 import { TransportShipExecution } from "./TransportShipExecution";
-import { closestTwoTiles } from "./Util";
+import { UpgradeStructureExecution } from "./UpgradeStructureExecution";
+import { closestTwoTiles, randomSpawnLand } from "./Util";
 import { BotBehavior } from "./utils/BotBehavior";
 
 export class FakeHumanExecution implements Execution {
@@ -171,6 +171,7 @@ export class FakeHumanExecution implements Execution {
 
     this.updateRelationsFromEmbargos();
     this.behavior.handleAllianceRequests();
+    this.behavior.handleTradeOffers();
     this.handleEnemies();
     this.handleUnits();
     this.handleEmbargoesToHostileNations();
@@ -320,13 +321,16 @@ export class FakeHumanExecution implements Execution {
       return;
     }
 
-    const structures = other.units(
-      UnitType.City,
-      UnitType.DefensePost,
-      UnitType.MissileSilo,
-      UnitType.Port,
-      UnitType.SAMLauncher,
-    );
+    // Only aim at structures out of the fog of war.
+    const structures = other
+      .units(
+        UnitType.City,
+        UnitType.DefensePost,
+        UnitType.MissileSilo,
+        UnitType.Port,
+        UnitType.SAMLauncher,
+      )
+      .filter((u) => this.mg.isVisibleTo(this.player!, u.tile()));
     const structureTiles = structures.map((u) => u.tile());
     const randomTiles: (TileRef | null)[] = new Array(10);
     for (let i = 0; i < randomTiles.length; i++) {
@@ -582,7 +586,7 @@ export class FakeHumanExecution implements Execution {
     if (this.player === null) throw new Error("not initialized");
     const units = this.player.units(type);
     if (units.length >= maxNum) {
-      return false;
+      return this.maybeUpgradeStructure(type);
     }
     if (this.player.gold() < this.cost(type)) {
       return false;
@@ -593,7 +597,7 @@ export class FakeHumanExecution implements Execution {
     }
     const canBuild = this.player.canBuild(type, tile);
     if (canBuild === false) {
-      return false;
+      return this.maybeUpgradeStructure(type);
     }
     this.mg.addExecution(
       new ConstructionExecution(this.player.id(), tile, type),
@@ -601,6 +605,18 @@ export class FakeHumanExecution implements Execution {
     return true;
   }
 
+  // Used when there is no room, or no need, for another structure of this type.
+  private maybeUpgradeStructure(type: UnitType): boolean {
+    if (this.player === null) throw new Error("not initialized");
+    const player = this.player;
+    const unit = player.units(type).find((u) => player.canUpgradeUnit(u));
+    if (unit === undefined) {
+      return false;
+    }
+    this.mg.addExecution(new UpgradeStructureExecution(player.id(), unit.id()));
+    return true;
+  }
+
 
   private randTerritoryTile(p: Player): TileRef | null {
     const boundingBox = calculateBoundingBox(this.mg, p.borderTiles());
@@ -677,28 +693,7 @@ export class FakeHumanExecution implements Execution {
   }
 
   randomLand(): TileRef | null {
-    const delta = 25;
-    let tries = 0;
-    while (tries < 50) {
-      tries++;
-      const cell = this.nation.spawnCell;
-      const x = this.random.nextInt(cell.x - delta, cell.x + delta);
-      const y = this.random.nextInt(cell.y - delta, cell.y + delta);
-      if (!this.mg.isValidCoord(x, y)) {
-        continue;
-      }
-      const tile = this.mg.ref(x, y);
-      if (this.mg.isLand(tile) && !this.mg.hasOwner(tile)) {
-        if (
-          this.mg.terrainType(tile) === TerrainType.Mountain &&
-          this.random.chance(2)
-        ) {
-          continue;
-        }
-        return tile;
-      }
-    }
-    return null;
+    return randomSpawnLand(this.mg, this.random, this.nation.spawnCell);
   }
 
   private randOceanShoreTile(tile: TileRef, dist: number): TileRef | null {
@@ -1,4 +1,4 @@
-import { Execution, Game } from "../game/Game";
+import { Execution, Game, WarshipOrder } from "../game/Game";
 
 const cancelDelay = 2;
 
@@ -25,6 +25,7 @@ export class MoveWarshipExecution implements Execution {
       return;
     }
     warship.setTargetTile(this.position);
+    warship.setWarshipOrder(WarshipOrder.Move);
     this.active = false;
   }
 
@@ -244,6 +244,13 @@ export class NukeExecution implements Execution {
     }
     for (const unit of unitsToDelete) {
       if (unit.isActive()) {
+        this.mg
+          .stats()
+          .unitDestroyed(
+            this.nuke.owner().id(),
+            unit.owner().id(),
+            unit.type(),
+          );
         unit.delete();
       }
     }
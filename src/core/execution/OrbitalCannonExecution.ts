@@ -12,12 +12,14 @@ import { TileRef } from "../game/GameMap";
 import { PseudoRandom } from "../PseudoRandom";
 import { OrbitalCannonMissileExecution } from "./OrbitalCannonMissileExecution";
 
+const baseSearchRangeRadius = 150;
+
 export class OrbitalCannonExecution implements Execution {
   private player: Player;
   private mg: Game;
   private active: boolean = true;
 
-  private searchRangeRadius = 150;
+  private searchRangeRadius = baseSearchRangeRadius;
 
   private pseudoRandom: PseudoRandom | undefined;
 
@@ -90,6 +92,13 @@ export class OrbitalCannonExecution implements Execution {
       this.orbitalCannon.modifyHealth(1);
     }
 
+    this.searchRangeRadius = Math.round(
+      baseSearchRangeRadius *
+        this.mg
+          .config()
+          .upgradeBonus(UnitType.OrbitalCannon, this.orbitalCannon.level()),
+    );
+
     // Get target - transport vessels, vipers, or condors
     const target = this.getTarget();
 
@@ -9,6 +9,7 @@ import {
 import { TileRef } from "../game/GameMap";
 import { AirPathFinder } from "../pathfinding/PathFinding";
 import { PseudoRandom } from "../PseudoRandom";
+import { damageUnit } from "./Util";
 
 export class OrbitalCannonMissileExecution implements Execution {
   private active = true;
@@ -65,7 +66,8 @@ export class OrbitalCannonMissileExecution implements Execution {
         // Hit target
         const damage =
           this.target.type() === UnitType.TransportShip ? 9999 : 300;
-        this.target.modifyHealth(-damage);
+        damageUnit(this.mg, this._owner, this.target, damage);
+        this.mg.stats().orbitalCannonHit(this._owner.id());
 
         this.mg.displayMessage(
           `Orbital Cannon hit ${this.target.type()}`,
@@ -7,6 +7,7 @@ import {
   MessageType,
   Player,
   PlayerID,
+  Unit,
   UnitType,
 } from "../game/Game";
 import { GameImpl } from "../game/GameImpl";
@@ -58,6 +59,9 @@ export class PlayerExecution implements Execution {
       ) {
         u.modifyHealth(1);
       }
+      if (u.info().territoryBound && u.hasHealth()) {
+        this.regenerate(u);
+      }
       if (this.mg === null) return;
       const tileOwner = this.mg.owner(u.tile());
       if (u.info().territoryBound) {
@@ -115,6 +119,20 @@ export class PlayerExecution implements Execution {
       }
     }
 
+    for (const agreement of this.player.tradeAgreements()) {
+      if (this.mg.ticks() >= agreement.expiresAt) {
+        this.player.endTradeAgreement(this.mg.player(agreement.partner));
+      }
+    }
+    for (const offer of this.player.outgoingTradeOffers()) {
+      if (
+        this.mg.ticks() - offer.createdAt >
+        this.mg.config().tradeOfferDuration()
+      ) {
+        this.player.withdrawTradeOffer(offer.partner);
+      }
+    }
+
     if (ticks - this.lastCalc > this.ticksPerClusterCalc) {
       if (this.player.lastTileChange() > this.lastCalc) {
         this.lastCalc = ticks;
@@ -128,6 +146,25 @@ export class PlayerExecution implements Execution {
     }
   }
 
+  // Structures heal once they have not been hit for structureRegenDelay()
+  // ticks, in steps of a second so the client is not updated every tick.
+  private regenerate(unit: Unit) {
+    if (this.mg === null || this.config === null) {
+      throw new Error("Not initialized");
+    }
+    const maxHealth = unit.info().maxHealth ?? 0;
+    const lastDamaged = unit.lastDamaged();
+    if (
+      unit.health() >= maxHealth ||
+      (lastDamaged !== null &&
+        this.mg.ticks() - lastDamaged < this.config.structureRegenDelay()) ||
+      (this.mg.ticks() + unit.id()) % 10 !== 0
+    ) {
+      return;
+    }
+    unit.modifyHealth(this.config.structureRegenRate());
+  }
+
   private removeClusters() {
     if (this.mg === null || this.player === null) {
       throw new Error("Not initialized");
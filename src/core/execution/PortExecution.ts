@@ -11,6 +11,7 @@ import { TileRef } from "../game/GameMap";
 import { PathFinder } from "../pathfinding/PathFinding";
 import { PseudoRandom } from "../PseudoRandom";
 import { TradeShipExecution } from "./TradeShipExecution";
+import { WarshipExecution } from "./WarshipExecution";
 
 export class PortExecution implements Execution {
   private active = true;
@@ -51,14 +52,20 @@ export class PortExecution implements Execution {
       this.port = player.buildUnit(UnitType.Port, spawn, {});
     }
 
+    if (this._owner !== this.port.owner().id()) {
+      // The queue was paid for by the previous owner, the captor starts
+      // with an empty one.
+      this.refundQueue(this.mg.player(this._owner));
+      this._owner = this.port.owner().id();
+    }
+
     if (!this.port.isActive()) {
+      this.refundQueue(this.player());
       this.active = false;
       return;
     }
 
-    if (this._owner !== this.port.owner().id()) {
-      this._owner = this.port.owner().id();
-    }
+    this.buildQueuedShip();
 
     // Only check every 10 ticks for performance.
     if ((this.mg.ticks() + this.checkOffset) % 10 !== 0) {
@@ -66,9 +73,10 @@ export class PortExecution implements Execution {
     }
 
     const totalNbOfPorts = this.mg.units(UnitType.Port).length;
-    if (
-      !this.random.chance(this.mg.config().tradeShipSpawnRate(totalNbOfPorts))
-    ) {
+    const spawnRate =
+      this.mg.config().tradeShipSpawnRate(totalNbOfPorts) /
+      this.mg.config().upgradeBonus(UnitType.Port, this.port.level());
+    if (!this.random.chance(Math.max(1, Math.round(spawnRate)))) {
       return;
     }
 
@@ -85,6 +93,43 @@ export class PortExecution implements Execution {
     );
   }
 
+  private buildQueuedShip() {
+    if (this.mg === null || this.port === null) {
+      throw new Error("Not initialized");
+    }
+    const entry = this.port.portQueue()[0];
+    if (entry === undefined) {
+      return;
+    }
+    const duration = this.mg.unitInfo(entry.unitType).constructionDuration ?? 0;
+    const elapsed = Math.round(entry.progress * duration) + 1;
+    if (elapsed < duration) {
+      this.port.setPortQueueProgress(elapsed / duration);
+      return;
+    }
+    this.port.removeQueuedShip(entry.id);
+    // Refund the cost so the owner has the gold to build the ship.
+    this.player().addGold(entry.cost);
+    this.mg.addExecution(
+      new WarshipExecution(
+        this.player().id(),
+        this.port.tile(),
+        entry.unitType,
+        this.port.rallyPoint() ?? undefined,
+      ),
+    );
+  }
+
+  private refundQueue(to: Player) {
+    if (this.port === null) {
+      throw new Error("Not initialized");
+    }
+    for (const entry of [...this.port.portQueue()]) {
+      this.port.removeQueuedShip(entry.id);
+      to.addGold(entry.cost);
+    }
+  }
+
   isActive(): boolean {
     return this.active;
   }
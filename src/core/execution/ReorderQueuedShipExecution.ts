@@ -0,0 +1,43 @@
+import { consolex } from "../Consolex";
+import { Execution, Game, PlayerID, UnitType } from "../game/Game";
+
+export class ReorderQueuedShipExecution implements Execution {
+  private active = true;
+  private mg: Game;
+
+  constructor(
+    private playerID: PlayerID,
+    private portId: number,
+    private entryId: number,
+    private index: number,
+  ) {}
+
+  init(mg: Game, ticks: number): void {
+    this.mg = mg;
+  }
+
+  tick(ticks: number): void {
+    this.active = false;
+    if (!this.mg.hasPlayer(this.playerID)) {
+      console.warn(
+        `ReorderQueuedShipExecution: player ${this.playerID} not found`,
+      );
+      return;
+    }
+    const player = this.mg.player(this.playerID);
+    const port = player
+      .units(UnitType.Port)
+      .find((u) => u.id() === this.portId);
+    if (port === undefined || !port.moveQueuedShip(this.entryId, this.index)) {
+      consolex.warn(`player ${player} cannot move queued ship ${this.entryId}`);
+    }
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  activeDuringSpawnPhase(): boolean {
+    return false;
+  }
+}
@@ -174,7 +174,12 @@ export class SAMLauncherExecution implements Execution {
             this.sam.owner().id(),
           );
           // Delete warheads
-          mirvWarheadTargets.forEach((u) => u.delete());
+          for (const u of mirvWarheadTargets) {
+            this.mg
+              .stats()
+              .unitDestroyed(this.sam.owner().id(), u.owner().id(), u.type());
+            u.delete();
+          }
         } else if (target !== null) {
           target.setTargetedBySAM(true);
           this.mg.addExecution(
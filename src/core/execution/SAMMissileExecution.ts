@@ -65,6 +65,13 @@ export class SAMMissileExecution implements Execution {
           this._owner.id(),
         );
         this.active = false;
+        this.mg
+          .stats()
+          .unitDestroyed(
+            this._owner.id(),
+            this.target.owner().id(),
+            this.target.type(),
+          );
         this.target.delete();
         this.SAMMissile.delete(false);
         return;
@@ -0,0 +1,50 @@
+import { consolex } from "../Consolex";
+import { Execution, Game, PlayerID, UnitType } from "../game/Game";
+import { TileRef } from "../game/GameMap";
+
+export class SetRallyPointExecution implements Execution {
+  private active = true;
+  private mg: Game;
+
+  constructor(
+    private playerID: PlayerID,
+    private portId: number,
+    private tile: TileRef | null,
+  ) {}
+
+  init(mg: Game, ticks: number): void {
+    this.mg = mg;
+  }
+
+  tick(ticks: number): void {
+    this.active = false;
+    if (!this.mg.hasPlayer(this.playerID)) {
+      console.warn(`SetRallyPointExecution: player ${this.playerID} not found`);
+      return;
+    }
+    const player = this.mg.player(this.playerID);
+    const port = player
+      .units(UnitType.Port)
+      .find((u) => u.id() === this.portId);
+    if (port === undefined) {
+      consolex.warn(`player ${player} has no port ${this.portId}`);
+      return;
+    }
+    if (
+      this.tile !== null &&
+      !this.mg.isValidCoord(this.mg.x(this.tile), this.mg.y(this.tile))
+    ) {
+      consolex.warn(`invalid rally point ${this.tile}`);
+      return;
+    }
+    port.setRallyPoint(this.tile);
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  activeDuringSpawnPhase(): boolean {
+    return false;
+  }
+}
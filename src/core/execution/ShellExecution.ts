@@ -2,6 +2,7 @@ import { Execution, Game, Player, Unit, UnitType } from "../game/Game";
 import { TileRef } from "../game/GameMap";
 import { AirPathFinder } from "../pathfinding/PathFinding";
 import { PseudoRandom } from "../PseudoRandom";
+import { damageUnit } from "./Util";
 
 export class ShellExecution implements Execution {
   private active = true;
@@ -52,7 +53,7 @@ export class ShellExecution implements Execution {
       );
       if (result === true) {
         this.active = false;
-        this.target.modifyHealth(-this.effectOnTarget());
+        damageUnit(this.mg, this._owner, this.target, this.effectOnTarget());
         this.shell.delete(false);
         return;
       } else {
@@ -1,3 +1,4 @@
+import { consolex } from "../Consolex";
 import { Execution, Game, Player, PlayerInfo, PlayerType } from "../game/Game";
 import { TileRef } from "../game/GameMap";
 import { BotExecution } from "./BotExecution";
@@ -25,6 +26,15 @@ export class SpawnExecution implements Execution {
       return;
     }
 
+    // Nations start where the map places them.
+    if (
+      this.playerInfo.playerType !== PlayerType.FakeHuman &&
+      !this.mg.inSpawnZone(this.tile)
+    ) {
+      consolex.warn(`${this.playerInfo.name} cannot spawn outside spawn zones`);
+      return;
+    }
+
     let player: Player | null = null;
     if (this.mg.hasPlayer(this.playerInfo.id)) {
       player = this.mg.player(this.playerInfo.id);
@@ -0,0 +1,70 @@
+import { consolex } from "../Consolex";
+import {
+  Execution,
+  Game,
+  MessageType,
+  Player,
+  PlayerID,
+  Tick,
+} from "../game/Game";
+
+export class TradeAgreementExecution implements Execution {
+  private active = true;
+  private mg: Game | null = null;
+
+  constructor(
+    private player: Player,
+    private partnerID: PlayerID,
+    private readonly action: "offer" | "cancel",
+    private share: number,
+    private duration: Tick,
+  ) {}
+
+  init(mg: Game, _: number): void {
+    if (!mg.hasPlayer(this.partnerID)) {
+      console.warn(
+        `TradeAgreementExecution partner ${this.partnerID} not found`,
+      );
+      this.active = false;
+      return;
+    }
+    this.mg = mg;
+  }
+
+  tick(_: number): void {
+    if (this.mg === null) {
+      throw new Error("Not initialized");
+    }
+    const partner = this.mg.player(this.partnerID);
+    if (this.action === "cancel") {
+      this.player.withdrawTradeOffer(this.partnerID);
+      if (this.player.tradeAgreementWith(partner) !== null) {
+        this.player.endTradeAgreement(partner);
+        this.mg.displayMessage(
+          `${this.player.displayName()} ended your trade agreement`,
+          MessageType.WARN,
+          partner.id(),
+        );
+      }
+    } else if (!this.player.canTrade(partner)) {
+      consolex.warn("cannot offer a trade agreement, embargo in place");
+    } else {
+      const share = Math.round(Math.min(100, Math.max(0, this.share)));
+      const duration = Math.round(
+        Math.min(this.mg.config().tradeAgreementMaxDuration(), this.duration),
+      );
+      if (duration > 0) {
+        this.player.offerTradeAgreement(partner, share, duration);
+      }
+    }
+    this.active = false;
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  activeDuringSpawnPhase(): boolean {
+    return false;
+  }
+}
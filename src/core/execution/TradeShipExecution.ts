@@ -62,6 +62,7 @@ export class TradeShipExecution implements Execution {
       }
       this.tradeShip = this.origOwner.buildUnit(UnitType.TradeShip, spawn, {
         dstPort: this._dstPort,
+        srcPort: this.srcPort,
         lastSetSafeFromPirates: ticks,
       });
       this.lastMoveTick = ticks;
@@ -100,9 +101,10 @@ export class TradeShipExecution implements Execution {
       return;
     }
 
-    if (this.origOwner !== this.tradeShip.owner()) {
+    if (!this.wasCaptured && this.origOwner !== this.tradeShip.owner()) {
       // Store as variable in case ship is recaptured by previous owner
       this.wasCaptured = true;
+      this.origOwner.recordTradeShipLost();
     }
 
     // If a player captures another player's port while trading we should delete
@@ -232,23 +234,36 @@ export class TradeShipExecution implements Execution {
 
     if (this.wasCaptured) {
       this.tradeShip.owner().addGold(gold);
+      this.mg.stats().tradeGold(this.tradeShip.owner().id(), gold);
       this.mg.displayMessage(
         `Received ${renderNumber(gold)} gold from ship captured from ${this.origOwner.displayName()}`,
         MessageType.SUCCESS,
         this.tradeShip.owner().id(),
       );
     } else {
-      this.srcPort.owner().addGold(gold);
-      this._dstPort.owner().addGold(gold);
+      const src = this.srcPort.owner();
+      const dst = this._dstPort.owner();
+      // Both sides get the same gold unless a trade agreement splits it.
+      // Whole gold only, players can't hold fractions of it.
+      const share = src.tradeAgreementWith(dst)?.share ?? 50;
+      const total = Math.floor(2 * gold);
+      const srcGold = Math.floor((total * share) / 100);
+      const dstGold = total - srcGold;
+      src.addGold(srcGold);
+      dst.addGold(dstGold);
+      src.recordTradeIncome(dst.id(), srcGold);
+      dst.recordTradeIncome(src.id(), dstGold);
+      this.mg.stats().tradeGold(src.id(), srcGold);
+      this.mg.stats().tradeGold(dst.id(), dstGold);
       this.mg.displayMessage(
-        `Received ${renderNumber(gold)} gold from trade with ${this.srcPort.owner().displayName()}`,
+        `Received ${renderNumber(dstGold)} gold from trade with ${src.displayName()}`,
         MessageType.SUCCESS,
-        this._dstPort.owner().id(),
+        dst.id(),
       );
       this.mg.displayMessage(
-        `Received ${renderNumber(gold)} gold from trade with ${this._dstPort.owner().displayName()}`,
+        `Received ${renderNumber(srcGold)} gold from trade with ${dst.displayName()}`,
         MessageType.SUCCESS,
-        this.srcPort.owner().id(),
+        src.id(),
       );
     }
     return;
@@ -136,6 +136,7 @@ export class TransportShipExecution implements Execution {
     this.boat = this.attacker.buildUnit(UnitType.TransportShip, this.src, {
       troops: this.troops,
     });
+    mg.stats().troopsSent(this.attacker.id(), this.troops);
 
     // Notify the target player about the incoming naval invasion
     if (this.targetID && this.targetID !== mg.terraNullius().id()) {
@@ -180,6 +181,7 @@ export class TransportShipExecution implements Execution {
             this.active = false;
             return;
           }
+          this.mg.stats().boatLanded(this.attacker.id());
           if (this.target.isPlayer() && this.attacker.isFriendly(this.target)) {
             this.target.addTroops(this.troops);
           } else {
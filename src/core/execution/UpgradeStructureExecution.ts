@@ -0,0 +1,46 @@
+import { consolex } from "../Consolex";
+import { Execution, Game, MessageType, PlayerID } from "../game/Game";
+
+export class UpgradeStructureExecution implements Execution {
+  private active = true;
+  private mg: Game;
+
+  constructor(
+    private playerID: PlayerID,
+    private unitId: number,
+  ) {}
+
+  init(mg: Game, ticks: number): void {
+    this.mg = mg;
+  }
+
+  tick(ticks: number): void {
+    this.active = false;
+    if (!this.mg.hasPlayer(this.playerID)) {
+      console.warn(
+        `UpgradeStructureExecution: player ${this.playerID} not found`,
+      );
+      return;
+    }
+    const player = this.mg.player(this.playerID);
+    const unit = player.units().find((u) => u.id() === this.unitId);
+    if (unit === undefined || !player.canUpgradeUnit(unit)) {
+      consolex.warn(`player ${player} cannot upgrade unit ${this.unitId}`);
+      return;
+    }
+    player.upgradeUnit(unit);
+    this.mg.displayMessage(
+      `Upgraded ${unit.type()} to level ${unit.level()}`,
+      MessageType.SUCCESS,
+      player.id(),
+    );
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  activeDuringSpawnPhase(): boolean {
+    return false;
+  }
+}
@@ -1,4 +1,6 @@
+import { Cell, Game, Player, TerrainType, Unit } from "../game/Game";
 import { euclDistFN, GameMap, TileRef } from "../game/GameMap";
+import { PseudoRandom } from "../PseudoRandom";
 
 export function getSpawnTiles(gm: GameMap, tile: TileRef): TileRef[] {
   return Array.from(gm.bfs(tile, euclDistFN(tile, 4, true))).filter(
@@ -6,6 +8,32 @@ export function getSpawnTiles(gm: GameMap, tile: TileRef): TileRef[] {
   );
 }
 
+// Unowned land around `cell` for a nation to spawn on, avoiding mountains.
+export function randomSpawnLand(
+  gm: GameMap,
+  random: PseudoRandom,
+  cell: Cell,
+): TileRef | null {
+  const delta = 25;
+  let tries = 0;
+  while (tries < 50) {
+    tries++;
+    const x = random.nextInt(cell.x - delta, cell.x + delta);
+    const y = random.nextInt(cell.y - delta, cell.y + delta);
+    if (!gm.isValidCoord(x, y)) {
+      continue;
+    }
+    const tile = gm.ref(x, y);
+    if (gm.isLand(tile) && !gm.hasOwner(tile)) {
+      if (gm.terrainType(tile) === TerrainType.Mountain && random.chance(2)) {
+        continue;
+      }
+      return tile;
+    }
+  }
+  return null;
+}
+
 export function closestTwoTiles(
   gm: GameMap,
   x: Iterable<TileRef>,
@@ -54,3 +82,18 @@ export function closestTwoTiles(
 
   return result;
 }
+
+// Damages a unit and credits the attacker if this hit is the one that
+// destroyed it. PlayerExecution removes the dead unit on its next tick.
+export function damageUnit(
+  mg: Game,
+  attacker: Player,
+  target: Unit,
+  damage: number,
+): void {
+  const wasAlive = target.health() > 0;
+  target.modifyHealth(-damage);
+  if (wasAlive && target.health() <= 0) {
+    mg.stats().unitDestroyed(attacker.id(), target.owner().id(), target.type());
+  }
+}
@@ -7,12 +7,14 @@ import {
   PlayerID,
   Unit,
   UnitType,
+  WarshipOrder,
 } from "../game/Game";
 import { TileRef } from "../game/GameMap";
 import { PathFindResultType } from "../pathfinding/AStar";
 import { PathFinder } from "../pathfinding/PathFinding";
 import { PseudoRandom } from "../PseudoRandom";
 import { CondorMissileExecution } from "./CondorMissileExecution";
+import { MoveWarshipExecution } from "./MoveWarshipExecution";
 import { ShellExecution } from "./ShellExecution";
 
 export class WarshipExecution implements Execution {
@@ -27,6 +29,8 @@ export class WarshipExecution implements Execution {
   private pathfinder: PathFinder | null = null;
 
   private patrolTile: TileRef | undefined;
+  private patrolRoute: TileRef[] = [];
+  private patrolIndex = 0;
 
   private lastShellAttack = 0;
   private alreadySentShell = new Set<Unit>();
@@ -40,6 +44,7 @@ export class WarshipExecution implements Execution {
     private playerID: PlayerID,
     private patrolCenterTile: TileRef,
     private unitType: UnitType = UnitType.Viper, // Default to Viper for backward compatibility
+    private rallyPoint?: TileRef, // Where the warship heads once built
   ) {}
 
   init(mg: Game, ticks: number): void {
@@ -70,6 +75,7 @@ export class WarshipExecution implements Execution {
       switch (result.type) {
         case PathFindResultType.Completed:
           this.warship.setTargetTile(undefined);
+          this.warship.setWarshipOrder(WarshipOrder.Move);
           this.warship.touch();
           return;
         case PathFindResultType.NextTile:
@@ -187,8 +193,18 @@ export class WarshipExecution implements Execution {
     if (this.warship === null || this.pathfinder === null) {
       throw new Error("Warship not initialized");
     }
+    const route = this.warship.patrolRoute();
+    if (route !== this.patrolRoute) {
+      // A new patrol order, head to its first waypoint.
+      this.patrolRoute = route;
+      this.patrolIndex = 0;
+      this.patrolTile = undefined;
+    }
     if (this.patrolTile === undefined) {
-      this.patrolTile = this.randomTile();
+      this.patrolTile =
+        route.length > 0
+          ? route[this.patrolIndex++ % route.length]
+          : this.randomTile();
       if (this.patrolTile === undefined) {
         return;
       }
@@ -227,6 +243,128 @@ export class WarshipExecution implements Execution {
     }
   }
 
+  /**
+   * Stays with the escorted trade ships and fights enemy warships closing in
+   * on them. Enemy trade ships are left alone, chasing them would leave the
+   * convoy unguarded.
+   */
+  private escort() {
+    if (this.warship === null) {
+      throw new Error("Warship not initialized");
+    }
+    const warship = this.warship;
+    const order = warship.escortOrder();
+    if (
+      order === null ||
+      !order.port.isActive() ||
+      order.port.owner() !== this._owner
+    ) {
+      // The port was lost, patrol where the convoy used to be.
+      this.patrolCenterTile = warship.tile();
+      warship.setWarshipOrder(WarshipOrder.Move);
+      warship.touch();
+      return;
+    }
+
+    const convoy = this._owner
+      .units(UnitType.TradeShip)
+      .filter(
+        (ship) =>
+          ship.sourcePort() === order.port &&
+          (order.destination === null ||
+            ship.destinationPort() === order.destination),
+      )
+      .sort(
+        (a, b) =>
+          this.mg.euclideanDistSquared(a.tile(), warship.tile()) -
+          this.mg.euclideanDistSquared(b.tile(), warship.tile()),
+      );
+    const threat = this.escortThreat(convoy);
+    if (threat !== undefined) {
+      this.target = threat;
+    } else if (this.target?.type() === UnitType.TradeShip) {
+      this.target = undefined;
+    }
+    warship.setTargetUnit(this.target);
+
+    const range = this.mg.config().warshipTargettingRange();
+    const inRange =
+      this.target !== undefined &&
+      this.mg.euclideanDistSquared(this.target.tile(), warship.tile()) <=
+        range * range;
+    if (threat !== undefined && !inRange) {
+      this.moveTowards(threat.tile(), 1);
+    } else if (convoy.length > 0) {
+      this.moveTowards(convoy[0].tile(), 5);
+    } else {
+      // Wait at the port for the next trade ship.
+      this.moveTowards(order.port.tile(), 5);
+    }
+    if (this.target !== undefined && inRange) {
+      this.shoot();
+    }
+  }
+
+  // The hostile warship closest to us that is within range of the convoy.
+  private escortThreat(convoy: Unit[]): Unit | undefined {
+    if (this.warship === null) {
+      throw new Error("Warship not initialized");
+    }
+    const range = this.mg.config().escortThreatRange();
+    let threat: Unit | undefined = undefined;
+    let threatDist = Infinity;
+    for (const ship of convoy) {
+      for (const { unit } of this.mg.nearbyUnits(ship.tile(), range, [
+        UnitType.Viper,
+        UnitType.Condor,
+      ])) {
+        if (
+          unit.owner() === this._owner ||
+          unit.owner().isFriendly(this._owner) ||
+          this.alreadySentShell.has(unit)
+        ) {
+          continue;
+        }
+        const dist = this.mg.euclideanDistSquared(
+          unit.tile(),
+          this.warship.tile(),
+        );
+        if (dist < threatDist) {
+          threat = unit;
+          threatDist = dist;
+        }
+      }
+    }
+    return threat;
+  }
+
+  // Heads towards `tile`, stopping once within `dist` of it.
+  private moveTowards(tile: TileRef, dist: number) {
+    if (this.warship === null || this.pathfinder === null) {
+      throw new Error("Warship not initialized");
+    }
+    // Vipers move twice as fast
+    const moveIterations = this.warship.type() === UnitType.Viper ? 2 : 1;
+
+    for (let moveCount = 0; moveCount < moveIterations; moveCount++) {
+      const result = this.pathfinder.nextTile(this.warship.tile(), tile, dist);
+      switch (result.type) {
+        case PathFindResultType.Completed:
+          this.warship.touch();
+          return;
+        case PathFindResultType.NextTile:
+          this.warship.move(result.tile);
+          break;
+        case PathFindResultType.Pending:
+          this.warship.touch();
+          return;
+        case PathFindResultType.PathNotFound:
+          consolex.log(`path not found to escort tile`);
+          return;
+      }
+    }
+  }
+
   tick(ticks: number): void {
     if (this.pathfinder === null) throw new Error("Warship not initialized");
 
@@ -251,6 +389,11 @@ export class WarshipExecution implements Execution {
         return;
       }
       this.warship = this._owner.buildUnit(this.unitType, spawn, {});
+      if (this.rallyPoint !== undefined) {
+        this.mg.addExecution(
+          new MoveWarshipExecution(this.warship.id(), this.rallyPoint),
+        );
+      }
       return;
     }
     if (!this.warship.isActive()) {
@@ -394,9 +537,21 @@ export class WarshipExecution implements Execution {
       return distA - distB;
     })[0]?.unit;
 
+    if (this.warship.warshipOrder() === WarshipOrder.Escort) {
+      this.escort();
+      return;
+    }
+
     const moveTarget = this.warship.targetTile();
+    // Attack-moving warships hold position while they have something to shoot.
+    const holdPosition =
+      this.warship.warshipOrder() === WarshipOrder.AttackMove &&
+      this.target !== undefined &&
+      this.target.type() !== UnitType.TradeShip;
     if (moveTarget) {
-      this.goToMoveTarget(moveTarget);
+      if (!holdPosition) {
+        this.goToMoveTarget(moveTarget);
+      }
       // If we have a "move target" then we cannot target trade ships as it
       // requires moving.
       if (this.target && this.target.type() === UnitType.TradeShip) {
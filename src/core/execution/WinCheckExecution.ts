@@ -5,33 +5,80 @@ import {
   Game,
   GameMode,
   Player,
+  PlayerType,
   Team,
+  UnitType,
+  VictoryMode,
 } from "../game/Game";
+import { TileRef } from "../game/GameMap";
+import { HillZone } from "../Schemas";
 
 export class WinEvent implements GameEvent {
   constructor(public readonly winner: Player) {}
 }
 
+// A player in FFA, or all players of a team, competing for the win.
+interface Contender {
+  winner: Player | Team;
+  players: Player[];
+}
+
 export class WinCheckExecution implements Execution {
   private active = true;
 
   private mg: Game | null = null;
 
+  // King of the hill: land tiles of each zone and seconds held so far.
+  private hillZones: TileRef[][] = [];
+  private hillSeconds = new Map<Player | Team, number>();
+
   constructor() {}
 
   init(mg: Game, ticks: number) {
     this.mg = mg;
+    const victory = mg.config().victoryCondition();
+    if (victory.mode === VictoryMode.KingOfTheHill) {
+      const zones = victory.zones ?? [
+        {
+          x: Math.floor(mg.width() / 2),
+          y: Math.floor(mg.height() / 2),
+          radius: Math.max(
+            5,
+            Math.floor(Math.min(mg.width(), mg.height()) / 10),
+          ),
+        },
+      ];
+      this.hillZones = zones.map((z) => this.zoneTiles(z));
+    }
   }
 
+  // Runs once a second.
   tick(ticks: number) {
     if (ticks % 10 !== 0) {
       return;
     }
     if (this.mg === null) throw new Error("Not initialized");
-    if (this.mg.config().gameConfig().gameMode === GameMode.FFA) {
-      this.checkWinnerFFA();
-    } else {
-      this.checkWinnerTeam();
+    const victory = this.mg.config().victoryCondition();
+    switch (victory.mode) {
+      case VictoryMode.Territory:
+        if (this.mg.config().gameConfig().gameMode === GameMode.FFA) {
+          this.checkWinnerFFA();
+        } else {
+          this.checkWinnerTeam();
+        }
+        break;
+      case VictoryMode.Score:
+        this.checkWinnerScore(ticks, victory.durationMinutes);
+        break;
+      case VictoryMode.KingOfTheHill:
+        this.checkWinnerHill(victory.holdSeconds);
+        break;
+      case VictoryMode.LastStanding:
+        this.checkWinnerLastStanding();
+        break;
+      case VictoryMode.CaptureCities:
+        this.checkWinnerCaptures(victory.count);
+        break;
     }
   }
 
@@ -86,6 +133,147 @@ export class WinCheckExecution implements Execution {
     }
   }
 
+  checkWinnerScore(ticks: number, durationMinutes: number): void {
+    if (this.mg === null) throw new Error("Not initialized");
+    const elapsed = ticks - this.mg.config().numSpawnPhaseTurns();
+    if (elapsed < durationMinutes * 60 * 10) {
+      return;
+    }
+    let best: Contender | null = null;
+    let bestScore = -1;
+    for (const contender of this.contenders()) {
+      const score = contender.players
+        .filter((p) => p.isAlive())
+        .reduce((sum, p) => sum + this.mg!.config().victoryScore(p), 0);
+      if (score > bestScore) {
+        best = contender;
+        bestScore = score;
+      }
+    }
+    if (best !== null) {
+      this.declareWinner(best);
+    }
+  }
+
+  checkWinnerHill(holdSeconds: number): void {
+    if (this.mg === null) throw new Error("Not initialized");
+    const contenders = this.contenders();
+    for (const tiles of this.hillZones) {
+      const controller = this.zoneController(tiles, contenders);
+      if (controller === null) continue;
+      const held = (this.hillSeconds.get(controller.winner) ?? 0) + 1;
+      this.hillSeconds.set(controller.winner, held);
+      if (held >= holdSeconds) {
+        this.declareWinner(controller);
+        return;
+      }
+    }
+  }
+
+  checkWinnerLastStanding(): void {
+    const contenders = this.contenders();
+    if (contenders.length < 2) {
+      // Nobody to outlast in a solo game.
+      return;
+    }
+    const alive = contenders.filter((c) => c.players.some((p) => p.isAlive()));
+    if (alive.length === 1) {
+      this.declareWinner(alive[0]);
+    }
+  }
+
+  checkWinnerCaptures(count: number): void {
+    if (this.mg === null) throw new Error("Not initialized");
+    for (const contender of this.contenders()) {
+      const captured = contender.players.reduce(
+        (sum, p) =>
+          sum +
+          (this.mg!.stats().getPlayerStats(p.id()).unitsCaptured[
+            UnitType.City
+          ] ?? 0),
+        0,
+      );
+      if (captured >= count) {
+        this.declareWinner(contender);
+        return;
+      }
+    }
+  }
+
+  // Every spawned player in FFA, or every team, bots excluded.
+  private contenders(): Contender[] {
+    if (this.mg === null) throw new Error("Not initialized");
+    const players = this.mg
+      .allPlayers()
+      .filter((p) => p.hasSpawned() && p.type() !== PlayerType.Bot);
+    if (this.mg.config().gameConfig().gameMode === GameMode.FFA) {
+      return players.map((p) => ({ winner: p, players: [p] }));
+    }
+    const teams = new Map<Team, Player[]>();
+    for (const player of players) {
+      const team = player.team();
+      if (team === null || team === ColoredTeams.Bot) continue;
+      teams.set(team, [...(teams.get(team) ?? []), player]);
+    }
+    return Array.from(teams.entries()).map(([team, members]) => ({
+      winner: team,
+      players: members,
+    }));
+  }
+
+  // The contender owning more than half of the zone, if any.
+  private zoneController(
+    tiles: TileRef[],
+    contenders: Contender[],
+  ): Contender | null {
+    if (this.mg === null) throw new Error("Not initialized");
+    const counts = new Map<number, number>();
+    for (const tile of tiles) {
+      const owner = this.mg.ownerID(tile);
+      counts.set(owner, (counts.get(owner) ?? 0) + 1);
+    }
+    for (const contender of contenders) {
+      const owned = contender.players.reduce(
+        (sum, p) => sum + (counts.get(p.smallID()) ?? 0),
+        0,
+      );
+      if (owned * 2 > tiles.length) {
+        return contender;
+      }
+    }
+    return null;
+  }
+
+  private zoneTiles(zone: HillZone): TileRef[] {
+    if (this.mg === null) throw new Error("Not initialized");
+    const tiles: TileRef[] = [];
+    for (let x = zone.x - zone.radius; x <= zone.x + zone.radius; x++) {
+      for (let y = zone.y - zone.radius; y <= zone.y + zone.radius; y++) {
+        if (!this.mg.isValidCoord(x, y)) continue;
+        const dx = x - zone.x;
+        const dy = y - zone.y;
+        const tile = this.mg.ref(x, y);
+        if (
+          dx * dx + dy * dy <= zone.radius * zone.radius &&
+          this.mg.isLand(tile)
+        ) {
+          tiles.push(tile);
+        }
+      }
+    }
+    return tiles;
+  }
+
+  private declareWinner(contender: Contender) {
+    if (this.mg === null) throw new Error("Not initialized");
+    const winner = contender.winner;
+    this.mg.setWinner(winner, this.mg.stats().stats());
+    console.log(
+      `${typeof winner === "string" ? winner : winner.name()} has won the game`,
+    );
+    this.active = false;
+  }
+
   isActive(): boolean {
     return this.active;
   }
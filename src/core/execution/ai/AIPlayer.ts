@@ -0,0 +1,125 @@
+import {
+  Cell,
+  Gold,
+  PlayerID,
+  PlayerType,
+  Relation,
+  Tick,
+  UnitType,
+} from "../../game/Game";
+import { GameMap, TileRef } from "../../game/GameMap";
+import { PseudoRandom } from "../../PseudoRandom";
+import { ExpanderStrategy } from "./ExpanderStrategy";
+
+// Map queries only, strategies cannot change tiles.
+export type AIMap = Omit<GameMap, "setOwnerID" | "setFallout" | "updateTile">;
+
+export interface AIUnitView {
+  id(): number;
+  type(): UnitType;
+  tile(): TileRef;
+  troops(): number;
+  level(): number;
+}
+
+// Read-only view of a player, own or other.
+export interface AIPlayerView {
+  id(): PlayerID;
+  smallID(): number;
+  name(): string;
+  type(): PlayerType;
+  isAlive(): boolean;
+  troops(): number;
+  gold(): Gold;
+  numTilesOwned(): number;
+  borderTiles(): ReadonlySet<TileRef>;
+  // Units of other players hidden by fog of war are left out.
+  units(...types: UnitType[]): AIUnitView[];
+  // Neighboring players, unowned land is not included.
+  neighbors(): AIPlayerView[];
+  sharesBorderWithWilderness(): boolean;
+  isAlliedWith(other: AIPlayerView): boolean;
+  relation(other: AIPlayerView): Relation;
+  hasEmbargoAgainst(other: AIPlayerView): boolean;
+  // Players waiting for a reply to their alliance request.
+  incomingAllianceRequests(): AIPlayerView[];
+  numIncomingAttacks(): number;
+}
+
+export interface AIGameView {
+  ticks(): Tick;
+  inSpawnPhase(): boolean;
+  map(): AIMap;
+  me(): AIPlayerView;
+  // All players alive, including this one.
+  players(): AIPlayerView[];
+  // Null for unowned tiles.
+  owner(tile: TileRef): AIPlayerView | null;
+  // False when fog of war hides the tile from this player.
+  isVisible(tile: TileRef): boolean;
+  cost(type: UnitType): Gold;
+  // Returns the tile the unit would be built from, or false if it cannot be
+  // built there.
+  canBuild(type: UnitType, tile: TileRef): TileRef | false;
+}
+
+/**
+ * What a strategy can do, the same actions a human player has. Actions are
+ * queued and validated on the next tick, invalid ones are ignored.
+ */
+export interface AIActions {
+  // Null attacks unowned land.
+  attack(target: AIPlayerView | null, troops: number): void;
+  boat(target: AIPlayerView | null, dst: TileRef, troops: number): void;
+  build(type: UnitType, tile: TileRef): void;
+  upgrade(unit: AIUnitView): void;
+  requestAlliance(recipient: AIPlayerView): void;
+  replyAlliance(requestor: AIPlayerView, accept: boolean): void;
+  breakAlliance(other: AIPlayerView): void;
+  embargo(other: AIPlayerView, active: boolean): void;
+  donateGold(recipient: AIPlayerView, gold: Gold): void;
+  donateTroops(recipient: AIPlayerView, troops: number): void;
+}
+
+export interface AIContext {
+  game: AIGameView;
+  actions: AIActions;
+  // Seeded per game and player, strategies must not use Math.random() or
+  // the simulation desyncs.
+  random: PseudoRandom;
+}
+
+export interface AIStrategy {
+  // Ticks between two calls to tick(), defaults to 10.
+  readonly tickInterval?: number;
+  // Picks the spawn tile near the nation's spawn cell, defaults to random
+  // unowned land around it.
+  spawnTile?(map: AIMap, random: PseudoRandom, spawnCell: Cell): TileRef | null;
+  tick(ctx: AIContext): void;
+}
+
+export type AIStrategyFactory = () => AIStrategy;
+
+const strategies = new Map<string, AIStrategyFactory>([
+  ["expander", () => new ExpanderStrategy()],
+]);
+
+/**
+ * Makes a strategy available to GameConfig.nationStrategies under `name`.
+ * Every client must register the same strategies as the simulation runs on
+ * all of them.
+ */
+export function registerAIStrategy(name: string, factory: AIStrategyFactory) {
+  if (strategies.has(name)) {
+    throw new Error(`AI strategy ${name} already registered`);
+  }
+  strategies.set(name, factory);
+}
+
+export function createAIStrategy(name: string): AIStrategy | null {
+  return strategies.get(name)?.() ?? null;
+}
+
+export function aiStrategyNames(): string[] {
+  return Array.from(strategies.keys());
+}
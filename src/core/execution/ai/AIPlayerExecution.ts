@@ -0,0 +1,303 @@
+import {
+  Execution,
+  Game,
+  Gold,
+  Nation,
+  Player,
+  UnitType,
+} from "../../game/Game";
+import { TileRef } from "../../game/GameMap";
+import { PseudoRandom } from "../../PseudoRandom";
+import { GameID } from "../../Schemas";
+import { simpleHash } from "../../Util";
+import { AllianceRequestExecution } from "../alliance/AllianceRequestExecution";
+import { AllianceRequestReplyExecution } from "../alliance/AllianceRequestReplyExecution";
+import { BreakAllianceExecution } from "../alliance/BreakAllianceExecution";
+import { AttackExecution } from "../AttackExecution";
+import { ConstructionExecution } from "../ConstructionExecution";
+import { DonateGoldExecution } from "../DonateGoldExecution";
+import { DonateTroopsExecution } from "../DonateTroopExecution";
+import { EmbargoExecution } from "../EmbargoExecution";
+import { SpawnExecution } from "../SpawnExecution";
+import { TransportShipExecution } from "../TransportShipExecution";
+import { UpgradeStructureExecution } from "../UpgradeStructureExecution";
+import { randomSpawnLand } from "../Util";
+import {
+  AIActions,
+  AIContext,
+  AIGameView,
+  AIMap,
+  AIPlayerView,
+  AIStrategy,
+  AIUnitView,
+} from "./AIPlayer";
+
+const defaultTickInterval = 10;
+
+export class PlayerViewAdapter implements AIPlayerView {
+  constructor(
+    private mg: Game,
+    private player: Player,
+    // The AI player looking, fog of war hides units from it.
+    private viewer: Player,
+  ) {}
+
+  private other(view: AIPlayerView): Player {
+    return this.mg.player(view.id());
+  }
+
+  id() {
+    return this.player.id();
+  }
+  smallID() {
+    return this.player.smallID();
+  }
+  name() {
+    return this.player.displayName();
+  }
+  type() {
+    return this.player.type();
+  }
+  isAlive() {
+    return this.player.isAlive();
+  }
+  troops() {
+    return this.player.troops();
+  }
+  gold() {
+    return this.player.gold();
+  }
+  numTilesOwned() {
+    return this.player.numTilesOwned();
+  }
+  borderTiles() {
+    return this.player.borderTiles();
+  }
+  units(...types: UnitType[]): AIUnitView[] {
+    return this.player
+      .units(...types)
+      .filter(
+        (u) =>
+          this.player === this.viewer ||
+          this.mg.isVisibleTo(this.viewer, u.tile()),
+      )
+      .map((u) => ({
+        id: () => u.id(),
+        type: () => u.type(),
+        tile: () => u.tile(),
+        troops: () => u.troops(),
+        level: () => u.level(),
+      }));
+  }
+  neighbors(): AIPlayerView[] {
+    return this.player
+      .neighbors()
+      .filter((n): n is Player => n.isPlayer())
+      .map((n) => new PlayerViewAdapter(this.mg, n, this.viewer));
+  }
+  sharesBorderWithWilderness() {
+    return this.player.sharesBorderWith(this.mg.terraNullius());
+  }
+  isAlliedWith(other: AIPlayerView) {
+    return this.player.isAlliedWith(this.other(other));
+  }
+  relation(other: AIPlayerView) {
+    return this.player.relation(this.other(other));
+  }
+  hasEmbargoAgainst(other: AIPlayerView) {
+    return this.player.hasEmbargoAgainst(this.other(other));
+  }
+  incomingAllianceRequests(): AIPlayerView[] {
+    return this.player
+      .incomingAllianceRequests()
+      .map((r) => new PlayerViewAdapter(this.mg, r.requestor(), this.viewer));
+  }
+  numIncomingAttacks() {
+    return this.player.incomingAttacks().length;
+  }
+}
+
+export class GameViewAdapter implements AIGameView {
+  constructor(
+    private mg: Game,
+    private player: Player,
+  ) {}
+
+  ticks() {
+    return this.mg.ticks();
+  }
+  inSpawnPhase() {
+    return this.mg.inSpawnPhase();
+  }
+  map(): AIMap {
+    return this.mg.map();
+  }
+  me(): AIPlayerView {
+    return new PlayerViewAdapter(this.mg, this.player, this.player);
+  }
+  players(): AIPlayerView[] {
+    return this.mg
+      .players()
+      .map((p) => new PlayerViewAdapter(this.mg, p, this.player));
+  }
+  owner(tile: TileRef): AIPlayerView | null {
+    const owner = this.mg.owner(tile);
+    return owner.isPlayer()
+      ? new PlayerViewAdapter(this.mg, owner, this.player)
+      : null;
+  }
+  isVisible(tile: TileRef) {
+    return this.mg.isVisibleTo(this.player, tile);
+  }
+  cost(type: UnitType): Gold {
+    return this.mg.unitInfo(type).cost(this.player);
+  }
+  canBuild(type: UnitType, tile: TileRef): TileRef | false {
+    return this.player.canBuild(type, tile);
+  }
+}
+
+// Turns strategy actions into the executions human intents create.
+export class ActionsAdapter implements AIActions {
+  constructor(
+    private mg: Game,
+    private player: Player,
+  ) {}
+
+  attack(target: AIPlayerView | null, troops: number) {
+    this.mg.addExecution(
+      new AttackExecution(troops, this.player.id(), target?.id() ?? null),
+    );
+  }
+  boat(target: AIPlayerView | null, dst: TileRef, troops: number) {
+    this.mg.addExecution(
+      new TransportShipExecution(
+        this.player.id(),
+        target?.id() ?? null,
+        dst,
+        troops,
+        null,
+      ),
+    );
+  }
+  build(type: UnitType, tile: TileRef) {
+    this.mg.addExecution(
+      new ConstructionExecution(this.player.id(), tile, type),
+    );
+  }
+  upgrade(unit: AIUnitView) {
+    this.mg.addExecution(
+      new UpgradeStructureExecution(this.player.id(), unit.id()),
+    );
+  }
+  requestAlliance(recipient: AIPlayerView) {
+    this.mg.addExecution(
+      new AllianceRequestExecution(this.player.id(), recipient.id()),
+    );
+  }
+  replyAlliance(requestor: AIPlayerView, accept: boolean) {
+    this.mg.addExecution(
+      new AllianceRequestReplyExecution(
+        requestor.id(),
+        this.player.id(),
+        accept,
+      ),
+    );
+  }
+  breakAlliance(other: AIPlayerView) {
+    this.mg.addExecution(
+      new BreakAllianceExecution(this.player.id(), other.id()),
+    );
+  }
+  embargo(other: AIPlayerView, active: boolean) {
+    this.mg.addExecution(
+      new EmbargoExecution(this.player, other.id(), active ? "start" : "stop"),
+    );
+  }
+  donateGold(recipient: AIPlayerView, gold: Gold) {
+    this.mg.addExecution(
+      new DonateGoldExecution(this.player.id(), recipient.id(), gold),
+    );
+  }
+  donateTroops(recipient: AIPlayerView, troops: number) {
+    this.mg.addExecution(
+      new DonateTroopsExecution(this.player.id(), recipient.id(), troops),
+    );
+  }
+}
+
+/**
+ * Runs a nation with a registered AIStrategy instead of FakeHumanExecution.
+ * The strategy only sees the game through the AI views and acts through
+ * AIActions.
+ */
+export class AIPlayerExecution implements Execution {
+  private active = true;
+  private mg: Game;
+  private random: PseudoRandom;
+  private tickInterval: number;
+  private tickOffset: number;
+  private context: AIContext | null = null;
+
+  constructor(
+    gameID: GameID,
+    private nation: Nation,
+    private strategy: AIStrategy,
+  ) {
+    this.random = new PseudoRandom(
+      simpleHash(nation.playerInfo.id) + simpleHash(gameID),
+    );
+    this.tickInterval = strategy.tickInterval ?? defaultTickInterval;
+    this.tickOffset = this.random.nextInt(0, this.tickInterval);
+  }
+
+  init(mg: Game) {
+    this.mg = mg;
+  }
+
+  tick(ticks: number) {
+    if (ticks % this.tickInterval !== this.tickOffset) return;
+
+    if (this.mg.inSpawnPhase()) {
+      this.spawn();
+      return;
+    }
+
+    if (this.context === null) {
+      if (!this.mg.hasPlayer(this.nation.playerInfo.id)) {
+        return;
+      }
+      const player = this.mg.player(this.nation.playerInfo.id);
+      this.context = {
+        game: new GameViewAdapter(this.mg, player),
+        actions: new ActionsAdapter(this.mg, player),
+        random: this.random,
+      };
+    }
+
+    if (!this.context.game.me().isAlive()) {
+      this.active = false;
+      return;
+    }
+    this.strategy.tick(this.context);
+  }
+
+  private spawn() {
+    const cell = this.nation.spawnCell;
+    const tile =
+      this.strategy.spawnTile !== undefined
+        ? this.strategy.spawnTile(this.mg.map(), this.random, cell)
+        : randomSpawnLand(this.mg, this.random, cell);
+    if (tile !== null) {
+      this.mg.addExecution(new SpawnExecution(this.nation.playerInfo, tile));
+    }
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  activeDuringSpawnPhase(): boolean {
+    return true;
+  }
+}
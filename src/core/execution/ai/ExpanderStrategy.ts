@@ -0,0 +1,58 @@
+import { Relation, UnitType } from "../../game/Game";
+import { AIContext, AIPlayerView, AIStrategy } from "./AIPlayer";
+
+/**
+ * Reference strategy and baseline for benchmarks: grabs unowned land first,
+ * then attacks its weakest neighbor and builds colonies with spare gold.
+ */
+export class ExpanderStrategy implements AIStrategy {
+  readonly tickInterval = 20;
+
+  constructor(
+    private attackRatio = 0.3,
+    // Only attack neighbors with fewer troops than ours times this.
+    private strengthMargin = 0.8,
+  ) {}
+
+  tick({ game, actions, random }: AIContext) {
+    const me = game.me();
+
+    for (const requestor of me.incomingAllianceRequests()) {
+      actions.replyAlliance(
+        requestor,
+        me.relation(requestor) >= Relation.Neutral,
+      );
+    }
+
+    const troops = Math.floor(me.troops() * this.attackRatio);
+    if (me.sharesBorderWithWilderness()) {
+      actions.attack(null, troops);
+    } else {
+      const target = this.weakestEnemy(me);
+      if (target !== null) {
+        actions.attack(target, troops);
+      }
+    }
+
+    if (me.gold() >= game.cost(UnitType.City)) {
+      const border = Array.from(me.borderTiles());
+      if (border.length > 0) {
+        const tile = border[random.nextInt(0, border.length)];
+        if (game.canBuild(UnitType.City, tile) !== false) {
+          actions.build(UnitType.City, tile);
+        }
+      }
+    }
+  }
+
+  private weakestEnemy(me: AIPlayerView): AIPlayerView | null {
+    const enemies = me
+      .neighbors()
+      .filter(
+        (n) =>
+          !me.isAlliedWith(n) && n.troops() < me.troops() * this.strengthMargin,
+      )
+      .sort((a, b) => a.troops() - b.troops());
+    return enemies[0] ?? null;
+  }
+}
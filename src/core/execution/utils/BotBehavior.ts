@@ -38,6 +38,20 @@ export class BotBehavior {
     }
   }
 
+  // Signs trade agreements that give at least half the gold to this player.
+  handleTradeOffers() {
+    for (const offer of this.player.incomingTradeOffers()) {
+      const partner = this.game.player(offer.partner);
+      if (
+        offer.share >= 50 &&
+        this.player.canTrade(partner) &&
+        this.player.relation(partner) >= Relation.Neutral
+      ) {
+        this.player.offerTradeAgreement(partner, offer.share, offer.duration);
+      }
+    }
+  }
+
   private emoji(player: Player, emoji: number) {
     if (player.type() !== PlayerType.Human) return;
     this.game.addExecution(
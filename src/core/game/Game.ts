@@ -57,10 +57,24 @@ export enum GameMapType {
   Space2 = "Space2",
   FacingWorlds = "FacingWorlds",
   Testmap = "Testmap",
+  // Generated from GameConfig.mapSeed instead of loaded from files.
+  Procedural = "Procedural",
+}
+
+// A built-in map, or the id of a map package registered by the map build.
+export type GameMapID = GameMapType | string;
+
+// Area of a map where players and bots may spawn, in tiles.
+export interface SpawnZone {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
 export const mapCategories: Record<string, GameMapType[]> = {
   solarSystems: [GameMapType.Space2, GameMapType.FacingWorlds],
+  procedural: [GameMapType.Procedural],
 };
 
 export enum GameType {
@@ -74,6 +88,14 @@ export enum GameMode {
   Team = "Team",
 }
 
+export enum VictoryMode {
+  Territory = "Territory",
+  Score = "Score",
+  KingOfTheHill = "King of the Hill",
+  LastStanding = "Last Standing",
+  CaptureCities = "Capture Cities",
+}
+
 export interface UnitInfo {
   cost: (player: Player | PlayerView) => Gold;
   // Determines if its owner changes when its tile is conquered.
@@ -81,6 +103,8 @@ export interface UnitInfo {
   maxHealth?: number;
   damage?: number;
   constructionDuration?: number;
+  // Structures that can be upgraded, up to this level.
+  maxLevel?: number;
 }
 
 export enum UnitType {
@@ -125,6 +149,7 @@ export interface UnitParamsMap {
 
   [UnitType.TradeShip]: {
     dstPort: Unit;
+    srcPort?: Unit;
     lastSetSafeFromPirates?: number;
   };
 
@@ -282,6 +307,26 @@ export class PlayerInfo {
   }
 }
 
+export enum WarshipOrder {
+  // Head to the target tile, firing at anything in range on the way.
+  Move = "move",
+  // Stop to fight anything in range before heading on to the target tile.
+  AttackMove = "attack_move",
+  // Cycle through the patrol route.
+  Patrol = "patrol",
+  // Follow our trade ships leaving a port and fight threats around them.
+  Escort = "escort",
+}
+
+/**
+ * The trade ships an escorting warship guards: those leaving `port`, only
+ * the ones headed to `destination` when it is set.
+ */
+export interface EscortOrder {
+  port: Unit;
+  destination: Unit | null;
+}
+
 export interface Unit {
   // Common properties.
   id(): number;
@@ -309,11 +354,17 @@ export interface Unit {
   hasHealth(): boolean;
   health(): number;
   modifyHealth(delta: number): void;
+  // Tick of the last damage taken, null if never hit.
+  lastDamaged(): Tick | null;
 
   // Troops
   setTroops(troops: number): void;
   troops(): number;
 
+  // Upgrades, starts at 1
+  level(): number;
+  upgrade(): void;
+
   // --- UNIT SPECIFIC ---
 
   // SAMs & Missile Silos
@@ -321,9 +372,18 @@ export interface Unit {
   ticksLeftInCooldown(): Tick | undefined;
   isInCooldown(): boolean;
 
+  // Warships
+  warshipOrder(): WarshipOrder;
+  patrolRoute(): TileRef[];
+  setWarshipOrder(order: WarshipOrder, patrolRoute?: TileRef[]): void;
+  escortOrder(): EscortOrder | null;
+  setEscortOrder(escort: EscortOrder): void;
+
   // Trade Ships
   setSafeFromPirates(): void; // Only for trade ships
   isSafeFromPirates(): boolean; // Only for trade ships
+  sourcePort(): Unit | undefined; // Only for trade ships
+  destinationPort(): Unit | undefined; // Only for trade ships
 
   // Construction
   constructionType(): UnitType | null;
@@ -334,11 +394,15 @@ export interface Unit {
   cachePut(from: TileRef, to: TileRef): void;
   cacheGet(from: TileRef): TileRef | undefined;
 
-  // Port Queue System
-  setPortQueue(unitType: UnitType, progress: number): void;
-  getPortQueue(): { unitType: UnitType; progress: number } | null;
-  clearPortQueue(): void;
+  // Port Queue System, the first entry is the one being built.
+  portQueue(): PortQueueEntry[];
+  enqueueShip(unitType: UnitType, cost: Gold): PortQueueEntry;
+  removeQueuedShip(entryId: number): PortQueueEntry | null;
+  moveQueuedShip(entryId: number, index: number): boolean;
+  setPortQueueProgress(progress: number): void;
   hasPortQueue(): boolean;
+  rallyPoint(): TileRef | null;
+  setRallyPoint(tile: TileRef | null): void;
 }
 
 export interface TerraNullius {
@@ -354,6 +418,24 @@ export interface Embargo {
   target: PlayerID;
 }
 
+// A signed trade agreement as seen by one of the two players. Trade ships
+// between them prefer each other's ports and split the gold by `share`.
+export interface TradeAgreement {
+  partner: PlayerID;
+  // Percent of the gold of each trade between the two this player gets.
+  share: number;
+  expiresAt: Tick;
+}
+
+// An agreement offered to `partner`, signed once they offer it back with
+// the remaining share and the same duration.
+export interface TradeOffer {
+  partner: PlayerID;
+  share: number;
+  duration: Tick;
+  createdAt: Tick;
+}
+
 export interface Player {
   // Basic Info
   smallID(): number;
@@ -412,6 +494,9 @@ export interface Player {
   ): Unit;
 
   captureUnit(unit: Unit): void;
+  upgradeableUnit(tile: TileRef): UpgradeableUnit | null;
+  canUpgradeUnit(unit: Unit): boolean;
+  upgradeUnit(unit: Unit): void;
   getNextAvailablePortForWarship(): Unit | null;
   getClosestAvailablePortForWarship(targetTile: TileRef): Unit | null;
 
@@ -462,6 +547,19 @@ export interface Player {
   endTemporaryEmbargo(other: PlayerID): void;
   canTrade(other: Player): boolean;
 
+  // Trade agreements
+  tradeAgreements(): TradeAgreement[];
+  tradeAgreementWith(other: Player): TradeAgreement | null;
+  outgoingTradeOffers(): TradeOffer[];
+  incomingTradeOffers(): TradeOffer[];
+  // Signs the agreement if `partner` offered the matching one.
+  offerTradeAgreement(partner: Player, share: number, duration: Tick): void;
+  withdrawTradeOffer(partner: PlayerID): void;
+  // Ends the agreement for both players.
+  endTradeAgreement(partner: Player): void;
+  recordTradeIncome(partner: PlayerID, gold: Gold): void;
+  recordTradeShipLost(): void;
+
   // Attacking.
   canAttack(tile: TileRef): boolean;
   createAttack(
@@ -508,6 +606,9 @@ export interface Game extends GameMap {
   // Game State
   ticks(): Tick;
   inSpawnPhase(): boolean;
+  // Whether players may spawn on the tile, always true on maps without
+  // spawn zones.
+  inSpawnZone(tile: TileRef): boolean;
   executeNextTick(): GameUpdates;
   setWinner(winner: Player | Team, allPlayersStats: AllPlayersStats): void;
   config(): Config;
@@ -520,6 +621,9 @@ export interface Game extends GameMap {
     searchRange: number,
     types: UnitType | UnitType[],
   ): Array<{ unit: Unit; distSquared: number }>;
+  // Whether `player` sees `tile` through fog of war, always true when fog of
+  // war is off. AI players must not act on what they cannot see.
+  isVisibleTo(player: Player, tile: TileRef): boolean;
 
   addExecution(...exec: Execution[]): void;
   displayMessage(
@@ -554,6 +658,7 @@ export interface Game extends GameMap {
 export interface PlayerActions {
   canAttack: boolean;
   buildableUnits: BuildableUnit[];
+  upgradeableUnit: UpgradeableUnit | null;
   canSendEmojiAllPlayers: boolean;
   interaction?: PlayerInteraction;
 }
@@ -564,6 +669,24 @@ export interface BuildableUnit {
   cost: number;
 }
 
+export interface PortQueueEntry {
+  id: number;
+  unitType: UnitType;
+  // Gold paid when queued, refunded on cancel.
+  cost: Gold;
+  // 0-1, only the first entry makes progress.
+  progress: number;
+}
+
+export interface UpgradeableUnit {
+  unitId: number;
+  type: UnitType;
+  level: number;
+  // Gold for the next level.
+  cost: Gold;
+  canUpgrade: boolean;
+}
+
 export interface PlayerProfile {
   relations: Record<number, Relation>;
   alliances: number[];
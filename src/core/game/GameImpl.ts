@@ -21,6 +21,7 @@ import {
   PlayerID,
   PlayerInfo,
   PlayerType,
+  SpawnZone,
   Team,
   TerrainType,
   TerraNullius,
@@ -36,6 +37,7 @@ import { StatsImpl } from "./StatsImpl";
 import { assignTeams } from "./TeamAssignment";
 import { TerraNulliusImpl } from "./TerraNulliusImpl";
 import { UnitGrid } from "./UnitGrid";
+import { nearTerritory, visionSharers } from "./Vision";
 
 export function createGame(
   humans: PlayerInfo[],
@@ -43,8 +45,16 @@ export function createGame(
   gameMap: GameMap,
   miniGameMap: GameMap,
   config: Config,
+  spawnZones: SpawnZone[] = [],
 ): Game {
-  return new GameImpl(humans, nations, gameMap, miniGameMap, config);
+  return new GameImpl(
+    humans,
+    nations,
+    gameMap,
+    miniGameMap,
+    config,
+    spawnZones,
+  );
 }
 
 export type CellString = string;
@@ -82,6 +92,7 @@ export class GameImpl implements Game {
     private _map: GameMap,
     private miniGameMap: GameMap,
     private _config: Config,
+    private spawnZones: SpawnZone[] = [],
   ) {
     this._terraNullius = new TerraNulliusImpl();
     this._width = _map.width();
@@ -236,6 +247,8 @@ export class GameImpl implements Game {
       this._ticks,
     );
     this.alliances_.push(alliance);
+    this._stats.allianceFormed(requestor.id());
+    this._stats.allianceFormed(recipient.id());
     (request.requestor() as PlayerImpl).pastOutgoingAllianceRequests.push(
       request,
     );
@@ -278,6 +291,21 @@ export class GameImpl implements Game {
     return this._ticks <= this.config().numSpawnPhaseTurns();
   }
 
+  inSpawnZone(tile: TileRef): boolean {
+    if (this.spawnZones.length === 0) {
+      return true;
+    }
+    const x = this.x(tile);
+    const y = this.y(tile);
+    return this.spawnZones.some(
+      (zone) =>
+        x >= zone.x &&
+        y >= zone.y &&
+        x < zone.x + zone.width &&
+        y < zone.y + zone.height,
+    );
+  }
+
   ticks(): number {
     return this._ticks;
   }
@@ -463,6 +491,7 @@ export class GameImpl implements Game {
       previousOwner._lastTileChange = this._ticks;
       previousOwner._tiles.delete(tile);
       previousOwner._borderTiles.delete(tile);
+      this._stats.tileConquered(owner.id(), previousOwner.id());
     }
     this._map.setOwnerID(tile, owner.smallID());
     owner._tiles.add(tile);
@@ -549,6 +578,7 @@ export class GameImpl implements Game {
     if (!other.isTraitor()) {
       breaker.markTraitor();
     }
+    this._stats.allianceBetrayed(breaker.id());
 
     const breakerSet = new Set(breaker.alliances());
     const alliances = other.alliances().filter((a) => breakerSet.has(a));
@@ -682,6 +712,37 @@ export class GameImpl implements Game {
     }>;
   }
 
+  isVisibleTo(player: Player, tile: TileRef): boolean {
+    if (!this.config().fogOfWar() || this.inSpawnPhase()) {
+      return true;
+    }
+    const viewers = visionSharers(player, this.players());
+    if (
+      nearTerritory(
+        this._map,
+        viewers,
+        tile,
+        this.config().territorySightRange(),
+      )
+    ) {
+      return true;
+    }
+    const types = Object.values(UnitType);
+    const maxRange = Math.max(
+      ...types.map((type) => this.config().unitSightRange(type)),
+    );
+    return this.nearbyUnits(tile, maxRange, types).some(
+      ({ unit, distSquared }) => {
+        const range = this.config().unitSightRange(unit.type());
+        return (
+          range > 0 &&
+          viewers.has(unit.owner().smallID()) &&
+          distSquared <= range * range
+        );
+      },
+    );
+  }
+
   ref(x: number, y: number): TileRef {
     return this._map.ref(x, y);
   }
@@ -784,7 +845,7 @@ export class GameImpl implements Game {
 }
 
 // Or a more dynamic approach that will catch new enum values:
-const createGameUpdatesMap = (): GameUpdates => {
+export const createGameUpdatesMap = (): GameUpdates => {
   const map = {} as GameUpdates;
   Object.values(GameUpdateType)
     .filter((key) => !isNaN(Number(key))) // Filter out reverse mappings
@@ -1,3 +1,4 @@
+import { shareInClones } from "../utilities/DeepClone";
 import { Cell, TerrainType } from "./Game";
 
 export type TileRef = number;
@@ -90,13 +91,13 @@ export class GameMapImpl implements GameMap {
     }
     this.width_ = width;
     this.height_ = height;
-    this.terrain = terrainData;
+    this.terrain = shareInClones(terrainData);
     this.state = new Uint16Array(width * height);
     // Precompute the LUTs
     let ref = 0;
-    this.refToX = new Array(width * height);
-    this.refToY = new Array(width * height);
-    this.yToRef = new Array(height);
+    this.refToX = shareInClones(new Array(width * height));
+    this.refToY = shareInClones(new Array(width * height));
+    this.yToRef = shareInClones(new Array(height));
     for (let y = 0; y < height; y++) {
       this.yToRef[y] = ref;
       for (let x = 0; x < width; x++) {
@@ -110,6 +111,11 @@ export class GameMapImpl implements GameMap {
     return this._numTilesWithFallout;
   }
 
+  // The immutable data shared with clones of this map.
+  sharedData(): object[] {
+    return [this.terrain, this.refToX, this.refToY, this.yToRef];
+  }
+
   ref(x: number, y: number): TileRef {
     if (!this.isValidCoord(x, y)) {
       throw new Error(`Invalid coordinates: ${x},${y}`);
@@ -2,12 +2,16 @@ import { AllPlayersStats, ClientID, PlayerStats } from "../Schemas";
 import {
   EmojiMessage,
   GameUpdates,
+  Gold,
   MessageType,
   NameViewData,
   PlayerID,
   PlayerType,
+  PortQueueEntry,
   Team,
   Tick,
+  TradeAgreement,
+  TradeOffer,
   UnitType,
 } from "./Game";
 import { TileRef, TileUpdate } from "./GameMap";
@@ -17,6 +21,9 @@ export interface GameUpdateViewData {
   updates: GameUpdates;
   packedTileUpdates: BigUint64Array;
   playerNameViewData: Record<number, NameViewData>;
+  // Set when the update describes the whole game state rather than the
+  // changes since the previous tick, e.g. after seeking in a replay.
+  fullSync?: boolean;
 }
 
 export interface ErrorUpdate {
@@ -79,8 +86,13 @@ export interface UnitUpdate {
   constructionType?: UnitType;
   ticksLeftInCooldown?: Tick;
   constructionProgress?: number; // 0-1, progress of construction
-  portQueueUnitType?: UnitType; // Only for ports with active queue
-  portQueueProgress?: number; // 0-1, progress of port queue
+  portQueue?: PortQueueEntry[]; // Only for ports with active queue
+  rallyPoint?: TileRef; // Only for ports
+  sourcePortId?: number; // Only for trade ships
+  destinationPortId?: number; // Only for trade ships
+  escortPortId?: number; // Only for escorting warships
+  escortDestinationId?: number; // Only for warships escorting one route
+  level: number;
 }
 
 export interface AttackUpdate {
@@ -117,6 +129,10 @@ export interface PlayerUpdate {
   outgoingAttacks: AttackUpdate[];
   incomingAttacks: AttackUpdate[];
   outgoingAllianceRequests: PlayerID[];
+  tradeAgreements: TradeAgreement[];
+  outgoingTradeOffers: TradeOffer[];
+  tradeIncome: Record<PlayerID, Gold>;
+  tradeShipsLost: number;
   stats: PlayerStats;
   hasSpawned: boolean;
   ticksAliveFor: number;
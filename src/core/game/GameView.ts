@@ -15,10 +15,14 @@ import {
   PlayerInfo,
   PlayerProfile,
   PlayerType,
+  PortQueueEntry,
+  SpawnZone,
   Team,
   TerrainType,
   TerraNullius,
   Tick,
+  TradeAgreement,
+  TradeOffer,
   UnitInfo,
   UnitType,
 } from "./Game";
@@ -33,9 +37,22 @@ import {
 import { TerraNulliusImpl } from "./TerraNulliusImpl";
 import { UnitGrid } from "./UnitGrid";
 import { UserSettings } from "./UserSettings";
+import { VisionMap, visionSharers } from "./Vision";
 
 const userSettings: UserSettings = new UserSettings();
 
+// Ticks between two fog of war updates.
+const visionUpdateInterval = 5;
+
+// What this client last saw of a player hidden by fog of war.
+export interface PlayerSighting {
+  tick: Tick;
+  troops: number;
+  gold: Gold;
+  attackingTroops: number;
+  units: Partial<Record<UnitType, number>>;
+}
+
 export class UnitView {
   public _wasUpdated = true;
   public lastPos: TileRef[] = [];
@@ -93,6 +110,9 @@ export class UnitView {
   health(): number {
     return this.data.health ?? 0;
   }
+  level(): number {
+    return this.data.level;
+  }
   constructionType(): UnitType | undefined {
     return this.data.constructionType;
   }
@@ -114,16 +134,40 @@ export class UnitView {
     return this.data.constructionProgress ?? 0;
   }
 
+  portQueue(): PortQueueEntry[] {
+    return this.data.portQueue ?? [];
+  }
+
   portQueueUnitType(): UnitType | undefined {
-    return this.data.portQueueUnitType;
+    return this.data.portQueue?.[0]?.unitType;
   }
 
   portQueueProgress(): number | undefined {
-    return this.data.portQueueProgress;
+    return this.data.portQueue?.[0]?.progress;
   }
 
   hasPortQueue(): boolean {
-    return this.data.portQueueUnitType !== undefined;
+    return this.portQueue().length > 0;
+  }
+
+  rallyPoint(): TileRef | undefined {
+    return this.data.rallyPoint;
+  }
+
+  sourcePortId(): number | undefined {
+    return this.data.sourcePortId;
+  }
+
+  destinationPortId(): number | undefined {
+    return this.data.destinationPortId;
+  }
+
+  escortPortId(): number | undefined {
+    return this.data.escortPortId;
+  }
+
+  escortDestinationId(): number | undefined {
+    return this.data.escortDestinationId;
   }
 }
 
@@ -260,6 +304,22 @@ export class PlayerView {
     return this.data.embargoes.has(other.id());
   }
 
+  tradeAgreements(): TradeAgreement[] {
+    return this.data.tradeAgreements;
+  }
+
+  outgoingTradeOffers(): TradeOffer[] {
+    return this.data.outgoingTradeOffers;
+  }
+
+  tradeIncome(partner: PlayerID): Gold {
+    return this.data.tradeIncome[partner] ?? 0;
+  }
+
+  tradeShipsLost(): number {
+    return this.data.tradeShipsLost;
+  }
+
   profile(): Promise<PlayerProfile> {
     return this.game.worker.playerProfile(this.smallID());
   }
@@ -309,6 +369,12 @@ export class GameView implements GameMap {
 
   private toDelete = new Set<number>();
 
+  // Null unless fog of war hides part of the map from this client.
+  private vision: VisionMap | null = null;
+  private _visionUpdated = false;
+  private revealed: TileRef[] = [];
+  private sightings = new Map<PlayerID, PlayerSighting>();
+
   constructor(
     public worker: WorkerClient,
     private _config: Config,
@@ -316,6 +382,7 @@ export class GameView implements GameMap {
     private _myClientID: ClientID,
     private _gameID: GameID,
     private _initialPlayerCount: number,
+    private _spawnZones: SpawnZone[] = [],
   ) {
     this.lastUpdate = null;
     this.unitGrid = new UnitGrid(_map);
@@ -331,6 +398,11 @@ export class GameView implements GameMap {
   public update(gu: GameUpdateViewData) {
     this.toDelete.forEach((id) => this._units.delete(id));
     this.toDelete.clear();
+    if (gu.fullSync) {
+      // The update lists every unit that still exists.
+      this._units.clear();
+      this.unitGrid = new UnitGrid(this._map);
+    }
 
     this.lastUpdate = gu;
 
@@ -377,6 +449,114 @@ export class GameView implements GameMap {
         this.toDelete.add(unit.id());
       }
     });
+    this.updateVision();
+  }
+
+  private updateVision() {
+    this._visionUpdated = false;
+    this.revealed = [];
+    const myPlayer = this.myPlayer();
+    if (
+      !this._config.fogOfWar() ||
+      this.inSpawnPhase() ||
+      myPlayer === null ||
+      !myPlayer.isAlive()
+    ) {
+      // Eliminated players spectate without fog.
+      const vision = this.vision;
+      if (vision !== null) {
+        this.forEachTile((tile) => {
+          if (!vision.isVisible(tile)) this.revealed.push(tile);
+        });
+        this.vision = null;
+        this._visionUpdated = true;
+      }
+      return;
+    }
+    if (this.vision !== null && this.ticks() % visionUpdateInterval !== 0) {
+      return;
+    }
+
+    this.vision ??= new VisionMap(this._map);
+    const viewers = visionSharers(myPlayer, this.playerViews());
+    this.vision.update(
+      this._config,
+      viewers,
+      this.units().filter((u) => viewers.has(u.owner().smallID())),
+    );
+    this.revealed = this.vision.revealedTiles();
+    this._visionUpdated = true;
+
+    for (const smallID of this.vision.visibleOwners()) {
+      const player = this.playerBySmallID(smallID);
+      if (player instanceof PlayerView) {
+        this.sightings.set(player.id(), this.sight(player));
+      }
+    }
+  }
+
+  private sight(player: PlayerView): PlayerSighting {
+    const units: Partial<Record<UnitType, number>> = {};
+    for (const unit of player.units()) {
+      units[unit.type()] = (units[unit.type()] ?? 0) + 1;
+    }
+    return {
+      tick: this.ticks(),
+      troops: player.troops(),
+      gold: player.gold(),
+      attackingTroops: player
+        .outgoingAttacks()
+        .reduce((sum, attack) => sum + attack.troops, 0),
+      units,
+    };
+  }
+
+  // Whether fog of war hides part of the map from this client.
+  fogOfWar(): boolean {
+    return this.vision !== null;
+  }
+
+  isVisible(tile: TileRef): boolean {
+    return this.vision?.isVisible(tile) ?? true;
+  }
+
+  // Whether the tile was ever in sight.
+  isExplored(tile: TileRef): boolean {
+    return this.vision?.isExplored(tile) ?? true;
+  }
+
+  // Owner of the tile when it was last in sight.
+  lastKnownOwner(tile: TileRef): PlayerView | TerraNullius {
+    if (this.vision === null) {
+      return this.owner(tile);
+    }
+    return this.playerBySmallID(this.vision.lastKnownOwnerID(tile));
+  }
+
+  // Whether the fog of war changed on the last tick.
+  visionUpdated(): boolean {
+    return this._visionUpdated;
+  }
+
+  // Tiles that came out of the fog on the last tick.
+  revealedTiles(): TileRef[] {
+    return this.revealed;
+  }
+
+  // Whether some territory of the player is in sight.
+  isPlayerVisible(player: PlayerView): boolean {
+    return (
+      this.vision === null || this.vision.visibleOwners().has(player.smallID())
+    );
+  }
+
+  // What this client knows of the player: live while in sight, the last
+  // sighting while in the fog of war and null if never seen.
+  playerSighting(player: PlayerView): PlayerSighting | null {
+    if (this.isPlayerVisible(player)) {
+      return this.sight(player);
+    }
+    return this.sightings.get(player.id()) ?? null;
   }
 
   recentlyUpdatedTiles(): TileRef[] {
@@ -465,6 +645,24 @@ export class GameView implements GameMap {
   inSpawnPhase(): boolean {
     return this.ticks() <= this._config.numSpawnPhaseTurns();
   }
+  spawnZones(): SpawnZone[] {
+    return this._spawnZones;
+  }
+  // Mirrors Game.inSpawnZone, so spawns the server would drop aren't sent.
+  inSpawnZone(tile: TileRef): boolean {
+    if (this._spawnZones.length === 0) {
+      return true;
+    }
+    const x = this.x(tile);
+    const y = this.y(tile);
+    return this._spawnZones.some(
+      (zone) =>
+        x >= zone.x &&
+        y >= zone.y &&
+        x < zone.x + zone.width &&
+        y < zone.y + zone.height,
+    );
+  }
   config(): Config {
     return this._config;
   }
@@ -0,0 +1,77 @@
+import { z } from "zod";
+
+/**
+ * A map package is a directory in resources/maps/packages named after the
+ * map id, holding the terrain as `terrain.png` and a `manifest.json`. The
+ * map build validates the manifest, generates the terrain files next to it
+ * and lists the package in resources/maps/packages/index.json, which is what
+ * makes the map id playable.
+ */
+
+export const MapPackageIdSchema = z.string().regex(/^[A-Za-z0-9_-]{1,40}$/);
+
+export const MapNationSchema = z.object({
+  coordinates: z.tuple([z.number().int().min(0), z.number().int().min(0)]),
+  name: z.string().min(1).max(40),
+  strength: z.number().positive().default(1),
+  flag: z.string().default(""),
+});
+
+export const SpawnZoneSchema = z.object({
+  x: z.number().int().min(0),
+  y: z.number().int().min(0),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+});
+
+export const MapManifestSchema = z.object({
+  id: MapPackageIdSchema,
+  name: z.string().min(1).max(60),
+  author: z.string().max(60).optional(),
+  description: z.string().max(500).optional(),
+  nations: z.array(MapNationSchema),
+  // Players and bots may only spawn inside these, anywhere if empty.
+  spawnZones: z.array(SpawnZoneSchema).default([]),
+});
+
+export type MapManifest = z.infer<typeof MapManifestSchema>;
+
+// A package as listed in the registry, once its terrain was generated.
+export interface MapPackageInfo {
+  id: string;
+  name: string;
+  author?: string;
+  description?: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Problems that keep a manifest from matching its terrain, e.g. a nation
+ * placed outside the map. Empty if the package is fine.
+ */
+export function manifestErrors(
+  manifest: MapManifest,
+  width: number,
+  height: number,
+): string[] {
+  const errors: string[] = [];
+  for (const nation of manifest.nations) {
+    const [x, y] = nation.coordinates;
+    if (x >= width || y >= height) {
+      errors.push(`nation ${nation.name} at ${x},${y} is outside the map`);
+    }
+  }
+  const names = manifest.nations.map((n) => n.name);
+  for (const name of new Set(names)) {
+    if (names.indexOf(name) !== names.lastIndexOf(name)) {
+      errors.push(`more than one nation is named ${name}`);
+    }
+  }
+  manifest.spawnZones.forEach((zone, i) => {
+    if (zone.x + zone.width > width || zone.y + zone.height > height) {
+      errors.push(`spawn zone ${i} does not fit in the map`);
+    }
+  });
+  return errors;
+}
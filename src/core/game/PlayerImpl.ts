@@ -35,9 +35,12 @@ import {
   Team,
   TerraNullius,
   Tick,
+  TradeAgreement,
+  TradeOffer,
   Unit,
   UnitParams,
   UnitType,
+  UpgradeableUnit,
 } from "./Game";
 import { GameImpl } from "./GameImpl";
 import { andFN, manhattanDistFN, TileRef } from "./GameMap";
@@ -53,7 +56,7 @@ interface Target {
   target: Player;
 }
 
-class Donation {
+export class Donation {
   constructor(
     public readonly recipient: Player,
     public readonly tick: Tick,
@@ -75,6 +78,14 @@ export class PlayerImpl implements Player {
 
   private embargoes = new Map<PlayerID, Embargo>();
 
+  // Both players of an agreement hold their side of it.
+  public _tradeAgreements = new Map<PlayerID, TradeAgreement>();
+  private tradeOffers = new Map<PlayerID, TradeOffer>();
+  // Gold earned by trade ships, by trading partner.
+  private tradeIncome = new Map<PlayerID, Gold>();
+  // Trade ships captured by warships.
+  private tradeShipsLost = 0;
+
   public _borderTiles: Set<TileRef> = new Set();
 
   public _units: Unit[] = [];
@@ -194,6 +205,10 @@ export class PlayerImpl implements Player {
           }) as AttackUpdate,
       ),
       outgoingAllianceRequests: outgoingAllianceRequests,
+      tradeAgreements: this.tradeAgreements(),
+      outgoingTradeOffers: this.outgoingTradeOffers(),
+      tradeIncome: Object.fromEntries(this.tradeIncome),
+      tradeShipsLost: this.tradeShipsLost,
       stats: this.mg.stats().getPlayerStats(this.id()),
       hasSpawned: this.hasSpawned(),
       ticksAliveFor: this.ticksAliveFor(),
@@ -637,6 +652,97 @@ export class PlayerImpl implements Player {
     this.stopEmbargo(other);
   }
 
+  tradeAgreements(): TradeAgreement[] {
+    return [...this._tradeAgreements.values()];
+  }
+
+  tradeAgreementWith(other: Player): TradeAgreement | null {
+    return this._tradeAgreements.get(other.id()) ?? null;
+  }
+
+  outgoingTradeOffers(): TradeOffer[] {
+    return [...this.tradeOffers.values()];
+  }
+
+  // Offers made to this player, with the share this player would get.
+  incomingTradeOffers(): TradeOffer[] {
+    return this.mg.players().flatMap((p) =>
+      p
+        .outgoingTradeOffers()
+        .filter((offer) => offer.partner === this.id())
+        .map((offer) => ({
+          ...offer,
+          partner: p.id(),
+          share: 100 - offer.share,
+        })),
+    );
+  }
+
+  offerTradeAgreement(partner: Player, share: number, duration: Tick): void {
+    const theirs = partner
+      .outgoingTradeOffers()
+      .find((offer) => offer.partner === this.id());
+    if (
+      theirs === undefined ||
+      theirs.share !== 100 - share ||
+      theirs.duration !== duration
+    ) {
+      this.tradeOffers.set(partner.id(), {
+        partner: partner.id(),
+        share,
+        duration,
+        createdAt: this.mg.ticks(),
+      });
+      this.mg.displayMessage(
+        `${this.displayName()} offers a trade agreement: ${100 - share}% of the trade gold for you, for ${Math.round(duration / 600)} min`,
+        MessageType.INFO,
+        partner.id(),
+      );
+      return;
+    }
+
+    partner.withdrawTradeOffer(this.id());
+    this.tradeOffers.delete(partner.id());
+    const expiresAt = this.mg.ticks() + duration;
+    this._tradeAgreements.set(partner.id(), {
+      partner: partner.id(),
+      share,
+      expiresAt,
+    });
+    (partner as PlayerImpl)._tradeAgreements.set(this.id(), {
+      partner: this.id(),
+      share: 100 - share,
+      expiresAt,
+    });
+    this.mg.displayMessage(
+      `Signed a trade agreement with ${partner.displayName()}`,
+      MessageType.SUCCESS,
+      this.id(),
+    );
+    this.mg.displayMessage(
+      `Signed a trade agreement with ${this.displayName()}`,
+      MessageType.SUCCESS,
+      partner.id(),
+    );
+  }
+
+  withdrawTradeOffer(partner: PlayerID): void {
+    this.tradeOffers.delete(partner);
+  }
+
+  endTradeAgreement(partner: Player): void {
+    this._tradeAgreements.delete(partner.id());
+    (partner as PlayerImpl)._tradeAgreements.delete(this.id());
+  }
+
+  recordTradeIncome(partner: PlayerID, gold: Gold): void {
+    this.tradeIncome.set(partner, (this.tradeIncome.get(partner) ?? 0) + gold);
+  }
+
+  recordTradeShipLost(): void {
+    this.tradeShipsLost++;
+  }
+
   tradingPartners(): Player[] {
     return this.mg
       .players()
@@ -731,9 +837,52 @@ export class PlayerImpl implements Player {
     if (unit.owner() === this) {
       throw new Error(`Cannot capture unit, ${this} already owns ${unit}`);
     }
+    this.mg.stats().unitCaptured(this.id(), unit.owner().id(), unit.type());
     unit.setOwner(this);
   }
 
+  // The closest structure of ours around `tile` that has upgrade levels.
+  upgradeableUnit(tile: TileRef): UpgradeableUnit | null {
+    const types = Object.values(UnitType).filter(
+      (type) => (this.mg.unitInfo(type).maxLevel ?? 1) > 1,
+    );
+    const unit = this.mg
+      .nearbyUnits(tile, 5, types)
+      .filter(({ unit }) => unit.owner() === this)
+      .sort((a, b) => a.distSquared - b.distSquared)[0]?.unit;
+    if (unit === undefined) {
+      return null;
+    }
+    return {
+      unitId: unit.id(),
+      type: unit.type(),
+      level: unit.level(),
+      cost: this.mg.config().upgradeCost(unit.type(), unit.level(), this),
+      canUpgrade: this.canUpgradeUnit(unit),
+    };
+  }
+
+  canUpgradeUnit(unit: Unit): boolean {
+    return (
+      this.isAlive() &&
+      unit.isActive() &&
+      unit.owner() === this &&
+      unit.level() < (unit.info().maxLevel ?? 1) &&
+      this.gold() >=
+        this.mg.config().upgradeCost(unit.type(), unit.level(), this)
+    );
+  }
+
+  upgradeUnit(unit: Unit): void {
+    if (!this.canUpgradeUnit(unit)) {
+      throw new Error(`${this} cannot upgrade ${unit}`);
+    }
+    this.removeGold(
+      this.mg.config().upgradeCost(unit.type(), unit.level(), this),
+    );
+    unit.upgrade();
+  }
+
   buildUnit<T extends UnitType>(
     type: T,
     spawnTile: TileRef,
@@ -759,6 +908,7 @@ export class PlayerImpl implements Player {
     this.removeTroops("troops" in params ? (params.troops ?? 0) : 0);
     this.mg.addUpdate(b.toUpdate());
     this.mg.addUnit(b);
+    this.mg.stats().unitBuilt(this.id(), type);
 
     return b;
   }
@@ -883,15 +1033,13 @@ export class PlayerImpl implements Player {
       return false;
     }
 
-    // Double-check the port is still available (prevent race conditions from rapid hotkey pressing)
-    if (selectedPort.hasPortQueue()) {
-      consolex.log(`Port at ${selectedPort.tile()} already has a queue, rejecting warship spawn`);
-      return false;
-    }
-
     return selectedPort.tile();
   }
 
+  private portHasRoom(port: Unit): boolean {
+    return port.portQueue().length < this.mg.config().portQueueSize();
+  }
+
   // Get next available port for warship construction using round-robin
   getNextAvailablePortForWarship(): Unit | null {
     const allPorts = this.units(UnitType.Port);
@@ -900,7 +1048,7 @@ export class PlayerImpl implements Player {
     }
 
     // Find next available port using round-robin selection
-    const availablePorts = allPorts.filter(port => !port.hasPortQueue());
+    const availablePorts = allPorts.filter(port => this.portHasRoom(port));
     if (availablePorts.length === 0) {
       return null; // All ports are busy
     }
@@ -922,8 +1070,8 @@ export class PlayerImpl implements Player {
       return null;
     }
 
-    // Find available ports (not currently building anything)
-    const availablePorts = allPorts.filter(port => !port.hasPortQueue());
+    // Find available ports (queue not full)
+    const availablePorts = allPorts.filter(port => this.portHasRoom(port));
     if (availablePorts.length === 0) {
       return null; // All ports are busy
     }
@@ -1162,6 +1310,16 @@ export class PlayerImpl implements Player {
       .flatMap((p) => p.units(UnitType.Port))
       .forEach((p) => ports.push(p));
 
+    // Ports of trade agreement partners are added again several times
+    const partnerPorts = this.mg
+      .players()
+      .filter((p) => p !== port.owner() && p.canTrade(port.owner()))
+      .filter((p) => port.owner().tradeAgreementWith(p) !== null)
+      .flatMap((p) => p.units(UnitType.Port));
+    for (let i = 0; i < this.mg.config().tradeAgreementPortBonus(); i++) {
+      ports.push(...partnerPorts);
+    }
+
     return ports;
   }
 }
@@ -0,0 +1,391 @@
+import { PseudoRandom } from "../PseudoRandom";
+import { Nation, NationMap } from "./TerrainMapLoader";
+
+/**
+ * Seeded generator for GameMapType.Procedural. Planets and asteroid fields
+ * become land, open space becomes water, and every planet gets nation spawn
+ * points. The terrain is packed exactly like the files written by the map
+ * build, so the same seed gives every client and the server the same map.
+ */
+
+export const PROCEDURAL_MAP_WIDTH = 1600;
+export const PROCEDURAL_MAP_HEIGHT = 1000;
+
+// Same bits as the map build's terrain files.
+const LAND_BIT = 0b10000000;
+const SHORELINE_BIT = 0b01000000;
+const OCEAN_BIT = 0b00100000;
+const MAX_MAGNITUDE = 30;
+
+const MIN_LAKE_SIZE = 200;
+const SPACE = -1;
+
+const NAME_STARTS = [
+  "Ar",
+  "Bel",
+  "Cor",
+  "Dra",
+  "Ely",
+  "Hel",
+  "Ix",
+  "Kal",
+  "Lyr",
+  "Mor",
+  "Nov",
+  "Or",
+  "Pyr",
+  "Ser",
+  "Tal",
+  "Vex",
+  "Zar",
+];
+const NAME_ENDS = ["ion", "ara", "oth", "is", "une", "ax", "ora", "en", "ium"];
+const NATION_TITLES = [
+  "Dominion",
+  "League",
+  "Clan",
+  "Union",
+  "Collective",
+  "Republic",
+  "Hegemony",
+  "Syndicate",
+];
+
+export interface ProceduralMap {
+  map: Uint8Array;
+  miniMap: Uint8Array;
+  nationMap: NationMap;
+}
+
+interface Body {
+  x: number;
+  y: number;
+  radius: number;
+  maxMagnitude: number;
+  // Wobble of the outline, as sine waves around the center.
+  harmonics: { amplitude: number; frequency: number; phase: number }[];
+}
+
+export function generateProceduralMap(
+  seed: number,
+  width: number = PROCEDURAL_MAP_WIDTH,
+  height: number = PROCEDURAL_MAP_HEIGHT,
+): ProceduralMap {
+  const random = new PseudoRandom(seed);
+  // Bodies are sized for a 1000 tile high map.
+  const scale = Math.min(width, height) / 1000;
+  const elevation = new Int8Array(width * height).fill(SPACE);
+
+  const planets = placePlanets(random, width, height, scale);
+  for (const planet of planets) {
+    paintBody(elevation, width, height, planet);
+  }
+  for (const rock of placeAsteroids(random, width, height, scale, planets)) {
+    paintBody(elevation, width, height, rock);
+  }
+  fillSmallLakes(elevation, width, height);
+
+  const map = packTerrain(elevation, width, height);
+  return {
+    map,
+    miniMap: packMiniMap(map, width, height),
+    nationMap: {
+      nations: placeNations(random, elevation, width, scale, planets),
+    },
+  };
+}
+
+function randomBody(
+  random: PseudoRandom,
+  x: number,
+  y: number,
+  radius: number,
+  maxMagnitude: number,
+  wobble: number,
+): Body {
+  const harmonics: Body["harmonics"] = [];
+  for (let i = 0; i < 3; i++) {
+    harmonics.push({
+      amplitude: random.nextFloat(0, wobble),
+      frequency: random.nextInt(2, 7),
+      phase: random.nextFloat(0, Math.PI * 2),
+    });
+  }
+  return { x, y, radius, maxMagnitude, harmonics };
+}
+
+function placePlanets(
+  random: PseudoRandom,
+  width: number,
+  height: number,
+  scale: number,
+): Body[] {
+  const planets: Body[] = [];
+  const count = random.nextInt(6, 11);
+  const gap = 30 * scale;
+  for (let attempt = 0; attempt < count * 50; attempt++) {
+    if (planets.length === count) break;
+    const radius = random.nextFloat(60, 140) * scale;
+    const margin = radius * 1.3 + 5;
+    if (width <= margin * 2 || height <= margin * 2) continue;
+    const x = random.nextFloat(margin, width - margin);
+    const y = random.nextFloat(margin, height - margin);
+    const overlaps = planets.some(
+      (p) => Math.hypot(p.x - x, p.y - y) < (p.radius + radius) * 1.3 + gap,
+    );
+    if (!overlaps) {
+      planets.push(randomBody(random, x, y, radius, MAX_MAGNITUDE, 0.1));
+    }
+  }
+  return planets;
+}
+
+// Elongated clusters of small rocks between the planets.
+function placeAsteroids(
+  random: PseudoRandom,
+  width: number,
+  height: number,
+  scale: number,
+  planets: Body[],
+): Body[] {
+  const rocks: Body[] = [];
+  const fields = random.nextInt(3, 7);
+  for (let f = 0; f < fields; f++) {
+    const cx = random.nextFloat(0, width);
+    const cy = random.nextFloat(0, height);
+    const length = random.nextFloat(150, 400) * scale;
+    const spread = random.nextFloat(30, 80) * scale;
+    const angle = random.nextFloat(0, Math.PI);
+    const count = random.nextInt(15, 40);
+    for (let i = 0; i < count; i++) {
+      const u = random.nextFloat(-0.5, 0.5) * length;
+      const v = (random.next() + random.next() - 1) * spread;
+      const x = cx + u * Math.cos(angle) - v * Math.sin(angle);
+      const y = cy + u * Math.sin(angle) + v * Math.cos(angle);
+      const radius = Math.max(3, random.nextFloat(3, 8) * scale);
+      const nearPlanet = planets.some(
+        (p) => Math.hypot(p.x - x, p.y - y) < p.radius * 1.3 + radius + 10,
+      );
+      if (nearPlanet || x < 0 || y < 0 || x >= width || y >= height) {
+        continue;
+      }
+      rocks.push(randomBody(random, x, y, radius, 12, 0.3));
+    }
+  }
+  return rocks;
+}
+
+// Plains along the coast rising to mountains at the center of the body.
+function paintBody(
+  elevation: Int8Array,
+  width: number,
+  height: number,
+  body: Body,
+) {
+  const reach = Math.ceil(body.radius * 1.3);
+  const minX = Math.max(0, Math.floor(body.x - reach));
+  const maxX = Math.min(width - 1, Math.ceil(body.x + reach));
+  const minY = Math.max(0, Math.floor(body.y - reach));
+  const maxY = Math.min(height - 1, Math.ceil(body.y + reach));
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      const dx = x - body.x;
+      const dy = y - body.y;
+      const dist = Math.hypot(dx, dy);
+      const theta = Math.atan2(dy, dx);
+      let edge = body.radius;
+      for (const h of body.harmonics) {
+        edge +=
+          body.radius * h.amplitude * Math.sin(h.frequency * theta + h.phase);
+      }
+      if (dist >= edge) continue;
+      const magnitude = Math.round(
+        body.maxMagnitude * Math.pow(1 - dist / edge, 1.5),
+      );
+      const i = y * width + x;
+      elevation[i] = Math.max(elevation[i], magnitude);
+    }
+  }
+}
+
+// Labels every connected body of space, -1 on land.
+function labelSpace(
+  elevation: Int8Array,
+  width: number,
+  height: number,
+): { labels: Int32Array; sizes: number[] } {
+  const labels = new Int32Array(width * height).fill(-1);
+  const sizes: number[] = [];
+  const stack = new Int32Array(width * height);
+  for (let start = 0; start < labels.length; start++) {
+    if (elevation[start] !== SPACE || labels[start] !== -1) continue;
+    const label = sizes.length;
+    let size = 0;
+    let top = 0;
+    stack[top++] = start;
+    labels[start] = label;
+    while (top > 0) {
+      const i = stack[--top];
+      size++;
+      for (const n of neighbors(i, width, height)) {
+        if (elevation[n] === SPACE && labels[n] === -1) {
+          labels[n] = label;
+          stack[top++] = n;
+        }
+      }
+    }
+    sizes.push(size);
+  }
+  return { labels, sizes };
+}
+
+// Pockets of space enclosed by a planet are filled, like the map build does.
+function fillSmallLakes(elevation: Int8Array, width: number, height: number) {
+  const { labels, sizes } = labelSpace(elevation, width, height);
+  for (let i = 0; i < elevation.length; i++) {
+    if (labels[i] !== -1 && sizes[labels[i]] < MIN_LAKE_SIZE) {
+      elevation[i] = 0;
+    }
+  }
+}
+
+function neighbors(i: number, width: number, height: number): number[] {
+  const x = i % width;
+  const ns: number[] = [];
+  if (x > 0) ns.push(i - 1);
+  if (x < width - 1) ns.push(i + 1);
+  if (i >= width) ns.push(i - width);
+  if (i < width * (height - 1)) ns.push(i + width);
+  return ns;
+}
+
+function packTerrain(
+  elevation: Int8Array,
+  width: number,
+  height: number,
+): Uint8Array {
+  const { labels, sizes } = labelSpace(elevation, width, height);
+  // The largest body of space is the ocean, like in the map build.
+  const ocean = sizes.reduce(
+    (best, size, i) => (size > sizes[best] ? i : best),
+    0,
+  );
+
+  // Distance from land for every tile of space, starting at the shoreline.
+  const distance = new Int32Array(width * height).fill(-1);
+  const queue = new Int32Array(width * height);
+  let head = 0;
+  let tail = 0;
+  const packed = new Uint8Array(4 + width * height);
+  packed[0] = width & 0xff;
+  packed[1] = (width >> 8) & 0xff;
+  packed[2] = height & 0xff;
+  packed[3] = (height >> 8) & 0xff;
+
+  for (let i = 0; i < elevation.length; i++) {
+    const land = elevation[i] !== SPACE;
+    const shoreline = neighbors(i, width, height).some(
+      (n) => (elevation[n] !== SPACE) !== land,
+    );
+    let byte = shoreline ? SHORELINE_BIT : 0;
+    if (land) {
+      byte |= LAND_BIT | Math.min(elevation[i], 31);
+    } else {
+      if (labels[i] === ocean) byte |= OCEAN_BIT;
+      if (shoreline) {
+        distance[i] = 0;
+        queue[tail++] = i;
+      }
+    }
+    packed[4 + i] = byte;
+  }
+
+  while (head < tail) {
+    const i = queue[head++];
+    for (const n of neighbors(i, width, height)) {
+      if (elevation[n] === SPACE && distance[n] === -1) {
+        distance[n] = distance[i] + 1;
+        packed[4 + n] |= Math.min(Math.ceil(distance[n] / 2), 31);
+        queue[tail++] = n;
+      }
+    }
+  }
+  return packed;
+}
+
+// Halves the map, a mini tile is space if any of its four tiles is.
+function packMiniMap(map: Uint8Array, width: number, height: number) {
+  const miniWidth = Math.floor(width / 2);
+  const miniHeight = Math.floor(height / 2);
+  const mini = new Uint8Array(4 + miniWidth * miniHeight);
+  mini[0] = miniWidth & 0xff;
+  mini[1] = (miniWidth >> 8) & 0xff;
+  mini[2] = miniHeight & 0xff;
+  mini[3] = (miniHeight >> 8) & 0xff;
+  for (let y = 0; y < miniHeight; y++) {
+    for (let x = 0; x < miniWidth; x++) {
+      let byte = 0;
+      for (const [dx, dy] of [
+        [0, 0],
+        [0, 1],
+        [1, 0],
+        [1, 1],
+      ]) {
+        byte = map[4 + (y * 2 + dy) * width + x * 2 + dx];
+        if ((byte & LAND_BIT) === 0) break;
+      }
+      mini[4 + y * miniWidth + x] = byte;
+    }
+  }
+  return mini;
+}
+
+function placeNations(
+  random: PseudoRandom,
+  elevation: Int8Array,
+  width: number,
+  scale: number,
+  planets: Body[],
+): Nation[] {
+  const nations: Nation[] = [];
+  const names = new Set<string>();
+  for (const planet of planets) {
+    // Large planets are shared by two nations.
+    const count = planet.radius > 100 * scale ? 2 : 1;
+    const side = random.nextFloat(0, Math.PI * 2);
+    for (let n = 0; n < count; n++) {
+      let x = Math.round(planet.x);
+      let y = Math.round(planet.y);
+      for (let attempt = 0; attempt < 20; attempt++) {
+        // Nations sharing a planet start on opposite sides.
+        const angle =
+          side + (n * Math.PI * 2) / count + random.nextFloat(-0.5, 0.5);
+        const dist = random.nextFloat(0.3, 0.6) * planet.radius;
+        const tx = Math.round(planet.x + Math.cos(angle) * dist);
+        const ty = Math.round(planet.y + Math.sin(angle) * dist);
+        if (elevation[ty * width + tx] !== SPACE) {
+          x = tx;
+          y = ty;
+          break;
+        }
+      }
+      let name = nationName(random);
+      while (names.has(name)) {
+        name = nationName(random);
+      }
+      names.add(name);
+      nations.push({
+        coordinates: [x, y],
+        flag: "",
+        name,
+        strength: random.nextInt(1, 4),
+      });
+    }
+  }
+  return nations;
+}
+
+function nationName(random: PseudoRandom): string {
+  const world = random.randElement(NAME_STARTS) + random.randElement(NAME_ENDS);
+  return `${world} ${random.randElement(NATION_TITLES)}`;
+}
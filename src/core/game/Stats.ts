@@ -1,5 +1,5 @@
 import { AllPlayersStats, PlayerStats } from "../Schemas";
-import { NukeType, PlayerID } from "./Game";
+import { NukeType, PlayerID, UnitType } from "./Game";
 
 export interface Stats {
   increaseNukeCount(
@@ -7,6 +7,27 @@ export interface Stats {
     target: PlayerID | null,
     type: NukeType,
   ): void;
+  tileConquered(conqueror: PlayerID, previousOwner: PlayerID): void;
+  troopsSent(player: PlayerID, troops: number): void;
+  troopsKilled(player: PlayerID, troops: number): void;
+  tradeGold(player: PlayerID, gold: number): void;
+  unitBuilt(player: PlayerID, type: UnitType): void;
+  // destroyer is null if the unit was not destroyed by another player.
+  unitDestroyed(
+    destroyer: PlayerID | null,
+    owner: PlayerID,
+    type: UnitType,
+  ): void;
+  unitCaptured(
+    capturer: PlayerID,
+    previousOwner: PlayerID,
+    type: UnitType,
+  ): void;
+  condorInterception(player: PlayerID): void;
+  orbitalCannonHit(player: PlayerID): void;
+  allianceFormed(player: PlayerID): void;
+  allianceBetrayed(traitor: PlayerID): void;
+  boatLanded(player: PlayerID): void;
   getPlayerStats(player: PlayerID): PlayerStats;
   stats(): AllPlayersStats;
 }
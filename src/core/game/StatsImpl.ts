@@ -2,13 +2,19 @@ import { AllPlayersStats, PlayerStats } from "../Schemas";
 import { NukeType, PlayerID, UnitType } from "./Game";
 import { Stats } from "./Stats";
 
+// Projectiles and placeholders, not worth counting as built units.
+const untrackedUnits = new Set<UnitType>([
+  UnitType.Shell,
+  UnitType.SAMMissile,
+  UnitType.MIRVWarhead,
+  UnitType.Construction,
+]);
+
 export class StatsImpl implements Stats {
   data: AllPlayersStats = {};
 
   _createUserData(sender: PlayerID, target: PlayerID): void {
-    if (!this.data[sender]) {
-      this.data[sender] = { sentNukes: {} };
-    }
+    this._playerData(sender);
     if (!this.data[sender].sentNukes[target]) {
       this.data[sender].sentNukes[target] = {
         [UnitType.MIRV]: 0,
@@ -19,13 +25,104 @@ export class StatsImpl implements Stats {
     }
   }
 
+  _playerData(player: PlayerID): PlayerStats {
+    if (!this.data[player]) {
+      this.data[player] = {
+        sentNukes: {},
+        tilesConquered: {},
+        tilesLost: {},
+        troopsSent: 0,
+        troopsKilled: 0,
+        tradeGold: 0,
+        unitsBuilt: {},
+        unitsDestroyed: {},
+        unitsLost: {},
+        unitsCaptured: {},
+        condorInterceptions: 0,
+        orbitalCannonHits: 0,
+        alliancesFormed: 0,
+        alliancesBetrayed: 0,
+        boatsLanded: 0,
+      };
+    }
+    return this.data[player];
+  }
+
   increaseNukeCount(sender: PlayerID, target: PlayerID, type: NukeType): void {
     this._createUserData(sender, target);
     this.data[sender].sentNukes[target][type]++;
   }
 
+  tileConquered(conqueror: PlayerID, previousOwner: PlayerID): void {
+    const conquered = this._playerData(conqueror).tilesConquered;
+    conquered[previousOwner] = (conquered[previousOwner] ?? 0) + 1;
+    const lost = this._playerData(previousOwner).tilesLost;
+    lost[conqueror] = (lost[conqueror] ?? 0) + 1;
+  }
+
+  troopsSent(player: PlayerID, troops: number): void {
+    this._playerData(player).troopsSent += troops;
+  }
+
+  troopsKilled(player: PlayerID, troops: number): void {
+    this._playerData(player).troopsKilled += troops;
+  }
+
+  tradeGold(player: PlayerID, gold: number): void {
+    this._playerData(player).tradeGold += gold;
+  }
+
+  unitBuilt(player: PlayerID, type: UnitType): void {
+    if (untrackedUnits.has(type)) return;
+    const built = this._playerData(player).unitsBuilt;
+    built[type] = (built[type] ?? 0) + 1;
+  }
+
+  unitDestroyed(
+    destroyer: PlayerID | null,
+    owner: PlayerID,
+    type: UnitType,
+  ): void {
+    const lost = this._playerData(owner).unitsLost;
+    lost[type] = (lost[type] ?? 0) + 1;
+    if (destroyer === null || destroyer === owner) return;
+    const destroyed = this._playerData(destroyer).unitsDestroyed;
+    destroyed[type] = (destroyed[type] ?? 0) + 1;
+  }
+
+  unitCaptured(
+    capturer: PlayerID,
+    previousOwner: PlayerID,
+    type: UnitType,
+  ): void {
+    const captured = this._playerData(capturer).unitsCaptured;
+    captured[type] = (captured[type] ?? 0) + 1;
+    const lost = this._playerData(previousOwner).unitsLost;
+    lost[type] = (lost[type] ?? 0) + 1;
+  }
+
+  condorInterception(player: PlayerID): void {
+    this._playerData(player).condorInterceptions++;
+  }
+
+  orbitalCannonHit(player: PlayerID): void {
+    this._playerData(player).orbitalCannonHits++;
+  }
+
+  allianceFormed(player: PlayerID): void {
+    this._playerData(player).alliancesFormed++;
+  }
+
+  allianceBetrayed(traitor: PlayerID): void {
+    this._playerData(traitor).alliancesBetrayed++;
+  }
+
+  boatLanded(player: PlayerID): void {
+    this._playerData(player).boatsLanded++;
+  }
+
   getPlayerStats(player: PlayerID): PlayerStats {
-    return this.data[player];
+    return this._playerData(player);
   }
 
   stats() {
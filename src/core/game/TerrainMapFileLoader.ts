@@ -1,4 +1,5 @@
-import { GameMapType } from "./Game";
+import { GameMapID, GameMapType } from "./Game";
+import { MapPackageInfo } from "./MapPackage";
 import { NationMap } from "./TerrainMapLoader";
 
 interface MapData {
@@ -21,24 +22,55 @@ interface NationMapModule {
   default: NationMap;
 }
 
-// Mapping from GameMap enum values to file names
-const MAP_FILE_NAMES: Record<GameMapType, string> = {
+interface MapPackagesModule {
+  default: MapPackageInfo[];
+}
+
+interface ThumbnailModule {
+  default: string;
+}
+
+// Mapping from GameMap enum values to file names, procedural maps have none.
+export const MAP_FILE_NAMES: Record<
+  Exclude<GameMapType, GameMapType.Procedural>,
+  string
+> = {
   [GameMapType.Space1]: "Space1",
   [GameMapType.Space2]: "Space2",
   [GameMapType.FacingWorlds]: "FacingWorlds",
   [GameMapType.Testmap]: "TestMap",
 };
 
+export function isBuiltInMap(map: GameMapID): map is GameMapType {
+  return Object.values<string>(GameMapType).includes(map);
+}
+
+/**
+ * Generated files of a map, relative to resources/maps and without the
+ * extension: `<base>.bin`, `<base>Mini.bin`, `<base>.json` and
+ * `<base>Thumb.webp`.
+ */
+export function mapFileBase(map: GameMapID): string {
+  if (!isBuiltInMap(map)) {
+    return `packages/${map}/map`;
+  }
+  if (map === GameMapType.Procedural) {
+    throw new Error("procedural maps are generated, not loaded from files");
+  }
+  return MAP_FILE_NAMES[map];
+}
+
 class GameMapLoader {
-  private maps: Map<GameMapType, MapCache>;
-  private loadingPromises: Map<GameMapType, Promise<MapData>>;
+  private maps: Map<GameMapID, MapCache>;
+  private loadingPromises: Map<GameMapID, Promise<MapData>>;
+  private packages: Promise<MapPackageInfo[]> | null = null;
 
   constructor() {
-    this.maps = new Map<GameMapType, MapCache>();
-    this.loadingPromises = new Map<GameMapType, Promise<MapData>>();
+    this.maps = new Map<GameMapID, MapCache>();
+    this.loadingPromises = new Map<GameMapID, Promise<MapData>>();
   }
 
-  public async getMapData(map: GameMapType): Promise<MapData> {
+  public async getMapData(map: GameMapID): Promise<MapData> {
     const cachedMap = this.maps.get(map);
     if (cachedMap?.bin && cachedMap?.nationMap) {
       return cachedMap as MapData;
@@ -53,11 +85,33 @@ class GameMapLoader {
     return data;
   }
 
-  private async loadMapData(map: GameMapType): Promise<MapData> {
-    const fileName = MAP_FILE_NAMES[map];
-    if (!fileName) {
-      throw new Error(`No file name mapping found for map: ${map}`);
+  // Map packages registered by the last map build.
+  public mapPackages(): Promise<MapPackageInfo[]> {
+    if (this.packages === null) {
+      this.packages = (
+        import(
+          "../../../resources/maps/packages/index.json"
+        ) as Promise<MapPackagesModule>
+      ).then((module) => module.default);
+    }
+    return this.packages;
+  }
+
+  public async thumbnail(map: GameMapID): Promise<string> {
+    const module = (await import(
+      `../../../resources/maps/${mapFileBase(map)}Thumb.webp`
+    )) as ThumbnailModule;
+    return module.default;
+  }
+
+  private async loadMapData(map: GameMapID): Promise<MapData> {
+    if (
+      !isBuiltInMap(map) &&
+      !(await this.mapPackages()).some((p) => p.id === map)
+    ) {
+      throw new Error(`Unknown map: ${map}`);
     }
+    const fileName = mapFileBase(map);
 
     const [binModule, miniBinModule, infoModule] = await Promise.all([
       import(
@@ -78,12 +132,12 @@ class GameMapLoader {
     };
   }
 
-  public isMapLoaded(map: GameMapType): boolean {
+  public isMapLoaded(map: GameMapID): boolean {
     const mapData = this.maps.get(map);
     return !!mapData?.bin && !!mapData?.nationMap;
   }
 
-  public getLoadedMaps(): GameMapType[] {
+  public getLoadedMaps(): GameMapID[] {
     return Array.from(this.maps.keys()).filter((map) => this.isMapLoaded(map));
   }
 }
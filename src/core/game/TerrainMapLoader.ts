@@ -1,6 +1,7 @@
 import { consolex } from "../Consolex";
-import { GameMapType } from "./Game";
+import { GameMapID, GameMapType, SpawnZone } from "./Game";
 import { GameMap, GameMapImpl } from "./GameMap";
+import { generateProceduralMap } from "./ProceduralMapGenerator";
 import { terrainMapFileLoader } from "./TerrainMapFileLoader";
 
 export type TerrainMapData = {
@@ -9,10 +10,13 @@ export type TerrainMapData = {
   miniGameMap: GameMap;
 };
 
-const loadedMaps = new Map<GameMapType, TerrainMapData>();
+// Procedural maps are cached per seed.
+const loadedMaps = new Map<string, TerrainMapData>();
 
 export interface NationMap {
   nations: Nation[];
+  // Only set by map packages.
+  spawnZones?: SpawnZone[];
 }
 
 export interface Nation {
@@ -23,10 +27,17 @@ export interface Nation {
 }
 
 export async function loadTerrainMap(
-  map: GameMapType,
+  map: GameMapID,
+  mapSeed: number = 0,
 ): Promise<TerrainMapData> {
-  const cached = loadedMaps.get(map);
+  const key = map === GameMapType.Procedural ? `${map}:${mapSeed}` : map;
+  const cached = loadedMaps.get(key);
   if (cached !== undefined) return cached;
+  if (map === GameMapType.Procedural) {
+    const result = await genProceduralTerrain(mapSeed);
+    loadedMaps.set(key, result);
+    return result;
+  }
   const mapFiles = await terrainMapFileLoader.getMapData(map);
 
   const gameMap = await genTerrainFromBin(mapFiles.mapBin);
@@ -36,7 +47,27 @@ export async function loadTerrainMap(
     gameMap: gameMap,
     miniGameMap: miniGameMap,
   };
-  loadedMaps.set(map, result);
+  loadedMaps.set(key, result);
+  return result;
+}
+
+export async function genProceduralTerrain(
+  mapSeed: number,
+): Promise<TerrainMapData> {
+  const { map, miniMap, nationMap } = generateProceduralMap(mapSeed);
+  return {
+    nationMap,
+    gameMap: await genTerrainFromBin(binToString(map)),
+    miniGameMap: await genTerrainFromBin(binToString(miniMap)),
+  };
+}
+
+// One char per byte, like the terrain files from binary-loader.
+function binToString(bin: Uint8Array): string {
+  let result = "";
+  for (let i = 0; i < bin.length; i += 0x8000) {
+    result += String.fromCharCode(...bin.subarray(i, i + 0x8000));
+  }
   return result;
 }
 
@@ -1,11 +1,15 @@
 import { simpleHash, toInt, withinInt } from "../Util";
 import {
   AllUnitParams,
+  EscortOrder,
+  Gold,
   MessageType,
+  PortQueueEntry,
   Tick,
   Unit,
   UnitInfo,
   UnitType,
+  WarshipOrder,
 } from "./Game";
 import { GameImpl } from "./GameImpl";
 import { TileRef } from "./GameMap";
@@ -24,11 +28,20 @@ export class UnitImpl implements Unit {
   private _constructionProgress: number = 0; // 0-1 progress for construction units
   private _lastOwner: PlayerImpl | null = null;
   private _troops: number;
+  private _level = 1;
+  private _lastDamaged: Tick | null = null;
   private _cooldownStartTick: Tick | null = null;
   private _pathCache: Map<TileRef, TileRef> = new Map();
 
-  private _portQueueUnitType: UnitType | null = null;
-  private _portQueueProgress: number = 0;
+  private _warshipOrder = WarshipOrder.Move;
+  private _patrolRoute: TileRef[] = [];
+  private _escortOrder: EscortOrder | null = null;
+  private _sourcePort: Unit | undefined; // Only for trade ships
+  private _destinationPort: Unit | undefined; // Only for trade ships
+
+  private _portQueue: PortQueueEntry[] = [];
+  private _nextQueueEntryId = 0;
+  private _rallyPoint: TileRef | null = null;
 
   constructor(
     private _type: UnitType,
@@ -46,6 +59,8 @@ export class UnitImpl implements Unit {
       "lastSetSafeFromPirates" in params
         ? (params.lastSetSafeFromPirates ?? 0)
         : 0;
+    this._sourcePort = "srcPort" in params ? params.srcPort : undefined;
+    this._destinationPort = "dstPort" in params ? params.dstPort : undefined;
   }
   touch(): void {
     this.mg.addUpdate(this.toUpdate());
@@ -85,8 +100,13 @@ export class UnitImpl implements Unit {
       targetTile: this.targetTile() ?? undefined,
       ticksLeftInCooldown: this.ticksLeftInCooldown() ?? undefined,
       constructionProgress: this._type === UnitType.Construction ? this._constructionProgress : undefined,
-      portQueueUnitType: this._portQueueUnitType ?? undefined,
-      portQueueProgress: this._portQueueUnitType !== null ? this._portQueueProgress : undefined,
+      portQueue: this._portQueue.length > 0 ? this._portQueue.map((e) => ({ ...e })) : undefined,
+      rallyPoint: this._rallyPoint ?? undefined,
+      sourcePortId: this._sourcePort?.id(),
+      destinationPortId: this._destinationPort?.id(),
+      escortPortId: this._escortOrder?.port.id(),
+      escortDestinationId: this._escortOrder?.destination?.id(),
+      level: this._level,
     };
   }
 
@@ -122,6 +142,17 @@ export class UnitImpl implements Unit {
   health(): number {
     return Number(this._health);
   }
+  level(): number {
+    return this._level;
+  }
+  upgrade(): void {
+    const maxLevel = this.info().maxLevel ?? 1;
+    if (this._level >= maxLevel) {
+      throw new Error(`${this} is already at max level ${maxLevel}`);
+    }
+    this._level++;
+    this.touch();
+  }
   hasHealth(): boolean {
     return this.info().maxHealth !== undefined;
   }
@@ -155,6 +186,9 @@ export class UnitImpl implements Unit {
   }
 
   modifyHealth(delta: number): void {
+    if (delta < 0) {
+      this._lastDamaged = this.mg.ticks();
+    }
     this._health = withinInt(
       this._health + toInt(delta),
       0n,
@@ -163,6 +197,10 @@ export class UnitImpl implements Unit {
     this.touch();
   }
 
+  lastDamaged(): Tick | null {
+    return this._lastDamaged;
+  }
+
   delete(displayMessage: boolean = true): void {
     if (!this.isActive()) {
       throw new Error(`cannot delete ${this} not active`);
@@ -214,7 +252,10 @@ export class UnitImpl implements Unit {
   ticksLeftInCooldown(): Tick | undefined {
     let cooldownDuration = 0;
     if (this.type() === UnitType.SAMLauncher) {
-      cooldownDuration = this.mg.config().SAMCooldown();
+      cooldownDuration = Math.round(
+        this.mg.config().SAMCooldown() /
+          this.mg.config().upgradeBonus(this._type, this._level),
+      );
     } else if (this.type() === UnitType.MissileSilo) {
       cooldownDuration = this.mg.config().SiloCooldown();
     } else {
@@ -268,29 +309,92 @@ export class UnitImpl implements Unit {
     );
   }
 
-  setPortQueue(unitType: UnitType, progress: number): void {
-    this._portQueueUnitType = unitType;
-    this._portQueueProgress = progress;
+  warshipOrder(): WarshipOrder {
+    return this._warshipOrder;
+  }
+
+  patrolRoute(): TileRef[] {
+    return this._patrolRoute;
+  }
+
+  setWarshipOrder(order: WarshipOrder, patrolRoute: TileRef[] = []): void {
+    this._warshipOrder = order;
+    this._patrolRoute = patrolRoute;
+    this._escortOrder = null;
+  }
+
+  escortOrder(): EscortOrder | null {
+    return this._escortOrder;
+  }
+
+  setEscortOrder(escort: EscortOrder): void {
+    this.setWarshipOrder(WarshipOrder.Escort);
+    this._escortOrder = escort;
+  }
+
+  sourcePort(): Unit | undefined {
+    return this._sourcePort;
+  }
+
+  destinationPort(): Unit | undefined {
+    return this._destinationPort;
+  }
+
+  portQueue(): PortQueueEntry[] {
+    return this._portQueue;
+  }
+
+  enqueueShip(unitType: UnitType, cost: Gold): PortQueueEntry {
+    const entry = {
+      id: this._nextQueueEntryId++,
+      unitType,
+      cost,
+      progress: 0,
+    };
+    this._portQueue.push(entry);
     this.touch();
+    return entry;
   }
 
-  getPortQueue(): { unitType: UnitType; progress: number } | null {
-    if (this._portQueueUnitType === null) {
+  removeQueuedShip(entryId: number): PortQueueEntry | null {
+    const index = this._portQueue.findIndex((e) => e.id === entryId);
+    if (index === -1) {
       return null;
     }
-    return {
-      unitType: this._portQueueUnitType,
-      progress: this._portQueueProgress
-    };
+    const [entry] = this._portQueue.splice(index, 1);
+    this.touch();
+    return entry;
+  }
+
+  moveQueuedShip(entryId: number, index: number): boolean {
+    const from = this._portQueue.findIndex((e) => e.id === entryId);
+    if (from === -1 || index < 0 || index >= this._portQueue.length) {
+      return false;
+    }
+    const [entry] = this._portQueue.splice(from, 1);
+    this._portQueue.splice(index, 0, entry);
+    this.touch();
+    return true;
+  }
+
+  setPortQueueProgress(progress: number): void {
+    if (this._portQueue.length === 0) {
+      return;
+    }
+    this._portQueue[0].progress = progress;
+    this.touch();
+  }
+
+  rallyPoint(): TileRef | null {
+    return this._rallyPoint;
   }
 
-  clearPortQueue(): void {
-    this._portQueueUnitType = null;
-    this._portQueueProgress = 0;
+  setRallyPoint(tile: TileRef | null): void {
+    this._rallyPoint = tile;
     this.touch();
   }
 
   hasPortQueue(): boolean {
-    return this._portQueueUnitType !== null;
+    return this._portQueue.length > 0;
   }
 }
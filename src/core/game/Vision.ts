@@ -0,0 +1,173 @@
+import { Config } from "../configuration/Config";
+import { UnitType } from "./Game";
+import { GameMap, TileRef } from "./GameMap";
+
+// Anything that sees around its tile, a Unit or a UnitView.
+export interface VisionSource {
+  tile(): TileRef;
+  type(): UnitType;
+}
+
+/**
+ * Small ids of the players whose territory and units `player` sees
+ * through: itself, its allies and its teammates.
+ */
+export function visionSharers<
+  P extends { smallID(): number; isFriendly(other: P): boolean },
+>(player: P, players: P[]): Set<number> {
+  return new Set(
+    players
+      .filter((p) => p === player || player.isFriendly(p))
+      .map((p) => p.smallID()),
+  );
+}
+
+/**
+ * Whether territory owned by `viewers` is within `range` of `tile`, by
+ * manhattan distance. Matches the territory part of visibleTiles().
+ */
+export function nearTerritory(
+  map: GameMap,
+  viewers: Set<number>,
+  tile: TileRef,
+  range: number,
+): boolean {
+  const x0 = map.x(tile);
+  const y0 = map.y(tile);
+  for (let y = Math.max(0, y0 - range); y <= y0 + range; y++) {
+    if (y >= map.height()) break;
+    const span = range - Math.abs(y - y0);
+    const maxX = Math.min(map.width() - 1, x0 + span);
+    for (let x = Math.max(0, x0 - span); x <= maxX; x++) {
+      if (viewers.has(map.ownerID(map.ref(x, y)))) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Tiles `viewers` can see, one byte per tile and 1 for visible. The
+ * simulation answers the same question one tile at a time in
+ * Game.isVisibleTo(), both must agree or AI players see what their
+ * opponents cannot.
+ */
+export function visibleTiles(
+  map: GameMap,
+  config: Config,
+  viewers: Set<number>,
+  sources: VisionSource[],
+): Uint8Array {
+  const width = map.width();
+  const height = map.height();
+  const range = config.territorySightRange();
+
+  // Manhattan distance to the closest viewer tile, capped past the range.
+  const dist = new Uint16Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      dist[i] = viewers.has(map.ownerID(map.ref(x, y))) ? 0 : range + 1;
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (x > 0) dist[i] = Math.min(dist[i], dist[i - 1] + 1);
+      if (y > 0) dist[i] = Math.min(dist[i], dist[i - width] + 1);
+    }
+  }
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const i = y * width + x;
+      if (x < width - 1) dist[i] = Math.min(dist[i], dist[i + 1] + 1);
+      if (y < height - 1) dist[i] = Math.min(dist[i], dist[i + width] + 1);
+    }
+  }
+
+  const visible = new Uint8Array(width * height);
+  for (let i = 0; i < visible.length; i++) {
+    visible[i] = dist[i] <= range ? 1 : 0;
+  }
+
+  for (const source of sources) {
+    const r = config.unitSightRange(source.type());
+    if (r <= 0) continue;
+    const x0 = map.x(source.tile());
+    const y0 = map.y(source.tile());
+    for (let y = Math.max(0, y0 - r); y <= Math.min(height - 1, y0 + r); y++) {
+      for (let x = Math.max(0, x0 - r); x <= Math.min(width - 1, x0 + r); x++) {
+        const dx = x - x0;
+        const dy = y - y0;
+        if (dx * dx + dy * dy <= r * r) {
+          visible[y * width + x] = 1;
+        }
+      }
+    }
+  }
+  return visible;
+}
+
+/**
+ * What a client has seen of the map: the tiles in sight now, the ones
+ * seen before and who owned them back then.
+ */
+export class VisionMap {
+  private visible: Uint8Array;
+  private explored: Uint8Array;
+  private lastOwner: Uint16Array;
+  private revealed: TileRef[] = [];
+  private seenOwners = new Set<number>();
+
+  constructor(private map: GameMap) {
+    const size = map.width() * map.height();
+    this.visible = new Uint8Array(size);
+    this.explored = new Uint8Array(size);
+    this.lastOwner = new Uint16Array(size);
+  }
+
+  update(config: Config, viewers: Set<number>, sources: VisionSource[]) {
+    const next = visibleTiles(this.map, config, viewers, sources);
+    this.revealed = [];
+    this.seenOwners.clear();
+    this.map.forEachTile((tile) => {
+      const i = this.map.y(tile) * this.map.width() + this.map.x(tile);
+      if (next[i] === 0) return;
+      if (this.visible[i] === 0) {
+        this.revealed.push(tile);
+      }
+      this.explored[i] = 1;
+      this.lastOwner[i] = this.map.ownerID(tile);
+      this.seenOwners.add(this.lastOwner[i]);
+    });
+    this.visible = next;
+  }
+
+  isVisible(tile: TileRef): boolean {
+    return this.visible[this.index(tile)] === 1;
+  }
+
+  isExplored(tile: TileRef): boolean {
+    return this.explored[this.index(tile)] === 1;
+  }
+
+  // Owner small id when the tile was last in sight, 0 if never seen.
+  lastKnownOwnerID(tile: TileRef): number {
+    return this.lastOwner[this.index(tile)];
+  }
+
+  // Tiles that came into sight on the last update.
+  revealedTiles(): TileRef[] {
+    return this.revealed;
+  }
+
+  // Small ids owning at least one tile in sight.
+  visibleOwners(): ReadonlySet<number> {
+    return this.seenOwners;
+  }
+
+  private index(tile: TileRef): number {
+    return this.map.y(tile) * this.map.width() + this.map.x(tile);
+  }
+}
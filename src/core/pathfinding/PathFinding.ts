@@ -95,14 +95,16 @@ export class PathFinder {
 
   private constructor(
     private game: Game,
-    private newAStar: (curr: TileRef, dst: TileRef) => AStar,
+    // Takes the game as a parameter rather than capturing it, so pathfinders
+    // still work on deep copies of the game.
+    private newAStar: (game: Game, curr: TileRef, dst: TileRef) => AStar,
   ) {}
 
   public static Mini(game: Game, iterations: number, maxTries: number = 20) {
-    return new PathFinder(game, (curr: TileRef, dst: TileRef) => {
+    return new PathFinder(game, (mg: Game, curr: TileRef, dst: TileRef) => {
       return new MiniAStar(
-        game.map(),
-        game.miniMap(),
+        mg.map(),
+        mg.miniMap(),
         curr,
         dst,
         iterations,
@@ -134,7 +136,7 @@ export class PathFinder {
         this.curr = curr;
         this.dst = dst;
         this.path = null;
-        this.aStar = this.newAStar(curr, dst);
+        this.aStar = this.newAStar(this.game, curr, dst);
         this.computeFinished = false;
         return this.nextTile(curr, dst);
       } else {
@@ -3,6 +3,9 @@ import { consolex } from "../Consolex";
 import { GameMap, TileRef } from "../game/GameMap";
 import { AStar, PathFindResultType } from "./AStar";
 
+export const byFScore = (a: { fScore: number }, b: { fScore: number }) =>
+  a.fScore - b.fScore;
+
 export class SerialAStar implements AStar {
   private fwdOpenSet: PriorityQueue<{
     tile: TileRef;
@@ -33,12 +36,12 @@ export class SerialAStar implements AStar {
     this.fwdOpenSet = new PriorityQueue<{
       tile: TileRef;
       fScore: number;
-    }>((a, b) => a.fScore - b.fScore);
+    }>(byFScore);
 
     this.bwdOpenSet = new PriorityQueue<{
       tile: TileRef;
       fScore: number;
-    }>((a, b) => a.fScore - b.fScore);
+    }>(byFScore);
 
     this.fwdCameFrom = new Map<TileRef, TileRef>();
     this.bwdCameFrom = new Map<TileRef, TileRef>();
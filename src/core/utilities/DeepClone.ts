@@ -0,0 +1,67 @@
+// Objects that are never mutated after creation (terrain, lookup tables,
+// config) and can be referenced by every copy instead of being cloned.
+const sharedObjects = new WeakSet<object>();
+
+export function shareInClones<T extends object>(obj: T): T {
+  sharedObjects.add(obj);
+  return obj;
+}
+
+/**
+ * Copies an object graph, keeping prototypes, cycles and shared references
+ * intact so class instances keep working on the copy. Functions are not
+ * copied, so closures must not capture state that is cloned.
+ */
+export function deepClone<T>(value: T): T {
+  return cloneValue(value, new Map()) as T;
+}
+
+function cloneValue(value: unknown, seen: Map<object, unknown>): unknown {
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  if (sharedObjects.has(value)) {
+    return value;
+  }
+  const existing = seen.get(value);
+  if (existing !== undefined) {
+    return existing;
+  }
+
+  if (ArrayBuffer.isView(value)) {
+    const copy = (value as unknown as Uint8Array).slice();
+    seen.set(value, copy);
+    return copy;
+  }
+  if (Array.isArray(value)) {
+    const copy: unknown[] = new Array(value.length);
+    seen.set(value, copy);
+    for (let i = 0; i < value.length; i++) {
+      copy[i] = cloneValue(value[i], seen);
+    }
+    return copy;
+  }
+  if (value instanceof Map) {
+    const copy = new Map();
+    seen.set(value, copy);
+    for (const [k, v] of value) {
+      copy.set(cloneValue(k, seen), cloneValue(v, seen));
+    }
+    return copy;
+  }
+  if (value instanceof Set) {
+    const copy = new Set();
+    seen.set(value, copy);
+    for (const v of value) {
+      copy.add(cloneValue(v, seen));
+    }
+    return copy;
+  }
+
+  const copy = Object.create(Object.getPrototypeOf(value));
+  seen.set(value, copy);
+  for (const key of Object.keys(value)) {
+    copy[key] = cloneValue(value[key], seen);
+  }
+  return copy;
+}
@@ -0,0 +1,96 @@
+import { GameMap, TileRef } from "../game/GameMap";
+
+type Point = { x: number; y: number };
+
+export enum Formation {
+  Line = "line",
+  Wedge = "wedge",
+  Spread = "spread",
+}
+
+// Tiles between neighbouring ships of a formation.
+const formationSpacing = 3;
+
+/**
+ * Slot offsets of a formation facing north, as (lateral, forward) pairs.
+ * The first slot is the one closest to the target.
+ */
+function formationSlots(formation: Formation, count: number): Point[] {
+  const slots: Point[] = [];
+  for (let i = 0; i < count; i++) {
+    switch (formation) {
+      case Formation.Line: {
+        // Alternate left and right of the center.
+        const side = i % 2 === 0 ? 1 : -1;
+        slots.push({ x: side * Math.ceil(i / 2), y: 0 });
+        break;
+      }
+      case Formation.Wedge: {
+        const row = Math.ceil(i / 2);
+        const side = i % 2 === 0 ? 1 : -1;
+        slots.push({ x: side * row, y: -row });
+        break;
+      }
+      case Formation.Spread: {
+        // A loose square grid, twice the usual spacing.
+        const width = Math.ceil(Math.sqrt(count));
+        const col = i % width;
+        const row = Math.floor(i / width);
+        slots.push({ x: (col - (width - 1) / 2) * 2, y: -row * 2 });
+        break;
+      }
+    }
+  }
+  return slots.map((s) => ({
+    x: s.x * formationSpacing,
+    y: s.y * formationSpacing,
+  }));
+}
+
+/**
+ * Target tiles for the ships on `units` moving to `target` in
+ * `formation`. The formation faces the direction of travel and the ship
+ * closest to the target takes the lead slot.
+ */
+export function formationTargets(
+  map: GameMap,
+  units: TileRef[],
+  target: TileRef,
+  formation: Formation,
+): TileRef[] {
+  if (units.length === 0) {
+    return [];
+  }
+  const from = {
+    x: units.reduce((sum, t) => sum + map.x(t), 0) / units.length,
+    y: units.reduce((sum, t) => sum + map.y(t), 0) / units.length,
+  };
+  const to = { x: map.x(target), y: map.y(target) };
+  const length = Math.hypot(to.x - from.x, to.y - from.y);
+  // Heading in map coordinates, y grows downwards. Face north when the
+  // fleet is already on the target.
+  const forward =
+    length === 0
+      ? { x: 0, y: -1 }
+      : { x: (to.x - from.x) / length, y: (to.y - from.y) / length };
+  const lateral = { x: -forward.y, y: forward.x };
+
+  const slots = formationSlots(formation, units.length).map((slot) => {
+    const x = Math.round(to.x + lateral.x * slot.x + forward.x * slot.y);
+    const y = Math.round(to.y + lateral.y * slot.x + forward.y * slot.y);
+    return map.ref(
+      Math.min(Math.max(x, 0), map.width() - 1),
+      Math.min(Math.max(y, 0), map.height() - 1),
+    );
+  });
+
+  // Closest ships take the first slots.
+  const order = units
+    .map((tile, index) => ({ index, dist: map.manhattanDist(tile, target) }))
+    .sort((a, b) => a.dist - b.dist);
+  const targets: TileRef[] = new Array(units.length);
+  order.forEach(({ index }, slot) => {
+    targets[index] = slots[slot];
+  });
+  return targets;
+}
@@ -0,0 +1,264 @@
+// Classes, and functions stored as values such as comparators, that a
+// serialized object graph may contain. The names identify them on the wire,
+// so they must be the same on every machine.
+export type SerializableTypes = Record<string, object>;
+
+enum Tag {
+  Ref,
+  Undefined,
+  Number,
+  BigInt,
+  Shared,
+  Function,
+}
+
+const typedArrays = {
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array,
+  BigInt64Array,
+  BigUint64Array,
+};
+
+type TypedArrayName = keyof typeof typedArrays;
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  // Chunked to stay below the argument limit of fromCharCode.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(data: string): Uint8Array {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// Undefined for functions that are not classes, e.g. arrow functions.
+function prototypeOf(type: object | undefined): object | undefined {
+  return (type as { prototype?: object } | undefined)?.prototype;
+}
+
+/**
+ * Writes an object graph as a string that another machine can turn back
+ * into an equal graph, keeping prototypes, cycles and shared references like
+ * deepClone. Every class in the graph must be one of `types`, and objects in
+ * `shared` are only referenced, the reader passes its own equivalents.
+ */
+export function serializeGraph(
+  value: unknown,
+  types: SerializableTypes,
+  shared: object[],
+): string {
+  const names = new Map<unknown, string>();
+  for (const [name, type] of Object.entries(types)) {
+    names.set(type, name);
+    const proto = prototypeOf(type);
+    if (proto !== undefined) {
+      names.set(proto, name);
+    }
+  }
+  const sharedIds = new Map(shared.map((obj, i) => [obj, i]));
+  const ids = new Map<object, number>();
+  const nodes: unknown[] = [];
+
+  const encode = (v: unknown): unknown => {
+    switch (typeof v) {
+      case "string":
+      case "boolean":
+        return v;
+      case "undefined":
+        return [Tag.Undefined];
+      case "bigint":
+        return [Tag.BigInt, v.toString()];
+      case "number":
+        if (Object.is(v, -0)) {
+          return [Tag.Number, "-0"];
+        }
+        return Number.isFinite(v) ? v : [Tag.Number, String(v)];
+      case "function": {
+        const name = names.get(v);
+        if (name === undefined) {
+          throw new Error(`function ${v.name} is not serializable`);
+        }
+        return [Tag.Function, name];
+      }
+      case "symbol":
+        throw new Error("symbols are not serializable");
+    }
+    if (v === null) {
+      return null;
+    }
+    const obj = v as object;
+    const sharedId = sharedIds.get(obj);
+    if (sharedId !== undefined) {
+      return [Tag.Shared, sharedId];
+    }
+    let id = ids.get(obj);
+    if (id === undefined) {
+      id = nodes.length;
+      ids.set(obj, id);
+      nodes.push(null);
+      nodes[id] = encodeNode(obj);
+    }
+    return [Tag.Ref, id];
+  };
+
+  const encodeNode = (obj: object): unknown => {
+    if (ArrayBuffer.isView(obj)) {
+      const name = (Object.keys(typedArrays) as TypedArrayName[]).find(
+        (n) => Object.getPrototypeOf(obj) === typedArrays[n].prototype,
+      );
+      if (name === undefined) {
+        throw new Error("only typed arrays are serializable");
+      }
+      const bytes = new Uint8Array(obj.buffer, obj.byteOffset, obj.byteLength);
+      return ["t", name, toBase64(bytes)];
+    }
+    if (Array.isArray(obj)) {
+      return ["a", obj.map(encode)];
+    }
+    if (obj instanceof Map) {
+      const entries: unknown[] = [];
+      for (const [k, v] of obj) {
+        entries.push(encode(k), encode(v));
+      }
+      return ["m", entries];
+    }
+    if (obj instanceof Set) {
+      return ["s", Array.from(obj, encode)];
+    }
+    const proto = Object.getPrototypeOf(obj);
+    const name = proto === Object.prototype ? "" : names.get(proto);
+    if (name === undefined) {
+      throw new Error(`class ${proto?.constructor?.name} is not serializable`);
+    }
+    const fields: unknown[] = [];
+    for (const key of Object.keys(obj)) {
+      fields.push(key, encode(obj[key]));
+    }
+    return ["o", name, fields];
+  };
+
+  const root = encode(value);
+  return JSON.stringify({ root, nodes });
+}
+
+// Reads a graph written by serializeGraph with the same `types`.
+export function deserializeGraph<T>(
+  data: string,
+  types: SerializableTypes,
+  shared: object[],
+): T {
+  const { root, nodes } = JSON.parse(data) as {
+    root: unknown;
+    nodes: unknown[][];
+  };
+
+  // Every object is created before any is filled in, so cycles resolve.
+  const objects = nodes.map((node): object => {
+    switch (node[0]) {
+      case "t": {
+        const bytes = fromBase64(node[2] as string);
+        return new typedArrays[node[1] as TypedArrayName](bytes.buffer);
+      }
+      case "a":
+        return new Array((node[1] as unknown[]).length);
+      case "m":
+        return new Map();
+      case "s":
+        return new Set();
+      case "o": {
+        const name = node[1] as string;
+        if (name === "") {
+          return {};
+        }
+        const proto = prototypeOf(types[name]);
+        if (proto === undefined) {
+          throw new Error(`class ${name} is not serializable`);
+        }
+        return Object.create(proto);
+      }
+      default:
+        throw new Error(`unknown node ${node[0]}`);
+    }
+  });
+
+  const decode = (v: unknown): unknown => {
+    if (!Array.isArray(v)) {
+      return v;
+    }
+    switch (v[0] as Tag) {
+      case Tag.Ref:
+        return objects[v[1]];
+      case Tag.Undefined:
+        return undefined;
+      case Tag.Number:
+        return Number(v[1]);
+      case Tag.BigInt:
+        return BigInt(v[1]);
+      case Tag.Shared:
+        if (v[1] >= shared.length) {
+          throw new Error(`shared object ${v[1]} missing`);
+        }
+        return shared[v[1]];
+      case Tag.Function: {
+        const fn = types[v[1]];
+        if (fn === undefined) {
+          throw new Error(`function ${v[1]} is not serializable`);
+        }
+        return fn;
+      }
+      default:
+        throw new Error(`unknown value tag ${v[0]}`);
+    }
+  };
+
+  nodes.forEach((node, i) => {
+    const obj = objects[i];
+    switch (node[0]) {
+      case "a": {
+        const items = node[1] as unknown[];
+        for (let j = 0; j < items.length; j++) {
+          (obj as unknown[])[j] = decode(items[j]);
+        }
+        break;
+      }
+      case "m": {
+        const entries = node[1] as unknown[];
+        for (let j = 0; j < entries.length; j += 2) {
+          (obj as Map<unknown, unknown>).set(
+            decode(entries[j]),
+            decode(entries[j + 1]),
+          );
+        }
+        break;
+      }
+      case "s":
+        for (const item of node[1] as unknown[]) {
+          (obj as Set<unknown>).add(decode(item));
+        }
+        break;
+      case "o": {
+        const fields = node[2] as unknown[];
+        for (let j = 0; j < fields.length; j += 2) {
+          obj[fields[j] as string] = decode(fields[j + 1]);
+        }
+        break;
+      }
+    }
+  });
+  return decode(root) as T;
+}
@@ -1,19 +1,32 @@
-import { createGameRunner, GameRunner } from "../GameRunner";
 import { GameUpdateViewData } from "../game/GameUpdates";
+import { createGameRunner, GameRunner } from "../GameRunner";
+import { ReplayController } from "../ReplayController";
 import {
+  FastForwardResultMessage,
   InitializedMessage,
   MainThreadMessage,
   PlayerActionsResultMessage,
   PlayerBorderTilesResultMessage,
   PlayerProfileResultMessage,
+  ReplayEventsMessage,
+  ReplaySeekResultMessage,
+  RestoreSnapshotResultMessage,
+  SnapshotResultMessage,
   TransportShipSpawnResultMessage,
   WorkerMessage,
 } from "./WorkerMessages";
 
 const ctx: Worker = self as any;
 let gameRunner: Promise<GameRunner> | null = null;
+let replay: ReplayController | null = null;
+
+// Bounds the work done per heartbeat when a replay runs at high speed.
+const maxReplayTicksPerHeartbeat = 20;
 
 function gameUpdate(gu: GameUpdateViewData) {
+  if (replay !== null && !("errMsg" in gu)) {
+    replay.observe(gu);
+  }
   sendMessage({
     type: "game_update",
     gameUpdate: gu,
@@ -28,9 +41,21 @@ ctx.addEventListener("message", async (e: MessageEvent<MainThreadMessage>) => {
   const message = e.data;
 
   switch (message.type) {
-    case "heartbeat":
-      (await gameRunner)?.executeNextTick();
+    case "heartbeat": {
+      const gr = await gameRunner;
+      if (gr === null) break;
+      gr.executeNextTick();
+      if (replay !== null) {
+        for (
+          let i = 1;
+          i < maxReplayTicksPerHeartbeat && gr.numPendingTurns() > 0;
+          i++
+        ) {
+          gr.executeNextTick();
+        }
+      }
       break;
+    }
     case "init":
       try {
         console.log("WebWorker: Starting initialization...");
@@ -40,6 +65,14 @@ ctx.addEventListener("message", async (e: MessageEvent<MainThreadMessage>) => {
           gameUpdate,
         )
           .then((gr) => {
+            if (message.isReplay) {
+              replay = new ReplayController(gr, (events) =>
+                sendMessage({
+                  type: "replay_events",
+                  events,
+                } as ReplayEventsMessage),
+              );
+            }
             console.log(
               "WebWorker: Initialization successful, sending initialized message",
             );
@@ -163,6 +196,93 @@ ctx.addEventListener("message", async (e: MessageEvent<MainThreadMessage>) => {
         console.error("Failed to spawn transport ship:", error);
       }
       break;
+    case "replay_seek":
+      try {
+        if (!gameRunner || replay === null) {
+          throw new Error("Replay not initialized");
+        }
+        await gameRunner;
+        const gu = replay.seek(message.turn);
+        if ("errMsg" in gu) {
+          throw new Error(gu.errMsg);
+        }
+        gameUpdate(gu);
+        sendMessage({
+          type: "replay_seek_result",
+          id: message.id,
+        } as ReplaySeekResultMessage);
+      } catch (error) {
+        console.error("Failed to seek replay:", error);
+        sendMessage({
+          type: "replay_seek_result",
+          id: message.id,
+          error: String(error),
+        } as ReplaySeekResultMessage);
+      }
+      break;
+    case "fast_forward":
+      try {
+        if (!gameRunner) {
+          throw new Error("Game runner not initialized");
+        }
+        const gu = (await gameRunner).fastForward();
+        if ("errMsg" in gu) {
+          throw new Error(gu.errMsg);
+        }
+        gameUpdate(gu);
+        sendMessage({
+          type: "fast_forward_result",
+          id: message.id,
+        } as FastForwardResultMessage);
+      } catch (error) {
+        console.error("Failed to fast-forward:", error);
+        sendMessage({
+          type: "fast_forward_result",
+          id: message.id,
+          error: String(error),
+        } as FastForwardResultMessage);
+      }
+      break;
+    case "snapshot":
+      try {
+        if (!gameRunner) {
+          throw new Error("Game runner not initialized");
+        }
+        sendMessage({
+          type: "snapshot_result",
+          id: message.id,
+          snapshot: (await gameRunner).serializedSnapshot(),
+        } as SnapshotResultMessage);
+      } catch (error) {
+        console.error("Failed to serialize snapshot:", error);
+        sendMessage({
+          type: "snapshot_result",
+          id: message.id,
+          error: String(error),
+        } as SnapshotResultMessage);
+      }
+      break;
+    case "restore_snapshot":
+      try {
+        if (!gameRunner) {
+          throw new Error("Game runner not initialized");
+        }
+        const gr = await gameRunner;
+        gr.restoreSerialized(message.snapshot);
+        gameUpdate(gr.fullSyncUpdate());
+        sendMessage({
+          type: "restore_snapshot_result",
+          id: message.id,
+        } as RestoreSnapshotResultMessage);
+      } catch (error) {
+        console.error("Failed to restore snapshot:", error);
+        sendMessage({
+          type: "restore_snapshot_result",
+          id: message.id,
+          error: String(error),
+        } as RestoreSnapshotResultMessage);
+      }
+      break;
     default:
       console.warn("Unknown message :", message);
   }
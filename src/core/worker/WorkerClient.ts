@@ -6,6 +6,7 @@ import {
 } from "../game/Game";
 import { TileRef } from "../game/GameMap";
 import { ErrorUpdate, GameUpdateViewData } from "../game/GameUpdates";
+import { ReplayEvent } from "../ReplayController";
 import { ClientID, GameStartInfo, Turn } from "../Schemas";
 import { generateID } from "../Util";
 import { WorkerMessage } from "./WorkerMessages";
@@ -17,10 +18,12 @@ export class WorkerClient {
   private gameUpdateCallback?: (
     update: GameUpdateViewData | ErrorUpdate,
   ) => void;
+  private replayEventsCallback?: (events: ReplayEvent[]) => void;
 
   constructor(
     private gameStartInfo: GameStartInfo,
     private clientID: ClientID,
+    private isReplay: boolean = false,
   ) {
     this.worker = new Worker(new URL("./Worker.worker.ts", import.meta.url));
     this.messageHandlers = new Map();
@@ -42,6 +45,10 @@ export class WorkerClient {
         }
         break;
 
+      case "replay_events":
+        this.replayEventsCallback?.(message.events);
+        break;
+
       case "initialized":
       default:
         if (message.id && this.messageHandlers.has(message.id)) {
@@ -75,6 +82,7 @@ export class WorkerClient {
         id: messageId,
         gameStartInfo: this.gameStartInfo,
         clientID: this.clientID,
+        isReplay: this.isReplay,
       });
 
       // Add timeout for initialization
@@ -108,6 +116,122 @@ export class WorkerClient {
     });
   }
 
+  onReplayEvents(callback: (events: ReplayEvent[]) => void) {
+    this.replayEventsCallback = callback;
+  }
+
+  // Resolves once the worker has sent the full sync update for `turn`.
+  replaySeek(turn: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.isInitialized) {
+        reject(new Error("Worker not initialized"));
+        return;
+      }
+
+      const messageId = generateID();
+
+      this.messageHandlers.set(messageId, (message) => {
+        if (message.type === "replay_seek_result") {
+          if (message.error === undefined) {
+            resolve();
+          } else {
+            reject(new Error(message.error));
+          }
+        }
+      });
+
+      this.worker.postMessage({
+        type: "replay_seek",
+        id: messageId,
+        turn,
+      });
+    });
+  }
+
+  // Resolves once the worker has executed every turn received so far and
+  // sent a full sync update.
+  fastForward(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.isInitialized) {
+        reject(new Error("Worker not initialized"));
+        return;
+      }
+
+      const messageId = generateID();
+
+      this.messageHandlers.set(messageId, (message) => {
+        if (message.type === "fast_forward_result") {
+          if (message.error === undefined) {
+            resolve();
+          } else {
+            reject(new Error(message.error));
+          }
+        }
+      });
+
+      this.worker.postMessage({
+        type: "fast_forward",
+        id: messageId,
+      });
+    });
+  }
+
+  // Serialized state of the simulation, for a client that desynced.
+  snapshot(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      if (!this.isInitialized) {
+        reject(new Error("Worker not initialized"));
+        return;
+      }
+
+      const messageId = generateID();
+
+      this.messageHandlers.set(messageId, (message) => {
+        if (message.type === "snapshot_result") {
+          if (message.snapshot !== undefined) {
+            resolve(message.snapshot);
+          } else {
+            reject(new Error(message.error));
+          }
+        }
+      });
+
+      this.worker.postMessage({
+        type: "snapshot",
+        id: messageId,
+      });
+    });
+  }
+
+  // Resolves once the worker has replaced its simulation with `snapshot`
+  // and sent a full sync update.
+  restoreSnapshot(snapshot: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.isInitialized) {
+        reject(new Error("Worker not initialized"));
+        return;
+      }
+
+      const messageId = generateID();
+
+      this.messageHandlers.set(messageId, (message) => {
+        if (message.type === "restore_snapshot_result") {
+          if (message.error === undefined) {
+            resolve();
+          } else {
+            reject(new Error(message.error));
+          }
+        }
+      });
+
+      this.worker.postMessage({
+        type: "restore_snapshot",
+        id: messageId,
+        snapshot,
+      });
+    });
+  }
+
   sendHeartbeat() {
     this.worker.postMessage({
       type: "heartbeat",
@@ -232,5 +356,6 @@ export class WorkerClient {
     this.worker.terminate();
     this.messageHandlers.clear();
     this.gameUpdateCallback = undefined;
+    this.replayEventsCallback = undefined;
   }
 }
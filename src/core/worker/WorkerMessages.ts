@@ -6,6 +6,7 @@ import {
 } from "../game/Game";
 import { TileRef } from "../game/GameMap";
 import { GameUpdateViewData } from "../game/GameUpdates";
+import { ReplayEvent } from "../ReplayController";
 import { ClientID, GameStartInfo, Turn } from "../Schemas";
 
 export type WorkerMessageType =
@@ -21,7 +22,16 @@ export type WorkerMessageType =
   | "player_border_tiles"
   | "player_border_tiles_result"
   | "transport_ship_spawn"
-  | "transport_ship_spawn_result";
+  | "transport_ship_spawn_result"
+  | "replay_seek"
+  | "replay_seek_result"
+  | "replay_events"
+  | "fast_forward"
+  | "fast_forward_result"
+  | "snapshot"
+  | "snapshot_result"
+  | "restore_snapshot"
+  | "restore_snapshot_result";
 
 // Base interface for all messages
 interface BaseWorkerMessage {
@@ -38,6 +48,8 @@ export interface InitMessage extends BaseWorkerMessage {
   type: "init";
   gameStartInfo: GameStartInfo;
   clientID: ClientID;
+  // Replays execute every pending turn on each heartbeat and can seek.
+  isReplay?: boolean;
 }
 
 export interface TurnMessage extends BaseWorkerMessage {
@@ -98,6 +110,55 @@ export interface TransportShipSpawnResultMessage extends BaseWorkerMessage {
   result: TileRef | false;
 }
 
+export interface ReplaySeekMessage extends BaseWorkerMessage {
+  type: "replay_seek";
+  turn: number;
+}
+
+export interface ReplaySeekResultMessage extends BaseWorkerMessage {
+  type: "replay_seek_result";
+  // Set if the replay could not be rebuilt at the turn.
+  error?: string;
+}
+
+export interface FastForwardMessage extends BaseWorkerMessage {
+  type: "fast_forward";
+}
+
+export interface FastForwardResultMessage extends BaseWorkerMessage {
+  type: "fast_forward_result";
+  // Set if the turns could not be executed.
+  error?: string;
+}
+
+// Serializes the simulation for a desynced client.
+export interface SnapshotMessage extends BaseWorkerMessage {
+  type: "snapshot";
+}
+
+export interface SnapshotResultMessage extends BaseWorkerMessage {
+  type: "snapshot_result";
+  snapshot?: string;
+  // Set instead of the snapshot if the simulation could not be serialized.
+  error?: string;
+}
+
+// Replaces the simulation with a snapshot from a client that is in sync.
+export interface RestoreSnapshotMessage extends BaseWorkerMessage {
+  type: "restore_snapshot";
+  snapshot: string;
+}
+
+export interface RestoreSnapshotResultMessage extends BaseWorkerMessage {
+  type: "restore_snapshot_result";
+  error?: string;
+}
+
+export interface ReplayEventsMessage extends BaseWorkerMessage {
+  type: "replay_events";
+  events: ReplayEvent[];
+}
+
 // Union types for type safety
 export type MainThreadMessage =
   | HeartbeatMessage
@@ -106,7 +167,11 @@ export type MainThreadMessage =
   | PlayerActionsMessage
   | PlayerProfileMessage
   | PlayerBorderTilesMessage
-  | TransportShipSpawnMessage;
+  | TransportShipSpawnMessage
+  | ReplaySeekMessage
+  | FastForwardMessage
+  | SnapshotMessage
+  | RestoreSnapshotMessage;
 
 // Message send from worker
 export type WorkerMessage =
@@ -115,4 +180,9 @@ export type WorkerMessage =
   | PlayerActionsResultMessage
   | PlayerProfileResultMessage
   | PlayerBorderTilesResultMessage
-  | TransportShipSpawnResultMessage;
+  | TransportShipSpawnResultMessage
+  | ReplaySeekResultMessage
+  | ReplayEventsMessage
+  | FastForwardResultMessage
+  | SnapshotResultMessage
+  | RestoreSnapshotResultMessage;
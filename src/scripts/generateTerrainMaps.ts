@@ -1,68 +1,156 @@
 import fs from "fs/promises";
 import path from "path";
 import sharp from "sharp";
+import {
+  manifestErrors,
+  MapManifest,
+  MapManifestSchema,
+  MapPackageInfo,
+} from "../core/game/MapPackage";
+import {
+  isBuiltInMap,
+  MAP_FILE_NAMES,
+  mapFileBase,
+} from "../core/game/TerrainMapFileLoader";
 import { generateMap } from "./TerrainMapGenerator.js";
 
-const maps = ["Space1", "Space2", "FacingWorlds", "testmap"];
-
 const removeSmall = true;
 
+const mapsDir = path.resolve(process.cwd(), "resources", "maps");
+const packagesDir = path.join(mapsDir, "packages");
+
+// Writes `<base>.bin`, `<base>Mini.bin` and `<base>Thumb.webp` from a PNG,
+// returns the size of the map.
+async function generateTerrain(
+  pngPath: string,
+  outputBase: string,
+  name: string,
+): Promise<{ width: number; height: number }> {
+  const imageBuffer = await fs.readFile(pngPath);
+  const {
+    map: mainMap,
+    miniMap,
+    thumb,
+  } = await generateMap(imageBuffer, removeSmall, name);
+
+  await Promise.all([
+    fs.writeFile(outputBase + ".bin", mainMap),
+    fs.writeFile(outputBase + "Mini.bin", miniMap),
+    sharp(Buffer.from(thumb.data), {
+      raw: {
+        width: thumb.width,
+        height: thumb.height,
+        channels: 4,
+      },
+    })
+      .webp({ quality: 45 })
+      .toFile(outputBase + "Thumb.webp"),
+  ]);
+  // The terrain file starts with the width and height.
+  return {
+    width: mainMap[0] | (mainMap[1] << 8),
+    height: mainMap[2] | (mainMap[3] << 8),
+  };
+}
+
 async function loadTerrainMaps() {
   await Promise.all(
-    maps.map(async (map) => {
-      const mapPath = path.resolve(
-        process.cwd(),
-        "resources",
-        "maps",
-        map + ".png",
-      );
-      const imageBuffer = await fs.readFile(mapPath);
-      const {
-        map: mainMap,
-        miniMap,
-        thumb,
-      } = await generateMap(imageBuffer, removeSmall, map);
+    Object.values(MAP_FILE_NAMES).map((map) =>
+      generateTerrain(
+        path.join(mapsDir, map + ".png"),
+        path.join(mapsDir, map),
+        map,
+      ),
+    ),
+  );
+}
 
-      const outputPath = path.join(
-        process.cwd(),
-        "resources",
-        "maps",
-        map + ".bin",
-      );
-      const miniOutputPath = path.join(
-        process.cwd(),
-        "resources",
-        "maps",
-        map + "Mini.bin",
-      );
-      const thumbOutputPath = path.join(
-        process.cwd(),
-        "resources",
-        "maps",
-        map + "Thumb.webp",
+/**
+ * Every directory in resources/maps/packages with a manifest.json is a map
+ * package. Invalid packages fail the build rather than being skipped, so
+ * map authors see what to fix.
+ */
+async function readManifests(): Promise<MapManifest[]> {
+  const entries = await fs.readdir(packagesDir, { withFileTypes: true });
+  const manifests: MapManifest[] = [];
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+    const manifestPath = path.join(packagesDir, entry.name, "manifest.json");
+    let json: unknown;
+    try {
+      json = JSON.parse(await fs.readFile(manifestPath, "utf8"));
+    } catch (error) {
+      throw new Error(`could not read ${manifestPath}: ${error}`);
+    }
+    const result = MapManifestSchema.safeParse(json);
+    if (!result.success) {
+      throw new Error(`invalid ${manifestPath}: ${result.error.message}`);
+    }
+    const manifest = result.data;
+    if (manifest.id !== entry.name) {
+      throw new Error(
+        `${manifestPath}: id ${manifest.id} does not match the directory name`,
       );
+    }
+    if (isBuiltInMap(manifest.id)) {
+      throw new Error(`${manifestPath}: ${manifest.id} is a built-in map`);
+    }
+    manifests.push(manifest);
+  }
+  return manifests.sort((a, b) => a.id.localeCompare(b.id));
+}
 
-      await Promise.all([
-        fs.writeFile(outputPath, mainMap),
-        fs.writeFile(miniOutputPath, miniMap),
-        sharp(Buffer.from(thumb.data), {
-          raw: {
-            width: thumb.width,
-            height: thumb.height,
-            channels: 4,
-          },
-        })
-          .webp({ quality: 45 })
-          .toFile(thumbOutputPath),
-      ]);
-    }),
+async function loadMapPackages() {
+  const packages: MapPackageInfo[] = [];
+  for (const manifest of await readManifests()) {
+    const base = path.join(mapsDir, mapFileBase(manifest.id));
+    const { width, height } = await generateTerrain(
+      path.join(packagesDir, manifest.id, "terrain.png"),
+      base,
+      manifest.id,
+    );
+    const errors = manifestErrors(manifest, width, height);
+    if (errors.length > 0) {
+      throw new Error(`map package ${manifest.id}: ${errors.join(", ")}`);
+    }
+    // Same shape as the nation files of the built-in maps.
+    await fs.writeFile(
+      base + ".json",
+      JSON.stringify(
+        {
+          name: manifest.name,
+          width,
+          height,
+          nations: manifest.nations,
+          spawnZones: manifest.spawnZones,
+        },
+        null,
+        2,
+      ) + "\n",
+    );
+    packages.push({
+      id: manifest.id,
+      name: manifest.name,
+      author: manifest.author,
+      description: manifest.description,
+      width,
+      height,
+    });
+  }
+  await fs.writeFile(
+    path.join(packagesDir, "index.json"),
+    JSON.stringify(packages, null, 2) + "\n",
   );
+  return packages;
 }
 
 async function main() {
   try {
     await loadTerrainMaps();
-    console.log("Terrain maps generated successfully");
+    const packages = await loadMapPackages();
+    console.log(
+      `Terrain maps generated successfully, ${packages.length} map packages`,
+    );
   } catch (error) {
     console.error("Error generating terrain maps:", error);
     process.exit(1);
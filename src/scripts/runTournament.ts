@@ -0,0 +1,142 @@
+import fs from "fs/promises";
+import { parseArgs } from "util";
+import { getConfigFromServer } from "../core/configuration/ConfigLoader";
+import { aiStrategyNames } from "../core/execution/ai/AIPlayer";
+import { Difficulty, GameMapType } from "../core/game/Game";
+import { BalanceProfileSchema } from "../core/Schemas";
+import {
+  defaultStrategy,
+  runTournamentGame,
+  tournamentCSV,
+  TournamentGameResult,
+  TournamentOptions,
+} from "../core/Tournament";
+import { readTerrainMapFromDisk } from "../server/TerrainMapDiskLoader";
+
+const usage = `usage: npm run tournament -- --map <map> [options]
+  --games <n>             games to simulate (default 10)
+  --strategies <a,b,...>  AI strategies, "${defaultStrategy}" is the built-in AI
+  --difficulties <a,...>  ${Object.values(Difficulty).join(", ")}
+  --bots <n>              tribes per game (default 0)
+  --max-minutes <n>       game time before a draw (default 60)
+  --sample-seconds <n>    game time between territory samples (default 30)
+  --seed <s>              game id prefix (default "tournament")
+  --balance <file>        balance profile JSON applied to every game
+  --json <file>           write full results, including territory curves
+  --csv <file>            write one row per game, stdout if no output is set`;
+
+function parseEnum<T extends string>(
+  values: Record<string, T>,
+  input: string,
+  what: string,
+): T {
+  const match = Object.entries(values).find(
+    ([key, value]) =>
+      key.toLowerCase() === input.toLowerCase() ||
+      value.toLowerCase() === input.toLowerCase(),
+  );
+  if (match === undefined) {
+    throw new Error(`unknown ${what} ${input}`);
+  }
+  return match[1];
+}
+
+async function parseOptions(): Promise<{
+  options: TournamentOptions;
+  json?: string;
+  csv?: string;
+}> {
+  const { values } = parseArgs({
+    options: {
+      map: { type: "string" },
+      games: { type: "string", default: "10" },
+      strategies: { type: "string", default: defaultStrategy },
+      difficulties: { type: "string", default: Difficulty.Medium },
+      bots: { type: "string", default: "0" },
+      "max-minutes": { type: "string", default: "60" },
+      "sample-seconds": { type: "string", default: "30" },
+      seed: { type: "string", default: "tournament" },
+      balance: { type: "string" },
+      json: { type: "string" },
+      csv: { type: "string" },
+    },
+  });
+  if (values.map === undefined) {
+    throw new Error("--map is required");
+  }
+  const strategies = values.strategies.split(",");
+  const known = [defaultStrategy, ...aiStrategyNames()];
+  for (const strategy of strategies) {
+    if (!known.includes(strategy)) {
+      throw new Error(
+        `unknown strategy ${strategy}, available: ${known.join(", ")}`,
+      );
+    }
+  }
+  const balance =
+    values.balance === undefined
+      ? undefined
+      : BalanceProfileSchema.parse(
+          JSON.parse(await fs.readFile(values.balance, "utf8")),
+        );
+  return {
+    options: {
+      map: parseEnum(GameMapType, values.map, "map"),
+      games: Number(values.games),
+      strategies,
+      difficulties: values.difficulties
+        .split(",")
+        .map((d) => parseEnum(Difficulty, d, "difficulty")),
+      bots: Number(values.bots),
+      maxTicks: Number(values["max-minutes"]) * 60 * 10,
+      sampleInterval: Number(values["sample-seconds"]) * 10,
+      seed: values.seed,
+      balance,
+    },
+    json: values.json,
+    csv: values.csv,
+  };
+}
+
+async function main() {
+  let parsed: Awaited<ReturnType<typeof parseOptions>>;
+  try {
+    parsed = await parseOptions();
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : error}`);
+    console.error(usage);
+    process.exit(2);
+  }
+  const { options, json, csv } = parsed;
+
+  // The simulation logs a lot, keep stdout for the CSV.
+  console.log = () => {};
+  console.debug = () => {};
+
+  const results: TournamentGameResult[] = [];
+  for (let i = 0; i < options.games; i++) {
+    const terrain = await readTerrainMapFromDisk(options.map);
+    const start = Date.now();
+    const result = runTournamentGame(options, i, terrain, (gameConfig) =>
+      getConfigFromServer(gameConfig, null),
+    );
+    results.push(result);
+    console.error(
+      `game ${i + 1}/${options.games}: ${result.winner ?? "draw"} (${result.winnerStrategy ?? "-"}) after ${result.ticks} ticks, ${Date.now() - start}ms`,
+    );
+  }
+
+  if (json !== undefined) {
+    await fs.writeFile(json, JSON.stringify(results, null, 2));
+  }
+  if (csv !== undefined) {
+    await fs.writeFile(csv, tournamentCSV(results));
+  } else if (json === undefined) {
+    process.stdout.write(tournamentCSV(results));
+  }
+}
+
+main().catch((error) => {
+  console.error("Error running tournament:", error);
+  process.exit(1);
+});
@@ -0,0 +1,72 @@
+import fs from "fs/promises";
+import { getConfigFromServer } from "../core/configuration/ConfigLoader";
+import { verifyReplay } from "../core/ReplayVerifier";
+import { GameRecord, GameStartInfoSchema } from "../core/Schemas";
+import { loadTerrainMapFromDisk } from "../server/TerrainMapDiskLoader";
+
+// Usage: npm run verify-replay -- <path to game record json>
+// Accepts a raw archived GameRecord or a /api/archived_game/:id response.
+async function loadRecord(filePath: string): Promise<GameRecord> {
+  const json = JSON.parse(await fs.readFile(filePath, "utf8"));
+  const record = (json.gameRecord ?? json) as GameRecord;
+  // Archived records have redacted PII, so only validate what we simulate.
+  GameStartInfoSchema.parse(record.gameStartInfo);
+  if (!Array.isArray(record.turns)) {
+    throw new Error(`${filePath} has no turns`);
+  }
+  return record;
+}
+
+async function main() {
+  const filePath = process.argv[2];
+  if (!filePath) {
+    console.error("usage: npm run verify-replay -- <game-record.json>");
+    process.exit(2);
+  }
+
+  const record = await loadRecord(filePath);
+  const config = getConfigFromServer(record.gameStartInfo.config, null, true);
+  const terrain = await loadTerrainMapFromDisk(
+    record.gameStartInfo.config.gameMap,
+    record.gameStartInfo.config.mapSeed,
+  );
+
+  console.log(
+    `replaying game ${record.id} (${record.num_turns} turns, map ${record.gameStartInfo.config.gameMap}, commit ${record.gitCommit ?? "unknown"})`,
+  );
+  const result = verifyReplay(record, config, terrain);
+
+  if (result.error !== null) {
+    console.error(
+      `simulation error on turn ${result.error.turnNumber}: ${result.error.errMsg}`,
+    );
+    if (result.error.stack) console.error(result.error.stack);
+    process.exit(1);
+  }
+
+  if (result.divergence === null) {
+    console.log(
+      `OK: replayed ${result.turnsReplayed} turns, ${result.hashesChecked} hashes matched`,
+    );
+    return;
+  }
+
+  const d = result.divergence;
+  console.error(
+    `DESYNC on turn ${d.turnNumber}: archived hash ${d.expectedHash}, simulated hash ${d.actualHash}`,
+  );
+  console.error(
+    `last verified turn: ${d.lastVerifiedTurn ?? "none"}, intents since then:`,
+  );
+  for (const t of d.suspectTurns) {
+    for (const intent of t.intents) {
+      console.error(`  turn ${t.turnNumber}: ${JSON.stringify(intent)}`);
+    }
+  }
+  process.exit(1);
+}
+
+main().catch((error) => {
+  console.error("Error verifying replay:", error);
+  process.exit(1);
+});
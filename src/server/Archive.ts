@@ -1,23 +1,25 @@
-import { S3 } from "@aws-sdk/client-s3";
 import { getServerConfigFromServer } from "../core/configuration/ConfigLoader";
 import { GameID, GameRecord } from "../core/Schemas";
+import { ArchiveStorage, createArchiveStorage } from "./ArchiveStorage";
 import { logger } from "./Logger";
+import { archiveFailures } from "./PrometheusMetrics";
 
 const config = getServerConfigFromServer();
 
 const log = logger.child({ component: "Archive" });
 
-// R2 client configuration
-const r2 = new S3({
-  region: "auto", // R2 ignores region, but it's required by the SDK
-  endpoint: config.r2Endpoint(),
-  credentials: {
-    accessKeyId: config.r2AccessKey(),
-    secretAccessKey: config.r2SecretKey(),
-  },
-});
-
-const bucket = config.r2Bucket();
+let storage: ArchiveStorage | null = createArchiveStorage(config);
+log.info(
+  storage === null
+    ? "no archive storage configured, games will not be archived"
+    : `archiving games to ${storage.name()}`,
+);
+
+// Replaces the configured backend, e.g. with a temp directory in tests.
+export function setArchiveStorage(s: ArchiveStorage | null) {
+  storage = s;
+}
+
 const gameFolder = "games";
 const analyticsFolder = "analytics";
 
@@ -25,33 +27,24 @@ export async function archive(gameRecord: GameRecord) {
   try {
     gameRecord.gitCommit = config.gitCommit();
 
-    // Check if R2 is properly configured before attempting upload
-    const r2AccessKey = config.r2AccessKey();
-    const r2SecretKey = config.r2SecretKey();
-    const r2Bucket = config.r2Bucket();
-
-    if (
-      r2AccessKey === "undefined" ||
-      r2SecretKey === "undefined" ||
-      r2Bucket === "undefined"
-    ) {
+    if (storage === null) {
       log.info(
-        `${gameRecord.id}: R2 not configured, skipping analytics upload`,
+        `${gameRecord.id}: archive storage not configured, skipping archive`,
       );
       return;
     }
 
-    // Archive to R2
-    await archiveAnalyticsToR2(gameRecord);
+    await archiveAnalytics(storage, gameRecord);
 
     // Archive full game if there are turns
     if (gameRecord.turns.length > 0) {
       log.info(
-        `${gameRecord.id}: game has more than zero turns, attempting to write to full game to R2`,
+        `${gameRecord.id}: game has more than zero turns, attempting to write full game to ${storage.name()}`,
       );
-      await archiveFullGameToR2(gameRecord);
+      await archiveFullGame(storage, gameRecord);
     }
   } catch (error) {
+    archiveFailures.inc();
     log.error(`${gameRecord.id}: Final archive error: ${error}`, {
       message: error?.message || error,
       stack: error?.stack,
@@ -61,7 +54,10 @@ export async function archive(gameRecord: GameRecord) {
   }
 }
 
-async function archiveAnalyticsToR2(gameRecord: GameRecord) {
+async function archiveAnalytics(
+  storage: ArchiveStorage,
+  gameRecord: GameRecord,
+) {
   // Create analytics data object
   const analyticsData = {
     id: gameRecord.id,
@@ -86,17 +82,18 @@ async function archiveAnalyticsToR2(gameRecord: GameRecord) {
     // Store analytics data using just the game ID as the key
     const analyticsKey = `${gameRecord.id}.json`;
 
-    await r2.putObject({
-      Bucket: bucket,
-      Key: `${analyticsFolder}/${analyticsKey}`,
-      Body: JSON.stringify(analyticsData),
-      ContentType: "application/json",
-    });
+    await storage.write(
+      `${analyticsFolder}/${analyticsKey}`,
+      JSON.stringify(analyticsData),
+      "application/json",
+    );
 
-    log.info(`${gameRecord.id}: successfully wrote game analytics to R2`);
+    log.info(
+      `${gameRecord.id}: successfully wrote game analytics to ${storage.name()}`,
+    );
   } catch (error) {
     log.error(
-      `${gameRecord.id}: Error writing game analytics to R2: ${error}`,
+      `${gameRecord.id}: Error writing game analytics to ${storage.name()}: ${error}`,
       {
         message: error?.message || error,
         stack: error?.stack,
@@ -108,7 +105,10 @@ async function archiveAnalyticsToR2(gameRecord: GameRecord) {
   }
 }
 
-async function archiveFullGameToR2(gameRecord: GameRecord) {
+async function archiveFullGame(
+  storage: ArchiveStorage,
+  gameRecord: GameRecord,
+) {
   // Create a deep copy to avoid modifying the original
   const recordCopy = JSON.parse(JSON.stringify(gameRecord));
 
@@ -119,36 +119,32 @@ async function archiveFullGameToR2(gameRecord: GameRecord) {
   });
 
   try {
-    await r2.putObject({
-      Bucket: bucket,
-      Key: `${gameFolder}/${recordCopy.id}`,
-      Body: JSON.stringify(recordCopy),
-      ContentType: "application/json",
-    });
+    await storage.write(
+      `${gameFolder}/${recordCopy.id}`,
+      JSON.stringify(recordCopy),
+      "application/json",
+    );
   } catch (error) {
     log.error(`error saving game ${gameRecord.id}`);
     throw error;
   }
 
-  log.info(`${gameRecord.id}: game record successfully written to R2`);
+  log.info(
+    `${gameRecord.id}: game record successfully written to ${storage.name()}`,
+  );
 }
 
 export async function readGameRecord(
   gameId: GameID,
 ): Promise<GameRecord | null> {
+  if (storage === null) return null;
   try {
-    // Check if file exists and download in one operation
-    const response = await r2.getObject({
-      Bucket: bucket,
-      Key: `${gameFolder}/${gameId}`, // Fixed - needed to include gameFolder
-    });
-    // Parse the response body
-    if (response.Body === undefined) return null;
-    const bodyContents = await response.Body.transformToString();
+    const bodyContents = await storage.read(`${gameFolder}/${gameId}`);
+    if (bodyContents === null) return null;
     return JSON.parse(bodyContents) as GameRecord;
   } catch (error) {
     // Log the error for monitoring purposes
-    log.error(`${gameId}: Error reading game record from R2: ${error}`, {
+    log.error(`${gameId}: Error reading game record: ${error}`, {
       message: error?.message || error,
       stack: error?.stack,
       name: error?.name,
@@ -161,16 +157,10 @@ export async function readGameRecord(
 }
 
 export async function gameRecordExists(gameId: GameID): Promise<boolean> {
+  if (storage === null) return false;
   try {
-    await r2.headObject({
-      Bucket: bucket,
-      Key: `${gameFolder}/${gameId}`, // Fixed - needed to include gameFolder
-    });
-    return true;
+    return await storage.exists(`${gameFolder}/${gameId}`);
   } catch (error) {
-    if (error.name === "NotFound") {
-      return false;
-    }
     log.error(`${gameId}: Error checking archive existence: ${error}`, {
       message: error?.message || error,
       stack: error?.stack,
@@ -0,0 +1,158 @@
+import { S3 } from "@aws-sdk/client-s3";
+import fs from "fs/promises";
+import path from "path";
+import { ServerConfig } from "../core/configuration/Config";
+
+/**
+ * Key/value blob store used by Archive to persist game records and
+ * analytics. Keys look like "games/<gameID>".
+ */
+export interface ArchiveStorage {
+  name(): string;
+  write(key: string, body: string, contentType: string): Promise<void>;
+  // Returns null if the key does not exist.
+  read(key: string): Promise<string | null>;
+  exists(key: string): Promise<boolean>;
+}
+
+export class R2ArchiveStorage implements ArchiveStorage {
+  private r2: S3;
+
+  constructor(
+    endpoint: string,
+    accessKey: string,
+    secretKey: string,
+    private bucket: string,
+  ) {
+    this.r2 = new S3({
+      region: "auto", // R2 ignores region, but it's required by the SDK
+      endpoint,
+      credentials: {
+        accessKeyId: accessKey,
+        secretAccessKey: secretKey,
+      },
+    });
+  }
+
+  name(): string {
+    return "R2";
+  }
+
+  async write(key: string, body: string, contentType: string): Promise<void> {
+    await this.r2.putObject({
+      Bucket: this.bucket,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+    });
+  }
+
+  async read(key: string): Promise<string | null> {
+    try {
+      const response = await this.r2.getObject({
+        Bucket: this.bucket,
+        Key: key,
+      });
+      if (response.Body === undefined) return null;
+      return await response.Body.transformToString();
+    } catch (error) {
+      if (error?.name === "NoSuchKey") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.r2.headObject({
+        Bucket: this.bucket,
+        Key: key,
+      });
+      return true;
+    } catch (error) {
+      if (error?.name === "NotFound") {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
+
+export class LocalArchiveStorage implements ArchiveStorage {
+  private root: string;
+
+  constructor(dir: string) {
+    this.root = path.resolve(dir);
+  }
+
+  name(): string {
+    return `local directory ${this.root}`;
+  }
+
+  async write(key: string, body: string, contentType: string): Promise<void> {
+    const filePath = this.filePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    // Write then rename so readers never see a partially written record.
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, body, "utf8");
+    await fs.rename(tmpPath, filePath);
+  }
+
+  async read(key: string): Promise<string | null> {
+    try {
+      return await fs.readFile(this.filePath(key), "utf8");
+    } catch (error) {
+      if (error?.code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.access(this.filePath(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private filePath(key: string): string {
+    // Keys come from request params, never let them escape the root.
+    if (!/^[a-zA-Z0-9_\-./]+$/.test(key) || key.split("/").includes("..")) {
+      throw new Error(`invalid archive key: ${key}`);
+    }
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`invalid archive key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+/**
+ * Picks the archive backend from the server config: a local directory if
+ * ARCHIVE_DIR is set, R2 if its keys are configured, otherwise none.
+ */
+export function createArchiveStorage(
+  config: ServerConfig,
+): ArchiveStorage | null {
+  if (config.archiveDir() !== "undefined") {
+    return new LocalArchiveStorage(config.archiveDir());
+  }
+  if (
+    config.r2AccessKey() === "undefined" ||
+    config.r2SecretKey() === "undefined" ||
+    config.r2Bucket() === "undefined"
+  ) {
+    return null;
+  }
+  return new R2ArchiveStorage(
+    config.r2Endpoint(),
+    config.r2AccessKey(),
+    config.r2SecretKey(),
+    config.r2Bucket(),
+  );
+}
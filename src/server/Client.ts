@@ -20,5 +20,6 @@ export class Client {
     public readonly ws: WebSocket,
     public readonly flag: string | null,
     public readonly walletAddress: string | null = null,
+    public readonly isSpectator: boolean = false,
   ) {}
 }
@@ -4,6 +4,7 @@ import { Difficulty, GameMapType, GameMode, GameType } from "../core/game/Game";
 import { GameConfig, GameID } from "../core/Schemas";
 import { Client } from "./Client";
 import { GamePhase, GameServer, ServerPlayerData } from "./GameServer";
+import { SavedGame } from "./LiveGameStore";
 
 export class GameManager {
   private games: Map<GameID, GameServer> = new Map();
@@ -33,7 +34,11 @@ export class GameManager {
     return false;
   }
 
-  async createGame(id: GameID, gameConfig: GameConfig | undefined) {
+  async createGame(
+    id: GameID,
+    gameConfig: GameConfig | undefined,
+    rankedPlayers: string[] | null = null,
+  ) {
     const finalConfig = {
       gameMap: GameMapType.Space1,
       gameType: GameType.Private,
@@ -54,16 +59,65 @@ export class GameManager {
       Date.now(),
       this.config,
       finalConfig,
+      rankedPlayers,
     );
 
     this.games.set(id, game);
     return game;
   }
 
+  resumeGame(saved: SavedGame): GameServer {
+    const game = new GameServer(
+      saved.id,
+      this.log,
+      saved.createdAt,
+      this.config,
+      saved.gameConfig,
+      saved.rankedPlayers,
+    );
+    game.resume(saved);
+    this.games.set(saved.id, game);
+    return game;
+  }
+
+  /**
+   * Suspends every game before the worker exits and returns the started
+   * ones so the next worker process can resume them. Lobbies are dropped.
+   */
+  shutdown(now: number): SavedGame[] {
+    const saved: SavedGame[] = [];
+    for (const game of this.games.values()) {
+      const state = game.toSavedGame(now);
+      if (state !== null) {
+        saved.push(state);
+      }
+      game.suspend();
+    }
+    this.games = new Map();
+    return saved;
+  }
+
   activeGames(): number {
     return this.games.size;
   }
 
+  // Games and their connected clients by phase. Checking the phase drops
+  // stale clients, so it is only done once per game.
+  phaseStats(): Map<GamePhase, { games: number; clients: number }> {
+    const stats = new Map(
+      Object.values(GamePhase).map((phase) => [
+        phase,
+        { games: 0, clients: 0 },
+      ]),
+    );
+    for (const game of this.games.values()) {
+      const phaseStats = stats.get(game.phase())!;
+      phaseStats.games++;
+      phaseStats.clients += game.activeClients.length;
+    }
+    return stats;
+  }
+
   activeClients(): number {
     let totalClients = 0;
     this.games.forEach((game: GameServer) => {
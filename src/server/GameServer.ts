@@ -3,6 +3,7 @@ import { Logger } from "winston";
 import WebSocket from "ws";
 import {
   AllPlayersStats,
+  ClientFlag,
   ClientID,
   ClientMessage,
   ClientMessageSchema,
@@ -13,10 +14,15 @@ import {
   GameStartInfo,
   GameStartInfoSchema,
   Intent,
+  LobbyAction,
+  LobbyChatMessage,
   PlayerRecord,
   ServerDesyncSchema,
   ServerEndGameMessageSchema,
+  ServerLobbyMessageSchema,
   ServerPrestartMessageSchema,
+  ServerSnapshotMessage,
+  ServerSnapshotRequestSchema,
   ServerStartGameMessageSchema,
   ServerTurnMessageSchema,
   Turn,
@@ -27,6 +33,20 @@ import { GameType } from "../core/game/Game";
 import { archive } from "./Archive";
 import { Client } from "./Client";
 import { gatekeeper } from "./Gatekeeper";
+import {
+  AmountRule,
+  IntentValidator,
+  MapBoundsRule,
+  RateLimitRule,
+} from "./IntentValidator";
+import { SavedGame } from "./LiveGameStore";
+import {
+  desyncs,
+  intentsReceived,
+  turnIntervalJitter,
+  websocketMessageBytes,
+} from "./PrometheusMetrics";
+import { readMapSize } from "./TerrainMapDiskLoader";
 
 // Extended type for server-side player data with additional server fields
 export type ServerPlayerData = ClientPlayerDataMessage & {
@@ -36,6 +56,15 @@ export type ServerPlayerData = ClientPlayerDataMessage & {
   isDisconnected?: boolean;
 };
 
+// Chat messages a private lobby keeps for players who join later.
+const maxLobbyChat = 50;
+// Every chat message resends the whole lobby, so each client may only send
+// one this often.
+const lobbyChatIntervalMs = 1000;
+// Every resync sends a whole game snapshot, so a client that keeps
+// desyncing is left desynced after a few.
+const maxResyncsPerClient = 3;
+
 export enum GamePhase {
   Lobby = "LOBBY",
   Active = "ACTIVE",
@@ -44,18 +73,25 @@ export enum GamePhase {
 
 export class GameServer {
   private sentDesyncMessageClients = new Set<ClientID>();
+  private resyncCounts = new Map<ClientID, number>();
+  // Desynced client to the client asked for a snapshot on its behalf.
+  private snapshotRequests = new Map<ClientID, ClientID>();
 
   private maxGameDuration = 3 * 60 * 60 * 1000; // 3 hours
 
   private turns: Turn[] = [];
   private intents: Intent[] = [];
   public activeClients: Client[] = [];
+  // Receive the turn stream but are not players, so they are left out of
+  // player limits, hash voting and the game record.
+  public spectators: Client[] = [];
   // Used for record record keeping
   private allClients: Map<ClientID, Client> = new Map();
   private _hasStarted = false;
   private _startTime: number | null = null;
 
   private endTurnIntervalID;
+  private lastTurnTime = 0;
 
   private lastPingUpdate = 0;
 
@@ -74,12 +110,36 @@ export class GameServer {
 
   private kickedClients: Set<ClientID> = new Set();
 
+  private mapBounds = new MapBoundsRule();
+  private intentValidator = new IntentValidator([
+    this.mapBounds,
+    new AmountRule(),
+    new RateLimitRule(),
+  ]);
+  // Rejected intents and kicks, saved in the game record.
+  private flaggedClients: ClientFlag[] = [];
+  // Players from before the worker restarted, see resume().
+  private restoredPlayers: PlayerRecord[] = [];
+
+  // Private lobby state, only used until the game starts. The host is the
+  // first player to join, the one who created the lobby, and passes to the
+  // longest waiting player when they leave.
+  private hostClientID: ClientID | null = null;
+  private readyClients: Set<ClientID> = new Set();
+  private lobbyChat: LobbyChatMessage[] = [];
+  private lastChatTimes: Map<ClientID, number> = new Map();
+  private autoStart = false;
+  private bannedPersistentIDs: Set<string> = new Set();
+
   constructor(
     public readonly id: string,
     readonly log_: Logger,
     public readonly createdAt: number,
     private config: ServerConfig,
     public gameConfig: GameConfig,
+    // Persistent ids of the players matched into a ranked game, null for
+    // unranked games. Nobody else may join as a player.
+    private rankedPlayers: string[] | null = null,
   ) {
     this.log = log_.child({ gameID: id });
   }
@@ -88,6 +148,9 @@ export class GameServer {
     if (gameConfig.gameMap !== undefined) {
       this.gameConfig.gameMap = gameConfig.gameMap;
     }
+    if (gameConfig.mapSeed !== undefined) {
+      this.gameConfig.mapSeed = gameConfig.mapSeed;
+    }
     if (gameConfig.difficulty !== undefined) {
       this.gameConfig.difficulty = gameConfig.difficulty;
     }
@@ -106,6 +169,9 @@ export class GameServer {
     if (gameConfig.instantBuild !== undefined) {
       this.gameConfig.instantBuild = gameConfig.instantBuild;
     }
+    if (gameConfig.fogOfWar !== undefined) {
+      this.gameConfig.fogOfWar = gameConfig.fogOfWar;
+    }
     if (gameConfig.gameMode !== undefined) {
       this.gameConfig.gameMode = gameConfig.gameMode;
     }
@@ -121,6 +187,18 @@ export class GameServer {
     if (gameConfig.spawnPhaseTurns !== undefined) {
       this.gameConfig.spawnPhaseTurns = gameConfig.spawnPhaseTurns;
     }
+
+    if (gameConfig.victory !== undefined) {
+      this.gameConfig.victory = gameConfig.victory;
+    }
+    if (gameConfig.nationStrategies !== undefined) {
+      this.gameConfig.nationStrategies = gameConfig.nationStrategies;
+    }
+    // Unlike the other settings, an unset profile restores the default rules.
+    if ("balance" in gameConfig) {
+      this.gameConfig.balance = gameConfig.balance;
+    }
+    this.broadcastLobby();
   }
 
   public addClient(client: Client, lastTurn: number) {
@@ -131,6 +209,28 @@ export class GameServer {
       });
       return;
     }
+    if (this.bannedPersistentIDs.has(client.persistentID)) {
+      this.log.warn(`[GameServer] Cannot add client, banned from lobby`, {
+        gameID: this.id,
+        clientID: client.clientID,
+      });
+      client.ws.close(1000, "Banned from lobby");
+      return;
+    }
+    if (client.isSpectator) {
+      this.addSpectator(client, lastTurn);
+      return;
+    }
+    if (
+      this.rankedPlayers !== null &&
+      !this.rankedPlayers.includes(client.persistentID)
+    ) {
+      this.log.warn(`[GameServer] Cannot add client, not matched`, {
+        gameID: this.id,
+        clientID: client.clientID,
+      });
+      return;
+    }
 
     this.log.info("[GameServer] Client attempting to (re)join game", {
       gameID: this.id,
@@ -199,6 +299,9 @@ export class GameServer {
     this.activeClients.push(client);
     client.lastPing = Date.now();
     this.allClients.set(client.clientID, client);
+    if (this.hostClientID === null && !this.isPublic()) {
+      this.hostClientID = client.clientID;
+    }
     this.log.info("[GameServer] Client successfully added to activeClients", {
       gameID: this.id,
       clientID: client.clientID,
@@ -208,6 +311,7 @@ export class GameServer {
     client.ws.on(
       "message",
       gatekeeper.wsHandler(client.ip, async (message: string) => {
+        websocketMessageBytes.labels("in").observe(Buffer.byteLength(message));
         try {
           let clientMsg: ClientMessage | null = null;
           try {
@@ -222,6 +326,15 @@ export class GameServer {
               );
               return;
             }
+            const reason = this.intentValidator.validate(
+              clientMsg.intent,
+              Date.now(),
+            );
+            if (reason !== null) {
+              this.flagClient(client, reason);
+              return;
+            }
+            intentsReceived.labels(clientMsg.intent.type).inc();
             this.addIntent(clientMsg.intent);
           }
           if (clientMsg.type === "ping") {
@@ -231,6 +344,15 @@ export class GameServer {
           if (clientMsg.type === "hash") {
             client.hashes.set(clientMsg.turnNumber, clientMsg.hash);
           }
+          if (clientMsg.type === "lobby") {
+            this.handleLobbyAction(client, clientMsg.action);
+          }
+          if (clientMsg.type === "resync") {
+            this.handleResync(client);
+          }
+          if (clientMsg.type === "snapshot") {
+            this.handleSnapshot(client, clientMsg.clientID, clientMsg.snapshot);
+          }
           if (clientMsg.type === "winner") {
             this.winner = clientMsg;
             this.allPlayersStats = clientMsg.allPlayersStats;
@@ -269,18 +391,239 @@ export class GameServer {
       this.activeClients = this.activeClients.filter(
         (c) => c.clientID !== client.clientID,
       );
+      this.readyClients.delete(client.clientID);
+      if (this.hostClientID === client.clientID) {
+        this.hostClientID = this.activeClients[0]?.clientID ?? null;
+      }
+      this.broadcastLobby();
+      this.maybeAutoStart();
+    });
+
+    client.ws.on("error", (error: Error) =>
+      this.handleSocketError(client, error),
+    );
+
+    // In case a client joined the game late and missed the start message.
+    if (this._hasStarted) {
+      this.sendStartGameMsg(client.ws, lastTurn);
+    }
+    this.broadcastLobby();
+  }
+
+  // Until the map size is read, coordinates are left to the executions.
+  private loadMapBounds() {
+    readMapSize(this.gameConfig.gameMap)
+      .then(({ width, height }) => this.mapBounds.setMapSize(width, height))
+      .catch((error) => {
+        this.log.warn(`could not read map size, not checking bounds`, {
+          gameID: this.id,
+          error: String(error),
+        });
+      });
+  }
+
+  /**
+   * Records an intent dropped by the validator, once per client and
+   * reason, and kicks clients that keep sending them.
+   */
+  private flagClient(client: Client, reason: string) {
+    this.log.warn("dropped invalid intent", {
+      clientID: client.clientID,
+      persistentID: client.persistentID,
+      reason,
     });
+    if (
+      !this.flaggedClients.some(
+        (f) => f.clientID === client.clientID && f.reason === reason,
+      )
+    ) {
+      this.flaggedClients.push({
+        clientID: client.clientID,
+        reason,
+        turn: this.turns.length,
+        kicked: false,
+      });
+    }
+    if (this.intentValidator.shouldKick(client.clientID)) {
+      this.flaggedClients.push({
+        clientID: client.clientID,
+        reason: `kicked for too many invalid intents, last: ${reason}`,
+        turn: this.turns.length,
+        kicked: true,
+      });
+      this.kickClient(client.clientID);
+    }
+  }
 
-    client.ws.on("error", (error: Error) => {
-      if ((error as any).code === "WS_ERR_UNEXPECTED_RSV_1") {
-        client.ws.close(1002);
+  private handleLobbyAction(client: Client, action: LobbyAction) {
+    if (this.hasStarted() || this.isPublic()) {
+      return;
+    }
+    const isHost = client.clientID === this.hostClientID;
+    switch (action.kind) {
+      case "chat": {
+        const now = Date.now();
+        const lastChat = this.lastChatTimes.get(client.clientID);
+        if (lastChat !== undefined && now - lastChat < lobbyChatIntervalMs) {
+          return;
+        }
+        this.lastChatTimes.set(client.clientID, now);
+        this.lobbyChat.push({
+          clientID: client.clientID,
+          username: client.username,
+          message: action.message,
+          time: now,
+        });
+        if (this.lobbyChat.length > maxLobbyChat) {
+          this.lobbyChat.shift();
+        }
+        break;
       }
+      case "ready":
+        if (action.ready) {
+          this.readyClients.add(client.clientID);
+        } else {
+          this.readyClients.delete(client.clientID);
+        }
+        break;
+      case "kick": {
+        const target = this.activeClients.find(
+          (c) => c.clientID === action.target,
+        );
+        if (!isHost || target === undefined || target === client) {
+          return;
+        }
+        if (action.ban) {
+          this.bannedPersistentIDs.add(target.persistentID);
+        }
+        this.readyClients.delete(target.clientID);
+        this.kickClient(target.clientID);
+        break;
+      }
+      case "auto_start":
+        if (!isHost) {
+          return;
+        }
+        this.autoStart = action.enabled;
+        break;
+    }
+    this.broadcastLobby();
+    this.maybeAutoStart();
+  }
+
+  // Starts the game once the host turned on auto start and all are ready.
+  private maybeAutoStart() {
+    if (
+      !this.autoStart ||
+      this.hasStarted() ||
+      this.activeClients.length < 2 ||
+      !this.activeClients.every((c) => this.readyClients.has(c.clientID))
+    ) {
+      return;
+    }
+    this.log.info("[GameServer] All players ready, auto starting game", {
+      gameID: this.id,
     });
+    this.start();
+  }
+
+  // Pushes the lobby to everyone connected, replacing the polling clients
+  // used to do while waiting in a private lobby.
+  private broadcastLobby() {
+    if (this.hasStarted() || this.isPublic()) {
+      return;
+    }
+    const lobbyMsg = ServerLobbyMessageSchema.safeParse({
+      type: "lobby",
+      hostClientID: this.hostClientID,
+      players: this.activeClients.map((c) => ({
+        clientID: c.clientID,
+        username: c.username,
+        ready: this.readyClients.has(c.clientID),
+      })),
+      chat: this.lobbyChat,
+      gameConfig: this.gameConfig,
+      autoStart: this.autoStart,
+    });
+    if (!lobbyMsg.success) {
+      this.log.error(`error creating lobby message: ${lobbyMsg.error}`);
+      return;
+    }
+    const msg = JSON.stringify(lobbyMsg.data);
+    this.activeClients.forEach((c) => this.send(c.ws, msg));
+    this.spectators.forEach((c) => this.send(c.ws, msg));
+  }
+
+  private addSpectator(client: Client, lastTurn: number) {
+    // Remove stale connection if this is a reconnect
+    const existing = this.spectators.find(
+      (c) => c.clientID === client.clientID,
+    );
+    if (existing) {
+      existing.ws.removeAllListeners("message");
+      this.spectators = this.spectators.filter((c) => c !== existing);
+    }
+
+    if (this.spectators.length >= this.config.maxSpectators()) {
+      this.log.warn("[GameServer] Cannot add spectator, game is full", {
+        gameID: this.id,
+        clientID: client.clientID,
+        clientIP: ipAnonymize(client.ip),
+      });
+      client.ws.close(1000, "Too many spectators");
+      return;
+    }
+
+    this.spectators.push(client);
+    client.lastPing = Date.now();
+    this.log.info("[GameServer] Spectator added", {
+      gameID: this.id,
+      clientID: client.clientID,
+      persistentID: client.persistentID,
+      spectatorsCount: this.spectators.length,
+    });
+
+    client.ws.on(
+      "message",
+      gatekeeper.wsHandler(client.ip, async (message: string) => {
+        websocketMessageBytes.labels("in").observe(Buffer.byteLength(message));
+        try {
+          const clientMsg = ClientMessageSchema.parse(JSON.parse(message));
+          // Intents, hashes and results from spectators are ignored.
+          if (clientMsg.type === "ping") {
+            client.lastPing = Date.now();
+          }
+        } catch (error) {
+          this.log.info(`error parsing spectator message: ${error}`, {
+            clientID: client.clientID,
+          });
+        }
+      }),
+    );
+
+    client.ws.on("close", () => {
+      this.log.info("spectator disconnected", {
+        clientID: client.clientID,
+        persistentID: client.persistentID,
+      });
+      this.spectators = this.spectators.filter((c) => c !== client);
+    });
+
+    client.ws.on("error", (error: Error) =>
+      this.handleSocketError(client, error),
+    );
 
-    // In case a client joined the game late and missed the start message.
     if (this._hasStarted) {
       this.sendStartGameMsg(client.ws, lastTurn);
     }
+    this.broadcastLobby();
+  }
+
+  // Closes connections that sent frames the ws library could not read.
+  private handleSocketError(client: Client, error: NodeJS.ErrnoException) {
+    if (error.code === "WS_ERR_UNEXPECTED_RSV_1") {
+      client.ws.close(1002);
+    }
   }
 
   public numClients(): number {
@@ -325,6 +668,7 @@ export class GameServer {
     const prestartMsg = ServerPrestartMessageSchema.safeParse({
       type: "prestart",
       gameMap: this.gameConfig.gameMap,
+      mapSeed: this.gameConfig.mapSeed,
     });
 
     if (!prestartMsg.success) {
@@ -343,8 +687,9 @@ export class GameServer {
         clientID: c.clientID,
         persistentID: c.persistentID,
       });
-      c.ws.send(msg);
+      this.send(c.ws, msg);
     });
+    this.spectators.forEach((c) => this.send(c.ws, msg));
   }
 
   public start() {
@@ -355,6 +700,7 @@ export class GameServer {
     this._hasStarted = true;
     this._startTime = Date.now();
     this.lastPingUpdate = Date.now();
+    this.loadMapBounds();
 
     this.log.info("[GameServer] Starting game. Current activeClients:", {
       gameID: this.id,
@@ -396,6 +742,85 @@ export class GameServer {
       });
       this.sendStartGameMsg(c.ws, 0);
     });
+    this.spectators.forEach((c) => this.sendStartGameMsg(c.ws, 0));
+  }
+
+  /**
+   * Continues a game saved by a previous worker process. Clients reconnect
+   * with the last turn they saw and get the turns they missed.
+   */
+  public resume(saved: SavedGame) {
+    this._hasPrestarted = true;
+    this._hasStarted = true;
+    this._startTime = saved.startTime;
+    this.lastPingUpdate = Date.now();
+    this.gameStartInfo = saved.gameStartInfo;
+    this.turns = saved.turns;
+    this.restoredPlayers = saved.players;
+    this.kickedClients = new Set(saved.kickedClients);
+    this.flaggedClients = saved.flaggedClients;
+    this.loadMapBounds();
+
+    this.log.info("[GameServer] Resuming saved game", {
+      gameID: this.id,
+      turns: this.turns.length,
+    });
+    this.endTurnIntervalID = setInterval(
+      () => this.endTurn(),
+      this.config.turnIntervalMs(),
+    );
+  }
+
+  // State needed to resume the game, null if it has not started yet.
+  public toSavedGame(now: number): SavedGame | null {
+    if (!this._hasStarted) {
+      return null;
+    }
+    return {
+      id: this.id,
+      createdAt: this.createdAt,
+      startTime: this._startTime ?? 0,
+      savedAt: now,
+      gameConfig: this.gameConfig,
+      gameStartInfo: this.gameStartInfo,
+      turns: this.turns,
+      players: this.playerRecords(),
+      rankedPlayers: this.rankedPlayers,
+      kickedClients: Array.from(this.kickedClients),
+      flaggedClients: this.flaggedClients,
+    };
+  }
+
+  /**
+   * Stops sending turns and disconnects everyone with a restart code, so
+   * clients keep reconnecting until the game is resumed.
+   */
+  public suspend() {
+    clearInterval(this.endTurnIntervalID);
+    [...this.activeClients, ...this.spectators].forEach((client) => {
+      client.ws.removeAllListeners("message");
+      if (client.ws.readyState === WebSocket.OPEN) {
+        client.ws.close(1012, "server restarting");
+      }
+    });
+  }
+
+  private playerRecords(): PlayerRecord[] {
+    const records = new Map(this.restoredPlayers.map((p) => [p.clientID, p]));
+    this.allClients.forEach((client) =>
+      records.set(client.clientID, {
+        ip: ipAnonymize(client.ip),
+        clientID: client.clientID,
+        username: client.username,
+        persistentID: client.persistentID,
+      }),
+    );
+    return Array.from(records.values());
+  }
+
+  private send(ws: WebSocket, msg: string) {
+    websocketMessageBytes.labels("out").observe(Buffer.byteLength(msg));
+    ws.send(msg);
   }
 
   private addIntent(intent: Intent) {
@@ -404,7 +829,8 @@ export class GameServer {
 
   private sendStartGameMsg(ws: WebSocket, lastTurn: number) {
     try {
-      ws.send(
+      this.send(
+        ws,
         JSON.stringify(
           ServerStartGameMessageSchema.parse({
             type: "start",
@@ -425,7 +851,8 @@ export class GameServer {
 
   public sendEndGameMsg(ws: WebSocket, winner_list: ServerPlayerData[]) {
     try {
-      ws.send(
+      this.send(
+        ws,
         JSON.stringify(
           ServerEndGameMessageSchema.parse({
             type: "end",
@@ -445,6 +872,14 @@ export class GameServer {
   }
 
   private endTurn() {
+    const now = Date.now();
+    if (this.lastTurnTime !== 0) {
+      turnIntervalJitter.observe(
+        Math.abs(now - this.lastTurnTime - this.config.turnIntervalMs()) / 1000,
+      );
+    }
+    this.lastTurnTime = now;
+
     const pastTurn: Turn = {
       turnNumber: this.turns.length,
       intents: this.intents,
@@ -471,7 +906,10 @@ export class GameServer {
     }
 
     this.activeClients.forEach((c) => {
-      c.ws.send(msg);
+      this.send(c.ws, msg);
+    });
+    this.spectators.forEach((c) => {
+      this.send(c.ws, msg);
     });
   }
 
@@ -484,21 +922,23 @@ export class GameServer {
         client.ws.close(1000, "game has ended");
       }
     });
+    this.spectators.forEach((client) => {
+      client.ws.removeAllListeners("message");
+      if (client.ws.readyState === WebSocket.OPEN) {
+        client.ws.close(1000, "game has ended");
+      }
+    });
     if (!this._hasPrestarted && !this._hasStarted) {
       this.log.info(`game not started, not archiving game`);
       return;
     }
     this.log.info(`ending game with ${this.turns.length} turns`);
+    if (this.rankedPlayers !== null) {
+      this.reportRankedResult();
+    }
     try {
-      if (this.allClients.size > 0) {
-        const playerRecords: PlayerRecord[] = Array.from(
-          this.allClients.values(),
-        ).map((client) => ({
-          ip: ipAnonymize(client.ip),
-          clientID: client.clientID,
-          username: client.username,
-          persistentID: client.persistentID,
-        }));
+      const playerRecords = this.playerRecords();
+      if (playerRecords.length > 0) {
         archive(
           createGameRecord(
             this.id,
@@ -510,6 +950,7 @@ export class GameServer {
             this.winner?.winner ?? null,
             this.winner?.winnerType ?? null,
             this.allPlayersStats,
+            this.flaggedClients,
           ),
         );
       } else {
@@ -559,6 +1000,15 @@ export class GameServer {
       }
     }
     this.activeClients = alive;
+    this.spectators = this.spectators.filter((client) => {
+      if (now - client.lastPing <= 60_000) {
+        return true;
+      }
+      if (client.ws.readyState === WebSocket.OPEN) {
+        client.ws.close(1000, "no heartbeats received, closing connection");
+      }
+      return false;
+    });
     if (now > this.createdAt + this.maxGameDuration) {
       this.log.warn("game past max duration", {
         gameID: this.id,
@@ -621,6 +1071,7 @@ export class GameServer {
         username: c.username,
         clientID: c.clientID,
       })),
+      numSpectators: this.spectators.length,
       gameConfig: this.gameConfig,
       msUntilStart: this.isPublic()
         ? this.createdAt + this.config.gameCreationRate()
@@ -698,13 +1149,86 @@ export class GameServer {
         continue;
       }
       this.sentDesyncMessageClients.add(c.clientID);
+      desyncs.inc();
       this.log.info("sending desync to client", {
         gameID: this.id,
         clientID: c.clientID,
         persistentID: c.persistentID,
       });
-      c.ws.send(desyncMsg);
+      this.send(c.ws, desyncMsg);
+    }
+  }
+
+  // Asks a client that is in sync for a snapshot of its game to pass on to
+  // the desynced `client`.
+  private handleResync(client: Client) {
+    if (!this._hasStarted || !this.activeClients.includes(client)) {
+      return;
+    }
+    const count = (this.resyncCounts.get(client.clientID) ?? 0) + 1;
+    this.resyncCounts.set(client.clientID, count);
+    if (count > maxResyncsPerClient) {
+      this.log.warn("client exceeded resync limit", {
+        gameID: this.id,
+        clientID: client.clientID,
+      });
+      return;
+    }
+    const peer = this.activeClients.find(
+      (c) =>
+        c !== client &&
+        !this.sentDesyncMessageClients.has(c.clientID) &&
+        !this.snapshotRequests.has(c.clientID),
+    );
+    if (peer === undefined) {
+      this.log.warn("no client in sync to resync from", {
+        gameID: this.id,
+        clientID: client.clientID,
+      });
+      return;
+    }
+    this.log.info("requesting snapshot for desynced client", {
+      gameID: this.id,
+      clientID: client.clientID,
+      peerID: peer.clientID,
+    });
+    this.snapshotRequests.set(client.clientID, peer.clientID);
+    this.send(
+      peer.ws,
+      JSON.stringify(
+        ServerSnapshotRequestSchema.parse({
+          type: "snapshot_request",
+          clientID: client.clientID,
+        }),
+      ),
+    );
+  }
+
+  // Passes a snapshot from the client that was asked for it on to the
+  // desynced client, which reports hashes from scratch afterwards.
+  private handleSnapshot(peer: Client, clientID: ClientID, snapshot: string) {
+    if (this.snapshotRequests.get(clientID) !== peer.clientID) {
+      this.log.warn("unrequested snapshot", {
+        gameID: this.id,
+        clientID: peer.clientID,
+      });
+      return;
     }
+    this.snapshotRequests.delete(clientID);
+    const client = this.activeClients.find((c) => c.clientID === clientID);
+    if (client === undefined) {
+      return;
+    }
+    client.hashes.clear();
+    this.sentDesyncMessageClients.delete(client.clientID);
+    // The snapshot is only passed through, so it skips the schema parse.
+    this.send(
+      client.ws,
+      JSON.stringify({
+        type: "snapshot",
+        snapshot,
+      } satisfies ServerSnapshotMessage),
+    );
   }
 
   findOutOfSyncClients(turnNumber: number): {
@@ -755,6 +1279,31 @@ export class GameServer {
     };
   }
 
+  /**
+   * Sends the final placements of a ranked game to the master, which owns
+   * the ratings. Players who never reported are left for the master to
+   * place last.
+   */
+  private reportRankedResult() {
+    const placements: string[] = [];
+    for (const player of this.getSortedPlayers()) {
+      const id = this.allClients.get(player.clientID)?.persistentID;
+      if (
+        id !== undefined &&
+        this.rankedPlayers?.includes(id) &&
+        !placements.includes(id)
+      ) {
+        placements.push(id);
+      }
+    }
+    this.log.info("reporting ranked result", { placements: placements.length });
+    process.send?.({
+      type: "RANKED_RESULT",
+      gameID: this.id,
+      placements,
+    });
+  }
+
   /*
    * Get the players sorted by survival time, then tilesOwned
    */
@@ -0,0 +1,189 @@
+import { ClientID, Intent } from "../core/Schemas";
+
+/**
+ * A sanity check the server runs on every intent before it enters the
+ * turn stream. The server does not simulate the game, so rules only catch
+ * what is wrong regardless of game state, e.g. a negative troop count.
+ * Whether a player owns the troops they send is still up to executions.
+ */
+export interface IntentRule {
+  // Why the intent must be dropped, null if it is fine.
+  check(intent: Intent, now: number): string | null;
+}
+
+type Bucket = { tokens: number; updatedAt: number };
+
+// Intents allowed per second, and how many may be sent at once.
+export type RateLimit = { perSecond: number; burst: number };
+
+const chatLimit: RateLimit = { perSecond: 0.5, burst: 5 };
+
+export const defaultRateLimits: Partial<Record<Intent["type"], RateLimit>> = {
+  build_unit: { perSecond: 2, burst: 10 },
+  emoji: { perSecond: 0.5, burst: 3 },
+  quick_chat: chatLimit,
+  direct_chat: chatLimit,
+  all_chat: chatLimit,
+  whisper: chatLimit,
+};
+
+const defaultRateLimit: RateLimit = { perSecond: 10, burst: 30 };
+
+/**
+ * Token bucket per client and intent type, so spamming one kind of intent
+ * does not eat into the budget of the others.
+ */
+export class RateLimitRule implements IntentRule {
+  private buckets = new Map<string, Bucket>();
+
+  constructor(
+    private limits: Partial<
+      Record<Intent["type"], RateLimit>
+    > = defaultRateLimits,
+  ) {}
+
+  check(intent: Intent, now: number): string | null {
+    const limit = this.limits[intent.type] ?? defaultRateLimit;
+    const key = `${intent.clientID}:${intent.type}`;
+    const bucket = this.buckets.get(key) ?? {
+      tokens: limit.burst,
+      updatedAt: now,
+    };
+    bucket.tokens = Math.min(
+      limit.burst,
+      bucket.tokens + ((now - bucket.updatedAt) / 1000) * limit.perSecond,
+    );
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+    if (bucket.tokens < 1) {
+      return `too many ${intent.type} intents`;
+    }
+    bucket.tokens -= 1;
+    return null;
+  }
+}
+
+/**
+ * Rejects coordinates and tiles outside the map. Checks nothing until the
+ * map size is known.
+ */
+export class MapBoundsRule implements IntentRule {
+  private width = 0;
+  private height = 0;
+
+  setMapSize(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+  }
+
+  check(intent: Intent): string | null {
+    if (this.width === 0) {
+      return null;
+    }
+    const points: [number, number][] = [];
+    const tiles: number[] = [];
+    switch (intent.type) {
+      case "spawn":
+      case "build_unit":
+        points.push([intent.x, intent.y]);
+        break;
+      case "boat":
+        points.push([intent.dstX, intent.dstY]);
+        if (intent.srcX !== null && intent.srcY !== null) {
+          points.push([intent.srcX, intent.srcY]);
+        }
+        break;
+      case "move_warship":
+        tiles.push(intent.tile);
+        break;
+      case "set_rally_point":
+        if (intent.tile !== null) {
+          tiles.push(intent.tile);
+        }
+        break;
+      case "batch_move_warships":
+        for (const m of intent.movements) {
+          tiles.push(m.targetTile, ...(m.patrolRoute ?? []));
+        }
+        break;
+    }
+    const outside =
+      points.some(
+        ([x, y]) =>
+          !Number.isInteger(x) ||
+          !Number.isInteger(y) ||
+          x < 0 ||
+          y < 0 ||
+          x >= this.width ||
+          y >= this.height,
+      ) ||
+      tiles.some(
+        (t) => !Number.isInteger(t) || t < 0 || t >= this.width * this.height,
+      );
+    return outside ? `${intent.type} outside the map` : null;
+  }
+}
+
+// Troop and gold amounts must be real, non-negative numbers.
+export class AmountRule implements IntentRule {
+  check(intent: Intent): string | null {
+    let amount: number | null = null;
+    switch (intent.type) {
+      case "attack":
+      case "boat":
+      case "donate_troops":
+        amount = intent.troops;
+        break;
+      case "donate_gold":
+        amount = intent.gold;
+        break;
+    }
+    if (amount !== null && (!Number.isFinite(amount) || amount < 0)) {
+      return `${intent.type} with invalid amount ${amount}`;
+    }
+    return null;
+  }
+}
+
+/**
+ * Runs the rules on each intent and counts the intents each client got
+ * rejected. A strike wears off every `strikeDecayMs`, so only clients that
+ * keep sending bad intents reach `maxStrikes` and should be kicked, not
+ * ones that slip up now and then over a long game.
+ */
+export class IntentValidator {
+  private strikes = new Map<ClientID, Bucket>();
+
+  constructor(
+    private rules: IntentRule[],
+    private maxStrikes: number = 20,
+    private strikeDecayMs: number = 60 * 1000,
+  ) {}
+
+  // Why the intent must be dropped, null to accept it.
+  validate(intent: Intent, now: number): string | null {
+    for (const rule of this.rules) {
+      const reason = rule.check(intent, now);
+      if (reason !== null) {
+        this.strike(intent.clientID, now);
+        return reason;
+      }
+    }
+    return null;
+  }
+
+  shouldKick(clientID: ClientID): boolean {
+    return (this.strikes.get(clientID)?.tokens ?? 0) >= this.maxStrikes;
+  }
+
+  private strike(clientID: ClientID, now: number) {
+    const bucket = this.strikes.get(clientID) ?? { tokens: 0, updatedAt: now };
+    bucket.tokens =
+      Math.max(
+        0,
+        bucket.tokens - (now - bucket.updatedAt) / this.strikeDecayMs,
+      ) + 1;
+    bucket.updatedAt = now;
+    this.strikes.set(clientID, bucket);
+  }
+}
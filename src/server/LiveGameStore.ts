@@ -0,0 +1,72 @@
+import {
+  ClientFlag,
+  ClientID,
+  GameConfig,
+  GameID,
+  GameStartInfo,
+  PlayerRecord,
+  Turn,
+} from "../core/Schemas";
+import { ArchiveStorage } from "./ArchiveStorage";
+
+/**
+ * A started game as saved when its worker shuts down. The clients run the
+ * simulation, so the turns are all the server needs to keep the game going
+ * for players who reconnect.
+ */
+export interface SavedGame {
+  id: GameID;
+  createdAt: number;
+  startTime: number;
+  savedAt: number;
+  gameConfig: GameConfig;
+  gameStartInfo: GameStartInfo;
+  turns: Turn[];
+  // Everyone who played so far, for the game record.
+  players: PlayerRecord[];
+  rankedPlayers: string[] | null;
+  kickedClients: ClientID[];
+  flaggedClients: ClientFlag[];
+}
+
+// Clients stop trying to reconnect long before this, older games are
+// dropped instead of resumed.
+const maxSavedGameAgeMs = 10 * 60 * 1000;
+
+/**
+ * Games a worker saved on shutdown, stored as one record per worker id so
+ * the worker that replaces it picks them up. Game ids are routed to a
+ * worker by id, so reconnecting clients land on the same worker.
+ */
+export class LiveGameStore {
+  constructor(
+    private storage: ArchiveStorage | null,
+    private workerId: number,
+  ) {}
+
+  private key(): string {
+    return `live/worker-${this.workerId}.json`;
+  }
+
+  async save(games: SavedGame[]) {
+    if (this.storage === null) return;
+    await this.storage.write(
+      this.key(),
+      JSON.stringify(games),
+      "application/json",
+    );
+  }
+
+  /**
+   * Returns the games saved by the previous process of this worker and
+   * clears them, so a game is resumed at most once.
+   */
+  async take(now: number): Promise<SavedGame[]> {
+    if (this.storage === null) return [];
+    const body = await this.storage.read(this.key());
+    if (body === null) return [];
+    await this.storage.write(this.key(), "[]", "application/json");
+    const games = JSON.parse(body) as SavedGame[];
+    return games.filter((g) => now - g.savedAt < maxSavedGameAgeMs);
+  }
+}
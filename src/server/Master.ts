@@ -1,20 +1,37 @@
 import cluster from "cluster";
 import cors from "cors";
-import express from "express";
+import express, { Request } from "express";
 import rateLimit from "express-rate-limit";
 import http from "http";
 import path from "path";
 import { fileURLToPath } from "url";
+import { GameEnv } from "../core/configuration/Config";
 import { getServerConfigFromServer } from "../core/configuration/ConfigLoader";
-import { GameInfo } from "../core/Schemas";
+import { GameConfig, GameInfo } from "../core/Schemas";
 import { generateID, MIN_PLAYERS_TO_START } from "../core/Util";
+import { sanitizeUsername } from "../core/validations/username";
+import { createArchiveStorage } from "./ArchiveStorage";
 import { gatekeeper, LimiterType } from "./Gatekeeper";
+import { verifyClientToken } from "./jwt";
 import { logger } from "./Logger";
 import { MapPlaylist } from "./MapPlaylist";
+import { MatchmakingQueue, QueueEntry } from "./Matchmaking";
+import { metricsHandler, registerMasterMetrics } from "./PrometheusMetrics";
+import { RatingStore } from "./RatingStore";
 
 const config = getServerConfigFromServer();
 const playlist = new MapPlaylist();
 const readyWorkers = new Set();
+const matchmaking = new MatchmakingQueue();
+// Separate from the public lobbies so ranked games don't skip their maps.
+const rankedPlaylist = new MapPlaylist();
+const ratings = new RatingStore(createArchiveStorage(config));
+// Players matched into each ranked game still running, so the ones who
+// never showed up can be rated too.
+const rankedGames = new Map<string, QueueEntry[]>();
+
+// Orchestrators usually kill the container 10 seconds after SIGTERM.
+const workerShutdownTimeoutMs = 8000;
 
 const app = express();
 const server = http.createServer(app);
@@ -90,6 +107,19 @@ export async function startMaster() {
   }
 
   log.info(`Primary ${process.pid} is running`);
+
+  // Workers import this module too, only the primary knows these numbers.
+  registerMasterMetrics(
+    () => readyWorkers.size,
+    () => publicLobbyIDs.size,
+    () => matchmaking.size(),
+  );
+
+  try {
+    await ratings.load();
+  } catch (error) {
+    log.error("Error loading player ratings:", error);
+  }
   log.info(`Setting up ${config.numWorkers()} workers...`);
 
   // Fork workers with staggered startup to prevent race conditions
@@ -107,6 +137,12 @@ export async function startMaster() {
   }
 
   cluster.on("message", (worker, message) => {
+    if (message.type === "RANKED_RESULT") {
+      recordRankedResult(message.gameID, message.placements).catch((error) => {
+        log.error(`Error rating game ${message.gameID}:`, error);
+      });
+      return;
+    }
     if (message.type === "WORKER_READY") {
       const workerId = message.workerId;
       readyWorkers.add(workerId);
@@ -132,6 +168,14 @@ export async function startMaster() {
             }),
           100,
         );
+
+        setInterval(
+          () =>
+            scheduleRankedGames().catch((error) => {
+              log.error("Error scheduling ranked games:", error);
+            }),
+          1000,
+        );
       }
     }
   });
@@ -159,8 +203,31 @@ export async function startMaster() {
     }
   }, 60000); // 60 second timeout
 
+  // Workers save their games in progress on SIGTERM, the master waits for
+  // them before exiting so a deploy does not lose any game.
+  let shuttingDown = false;
+  process.on("SIGTERM", () => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    log.info("received SIGTERM, stopping workers");
+    for (const worker of Object.values(cluster.workers ?? {})) {
+      worker?.process.kill("SIGTERM");
+    }
+    setTimeout(() => {
+      log.warn("workers did not exit in time, exiting anyway");
+      process.exit(0);
+    }, workerShutdownTimeoutMs);
+  });
+
   // Handle worker crashes and add health monitoring
   cluster.on("exit", (worker, code, signal) => {
+    if (shuttingDown) {
+      if (Object.keys(cluster.workers ?? {}).length === 0) {
+        log.info("all workers stopped, exiting");
+        process.exit(0);
+      }
+      return;
+    }
     const workerId = (worker as any).process?.env?.WORKER_ID;
     if (!workerId) {
       log.error(`worker crashed could not find id`);
@@ -260,6 +327,85 @@ app.post(
   }),
 );
 
+// Persistent id of the signed in player making the request, null if the
+// token is missing, invalid or anonymous. Anonymous ids are fine in dev.
+async function rankedPlayerID(req: Request): Promise<string | null> {
+  const header = req.headers.authorization;
+  if (header === undefined || !header.startsWith("Bearer ")) {
+    return null;
+  }
+  try {
+    const { persistentId, claims } = await verifyClientToken(
+      header.substring("Bearer ".length),
+      config,
+    );
+    if (claims === null && config.env() !== GameEnv.Dev) {
+      return null;
+    }
+    return persistentId;
+  } catch (error) {
+    return null;
+  }
+}
+
+// Join the ranked queue, or see whether a game was found.
+app.post(
+  "/api/matchmaking",
+  gatekeeper.httpHandler(LimiterType.Post, async (req, res) => {
+    const persistentID = await rankedPlayerID(req);
+    if (persistentID === null) {
+      res.status(401).send("Unauthorized");
+      return;
+    }
+    const now = Date.now();
+    matchmaking.join({
+      persistentID,
+      username: sanitizeUsername(String(req.body?.username ?? "")),
+      rating: ratings.get(persistentID).rating,
+      joinedAt: now,
+    });
+    res.json(matchmaking.status(persistentID, now));
+  }),
+);
+
+app.get(
+  "/api/matchmaking",
+  gatekeeper.httpHandler(LimiterType.Get, async (req, res) => {
+    const persistentID = await rankedPlayerID(req);
+    if (persistentID === null) {
+      res.status(401).send("Unauthorized");
+      return;
+    }
+    res.json(matchmaking.status(persistentID, Date.now()));
+  }),
+);
+
+app.delete(
+  "/api/matchmaking",
+  gatekeeper.httpHandler(LimiterType.Post, async (req, res) => {
+    const persistentID = await rankedPlayerID(req);
+    if (persistentID === null) {
+      res.status(401).send("Unauthorized");
+      return;
+    }
+    matchmaking.leave(persistentID);
+    res.json(matchmaking.status(persistentID, Date.now()));
+  }),
+);
+
+app.get(
+  "/api/leaderboard",
+  gatekeeper.httpHandler(LimiterType.Get, async (req, res) => {
+    const limit = parseInt(String(req.query.limit ?? "50"));
+    res.json({
+      players: ratings.leaderboard(
+        Math.min(Math.max(isNaN(limit) ? 50 : limit, 1), 100),
+        Date.now(),
+      ),
+    });
+  }),
+);
+
 async function fetchLobbies(): Promise<number> {
   const fetchPromises: Promise<GameInfo | null>[] = [];
 
@@ -369,6 +515,73 @@ async function schedulePublicGame(playlist: MapPlaylist) {
   }
 }
 
+// Creates a game for every group the ranked queue matched.
+async function scheduleRankedGames() {
+  for (const players of matchmaking.findMatches(Date.now())) {
+    const gameID = generateID();
+    const gameConfig: GameConfig = {
+      ...rankedPlaylist.gameConfig(),
+      maxPlayers: players.length,
+      bots: 0,
+    };
+    try {
+      const response = await fetch(
+        `http://localhost:${config.workerPort(gameID)}/api/create_game/${gameID}`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            [config.adminHeader()]: config.adminToken(),
+          },
+          body: JSON.stringify({
+            gameConfig,
+            rankedPlayers: players.map((p) => p.persistentID),
+          }),
+        },
+      );
+      if (!response.ok) {
+        throw new Error(response.statusText);
+      }
+    } catch (error) {
+      log.error(`Failed to create ranked game ${gameID}:`, error);
+      // Put everyone back in line, keeping their wait time.
+      players.forEach((p) => matchmaking.join(p));
+      continue;
+    }
+    rankedGames.set(gameID, players);
+    matchmaking.assign(players, gameID, Date.now());
+    log.info(`created ranked game ${gameID} for ${players.length} players`);
+  }
+}
+
+async function recordRankedResult(gameID: string, placements: string[]) {
+  const players = rankedGames.get(gameID) ?? [];
+  rankedGames.delete(gameID);
+  // Players who never reported, or never joined, are placed last.
+  const ordered = [
+    ...placements,
+    ...players
+      .map((p) => p.persistentID)
+      .filter((id) => !placements.includes(id)),
+  ];
+  if (ordered.length < 2) {
+    log.info(`ranked game ${gameID} had fewer than 2 players, not rated`);
+    return;
+  }
+  const usernames = new Map(players.map((p) => [p.persistentID, p.username]));
+  await ratings.recordGame(
+    ordered.map((persistentID) => ({
+      persistentID,
+      username: usernames.get(persistentID) ?? ratings.username(persistentID),
+    })),
+    Date.now(),
+  );
+  log.info(`rated ranked game ${gameID} with ${ordered.length} players`);
+}
+
+if (config.metricsToken() !== "") {
+  app.get("/metrics", metricsHandler(config.metricsToken()));
+}
 
 // SPA fallback route
 app.get("*", function (req, res) {
@@ -0,0 +1,128 @@
+import { GameID } from "../core/Schemas";
+
+export interface QueueEntry {
+  persistentID: string;
+  username: string;
+  rating: number;
+  joinedAt: number;
+}
+
+export type QueueStatus =
+  | { state: "idle" }
+  | { state: "queued"; waitedMs: number; playersInQueue: number }
+  | { state: "matched"; gameID: GameID };
+
+// Rating difference accepted right away, it widens the longer players wait.
+const baseRatingWindow = 100;
+const ratingWindowGrowthPerSecond = 5;
+const maxRatingWindow = 1000;
+// After this long a smaller game is better than waiting for a full one.
+const maxWaitMs = 60_000;
+// How long a matched player has to pick up their game id.
+const matchExpiryMs = 120_000;
+
+/**
+ * Players waiting for a ranked game, grouped by rating. The queue only
+ * decides who plays together, creating the game is up to the caller.
+ */
+export class MatchmakingQueue {
+  private entries = new Map<string, QueueEntry>();
+  private matched = new Map<string, { gameID: GameID; at: number }>();
+
+  constructor(
+    private matchSize: number = 4,
+    private minMatchSize: number = 2,
+  ) {}
+
+  join(entry: QueueEntry) {
+    this.matched.delete(entry.persistentID);
+    if (!this.entries.has(entry.persistentID)) {
+      this.entries.set(entry.persistentID, entry);
+    }
+  }
+
+  leave(persistentID: string) {
+    this.entries.delete(persistentID);
+    this.matched.delete(persistentID);
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+
+  status(persistentID: string, now: number): QueueStatus {
+    const match = this.matched.get(persistentID);
+    if (match !== undefined && now - match.at < matchExpiryMs) {
+      return { state: "matched", gameID: match.gameID };
+    }
+    const entry = this.entries.get(persistentID);
+    if (entry === undefined) {
+      return { state: "idle" };
+    }
+    return {
+      state: "queued",
+      waitedMs: now - entry.joinedAt,
+      playersInQueue: this.entries.size,
+    };
+  }
+
+  /**
+   * Takes groups of players with close ratings out of the queue. The
+   * longest waiting player anchors each group and picks the closest
+   * ratings within its window.
+   */
+  findMatches(now: number): QueueEntry[][] {
+    for (const [id, match] of this.matched) {
+      if (now - match.at >= matchExpiryMs) {
+        this.matched.delete(id);
+      }
+    }
+
+    const byWait = Array.from(this.entries.values()).sort(
+      (a, b) => a.joinedAt - b.joinedAt,
+    );
+    const taken = new Set<string>();
+    const matches: QueueEntry[][] = [];
+    for (const anchor of byWait) {
+      if (taken.has(anchor.persistentID)) continue;
+      const waited = now - anchor.joinedAt;
+      const window = ratingWindow(waited);
+      const group = byWait
+        .filter(
+          (e) =>
+            !taken.has(e.persistentID) &&
+            Math.abs(e.rating - anchor.rating) <= window,
+        )
+        .sort(
+          (a, b) =>
+            Math.abs(a.rating - anchor.rating) -
+            Math.abs(b.rating - anchor.rating),
+        )
+        .slice(0, this.matchSize);
+      if (
+        group.length < this.matchSize &&
+        (group.length < this.minMatchSize || waited < maxWaitMs)
+      ) {
+        continue;
+      }
+      group.forEach((e) => taken.add(e.persistentID));
+      matches.push(group);
+    }
+    taken.forEach((id) => this.entries.delete(id));
+    return matches;
+  }
+
+  // Records the game created for a match so its players can find it.
+  assign(players: QueueEntry[], gameID: GameID, now: number) {
+    players.forEach((p) =>
+      this.matched.set(p.persistentID, { gameID, at: now }),
+    );
+  }
+}
+
+export function ratingWindow(waitedMs: number): number {
+  return Math.min(
+    maxRatingWindow,
+    baseRatingWindow + (waitedMs / 1000) * ratingWindowGrowthPerSecond,
+  );
+}
@@ -0,0 +1,122 @@
+import { Request, Response } from "express";
+import client from "prom-client";
+import { GameManager } from "./GameManager";
+
+/**
+ * Metrics of this process in the Prometheus text format, served on /metrics
+ * by the master and by every worker once METRICS_TOKEN is set. Unlike
+ * WorkerMetrics, which pushes to an OTLP collector in production only, these
+ * are always recorded.
+ */
+export const registry = new client.Registry();
+
+client.collectDefaultMetrics({ register: registry, prefix: "solarfront_" });
+
+export const turnIntervalJitter = new client.Histogram({
+  name: "solarfront_turn_interval_jitter_seconds",
+  help: "How far the time between two turns was off the turn interval",
+  buckets: [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1],
+  registers: [registry],
+});
+
+export const desyncs = new client.Counter({
+  name: "solarfront_desyncs_total",
+  help: "Clients whose state hash disagreed with the other clients",
+  registers: [registry],
+});
+
+export const intentsReceived = new client.Counter({
+  name: "solarfront_intents_total",
+  help: "Intents accepted from clients",
+  labelNames: ["type"] as const,
+  registers: [registry],
+});
+
+export const websocketMessageBytes = new client.Histogram({
+  name: "solarfront_websocket_message_bytes",
+  help: "Size of WebSocket messages exchanged with clients",
+  labelNames: ["direction"] as const,
+  buckets: client.exponentialBuckets(64, 4, 8),
+  registers: [registry],
+});
+
+export const archiveFailures = new client.Counter({
+  name: "solarfront_archive_failures_total",
+  help: "Games that could not be archived",
+  registers: [registry],
+});
+
+// Gauges read from the game manager on every scrape. Games are not
+// labeled by id, private lobby ids are their join codes.
+export function registerGameMetrics(gm: GameManager) {
+  const clients = new client.Gauge({
+    name: "solarfront_clients",
+    help: "Connected clients on this worker by game phase",
+    labelNames: ["phase"] as const,
+  });
+  const maxClients = new client.Gauge({
+    name: "solarfront_game_clients_max",
+    help: "Connected clients of the most crowded game on this worker",
+  });
+  // Registered first so its collect fills the other two before they are
+  // read.
+  new client.Gauge({
+    name: "solarfront_games",
+    help: "Games on this worker by phase",
+    labelNames: ["phase"] as const,
+    registers: [registry],
+    collect() {
+      for (const [phase, stats] of gm.phaseStats()) {
+        this.set({ phase }, stats.games);
+        clients.set({ phase }, stats.clients);
+      }
+      let max = 0;
+      for (const game of gm.getAllGames().values()) {
+        max = Math.max(max, game.activeClients.length);
+      }
+      maxClients.set(max);
+    },
+  });
+  registry.registerMetric(clients);
+  registry.registerMetric(maxClients);
+}
+
+export function registerMasterMetrics(
+  readyWorkers: () => number,
+  publicLobbies: () => number,
+  rankedQueue: () => number,
+) {
+  const gauges: [string, string, () => number][] = [
+    ["solarfront_ready_workers", "Workers ready to host games", readyWorkers],
+    ["solarfront_public_lobbies", "Public lobbies open to join", publicLobbies],
+    [
+      "solarfront_ranked_queue",
+      "Players waiting for a ranked game",
+      rankedQueue,
+    ],
+  ];
+  for (const [name, help, value] of gauges) {
+    new client.Gauge({
+      name,
+      help,
+      registers: [registry],
+      collect() {
+        this.set(value());
+      },
+    });
+  }
+}
+
+/**
+ * Express handler for /metrics. Scrapers have to send the token as a bearer
+ * token, nothing is served without one configured.
+ */
+export function metricsHandler(token: string) {
+  return async (req: Request, res: Response) => {
+    if (token === "" || req.headers.authorization !== `Bearer ${token}`) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+    res.set("Content-Type", registry.contentType);
+    res.send(await registry.metrics());
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * Glicko ratings for ranked games. A game with several players counts as
+ * one rating period in which everyone played everyone else, beating the
+ * players placed below them and losing to the ones placed above.
+ */
+export interface Rating {
+  rating: number;
+  // How unsure we are of the rating, shrinks with every game played.
+  deviation: number;
+  games: number;
+  // Timestamp in ms of the last ranked game, 0 if never played.
+  lastPlayed: number;
+}
+
+const initialRating = 1500;
+const maxDeviation = 350;
+const minDeviation = 30;
+// Deviation growth per idle day, a 50 deviation returns to the maximum
+// after about 100 days without games.
+const deviationGrowthPerDay = 34.6;
+const dayMs = 24 * 60 * 60 * 1000;
+
+const q = Math.log(10) / 400;
+
+export function newRating(): Rating {
+  return {
+    rating: initialRating,
+    deviation: maxDeviation,
+    games: 0,
+    lastPlayed: 0,
+  };
+}
+
+// Deviation at `now`, grown by the time since the last game.
+export function currentDeviation(r: Rating, now: number): number {
+  if (r.games === 0) {
+    return r.deviation;
+  }
+  const days = Math.max(0, now - r.lastPlayed) / dayMs;
+  return Math.min(
+    maxDeviation,
+    Math.sqrt(r.deviation ** 2 + deviationGrowthPerDay ** 2 * days),
+  );
+}
+
+// A rating is only as good as its deviation allows, used for leaderboards.
+export function conservativeRating(r: Rating, now: number): number {
+  return r.rating - 2 * currentDeviation(r, now);
+}
+
+function g(deviation: number): number {
+  return 1 / Math.sqrt(1 + (3 * q * q * deviation * deviation) / Math.PI ** 2);
+}
+
+function expectedScore(
+  rating: number,
+  opponent: number,
+  opponentDeviation: number,
+): number {
+  return 1 / (1 + 10 ** ((-g(opponentDeviation) * (rating - opponent)) / 400));
+}
+
+/**
+ * New ratings of the players of a finished game, given in placement
+ * order with the winner first.
+ */
+export function rateGame(placements: Rating[], now: number): Rating[] {
+  const deviations = placements.map((r) => currentDeviation(r, now));
+  return placements.map((player, i) => {
+    if (placements.length < 2) {
+      return { ...player, deviation: deviations[i] };
+    }
+    let variance = 0;
+    let improvement = 0;
+    placements.forEach((opponent, j) => {
+      if (i === j) return;
+      const gj = g(deviations[j]);
+      const e = expectedScore(player.rating, opponent.rating, deviations[j]);
+      const score = i < j ? 1 : 0;
+      variance += gj * gj * e * (1 - e);
+      improvement += gj * (score - e);
+    });
+    const d2 = 1 / (q * q * variance);
+    const precision = 1 / deviations[i] ** 2 + 1 / d2;
+    return {
+      rating: player.rating + (q / precision) * improvement,
+      deviation: Math.max(minDeviation, Math.sqrt(1 / precision)),
+      games: player.games + 1,
+      lastPlayed: now,
+    };
+  });
+}
@@ -0,0 +1,94 @@
+import { ArchiveStorage } from "./ArchiveStorage";
+import {
+  conservativeRating,
+  currentDeviation,
+  newRating,
+  rateGame,
+  Rating,
+} from "./Rating";
+
+export interface PlayerRating extends Rating {
+  persistentID: string;
+  username: string;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  username: string;
+  rating: number;
+  deviation: number;
+  games: number;
+}
+
+const ratingsKey = "ratings/players.json";
+
+/**
+ * Ratings of every ranked player, kept in memory and written back to the
+ * archive storage as one record after each game. Only the master process
+ * owns a store so there is a single writer.
+ */
+export class RatingStore {
+  private ratings = new Map<string, PlayerRating>();
+
+  constructor(private storage: ArchiveStorage | null) {}
+
+  async load() {
+    if (this.storage === null) return;
+    const body = await this.storage.read(ratingsKey);
+    if (body === null) return;
+    const players = JSON.parse(body) as PlayerRating[];
+    this.ratings = new Map(players.map((p) => [p.persistentID, p]));
+  }
+
+  get(persistentID: string): Rating {
+    return this.ratings.get(persistentID) ?? newRating();
+  }
+
+  // Name the player had in their last ranked game, empty if never rated.
+  username(persistentID: string): string {
+    return this.ratings.get(persistentID)?.username ?? "";
+  }
+
+  /**
+   * Updates the ratings from a finished game, players given in placement
+   * order with the winner first.
+   */
+  async recordGame(
+    placements: { persistentID: string; username: string }[],
+    now: number,
+  ) {
+    const updated = rateGame(
+      placements.map((p) => this.get(p.persistentID)),
+      now,
+    );
+    placements.forEach((p, i) => {
+      this.ratings.set(p.persistentID, {
+        ...updated[i],
+        persistentID: p.persistentID,
+        username: p.username,
+      });
+    });
+    if (this.storage !== null) {
+      await this.storage.write(
+        ratingsKey,
+        JSON.stringify(Array.from(this.ratings.values())),
+        "application/json",
+      );
+    }
+  }
+
+  // Best players first, by rating minus twice the deviation.
+  leaderboard(limit: number, now: number): LeaderboardEntry[] {
+    return Array.from(this.ratings.values())
+      .filter((p) => p.games > 0)
+      .sort((a, b) => conservativeRating(b, now) - conservativeRating(a, now))
+      .slice(0, limit)
+      .map((p, i) => ({
+        rank: i + 1,
+        username: p.username,
+        rating: Math.round(p.rating),
+        deviation: Math.round(currentDeviation(p, now)),
+        games: p.games,
+      }));
+  }
+}
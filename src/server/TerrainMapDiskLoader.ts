@@ -0,0 +1,110 @@
+import fs from "fs/promises";
+import path from "path";
+import { GameMapID, GameMapType } from "../core/game/Game";
+import { MapPackageInfo } from "../core/game/MapPackage";
+import {
+  PROCEDURAL_MAP_HEIGHT,
+  PROCEDURAL_MAP_WIDTH,
+} from "../core/game/ProceduralMapGenerator";
+import { isBuiltInMap, mapFileBase } from "../core/game/TerrainMapFileLoader";
+import {
+  genProceduralTerrain,
+  genTerrainFromBin,
+  NationMap,
+  TerrainMapData,
+} from "../core/game/TerrainMapLoader";
+
+// Procedural maps are cached per seed.
+const loadedMaps = new Map<string, TerrainMapData>();
+
+const mapsDir = path.resolve(process.cwd(), "resources", "maps");
+
+/**
+ * Node counterpart of loadTerrainMap: reads the generated map files straight
+ * from resources/maps instead of going through webpack's binary-loader.
+ */
+export async function loadTerrainMapFromDisk(
+  map: GameMapID,
+  mapSeed: number = 0,
+): Promise<TerrainMapData> {
+  const key = map === GameMapType.Procedural ? `${map}:${mapSeed}` : map;
+  const cached = loadedMaps.get(key);
+  if (cached !== undefined) return cached;
+  const result = await readTerrainMapFromDisk(map, mapSeed);
+  loadedMaps.set(key, result);
+  return result;
+}
+
+// Uncached load, for tools that simulate several games on the same map.
+export async function readTerrainMapFromDisk(
+  map: GameMapID,
+  mapSeed: number = 0,
+): Promise<TerrainMapData> {
+  if (map === GameMapType.Procedural) {
+    return genProceduralTerrain(mapSeed);
+  }
+  const fileName = mapFileBase(map);
+
+  const [mapBin, miniMapBin, nationJson] = await Promise.all([
+    readBin(path.join(mapsDir, fileName + ".bin")),
+    readBin(path.join(mapsDir, fileName + "Mini.bin")),
+    fs.readFile(path.join(mapsDir, fileName + ".json"), "utf8"),
+  ]);
+
+  return {
+    nationMap: JSON.parse(nationJson) as NationMap,
+    gameMap: await genTerrainFromBin(mapBin),
+    miniGameMap: await genTerrainFromBin(miniMapBin),
+  };
+}
+
+/**
+ * Width and height of a map from the header of its terrain file, without
+ * loading the terrain.
+ */
+export async function readMapSize(
+  map: GameMapID,
+): Promise<{ width: number; height: number }> {
+  if (map === GameMapType.Procedural) {
+    return { width: PROCEDURAL_MAP_WIDTH, height: PROCEDURAL_MAP_HEIGHT };
+  }
+  const file = await fs.open(path.join(mapsDir, mapFileBase(map) + ".bin"));
+  try {
+    const header = Buffer.alloc(4);
+    await file.read(header, 0, 4, 0);
+    return { width: header.readUInt16LE(0), height: header.readUInt16LE(2) };
+  } finally {
+    await file.close();
+  }
+}
+
+// Map packages registered by the last map build.
+export async function readMapPackages(): Promise<MapPackageInfo[]> {
+  try {
+    const index = await fs.readFile(
+      path.join(mapsDir, "packages", "index.json"),
+      "utf8",
+    );
+    return JSON.parse(index) as MapPackageInfo[];
+  } catch {
+    return [];
+  }
+}
+
+// Whether games may be played on the map.
+export async function isRegisteredMap(map: GameMapID): Promise<boolean> {
+  return (
+    isBuiltInMap(map) || (await readMapPackages()).some((p) => p.id === map)
+  );
+}
+
+async function readBin(filePath: string): Promise<string> {
+  try {
+    // binary-loader exposes one char per byte, latin1 gives the same string.
+    return (await fs.readFile(filePath)).toString("latin1");
+  } catch (error) {
+    throw new Error(
+      `could not read ${filePath}, run "npm run build-map" first: ${error}`,
+    );
+  }
+}
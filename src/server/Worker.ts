@@ -6,16 +6,30 @@ import ipAnonymize from "ip-anonymize";
 import path from "path";
 import { fileURLToPath } from "url";
 import { WebSocket, WebSocketServer } from "ws";
+import { z } from "zod";
 import { GameEnv } from "../core/configuration/Config";
 import { getServerConfigFromServer } from "../core/configuration/ConfigLoader";
+import { aiStrategyNames } from "../core/execution/ai/AIPlayer";
 import { GameType } from "../core/game/Game";
-import { ClientMessageSchema, GameConfig, GameRecord } from "../core/Schemas";
+import {
+  BalanceProfileSchema,
+  ClientMessageSchema,
+  GameConfig,
+  GameRecord,
+  NationStrategiesSchema,
+  PersistentIdSchema,
+  VictoryConditionSchema,
+} from "../core/Schemas";
 import { archive, readGameRecord } from "./Archive";
+import { createArchiveStorage } from "./ArchiveStorage";
 import { Client } from "./Client";
 import { GameManager } from "./GameManager";
 import { gatekeeper, LimiterType } from "./Gatekeeper";
 import { verifyClientToken } from "./jwt";
+import { LiveGameStore } from "./LiveGameStore";
 import { logger } from "./Logger";
+import { metricsHandler, registerGameMetrics } from "./PrometheusMetrics";
+import { isRegisteredMap } from "./TerrainMapDiskLoader";
 import { initWorkerMetrics } from "./WorkerMetrics";
 
 const config = getServerConfigFromServer();
@@ -56,6 +70,7 @@ export function startWorker() {
   if (config.env() === GameEnv.Prod && config.otelEnabled()) {
     initWorkerMetrics(gm);
   }
+  registerGameMetrics(gm);
 
   // Middleware to handle /wX path prefix
   app.use((req, res, next) => {
@@ -114,6 +129,11 @@ export function startWorker() {
           .json({ error: "Invalid admin token for public game creation" });
       }
 
+      if (gc?.gameMap !== undefined && !(await isRegisteredMap(gc.gameMap))) {
+        log.warn(`cannot create game ${id}, unknown map ${gc.gameMap}`);
+        return res.status(400).json({ error: "Unknown map" });
+      }
+
       // Double-check this worker should host this game
       const expectedWorkerId = config.workerIndex(id);
       if (expectedWorkerId !== workerId) {
@@ -123,7 +143,20 @@ export function startWorker() {
         return res.status(400).json({ error: "Worker, game id mismatch" });
       }
 
-      const game = await gm.createGame(id, gc);
+      const rankedPlayers = z
+        .array(PersistentIdSchema)
+        .optional()
+        .safeParse(req.body?.rankedPlayers);
+      if (!rankedPlayers.success) {
+        log.warn(`cannot create game ${id}, invalid ranked players`);
+        return res.status(400).json({ error: "Invalid ranked players" });
+      }
+      // Only the master creates ranked games, along with the public ones.
+      const game = await gm.createGame(
+        id,
+        gc,
+        gc?.gameType === GameType.Public ? (rankedPlayers.data ?? null) : null,
+      );
 
       log.info(
         `Worker ${workerId}: IP ${ipAnonymize(clientIP)} creating game ${game.isPublic() ? "Public" : "Private"} with id ${id}`,
@@ -201,22 +234,74 @@ export function startWorker() {
           .status(400)
           .json({ error: "Cannot update game after it has started" });
       }
+      // Every client simulates with the profile, reject it here rather than
+      // letting the game fail to start.
+      const balance = BalanceProfileSchema.optional().safeParse(
+        req.body.balance,
+      );
+      if (!balance.success) {
+        log.warn(`invalid balance profile for game ${game.id}`);
+        return res.status(400).json({ error: "Invalid balance profile" });
+      }
+      const victory = VictoryConditionSchema.optional().safeParse(
+        req.body.victory,
+      );
+      if (!victory.success) {
+        log.warn(`invalid victory condition for game ${game.id}`);
+        return res.status(400).json({ error: "Invalid victory condition" });
+      }
+      const nationStrategies = NationStrategiesSchema.optional().safeParse(
+        req.body.nationStrategies,
+      );
+      const registered = aiStrategyNames();
+      if (
+        !nationStrategies.success ||
+        Object.values(nationStrategies.data ?? {}).some(
+          (name) => !registered.includes(name),
+        )
+      ) {
+        log.warn(`invalid nation strategies for game ${game.id}`);
+        return res.status(400).json({ error: "Invalid nation strategies" });
+      }
+      if (
+        req.body.gameMap !== undefined &&
+        !(await isRegisteredMap(req.body.gameMap))
+      ) {
+        log.warn(`unknown map ${req.body.gameMap} for game ${game.id}`);
+        return res.status(400).json({ error: "Unknown map" });
+      }
+      if (
+        req.body.mapSeed !== undefined &&
+        !Number.isInteger(req.body.mapSeed)
+      ) {
+        log.warn(`invalid map seed for game ${game.id}`);
+        return res.status(400).json({ error: "Invalid map seed" });
+      }
       game.updateGameConfig({
         gameMap: req.body.gameMap,
+        mapSeed: req.body.mapSeed,
         difficulty: req.body.difficulty,
         infiniteGold: req.body.infiniteGold,
         infiniteTroops: req.body.infiniteTroops,
         instantBuild: req.body.instantBuild,
+        fogOfWar: req.body.fogOfWar,
         bots: req.body.bots,
         disableNPCs: req.body.disableNPCs,
         disabledUnits: req.body.disabledUnits,
         gameMode: req.body.gameMode,
         playerTeams: req.body.playerTeams,
+        victory: victory.data,
+        nationStrategies: nationStrategies.data,
+        balance: balance.data,
       });
       res.status(200).json({ success: true });
     }),
   );
 
+  if (config.metricsToken() !== "") {
+    app.get("/metrics", metricsHandler(config.metricsToken()));
+  }
+
   app.get(
     "/api/game/:id/exists",
     gatekeeper.httpHandler(LimiterType.Get, async (req, res) => {
@@ -361,6 +446,7 @@ export function startWorker() {
               ws,
               clientMsg.flag,
               clientMsg.walletAddress || null,
+              clientMsg.spectator ?? false,
             );
 
             const wasFound = gm.addClient(
@@ -396,21 +482,54 @@ export function startWorker() {
     });
   });
 
-  // The load balancer will handle routing to this server based on path
-  const PORT = config.workerPortByIndex(workerId);
-  server.listen(PORT, () => {
-    log.info(`running on http://localhost:${PORT}`);
-    log.info(`Handling requests with path prefix /w${workerId}/`);
-    // Signal to the master process that this worker is ready
-    if (process.send) {
-      process.send({
-        type: "WORKER_READY",
-        workerId: workerId,
-      });
-      log.info(`signaled ready state to master`);
+  // Games saved by the previous process are resumed before accepting
+  // connections, so reconnecting clients find them.
+  const liveGames = new LiveGameStore(createArchiveStorage(config), workerId);
+  const resumed = liveGames
+    .take(Date.now())
+    .then((games) => {
+      games.forEach((g) => gm.resumeGame(g));
+      if (games.length > 0) {
+        log.info(`resumed ${games.length} saved games`);
+      }
+    })
+    .catch((error) => {
+      log.error(`error resuming saved games:`, error);
+    });
+
+  let shuttingDown = false;
+  process.on("SIGTERM", async () => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    log.info(`received SIGTERM, saving games in progress`);
+    try {
+      const games = gm.shutdown(Date.now());
+      await liveGames.save(games);
+      log.info(`saved ${games.length} games`);
+    } catch (error) {
+      log.error(`error saving games on shutdown:`, error);
     }
+    server.close();
+    process.exit(0);
   });
 
+  // The load balancer will handle routing to this server based on path
+  const PORT = config.workerPortByIndex(workerId);
+  resumed.then(() =>
+    server.listen(PORT, () => {
+      log.info(`running on http://localhost:${PORT}`);
+      log.info(`Handling requests with path prefix /w${workerId}/`);
+      // Signal to the master process that this worker is ready
+      if (process.send) {
+        process.send({
+          type: "WORKER_READY",
+          workerId: workerId,
+        });
+        log.info(`signaled ready state to master`);
+      }
+    }),
+  );
+
   // Global error handler
   app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
     log.error(
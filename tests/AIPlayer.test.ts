@@ -0,0 +1,118 @@
+import {
+  AIContext,
+  aiStrategyNames,
+  registerAIStrategy,
+} from "../src/core/execution/ai/AIPlayer";
+import { AIPlayerExecution } from "../src/core/execution/ai/AIPlayerExecution";
+import { Executor } from "../src/core/execution/ExecutionManager";
+import { FakeHumanExecution } from "../src/core/execution/FakeHumanExecution";
+import {
+  Cell,
+  Difficulty,
+  Game,
+  GameMapType,
+  GameMode,
+  GameType,
+  Nation,
+  PlayerType,
+} from "../src/core/game/Game";
+import { createGame } from "../src/core/game/GameImpl";
+import { UserSettings } from "../src/core/game/UserSettings";
+import { GameConfig } from "../src/core/Schemas";
+import { loadTestMap, playerInfo } from "./util/Setup";
+import { TestConfig } from "./util/TestConfig";
+import { TestServerConfig } from "./util/TestServerConfig";
+
+const ticksSeen: number[] = [];
+
+registerAIStrategy("test-grabber", () => ({
+  tickInterval: 5,
+  tick({ game, actions }: AIContext) {
+    ticksSeen.push(game.ticks());
+    actions.attack(null, Math.floor(game.me().troops() / 2));
+  },
+}));
+
+const nations = [
+  new Nation(new Cell(10, 10), 1, playerInfo("grabber", PlayerType.FakeHuman)),
+  new Nation(new Cell(40, 40), 1, playerInfo("classic", PlayerType.FakeHuman)),
+];
+
+async function setupGame(
+  nationStrategies: Record<string, string>,
+): Promise<Game> {
+  console.debug = () => {};
+  const { gameMap, miniGameMap } = await loadTestMap("Plains");
+  const gameConfig: GameConfig = {
+    gameMap: GameMapType.Space1,
+    gameMode: GameMode.FFA,
+    gameType: GameType.Singleplayer,
+    difficulty: Difficulty.Medium,
+    disableNPCs: false,
+    bots: 0,
+    infiniteGold: false,
+    infiniteTroops: false,
+    instantBuild: false,
+    nationStrategies,
+  };
+  const config = new TestConfig(
+    new TestServerConfig(),
+    gameConfig,
+    new UserSettings(),
+    false,
+  );
+  return createGame([], nations, gameMap, miniGameMap, config);
+}
+
+describe("AI player API", () => {
+  beforeEach(() => {
+    ticksSeen.length = 0;
+  });
+
+  test("nations use the strategy assigned in the config", async () => {
+    const game = await setupGame({ grabber: "test-grabber" });
+    const execs = new Executor(
+      game,
+      "game_id",
+      "client_id",
+    ).fakeHumanExecutions();
+
+    expect(execs[0]).toBeInstanceOf(AIPlayerExecution);
+    expect(execs[1]).toBeInstanceOf(FakeHumanExecution);
+  });
+
+  test("strategies spawn, get ticked and act like players", async () => {
+    const game = await setupGame({ "*": "test-grabber" });
+    game.addExecution(
+      ...new Executor(game, "game_id", "client_id").fakeHumanExecutions(),
+    );
+    while (game.inSpawnPhase()) {
+      game.executeNextTick();
+    }
+    const grabber = game.player("grabber");
+    const spawnTiles = grabber.numTilesOwned();
+    expect(spawnTiles).toBeGreaterThan(0);
+
+    for (let i = 0; i < 100; i++) {
+      game.executeNextTick();
+    }
+
+    expect(ticksSeen.length).toBeGreaterThan(10);
+    expect(grabber.numTilesOwned()).toBeGreaterThan(spawnTiles);
+  });
+
+  test("unknown strategies fall back to the built-in AI", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const game = await setupGame({ "*": "missing" });
+    const execs = new Executor(
+      game,
+      "game_id",
+      "client_id",
+    ).fakeHumanExecutions();
+
+    expect(execs.every((e) => e instanceof FakeHumanExecution)).toBe(true);
+    expect(warn).toHaveBeenCalled();
+    expect(aiStrategyNames()).toContain("expander");
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,46 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { LocalArchiveStorage } from "../src/server/ArchiveStorage";
+
+describe("LocalArchiveStorage", () => {
+  let dir: string;
+  let storage: LocalArchiveStorage;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "archive-"));
+    storage = new LocalArchiveStorage(dir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test("writes and reads back a record", async () => {
+    expect(await storage.exists("games/abcd1234")).toBe(false);
+    expect(await storage.read("games/abcd1234")).toBeNull();
+
+    await storage.write("games/abcd1234", '{"id":"abcd1234"}', "json");
+
+    expect(await storage.exists("games/abcd1234")).toBe(true);
+    expect(await storage.read("games/abcd1234")).toBe('{"id":"abcd1234"}');
+    expect(await fs.readdir(path.join(dir, "games"))).toEqual(["abcd1234"]);
+  });
+
+  test("overwrites an existing record", async () => {
+    await storage.write("games/abcd1234", "first", "json");
+    await storage.write("games/abcd1234", "second", "json");
+
+    expect(await storage.read("games/abcd1234")).toBe("second");
+  });
+
+  test("rejects keys escaping the archive directory", async () => {
+    await expect(storage.read("games/../../etc/passwd")).rejects.toThrow(
+      "invalid archive key",
+    );
+    await expect(storage.write("/etc/passwd", "x", "json")).rejects.toThrow(
+      "invalid archive key",
+    );
+    expect(await storage.exists("games/..")).toBe(false);
+  });
+});
@@ -0,0 +1,108 @@
+import { withBalanceProfile } from "../src/core/configuration/BalanceProfile";
+import { Config } from "../src/core/configuration/Config";
+import {
+  Difficulty,
+  GameMapType,
+  GameMode,
+  GameType,
+  Player,
+  PlayerType,
+  UnitType,
+} from "../src/core/game/Game";
+import { UserSettings } from "../src/core/game/UserSettings";
+import { BalanceProfile, GameConfig } from "../src/core/Schemas";
+import { TestConfig } from "./util/TestConfig";
+import { TestServerConfig } from "./util/TestServerConfig";
+
+function createConfig(
+  balance?: BalanceProfile,
+  overrides: Partial<GameConfig> = {},
+): Config {
+  const gameConfig: GameConfig = {
+    gameMap: GameMapType.Space1,
+    gameMode: GameMode.FFA,
+    gameType: GameType.Singleplayer,
+    difficulty: Difficulty.Medium,
+    disableNPCs: false,
+    bots: 0,
+    infiniteGold: false,
+    infiniteTroops: false,
+    instantBuild: false,
+    balance,
+    ...overrides,
+  };
+  const config = new TestConfig(
+    new TestServerConfig(),
+    gameConfig,
+    new UserSettings(),
+    false,
+  );
+  return balance === undefined ? config : withBalanceProfile(config, balance);
+}
+
+const human = { type: () => PlayerType.Human } as unknown as Player;
+const bot = { type: () => PlayerType.Bot } as unknown as Player;
+
+describe("Balance profiles", () => {
+  test("rules are replaced by the profile values", () => {
+    const config = createConfig({
+      name: "test",
+      rules: { defensePostDefenseBonus: 8, SAMCooldown: 20 },
+    });
+    expect(config.defensePostDefenseBonus()).toBe(8);
+    expect(config.SAMCooldown()).toBe(20);
+    expect(config.warshipPatrolRange()).toBe(
+      createConfig().warshipPatrolRange(),
+    );
+  });
+
+  test("the wrapped config keeps its own rules", () => {
+    const config = createConfig();
+    const balanced = withBalanceProfile(config, {
+      name: "test",
+      rules: { SAMCooldown: 20 },
+      units: { [UnitType.City]: { cost: 1000 } },
+    });
+    expect(balanced.SAMCooldown()).toBe(20);
+    expect(config.SAMCooldown()).not.toBe(20);
+    expect(config.unitInfo(UnitType.City).cost(human)).not.toBe(1000);
+    // Rules the config computes from others see the profile.
+    expect(balanced.upgradeCost(UnitType.City, 2, human)).toBe(2000);
+  });
+
+  test("multipliers scale the computed rules", () => {
+    const base = createConfig();
+    const config = createConfig({
+      name: "test",
+      multipliers: { tradeShipGold: 2 },
+    });
+    expect(config.tradeShipGold(100)).toBe(base.tradeShipGold(100) * 2);
+  });
+
+  test("unit and nuke overrides keep the other unit settings", () => {
+    const profile: BalanceProfile = {
+      name: "test",
+      units: { [UnitType.City]: { cost: 1000, constructionDuration: 70 } },
+      nukeMagnitudes: { [UnitType.HydrogenBomb]: { inner: 5, outer: 10 } },
+    };
+    const config = createConfig(profile);
+    const city = config.unitInfo(UnitType.City);
+    expect(city.cost(human)).toBe(1000);
+    expect(city.constructionDuration).toBe(70);
+    expect(city.maxHealth).toBe(
+      createConfig().unitInfo(UnitType.City).maxHealth,
+    );
+    expect(config.nukeMagnitudes(UnitType.HydrogenBomb)).toEqual({
+      inner: 5,
+      outer: 10,
+    });
+
+    const sandbox = createConfig(profile, {
+      infiniteGold: true,
+      instantBuild: true,
+    });
+    expect(sandbox.unitInfo(UnitType.City).cost(human)).toBe(0);
+    expect(sandbox.unitInfo(UnitType.City).cost(bot)).toBe(1000);
+    expect(sandbox.unitInfo(UnitType.City).constructionDuration).toBe(0);
+  });
+});
@@ -0,0 +1,176 @@
+import { BatchMoveWarshipsExecution } from "../src/core/execution/BatchMoveWarshipsExecution";
+import { EscortTradeExecution } from "../src/core/execution/EscortTradeExecution";
+import { SpawnExecution } from "../src/core/execution/SpawnExecution";
+import { WarshipExecution } from "../src/core/execution/WarshipExecution";
+import {
+  Game,
+  Player,
+  PlayerType,
+  Unit,
+  UnitType,
+  WarshipOrder,
+} from "../src/core/game/Game";
+import { TileRef } from "../src/core/game/GameMap";
+import { Formation, formationTargets } from "../src/core/utilities/Formation";
+import { playerInfo, setup } from "./util/Setup";
+import { executeTicks } from "./util/utils";
+
+let game: Game;
+let player1: Player;
+let player2: Player;
+
+function buildViper(player: Player, x: number, y: number): Unit {
+  const port = player.buildUnit(UnitType.Port, game.ref(x, y), {});
+  game.addExecution(new WarshipExecution(player.id(), port.tile()));
+  executeTicks(game, 2);
+  return player.units(UnitType.Viper)[0];
+}
+
+function order(
+  player: Player,
+  warship: Unit,
+  targetTile: TileRef,
+  warshipOrder: WarshipOrder,
+  patrolRoute?: TileRef[],
+) {
+  game.addExecution(
+    new BatchMoveWarshipsExecution(
+      player.id(),
+      [{ unitId: warship.id(), targetTile, patrolRoute }],
+      warshipOrder,
+    ),
+  );
+  executeTicks(game, 2);
+}
+
+describe("Fleet orders", () => {
+  beforeEach(async () => {
+    game = await setup("Plains", { infiniteGold: true, instantBuild: true });
+    const info1 = playerInfo("player1", PlayerType.Human);
+    const info2 = playerInfo("player2", PlayerType.Human);
+    game.addPlayer(info1);
+    game.addPlayer(info2);
+    game.addExecution(
+      new SpawnExecution(info1, game.ref(20, 20)),
+      new SpawnExecution(info2, game.ref(30, 20)),
+    );
+    while (game.inSpawnPhase()) {
+      game.executeNextTick();
+    }
+    player1 = game.player(info1.id);
+    player2 = game.player(info2.id);
+  });
+
+  test("formations give every ship its own tile facing the target", () => {
+    const ships = [game.ref(10, 50), game.ref(10, 52), game.ref(10, 54)];
+    const target = game.ref(40, 52);
+
+    const line = formationTargets(game, ships, target, Formation.Line);
+    expect(new Set(line).size).toBe(3);
+    expect(line[1]).toBe(target);
+    expect(line.map((t) => game.x(t))).toEqual([40, 40, 40]);
+
+    const wedge = formationTargets(game, ships, target, Formation.Wedge);
+    expect(wedge[1]).toBe(target);
+    expect(game.x(wedge[0])).toBeLessThan(40);
+    expect(game.x(wedge[2])).toBeLessThan(40);
+
+    const spread = formationTargets(game, ships, target, Formation.Spread);
+    expect(new Set(spread).size).toBe(3);
+  });
+
+  test("attack-moving warships stop to fight enemies in range", () => {
+    const warship = buildViper(player1, 20, 20);
+    buildViper(player2, 30, 20);
+
+    order(player1, warship, game.ref(50, 95), WarshipOrder.AttackMove);
+    const start = warship.tile();
+    executeTicks(game, 3);
+    expect(warship.tile()).toBe(start);
+
+    order(player1, warship, game.ref(50, 95), WarshipOrder.Move);
+    executeTicks(game, 3);
+    expect(warship.tile()).not.toBe(start);
+  });
+
+  test("patrolling warships cycle through their route", () => {
+    const warship = buildViper(player1, 20, 20);
+    const route = [game.ref(20, 30), game.ref(30, 30)];
+    order(player1, warship, route[0], WarshipOrder.Patrol, route);
+    expect(warship.targetTile()).toBeUndefined();
+
+    const visits: TileRef[] = [];
+    for (let i = 0; i < 100; i++) {
+      game.executeNextTick();
+      if (route.includes(warship.tile()) && visits.at(-1) !== warship.tile()) {
+        visits.push(warship.tile());
+      }
+    }
+    expect(visits.slice(0, 3)).toEqual([route[0], route[1], route[0]]);
+  });
+
+  test("escorting warships follow trade ships leaving the port", () => {
+    const warship = buildViper(player1, 20, 20);
+    const port = player1.units(UnitType.Port)[0];
+    const dstPort = player2.buildUnit(UnitType.Port, game.ref(30, 20), {});
+    const tradeShip = player1.buildUnit(UnitType.TradeShip, game.ref(60, 60), {
+      dstPort,
+      srcPort: port,
+    });
+
+    game.addExecution(
+      new EscortTradeExecution(player1.id(), [warship.id()], port.id(), null),
+    );
+    executeTicks(game, 2);
+    expect(warship.warshipOrder()).toBe(WarshipOrder.Escort);
+    expect(warship.escortOrder()?.port).toBe(port);
+
+    executeTicks(game, 100);
+    expect(game.manhattanDist(warship.tile(), tradeShip.tile())).toBeLessThan(
+      6,
+    );
+
+    // Losing the port ends the escort.
+    port.delete(false);
+    executeTicks(game, 2);
+    expect(warship.warshipOrder()).toBe(WarshipOrder.Move);
+    expect(warship.escortOrder()).toBeNull();
+  });
+
+  test("escorting one route only follows ships bound for its destination", () => {
+    const warship = buildViper(player1, 20, 20);
+    const port = player1.units(UnitType.Port)[0];
+    const dstPort = player2.buildUnit(UnitType.Port, game.ref(30, 20), {});
+    const otherPort = player2.buildUnit(UnitType.Port, game.ref(40, 20), {});
+    const bound = player1.buildUnit(UnitType.TradeShip, game.ref(60, 60), {
+      dstPort,
+      srcPort: port,
+    });
+    const other = player1.buildUnit(UnitType.TradeShip, game.ref(20, 30), {
+      dstPort: otherPort,
+      srcPort: port,
+    });
+    expect(bound.destinationPort()).toBe(dstPort);
+
+    game.addExecution(
+      new EscortTradeExecution(
+        player1.id(),
+        [warship.id()],
+        port.id(),
+        dstPort.id(),
+      ),
+    );
+    executeTicks(game, 100);
+    expect(warship.escortOrder()?.destination).toBe(dstPort);
+    expect(game.manhattanDist(warship.tile(), bound.tile())).toBeLessThan(6);
+    expect(
+      game.manhattanDist(warship.tile(), other.tile()),
+    ).toBeGreaterThanOrEqual(6);
+  });
+
+  test("players cannot order warships of others", () => {
+    const warship = buildViper(player1, 20, 20);
+    order(player2, warship, game.ref(60, 60), WarshipOrder.Move);
+    expect(warship.targetTile()).toBeUndefined();
+  });
+});
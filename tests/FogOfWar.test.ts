@@ -0,0 +1,68 @@
+import { SpawnExecution } from "../src/core/execution/SpawnExecution";
+import { Game, Player, PlayerType, UnitType } from "../src/core/game/Game";
+import { visibleTiles, visionSharers } from "../src/core/game/Vision";
+import { GameConfig } from "../src/core/Schemas";
+import { playerInfo, setup } from "./util/Setup";
+
+let game: Game;
+let player1: Player;
+let player2: Player;
+
+async function start(gameConfig: Partial<GameConfig>) {
+  game = await setup("Plains", gameConfig);
+  const info1 = playerInfo("player1", PlayerType.Human);
+  const info2 = playerInfo("player2", PlayerType.Human);
+  game.addPlayer(info1);
+  game.addPlayer(info2);
+  game.addExecution(
+    new SpawnExecution(info1, game.ref(10, 10)),
+    new SpawnExecution(info2, game.ref(80, 80)),
+  );
+  while (game.inSpawnPhase()) {
+    game.executeNextTick();
+  }
+  player1 = game.player(info1.id);
+  player2 = game.player(info2.id);
+}
+
+describe("Fog of war", () => {
+  test("everything is visible when fog of war is off", async () => {
+    await start({});
+    expect(game.isVisibleTo(player1, game.ref(80, 80))).toBe(true);
+  });
+
+  test("players see around their territory and units", async () => {
+    await start({ fogOfWar: true });
+    expect(game.isVisibleTo(player1, game.ref(10, 10))).toBe(true);
+    expect(game.isVisibleTo(player1, game.ref(80, 80))).toBe(false);
+    expect(game.isVisibleTo(player1, game.ref(50, 50))).toBe(false);
+
+    player1.buildUnit(UnitType.Viper, game.ref(50, 50), {});
+    expect(game.isVisibleTo(player1, game.ref(50, 60))).toBe(true);
+    expect(game.isVisibleTo(player2, game.ref(50, 60))).toBe(false);
+  });
+
+  test("allies share vision", async () => {
+    await start({ fogOfWar: true });
+    player1.createAllianceRequest(player2)?.accept();
+    expect(player1.isAlliedWith(player2)).toBe(true);
+    expect(game.isVisibleTo(player1, game.ref(80, 80))).toBe(true);
+  });
+
+  test("the vision map agrees with the simulation", async () => {
+    await start({ fogOfWar: true });
+    player1.buildUnit(UnitType.City, game.ref(10, 10), {});
+    player1.buildUnit(UnitType.Viper, game.ref(40, 70), {});
+
+    const visible = visibleTiles(
+      game,
+      game.config(),
+      visionSharers(player1, game.players()),
+      player1.units(),
+    );
+    game.forEachTile((tile) => {
+      const i = game.y(tile) * game.width() + game.x(tile);
+      expect(visible[i] === 1).toBe(game.isVisibleTo(player1, tile));
+    });
+  });
+});
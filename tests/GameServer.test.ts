@@ -0,0 +1,199 @@
+import { EventEmitter } from "events";
+import winston from "winston";
+import WebSocket from "ws";
+import {
+  Difficulty,
+  GameMapType,
+  GameMode,
+  GameType,
+} from "../src/core/game/Game";
+import {
+  GameConfig,
+  LobbyAction,
+  ServerLobbyMessage,
+} from "../src/core/Schemas";
+import { Client } from "../src/server/Client";
+import { GameServer } from "../src/server/GameServer";
+import { TestServerConfig } from "./util/TestServerConfig";
+
+// The real gatekeeper is located through import.meta, which jest can't load.
+jest.mock("../src/server/Gatekeeper", () => ({
+  gatekeeper: {
+    wsHandler: (_req: unknown, fn: (message: string) => Promise<void>) => fn,
+  },
+}));
+
+class FakeSocket extends EventEmitter {
+  readyState: number = WebSocket.OPEN;
+  sent: string[] = [];
+
+  send(msg: string) {
+    this.sent.push(msg);
+  }
+
+  close() {
+    if (this.readyState === WebSocket.CLOSED) {
+      return;
+    }
+    this.readyState = WebSocket.CLOSED;
+    this.emit("close");
+  }
+
+  lastLobby(): ServerLobbyMessage {
+    const lobbies = this.sent
+      .map((msg) => JSON.parse(msg))
+      .filter((msg) => msg.type === "lobby");
+    return lobbies[lobbies.length - 1];
+  }
+}
+
+class LobbyServerConfig extends TestServerConfig {
+  turnIntervalMs(): number {
+    return 100;
+  }
+}
+
+const gameConfig: GameConfig = {
+  gameMap: GameMapType.Space1,
+  gameMode: GameMode.FFA,
+  gameType: GameType.Private,
+  difficulty: Difficulty.Medium,
+  disableNPCs: true,
+  bots: 0,
+  infiniteGold: false,
+  infiniteTroops: false,
+  instantBuild: false,
+  playerTeams: undefined,
+};
+
+function createLobby(): GameServer {
+  return new GameServer(
+    "lobby001",
+    winston.createLogger({ silent: true }),
+    Date.now(),
+    new LobbyServerConfig(),
+    { ...gameConfig },
+  );
+}
+
+function join(game: GameServer, id: string): Client {
+  const client = new Client(
+    `client0${id}`,
+    `persistent${id}`,
+    null,
+    `127.0.0.${id}`,
+    `player${id}`,
+    new FakeSocket() as unknown as WebSocket,
+    "",
+  );
+  game.addClient(client, 0);
+  return client;
+}
+
+function act(client: Client, action: LobbyAction) {
+  client.ws.emit("message", JSON.stringify({ type: "lobby", action }));
+}
+
+function socket(client: Client): FakeSocket {
+  return client.ws as unknown as FakeSocket;
+}
+
+describe("GameServer lobby", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test("players see each other get ready", () => {
+    const game = createLobby();
+    const host = join(game, "1");
+    const guest = join(game, "2");
+
+    act(guest, { kind: "ready", ready: true });
+    const lobby = socket(host).lastLobby();
+    expect(lobby.hostClientID).toBe(host.clientID);
+    expect(lobby.players).toEqual([
+      { clientID: host.clientID, username: "player1", ready: false },
+      { clientID: guest.clientID, username: "player2", ready: true },
+    ]);
+  });
+
+  test("only the host kicks, and banned players can't rejoin", () => {
+    const game = createLobby();
+    const host = join(game, "1");
+    const guest = join(game, "2");
+    const other = join(game, "3");
+
+    act(guest, { kind: "kick", target: other.clientID, ban: false });
+    expect(game.activeClients).toContain(other);
+
+    act(host, { kind: "kick", target: other.clientID, ban: false });
+    expect(game.activeClients).not.toContain(other);
+
+    act(host, { kind: "kick", target: guest.clientID, ban: true });
+    expect(game.activeClients).toEqual([host]);
+    const rejoined = new Client(
+      "client09",
+      guest.persistentID,
+      null,
+      guest.ip,
+      guest.username,
+      new FakeSocket() as unknown as WebSocket,
+      "",
+    );
+    game.addClient(rejoined, 0);
+    expect(game.activeClients).toEqual([host]);
+  });
+
+  test("starts once everyone is ready with auto start on", () => {
+    const game = createLobby();
+    const host = join(game, "1");
+    const guest = join(game, "2");
+
+    act(guest, { kind: "auto_start", enabled: true });
+    act(host, { kind: "ready", ready: true });
+    act(guest, { kind: "ready", ready: true });
+    expect(game.hasStarted()).toBe(false);
+
+    act(host, { kind: "auto_start", enabled: true });
+    expect(game.hasStarted()).toBe(true);
+    expect(socket(guest).sent.map((msg) => JSON.parse(msg).type)).toContain(
+      "start",
+    );
+    game.suspend();
+  });
+
+  test("the host role passes on when the host leaves", () => {
+    const game = createLobby();
+    const host = join(game, "1");
+    const guest = join(game, "2");
+    const other = join(game, "3");
+
+    host.ws.close();
+    expect(socket(other).lastLobby().hostClientID).toBe(guest.clientID);
+
+    act(guest, { kind: "kick", target: other.clientID, ban: false });
+    expect(game.activeClients).toEqual([guest]);
+  });
+
+  test("chat is limited per player", () => {
+    const game = createLobby();
+    const host = join(game, "1");
+    const guest = join(game, "2");
+
+    act(host, { kind: "chat", message: "hello" });
+    act(host, { kind: "chat", message: "spam" });
+    act(guest, { kind: "chat", message: "hi" });
+    jest.advanceTimersByTime(1000);
+    act(host, { kind: "chat", message: "ready?" });
+
+    expect(
+      socket(guest)
+        .lastLobby()
+        .chat.map((c) => c.message),
+    ).toEqual(["hello", "hi", "ready?"]);
+  });
+});
@@ -0,0 +1,83 @@
+import { UnitType } from "../src/core/game/Game";
+import { Intent } from "../src/core/Schemas";
+import {
+  AmountRule,
+  IntentValidator,
+  MapBoundsRule,
+  RateLimitRule,
+} from "../src/server/IntentValidator";
+
+const clientID = "client01";
+
+function build(x: number, y: number): Intent {
+  return { type: "build_unit", clientID, unit: UnitType.City, x, y };
+}
+
+function emoji(): Intent {
+  return { type: "emoji", clientID, recipient: "player01", emoji: 0 };
+}
+
+describe("IntentValidator", () => {
+  test("rate limits each intent type separately", () => {
+    const rule = new RateLimitRule();
+    for (let i = 0; i < 3; i++) {
+      expect(rule.check(emoji(), 0)).toBeNull();
+    }
+    expect(rule.check(emoji(), 0)).toBe("too many emoji intents");
+    expect(rule.check(build(1, 1), 0)).toBeNull();
+    // The bucket refills over time.
+    expect(rule.check(emoji(), 2000)).toBeNull();
+  });
+
+  test("rejects coordinates outside the map once its size is known", () => {
+    const rule = new MapBoundsRule();
+    expect(rule.check(build(500, 500))).toBeNull();
+    rule.setMapSize(100, 50);
+    expect(rule.check(build(99, 49))).toBeNull();
+    expect(rule.check(build(100, 10))).toBe("build_unit outside the map");
+    expect(rule.check(build(-1, 10))).not.toBeNull();
+    expect(rule.check(build(1.5, 10))).not.toBeNull();
+    expect(
+      rule.check({ type: "move_warship", clientID, unitId: 1, tile: 5000 }),
+    ).not.toBeNull();
+  });
+
+  test("rejects negative and non-finite troop counts", () => {
+    const rule = new AmountRule();
+    const attack = (troops: number | null): Intent => ({
+      type: "attack",
+      clientID,
+      targetID: null,
+      troops,
+    });
+    expect(rule.check(attack(100))).toBeNull();
+    expect(rule.check(attack(null))).toBeNull();
+    expect(rule.check(attack(-5))).not.toBeNull();
+    expect(rule.check(attack(Infinity))).not.toBeNull();
+  });
+
+  test("asks to kick clients past the strike limit", () => {
+    const bounds = new MapBoundsRule();
+    bounds.setMapSize(10, 10);
+    const validator = new IntentValidator([bounds], 3);
+    expect(validator.validate(build(1, 1), 0)).toBeNull();
+    validator.validate(build(20, 1), 0);
+    validator.validate(build(20, 1), 0);
+    expect(validator.shouldKick(clientID)).toBe(false);
+    validator.validate(build(20, 1), 0);
+    expect(validator.shouldKick(clientID)).toBe(true);
+  });
+
+  test("strikes wear off over time", () => {
+    const bounds = new MapBoundsRule();
+    bounds.setMapSize(10, 10);
+    const validator = new IntentValidator([bounds], 3, 1000);
+    validator.validate(build(20, 1), 0);
+    validator.validate(build(20, 1), 0);
+    validator.validate(build(20, 1), 2000);
+    expect(validator.shouldKick(clientID)).toBe(false);
+    validator.validate(build(20, 1), 2000);
+    validator.validate(build(20, 1), 2000);
+    expect(validator.shouldKick(clientID)).toBe(true);
+  });
+});
@@ -0,0 +1,75 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import {
+  Difficulty,
+  GameMapType,
+  GameMode,
+  GameType,
+} from "../src/core/game/Game";
+import { LocalArchiveStorage } from "../src/server/ArchiveStorage";
+import { LiveGameStore, SavedGame } from "../src/server/LiveGameStore";
+
+function savedGame(id: string, savedAt: number): SavedGame {
+  const gameConfig = {
+    gameMap: GameMapType.Space1,
+    gameMode: GameMode.FFA,
+    gameType: GameType.Private,
+    difficulty: Difficulty.Medium,
+    disableNPCs: true,
+    bots: 0,
+    infiniteGold: false,
+    infiniteTroops: false,
+    instantBuild: false,
+  };
+  return {
+    id,
+    createdAt: 0,
+    startTime: 0,
+    savedAt,
+    gameConfig,
+    gameStartInfo: { gameID: id, config: gameConfig, players: [] },
+    turns: [{ turnNumber: 0, intents: [] }],
+    players: [],
+    rankedPlayers: null,
+    kickedClients: [],
+    flaggedClients: [],
+  };
+}
+
+describe("LiveGameStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "live-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test("games are resumed once by the same worker", async () => {
+    await new LiveGameStore(new LocalArchiveStorage(dir), 1).save([
+      savedGame("game0001", 1000),
+    ]);
+
+    expect(
+      await new LiveGameStore(new LocalArchiveStorage(dir), 0).take(1000),
+    ).toEqual([]);
+    const store = new LiveGameStore(new LocalArchiveStorage(dir), 1);
+    const games = await store.take(2000);
+    expect(games.map((g) => g.id)).toEqual(["game0001"]);
+    expect(games[0].turns).toHaveLength(1);
+    expect(await store.take(2000)).toEqual([]);
+  });
+
+  test("drops games saved too long ago", async () => {
+    const store = new LiveGameStore(new LocalArchiveStorage(dir), 0);
+    await store.save([
+      savedGame("old00001", 0),
+      savedGame("new00001", 600_000),
+    ]);
+    const games = await store.take(700_000);
+    expect(games.map((g) => g.id)).toEqual(["new00001"]);
+  });
+});
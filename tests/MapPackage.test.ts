@@ -0,0 +1,96 @@
+import { BotSpawner } from "../src/core/execution/BotSpawner";
+import { SpawnExecution } from "../src/core/execution/SpawnExecution";
+import {
+  Difficulty,
+  Game,
+  GameMapType,
+  GameMode,
+  GameType,
+  PlayerType,
+  SpawnZone,
+} from "../src/core/game/Game";
+import { createGame } from "../src/core/game/GameImpl";
+import { MapManifestSchema, manifestErrors } from "../src/core/game/MapPackage";
+import { UserSettings } from "../src/core/game/UserSettings";
+import { loadTestMap, playerInfo } from "./util/Setup";
+import { TestConfig } from "./util/TestConfig";
+import { TestServerConfig } from "./util/TestServerConfig";
+
+async function zonedGame(spawnZones: SpawnZone[]): Promise<Game> {
+  const { gameMap, miniGameMap } = await loadTestMap("Plains");
+  const config = new TestConfig(
+    new TestServerConfig(),
+    {
+      gameMap: GameMapType.Space1,
+      gameMode: GameMode.FFA,
+      gameType: GameType.Singleplayer,
+      difficulty: Difficulty.Medium,
+      disableNPCs: false,
+      bots: 0,
+      infiniteGold: false,
+      infiniteTroops: false,
+      instantBuild: false,
+    },
+    new UserSettings(),
+    false,
+  );
+  return createGame([], [], gameMap, miniGameMap, config, spawnZones);
+}
+
+describe("MapPackage", () => {
+  test("manifest errors are reported against the terrain size", () => {
+    const manifest = MapManifestSchema.parse({
+      id: "twin_moons",
+      name: "Twin Moons",
+      nations: [
+        { coordinates: [10, 10], name: "Luna" },
+        { coordinates: [120, 10], name: "Luna" },
+      ],
+      spawnZones: [{ x: 90, y: 0, width: 20, height: 10 }],
+    });
+    expect(manifest.nations[0].strength).toBe(1);
+    expect(manifestErrors(manifest, 100, 50)).toEqual([
+      "nation Luna at 120,10 is outside the map",
+      "more than one nation is named Luna",
+      "spawn zone 0 does not fit in the map",
+    ]);
+    expect(
+      MapManifestSchema.safeParse({ ...manifest, id: "../Space1" }).success,
+    ).toBe(false);
+  });
+
+  test("players can only spawn inside spawn zones", async () => {
+    const game = await zonedGame([{ x: 0, y: 0, width: 10, height: 10 }]);
+    const inside = playerInfo("inside", PlayerType.Human);
+    const outside = playerInfo("outside", PlayerType.Human);
+    game.addExecution(
+      new SpawnExecution(inside, game.ref(5, 5)),
+      new SpawnExecution(outside, game.ref(50, 50)),
+    );
+    game.executeNextTick();
+    game.executeNextTick();
+
+    expect(game.hasPlayer(inside.id)).toBe(true);
+    expect(game.hasPlayer(outside.id)).toBe(false);
+  });
+
+  test("bots only spawn inside spawn zones", async () => {
+    const zones = [
+      { x: 0, y: 0, width: 30, height: 30 },
+      { x: 70, y: 70, width: 30, height: 30 },
+    ];
+    const game = await zonedGame(zones);
+    const spawns = new BotSpawner(game, "game0001").spawnBots(6);
+    expect(spawns).toHaveLength(6);
+    for (const spawn of spawns) {
+      expect(game.inSpawnZone(spawn.tile)).toBe(true);
+    }
+
+    game.addExecution(...spawns);
+    game.executeNextTick();
+    game.executeNextTick();
+    expect(
+      game.players().filter((p) => p.type() === PlayerType.Bot),
+    ).toHaveLength(6);
+  });
+});
@@ -0,0 +1,129 @@
+import { CancelQueuedShipExecution } from "../src/core/execution/CancelQueuedShipExecution";
+import { ConstructionExecution } from "../src/core/execution/ConstructionExecution";
+import { ReorderQueuedShipExecution } from "../src/core/execution/ReorderQueuedShipExecution";
+import { SetRallyPointExecution } from "../src/core/execution/SetRallyPointExecution";
+import { SpawnExecution } from "../src/core/execution/SpawnExecution";
+import {
+  Execution,
+  Game,
+  Player,
+  PlayerType,
+  Unit,
+  UnitType,
+} from "../src/core/game/Game";
+import { playerInfo, setup } from "./util/Setup";
+import { constructionExecution, executeTicks } from "./util/utils";
+
+const coastX = 7;
+let game: Game;
+let player: Player;
+let port: Unit;
+
+function run(execution: Execution) {
+  game.addExecution(execution);
+  executeTicks(game, 2);
+}
+
+function queueShip(type: UnitType) {
+  run(new ConstructionExecution(player.id(), port.tile(), type));
+}
+
+describe("Space Port queues", () => {
+  beforeEach(async () => {
+    game = await setup("half_land_half_ocean", { instantBuild: true });
+    const info = playerInfo("player", PlayerType.Human);
+    game.addPlayer(info);
+    game.addExecution(new SpawnExecution(info, game.ref(coastX, 10)));
+    while (game.inSpawnPhase()) {
+      game.executeNextTick();
+    }
+    player = game.player(info.id);
+    player.addGold(game.unitInfo(UnitType.Port).cost(player));
+    constructionExecution(game, player.id(), coastX, 10, UnitType.Port);
+    port = player.units(UnitType.Port)[0];
+  });
+
+  test("ships are built one after another in queue order", () => {
+    player.addGold(10_000_000);
+    queueShip(UnitType.Condor);
+    queueShip(UnitType.Viper);
+    expect(port.portQueue().map((e) => e.unitType)).toEqual([
+      UnitType.Condor,
+      UnitType.Viper,
+    ]);
+
+    run(
+      new ReorderQueuedShipExecution(
+        player.id(),
+        port.id(),
+        port.portQueue()[1].id,
+        0,
+      ),
+    );
+    expect(port.portQueue().map((e) => e.unitType)).toEqual([
+      UnitType.Viper,
+      UnitType.Condor,
+    ]);
+    // The Condor keeps the progress it made while first in line.
+    expect(port.portQueue()[1].progress).toBeGreaterThan(0);
+
+    executeTicks(game, game.unitInfo(UnitType.Viper).constructionDuration! + 2);
+    expect(player.units(UnitType.Viper)).toHaveLength(1);
+    expect(player.units(UnitType.Condor)).toHaveLength(0);
+    expect(port.portQueue().map((e) => e.unitType)).toEqual([UnitType.Condor]);
+  });
+
+  test("cancelling a queued ship refunds it", () => {
+    const cost = game.unitInfo(UnitType.Viper).cost(player);
+    player.addGold(cost);
+    const gold = player.gold();
+    queueShip(UnitType.Viper);
+    expect(player.gold()).toBeLessThanOrEqual(gold - cost + 1000);
+
+    run(
+      new CancelQueuedShipExecution(
+        player.id(),
+        port.id(),
+        port.portQueue()[0].id,
+      ),
+    );
+    expect(port.hasPortQueue()).toBe(false);
+    expect(player.gold()).toBeGreaterThanOrEqual(gold);
+  });
+
+  test("the queue has a maximum size", () => {
+    const size = game.config().portQueueSize();
+    player.addGold(game.unitInfo(UnitType.Viper).cost(player) * (size + 1));
+    for (let i = 0; i < size + 1; i++) {
+      queueShip(UnitType.Viper);
+    }
+    expect(port.portQueue()).toHaveLength(size);
+    expect(player.canBuild(UnitType.Viper, port.tile())).toBe(false);
+  });
+
+  test("a captured port refunds its queue to the previous owner", () => {
+    const cost = game.unitInfo(UnitType.Viper).cost(player);
+    player.addGold(cost);
+    queueShip(UnitType.Viper);
+    const gold = player.gold();
+
+    const captor = game.addPlayer(playerInfo("captor", PlayerType.Human));
+    port.setOwner(captor);
+    executeTicks(game, game.unitInfo(UnitType.Viper).constructionDuration! + 2);
+    expect(port.hasPortQueue()).toBe(false);
+    expect(player.gold()).toBeGreaterThanOrEqual(gold + cost);
+    expect(captor.units(UnitType.Viper)).toHaveLength(0);
+    expect(player.units(UnitType.Viper)).toHaveLength(0);
+  });
+
+  test("finished ships head to the rally point", () => {
+    const rally = game.ref(15, 15);
+    run(new SetRallyPointExecution(player.id(), port.id(), rally));
+    player.addGold(game.unitInfo(UnitType.Viper).cost(player));
+    queueShip(UnitType.Viper);
+
+    executeTicks(game, game.unitInfo(UnitType.Viper).constructionDuration! + 2);
+    const viper = player.units(UnitType.Viper)[0];
+    expect(viper.targetTile()).toBe(rally);
+  });
+});
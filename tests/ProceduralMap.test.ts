@@ -0,0 +1,36 @@
+import {
+  generateProceduralMap,
+  PROCEDURAL_MAP_HEIGHT,
+  PROCEDURAL_MAP_WIDTH,
+} from "../src/core/game/ProceduralMapGenerator";
+import { genProceduralTerrain } from "../src/core/game/TerrainMapLoader";
+
+describe("ProceduralMap", () => {
+  test("the same seed generates the same map", () => {
+    const a = generateProceduralMap(42, 400, 250);
+    const b = generateProceduralMap(42, 400, 250);
+    const c = generateProceduralMap(43, 400, 250);
+    expect(Buffer.from(a.map).equals(Buffer.from(b.map))).toBe(true);
+    expect(Buffer.from(a.miniMap).equals(Buffer.from(b.miniMap))).toBe(true);
+    expect(a.nationMap).toEqual(b.nationMap);
+    expect(Buffer.from(a.map).equals(Buffer.from(c.map))).toBe(false);
+  });
+
+  test("generates planets with nations on land in open space", async () => {
+    const terrain = await genProceduralTerrain(7);
+    const map = terrain.gameMap;
+    expect(map.width()).toBe(PROCEDURAL_MAP_WIDTH);
+    expect(map.height()).toBe(PROCEDURAL_MAP_HEIGHT);
+    expect(terrain.miniGameMap.width()).toBe(PROCEDURAL_MAP_WIDTH / 2);
+    expect(map.numLandTiles()).toBeGreaterThan(0);
+    expect(map.isOcean(map.ref(0, 0))).toBe(true);
+
+    const nations = terrain.nationMap.nations;
+    expect(nations.length).toBeGreaterThanOrEqual(6);
+    expect(new Set(nations.map((n) => n.name)).size).toBe(nations.length);
+    for (const nation of nations) {
+      const [x, y] = nation.coordinates;
+      expect(map.isLand(map.ref(x, y))).toBe(true);
+    }
+  });
+});
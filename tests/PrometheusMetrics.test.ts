@@ -0,0 +1,80 @@
+import { Request, Response } from "express";
+import { GameManager } from "../src/server/GameManager";
+import {
+  intentsReceived,
+  metricsHandler,
+  registerGameMetrics,
+  registry,
+} from "../src/server/PrometheusMetrics";
+
+function fakeResponse() {
+  const res = {
+    statusCode: 200,
+    body: "" as unknown,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    },
+    send(body: unknown) {
+      res.body = body;
+      return res;
+    },
+    set() {
+      return res;
+    },
+  };
+  return res;
+}
+
+describe("PrometheusMetrics", () => {
+  test("reports games and clients without game ids", async () => {
+    const gm = {
+      phaseStats: () =>
+        new Map([
+          ["LOBBY", { games: 0, clients: 0 }],
+          ["ACTIVE", { games: 2, clients: 4 }],
+        ]),
+      getAllGames: () =>
+        new Map([
+          ["game1", { activeClients: [{}, {}, {}] }],
+          ["game2", { activeClients: [{}] }],
+        ]),
+    } as unknown as GameManager;
+    registerGameMetrics(gm);
+    intentsReceived.labels("attack").inc();
+
+    const text = await registry.metrics();
+    expect(text).toContain('solarfront_games{phase="LOBBY"} 0');
+    expect(text).toContain('solarfront_games{phase="ACTIVE"} 2');
+    expect(text).toContain('solarfront_clients{phase="ACTIVE"} 4');
+    expect(text).toContain("solarfront_game_clients_max 3");
+    expect(text).not.toContain("game1");
+    expect(text).toContain('solarfront_intents_total{type="attack"} 1');
+  });
+
+  test("requires a configured token", async () => {
+    const unconfigured = fakeResponse();
+    await metricsHandler("")(
+      { headers: {} } as Request,
+      unconfigured as unknown as Response,
+    );
+    expect(unconfigured.statusCode).toBe(401);
+
+    const handler = metricsHandler("secret");
+    const denied = fakeResponse();
+    await handler({ headers: {} } as Request, denied as unknown as Response);
+    expect(denied.statusCode).toBe(401);
+
+    const allowed = fakeResponse();
+    await handler(
+      { headers: { authorization: "Bearer secret" } } as Request,
+      allowed as unknown as Response,
+    );
+    expect(allowed.statusCode).toBe(200);
+    expect(allowed.body).toContain("solarfront_desyncs_total 0");
+  });
+});
@@ -0,0 +1,107 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { LocalArchiveStorage } from "../src/server/ArchiveStorage";
+import { MatchmakingQueue, QueueEntry } from "../src/server/Matchmaking";
+import { newRating, rateGame } from "../src/server/Rating";
+import { RatingStore } from "../src/server/RatingStore";
+
+function entry(id: string, rating: number, joinedAt = 0): QueueEntry {
+  return { persistentID: id, username: id, rating, joinedAt };
+}
+
+describe("Ratings", () => {
+  test("winners gain rating and losers lose it", () => {
+    const [first, second, third] = rateGame(
+      [newRating(), newRating(), newRating()],
+      1000,
+    );
+    expect(first.rating).toBeGreaterThan(1500);
+    expect(second.rating).toBeCloseTo(1500);
+    expect(third.rating).toBeLessThan(1500);
+    expect(first.deviation).toBeLessThan(newRating().deviation);
+    expect(first.games).toBe(1);
+  });
+
+  test("beating a stronger player is worth more", () => {
+    const weak = { ...newRating(), rating: 1300, deviation: 100 };
+    const strong = { ...newRating(), rating: 1700, deviation: 100 };
+    const [upset] = rateGame([weak, strong], 0);
+    const [expected] = rateGame([strong, weak], 0);
+    expect(upset.rating - weak.rating).toBeGreaterThan(
+      expected.rating - strong.rating,
+    );
+  });
+});
+
+describe("Matchmaking queue", () => {
+  test("groups players with close ratings", () => {
+    const queue = new MatchmakingQueue(2);
+    queue.join(entry("a", 1500));
+    queue.join(entry("b", 2000));
+    queue.join(entry("c", 1550));
+    queue.join(entry("d", 1990));
+
+    const matches = queue.findMatches(0);
+    expect(matches.map((m) => m.map((e) => e.persistentID).sort())).toEqual([
+      ["a", "c"],
+      ["b", "d"],
+    ]);
+    expect(queue.size()).toBe(0);
+  });
+
+  test("widens the rating window the longer players wait", () => {
+    const queue = new MatchmakingQueue(2);
+    queue.join(entry("a", 1500));
+    queue.join(entry("b", 1800));
+    expect(queue.findMatches(1000)).toEqual([]);
+    expect(queue.findMatches(60_000)).toHaveLength(1);
+  });
+
+  test("matched players get their game id", () => {
+    const queue = new MatchmakingQueue(2);
+    queue.join(entry("a", 1500));
+    expect(queue.status("a", 0)).toMatchObject({ state: "queued" });
+    queue.join(entry("b", 1500));
+    const [match] = queue.findMatches(0);
+    queue.assign(match, "game1234", 0);
+    expect(queue.status("a", 0)).toEqual({
+      state: "matched",
+      gameID: "game1234",
+    });
+    queue.leave("a");
+    expect(queue.status("a", 0)).toEqual({ state: "idle" });
+  });
+});
+
+describe("RatingStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "ratings-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test("persists ratings and ranks the leaderboard", async () => {
+    const store = new RatingStore(new LocalArchiveStorage(dir));
+    await store.recordGame(
+      [
+        { persistentID: "p1", username: "alice" },
+        { persistentID: "p2", username: "bob" },
+      ],
+      0,
+    );
+
+    const reloaded = new RatingStore(new LocalArchiveStorage(dir));
+    await reloaded.load();
+    expect(reloaded.get("p1").rating).toBe(store.get("p1").rating);
+    expect(reloaded.leaderboard(10, 0).map((e) => e.username)).toEqual([
+      "alice",
+      "bob",
+    ]);
+    expect(reloaded.leaderboard(1, 0)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,185 @@
+import {
+  Difficulty,
+  GameMapType,
+  GameMode,
+  GameType,
+  PlayerType,
+} from "../src/core/game/Game";
+import { GameUpdateType } from "../src/core/game/GameUpdates";
+import { TerrainMapData } from "../src/core/game/TerrainMapLoader";
+import { UserSettings } from "../src/core/game/UserSettings";
+import { createGameRunnerFromMap, GameRunner } from "../src/core/GameRunner";
+import { ReplayController } from "../src/core/ReplayController";
+import { GameConfig, GameStartInfo, Turn } from "../src/core/Schemas";
+import { loadTestMap } from "./util/Setup";
+import { TestConfig } from "./util/TestConfig";
+import { TestServerConfig } from "./util/TestServerConfig";
+
+const gameConfig: GameConfig = {
+  gameMap: GameMapType.Space1,
+  gameMode: GameMode.FFA,
+  gameType: GameType.Singleplayer,
+  difficulty: Difficulty.Medium,
+  disableNPCs: true,
+  bots: 0,
+  infiniteGold: false,
+  infiniteTroops: false,
+  instantBuild: false,
+  playerTeams: undefined,
+  spawnPhaseTurns: 5,
+};
+
+const gameStartInfo: GameStartInfo = {
+  gameID: "game0001",
+  config: gameConfig,
+  players: [{ playerID: "player01", clientID: "client01", username: "tester" }],
+};
+
+const numTurns = 40;
+
+let terrain: TerrainMapData;
+
+function makeTurns(): Turn[] {
+  const turns: Turn[] = [];
+  for (let i = 0; i < numTurns; i++) {
+    turns.push({ turnNumber: i, intents: [] });
+  }
+  turns[0].intents.push({
+    type: "spawn",
+    clientID: "client01",
+    flag: null,
+    name: "tester",
+    playerType: PlayerType.Human,
+    x: 5,
+    y: 5,
+  });
+  turns[8].intents.push({
+    type: "attack",
+    clientID: "client01",
+    targetID: null,
+    troops: 1000,
+  });
+  return turns;
+}
+
+function createRunner(): GameRunner {
+  const runner = createGameRunnerFromMap(
+    gameStartInfo,
+    "client01",
+    () => {},
+    new TestConfig(
+      new TestServerConfig(),
+      gameConfig,
+      new UserSettings(),
+      true,
+    ),
+    terrain,
+  );
+  makeTurns().forEach((t) => runner.addTurn(t));
+  return runner;
+}
+
+// Executes the remaining turns and returns the hashes emitted on the way.
+function runToEnd(
+  runner: GameRunner,
+  replay: ReplayController,
+): Map<number, number> {
+  const hashes = new Map<number, number>();
+  for (;;) {
+    const gu = runner.executeNextTickSilently();
+    if (gu === null) {
+      return hashes;
+    }
+    if ("errMsg" in gu) {
+      throw new Error(gu.errMsg);
+    }
+    replay.observe(gu);
+    gu.updates[GameUpdateType.Hash].forEach((hu) =>
+      hashes.set(hu.tick, hu.hash),
+    );
+  }
+}
+
+describe("ReplayController", () => {
+  beforeEach(async () => {
+    console.debug = () => {};
+    // The map holds tile ownership, every runner needs a fresh one.
+    terrain = await loadTestMap("Plains");
+  });
+
+  test("seeking back re-simulates to the same state", () => {
+    const runner = createRunner();
+    const replay = new ReplayController(runner, () => {}, 10);
+    const original = runToEnd(runner, replay);
+    expect(original.size).toBeGreaterThan(0);
+
+    const update = replay.seek(15);
+    expect("errMsg" in update).toBe(false);
+    expect(runner.numTurnsExecuted()).toBe(15);
+    expect(runner.game.ticks()).toBe(15);
+    expect(runner.numPendingTurns()).toBe(0);
+
+    makeTurns()
+      .slice(15)
+      .forEach((t) => runner.addTurn(t));
+    const replayed = runToEnd(runner, replay);
+    expect([...replayed.keys()]).toEqual([20, 30]);
+    for (const [tick, hash] of replayed) {
+      expect(hash).toBe(original.get(tick));
+    }
+  });
+
+  test("seeking forward fast-forwards from the current turn", () => {
+    const runner = createRunner();
+    const replay = new ReplayController(runner, () => {}, 10);
+
+    const update = replay.seek(25);
+    expect("errMsg" in update).toBe(false);
+    expect(runner.numTurnsExecuted()).toBe(25);
+    if (!("errMsg" in update)) {
+      expect(update.fullSync).toBe(true);
+      expect(update.tick).toBe(25);
+      expect(update.packedTileUpdates.length).toBe(
+        terrain.gameMap.width() * terrain.gameMap.height(),
+      );
+    }
+  });
+
+  test("fast-forwarding a saved game reaches the same state", async () => {
+    const live = createRunner();
+    runToEnd(live, new ReplayController(live, () => {}));
+    const player = live.game.player("player01");
+
+    terrain = await loadTestMap("Plains");
+    const restored = createRunner();
+    const update = restored.fastForward();
+    expect("errMsg" in update).toBe(false);
+    if (!("errMsg" in update)) {
+      expect(update.fullSync).toBe(true);
+      expect(update.tick).toBe(numTurns);
+    }
+    expect(restored.numPendingTurns()).toBe(0);
+    const restoredPlayer = restored.game.player("player01");
+    expect(restoredPlayer.numTilesOwned()).toBe(player.numTilesOwned());
+    expect(restoredPlayer.troops()).toBe(player.troops());
+  });
+
+  test("snapshots are not affected by later ticks", () => {
+    const runner = createRunner();
+    for (let i = 0; i < 10; i++) {
+      runner.executeNextTickSilently();
+    }
+    const snapshot = runner.snapshot();
+    const tiles = runner.game.player("player01").numTilesOwned();
+    for (let i = 0; i < 5; i++) {
+      runner.executeNextTickSilently();
+    }
+    expect(runner.game.player("player01").numTilesOwned()).toBeGreaterThan(
+      tiles,
+    );
+
+    runner.restore(snapshot);
+    expect(runner.game.ticks()).toBe(10);
+    expect(runner.game.player("player01").numTilesOwned()).toBe(tiles);
+  });
+});
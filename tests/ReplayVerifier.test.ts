@@ -0,0 +1,151 @@
+import {
+  Difficulty,
+  GameMapType,
+  GameMode,
+  GameType,
+  PlayerType,
+} from "../src/core/game/Game";
+import { TerrainMapData } from "../src/core/game/TerrainMapLoader";
+import { UserSettings } from "../src/core/game/UserSettings";
+import { verifyReplay } from "../src/core/ReplayVerifier";
+import {
+  GameConfig,
+  GameRecord,
+  GameStartInfo,
+  Turn,
+} from "../src/core/Schemas";
+import { createGameRecord } from "../src/core/Util";
+import { loadTestMap } from "./util/Setup";
+import { TestConfig } from "./util/TestConfig";
+import { TestServerConfig } from "./util/TestServerConfig";
+
+const gameConfig: GameConfig = {
+  gameMap: GameMapType.Space1,
+  gameMode: GameMode.FFA,
+  gameType: GameType.Singleplayer,
+  difficulty: Difficulty.Medium,
+  disableNPCs: true,
+  bots: 0,
+  infiniteGold: false,
+  infiniteTroops: false,
+  instantBuild: false,
+  playerTeams: undefined,
+  spawnPhaseTurns: 5,
+};
+
+const gameStartInfo: GameStartInfo = {
+  gameID: "game0001",
+  config: gameConfig,
+  players: [{ playerID: "player01", clientID: "client01", username: "tester" }],
+};
+
+let terrain: TerrainMapData;
+
+function config() {
+  return new TestConfig(
+    new TestServerConfig(),
+    gameConfig,
+    new UserSettings(),
+    true,
+  );
+}
+
+function makeRecord(hashes: Record<number, number>): GameRecord {
+  const turns: Turn[] = [];
+  for (let i = 0; i < 25; i++) {
+    turns.push({ turnNumber: i, intents: [], hash: hashes[i] });
+  }
+  turns[0].intents.push({
+    type: "spawn",
+    clientID: "client01",
+    flag: null,
+    name: "tester",
+    playerType: PlayerType.Human,
+    x: 5,
+    y: 5,
+  });
+  turns[8].intents.push({
+    type: "attack",
+    clientID: "client01",
+    targetID: null,
+    troops: 1000,
+  });
+  turns[15].intents.push({
+    type: "troop_ratio",
+    clientID: "client01",
+    ratio: 0.5,
+  });
+  return createGameRecord(
+    gameStartInfo.gameID,
+    gameStartInfo,
+    [],
+    turns,
+    0,
+    1000,
+    null,
+    null,
+    {},
+  );
+}
+
+describe("ReplayVerifier", () => {
+  beforeAll(async () => {
+    console.debug = () => {};
+    terrain = await loadTestMap("Plains");
+  });
+
+  test("reports first diverging turn and the intents before it", () => {
+    const result = verifyReplay(makeRecord({ 10: 1 }), config(), terrain);
+
+    expect(result.error).toBeNull();
+    expect(result.divergence).not.toBeNull();
+    expect(result.divergence!.turnNumber).toBe(10);
+    expect(result.divergence!.expectedHash).toBe(1);
+    expect(result.divergence!.actualHash).not.toBe(1);
+    expect(result.divergence!.lastVerifiedTurn).toBeNull();
+    expect(result.divergence!.suspectTurns.map((t) => t.turnNumber)).toEqual([
+      0, 8,
+    ]);
+  });
+
+  test("only blames intents after the last verified hash", () => {
+    const first = verifyReplay(makeRecord({ 10: 1 }), config(), terrain);
+    const hash10 = first.divergence!.actualHash!;
+
+    const result = verifyReplay(
+      makeRecord({ 10: hash10, 20: 1 }),
+      config(),
+      terrain,
+    );
+
+    expect(result.divergence!.turnNumber).toBe(20);
+    expect(result.divergence!.lastVerifiedTurn).toBe(10);
+    expect(result.divergence!.suspectTurns).toHaveLength(1);
+    expect(result.divergence!.suspectTurns[0].turnNumber).toBe(15);
+    expect(result.divergence!.suspectTurns[0].intents[0].type).toBe(
+      "troop_ratio",
+    );
+  });
+
+  test("passes when every archived hash matches", () => {
+    const first = verifyReplay(makeRecord({ 10: 1 }), config(), terrain);
+    const hash10 = first.divergence!.actualHash!;
+    const second = verifyReplay(
+      makeRecord({ 10: hash10, 20: 1 }),
+      config(),
+      terrain,
+    );
+    const hash20 = second.divergence!.actualHash!;
+
+    const result = verifyReplay(
+      makeRecord({ 10: hash10, 20: hash20 }),
+      config(),
+      terrain,
+    );
+
+    expect(result.divergence).toBeNull();
+    expect(result.error).toBeNull();
+    expect(result.hashesChecked).toBe(2);
+    expect(result.turnsReplayed).toBe(25);
+  });
+});
@@ -0,0 +1,163 @@
+import {
+  Difficulty,
+  GameMapType,
+  GameMode,
+  GameType,
+  PlayerType,
+} from "../src/core/game/Game";
+import { GameUpdateType } from "../src/core/game/GameUpdates";
+import { UserSettings } from "../src/core/game/UserSettings";
+import { createGameRunnerFromMap, GameRunner } from "../src/core/GameRunner";
+import { GameConfig, GameStartInfo, Turn } from "../src/core/Schemas";
+import {
+  deserializeGraph,
+  serializeGraph,
+} from "../src/core/utilities/Serialize";
+import { loadTestMap } from "./util/Setup";
+import { TestConfig } from "./util/TestConfig";
+import { TestServerConfig } from "./util/TestServerConfig";
+
+const gameConfig: GameConfig = {
+  gameMap: GameMapType.Space1,
+  gameMode: GameMode.FFA,
+  gameType: GameType.Singleplayer,
+  difficulty: Difficulty.Medium,
+  disableNPCs: true,
+  bots: 5,
+  infiniteGold: false,
+  infiniteTroops: false,
+  instantBuild: false,
+  playerTeams: undefined,
+  spawnPhaseTurns: 5,
+};
+
+const gameStartInfo: GameStartInfo = {
+  gameID: "game0001",
+  config: gameConfig,
+  players: [{ playerID: "player01", clientID: "client01", username: "tester" }],
+};
+
+const numTurns = 60;
+
+function makeTurns(): Turn[] {
+  const turns: Turn[] = [];
+  for (let i = 0; i < numTurns; i++) {
+    turns.push({ turnNumber: i, intents: [] });
+  }
+  turns[0].intents.push({
+    type: "spawn",
+    clientID: "client01",
+    flag: null,
+    name: "tester",
+    playerType: PlayerType.Human,
+    x: 5,
+    y: 5,
+  });
+  turns[8].intents.push({
+    type: "attack",
+    clientID: "client01",
+    targetID: null,
+    troops: 1000,
+  });
+  return turns;
+}
+
+async function createRunner(): Promise<GameRunner> {
+  const runner = createGameRunnerFromMap(
+    gameStartInfo,
+    "client01",
+    () => {},
+    new TestConfig(
+      new TestServerConfig(),
+      gameConfig,
+      new UserSettings(),
+      true,
+    ),
+    // The map holds tile ownership, every runner needs its own.
+    await loadTestMap("Plains"),
+  );
+  makeTurns().forEach((t) => runner.addTurn(t));
+  return runner;
+}
+
+// Executes turns until `turn` turns have run and returns the hashes emitted
+// on the way.
+function runTo(runner: GameRunner, turn: number): Map<number, number> {
+  const hashes = new Map<number, number>();
+  while (runner.numTurnsExecuted() < turn) {
+    const gu = runner.executeNextTickSilently();
+    if (gu === null) {
+      break;
+    }
+    if ("errMsg" in gu) {
+      throw new Error(gu.errMsg);
+    }
+    gu.updates[GameUpdateType.Hash].forEach((hu) =>
+      hashes.set(hu.tick, hu.hash),
+    );
+  }
+  return hashes;
+}
+
+class Point {
+  constructor(
+    public x: number,
+    public next: Point | null = null,
+  ) {}
+}
+
+describe("Resync", () => {
+  beforeEach(() => {
+    console.debug = () => {};
+  });
+
+  test("serialized graphs keep classes, cycles and shared objects", () => {
+    const shared = { name: "shared" };
+    const a = new Point(1);
+    const b = new Point(2, a);
+    a.next = b;
+    const value = {
+      points: [a, b],
+      byX: new Map([[1, a]]),
+      tags: new Set(["x", undefined]),
+      tiles: new Uint16Array([1, 65535]),
+      special: [-0, NaN, Infinity, 10n],
+      shared,
+    };
+
+    const copy = deserializeGraph<typeof value>(
+      serializeGraph(value, { Point }, [shared]),
+      { Point },
+      [shared],
+    );
+    expect(copy.points[0]).toBeInstanceOf(Point);
+    expect(copy.points[0].next).toBe(copy.points[1]);
+    expect(copy.points[1].next).toBe(copy.points[0]);
+    expect(copy.byX.get(1)).toBe(copy.points[0]);
+    expect(copy.tags).toEqual(new Set(["x", undefined]));
+    expect(Array.from(copy.tiles)).toEqual([1, 65535]);
+    expect(copy.special).toEqual([-0, NaN, Infinity, 10n]);
+    expect(copy.shared).toBe(shared);
+
+    expect(() => serializeGraph(value, {}, [shared])).toThrow(
+      "class Point is not serializable",
+    );
+  });
+
+  test("a desynced runner continues like the one its snapshot came from", async () => {
+    const healthy = await createRunner();
+    runTo(healthy, 30);
+    const snapshot = healthy.serializedSnapshot();
+
+    const desynced = await createRunner();
+    runTo(desynced, 12);
+    desynced.restoreSerialized(snapshot);
+    expect(desynced.numTurnsExecuted()).toBe(30);
+    expect(desynced.game.ticks()).toBe(healthy.game.ticks());
+
+    const expected = runTo(healthy, numTurns);
+    const actual = runTo(desynced, numTurns);
+    expect(expected.size).toBeGreaterThan(0);
+    expect(actual).toEqual(expected);
+  });
+});
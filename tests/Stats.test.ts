@@ -0,0 +1,95 @@
+import { AttackExecution } from "../src/core/execution/AttackExecution";
+import { SpawnExecution } from "../src/core/execution/SpawnExecution";
+import {
+  Game,
+  Player,
+  PlayerInfo,
+  PlayerType,
+  UnitType,
+} from "../src/core/game/Game";
+import { StatsImpl } from "../src/core/game/StatsImpl";
+import { AllPlayersStatsSchema } from "../src/core/Schemas";
+import { setup } from "./util/Setup";
+import { executeTicks } from "./util/utils";
+
+let game: Game;
+let attacker: Player;
+let defender: Player;
+
+describe("Stats", () => {
+  beforeEach(async () => {
+    game = await setup("ocean_and_land", {
+      infiniteGold: true,
+      instantBuild: true,
+    });
+    const attackerInfo = new PlayerInfo(
+      "us",
+      "attacker dude",
+      PlayerType.Human,
+      null,
+      "attacker_id",
+    );
+    const defenderInfo = new PlayerInfo(
+      "us",
+      "defender dude",
+      PlayerType.Human,
+      null,
+      "defender_id",
+    );
+    game.addPlayer(attackerInfo);
+    game.addPlayer(defenderInfo);
+    game.addExecution(
+      new SpawnExecution(attackerInfo, game.ref(0, 10)),
+      new SpawnExecution(defenderInfo, game.ref(0, 15)),
+    );
+    while (game.inSpawnPhase()) {
+      game.executeNextTick();
+    }
+    attacker = game.player(attackerInfo.id);
+    defender = game.player(defenderInfo.id);
+  });
+
+  test("records tiles and troops sent in an attack", () => {
+    game.addExecution(new AttackExecution(1000, attacker.id(), defender.id()));
+    executeTicks(game, 20);
+
+    const attackerStats = game.stats().getPlayerStats(attacker.id());
+    const defenderStats = game.stats().getPlayerStats(defender.id());
+    const conquered = attackerStats.tilesConquered[defender.id()];
+
+    expect(attackerStats.troopsSent).toBe(1000);
+    expect(conquered).toBeGreaterThan(0);
+    expect(defenderStats.tilesLost[attacker.id()]).toBe(conquered);
+  });
+
+  test("records units built and destroyed by type", () => {
+    attacker.buildUnit(UnitType.City, game.ref(0, 10), {});
+    expect(
+      game.stats().getPlayerStats(attacker.id()).unitsBuilt[UnitType.City],
+    ).toBe(1);
+
+    game.stats().unitDestroyed(defender.id(), attacker.id(), UnitType.City);
+    expect(
+      game.stats().getPlayerStats(defender.id()).unitsDestroyed[UnitType.City],
+    ).toBe(1);
+    expect(
+      game.stats().getPlayerStats(attacker.id()).unitsLost[UnitType.City],
+    ).toBe(1);
+  });
+
+  test("does not count self-inflicted losses as kills", () => {
+    const stats = new StatsImpl();
+    stats.unitDestroyed("player01", "player01", UnitType.Port);
+    stats.unitDestroyed(null, "player01", UnitType.Port);
+
+    expect(stats.getPlayerStats("player01").unitsLost[UnitType.Port]).toBe(2);
+    expect(stats.getPlayerStats("player01").unitsDestroyed).toEqual({});
+  });
+
+  test("stats archived with only sent nukes still parse", () => {
+    const stats = AllPlayersStatsSchema.parse({
+      player01: { sentNukes: {} },
+    });
+    expect(stats.player01).toEqual(new StatsImpl()._playerData("player01"));
+  });
+});
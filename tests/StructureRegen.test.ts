@@ -0,0 +1,43 @@
+import { SpawnExecution } from "../src/core/execution/SpawnExecution";
+import { Game, Player, PlayerType, UnitType } from "../src/core/game/Game";
+import { playerInfo, setup } from "./util/Setup";
+import { executeTicks } from "./util/utils";
+
+let game: Game;
+let player: Player;
+
+describe("Structure regeneration", () => {
+  beforeEach(async () => {
+    game = await setup("Plains", { instantBuild: true });
+    const info = playerInfo("player", PlayerType.Human);
+    game.addPlayer(info);
+    game.addExecution(new SpawnExecution(info, game.ref(5, 5)));
+    while (game.inSpawnPhase()) {
+      game.executeNextTick();
+    }
+    player = game.player(info.id);
+  });
+
+  test("damaged structures heal once they have not been hit for a while", () => {
+    const city = player.buildUnit(UnitType.City, game.ref(5, 5), {});
+    const maxHealth = city.info().maxHealth!;
+    city.modifyHealth(-500);
+    expect(city.lastDamaged()).toBe(game.ticks());
+
+    executeTicks(game, game.config().structureRegenDelay() - 10);
+    expect(city.health()).toBe(maxHealth - 500);
+
+    executeTicks(game, 30);
+    expect(city.health()).toBeGreaterThan(maxHealth - 500);
+    expect(city.health()).toBeLessThan(maxHealth);
+  });
+
+  test("regeneration stops at max health", () => {
+    const city = player.buildUnit(UnitType.City, game.ref(5, 5), {});
+    const maxHealth = city.info().maxHealth!;
+    city.modifyHealth(-game.config().structureRegenRate());
+
+    executeTicks(game, game.config().structureRegenDelay() + 50);
+    expect(city.health()).toBe(maxHealth);
+  });
+});
@@ -0,0 +1,75 @@
+import { SpawnExecution } from "../src/core/execution/SpawnExecution";
+import { UpgradeStructureExecution } from "../src/core/execution/UpgradeStructureExecution";
+import { Game, Player, PlayerType, UnitType } from "../src/core/game/Game";
+import { playerInfo, setup } from "./util/Setup";
+import { executeTicks } from "./util/utils";
+
+let game: Game;
+let player: Player;
+
+function upgrade(unitId: number) {
+  game.addExecution(new UpgradeStructureExecution(player.id(), unitId));
+  executeTicks(game, 2);
+}
+
+describe("Structure upgrades", () => {
+  beforeEach(async () => {
+    game = await setup("Plains", { instantBuild: true });
+    const info = playerInfo("player", PlayerType.Human);
+    game.addPlayer(info);
+    game.addExecution(new SpawnExecution(info, game.ref(5, 5)));
+    while (game.inSpawnPhase()) {
+      game.executeNextTick();
+    }
+    player = game.player(info.id);
+  });
+
+  test("upgrading a city costs gold and raises the population cap", () => {
+    const city = player.buildUnit(UnitType.City, game.ref(5, 5), {});
+    const maxPopulation = game.config().maxPopulation(player);
+    const cost = game.config().upgradeCost(UnitType.City, 1, player);
+    player.addGold(cost);
+    const gold = player.gold();
+
+    upgrade(city.id());
+
+    expect(city.level()).toBe(2);
+    expect(city.toUpdate().level).toBe(2);
+    expect(player.gold()).toBeLessThan(gold);
+    expect(game.config().maxPopulation(player)).toBe(
+      maxPopulation + game.config().cityPopulationIncrease(),
+    );
+  });
+
+  test("upgrades stop at the max level and need enough gold", () => {
+    const sam = player.buildUnit(UnitType.SAMLauncher, game.ref(5, 5), {});
+    const maxLevel = sam.info().maxLevel!;
+
+    upgrade(sam.id());
+    expect(sam.level()).toBe(1);
+
+    for (let level = 1; level < maxLevel + 1; level++) {
+      player.addGold(game.config().upgradeCost(sam.type(), level, player));
+      upgrade(sam.id());
+    }
+    expect(sam.level()).toBe(maxLevel);
+    expect(player.canUpgradeUnit(sam)).toBe(false);
+
+    sam.launch();
+    expect(sam.ticksLeftInCooldown()).toBe(
+      Math.round(game.config().SAMCooldown() / maxLevel),
+    );
+  });
+
+  test("structures of other players cannot be upgraded", () => {
+    const otherInfo = playerInfo("other", PlayerType.Human);
+    const other = game.addPlayer(otherInfo);
+    const city = other.buildUnit(UnitType.City, game.ref(5, 5), {});
+    player.addGold(game.config().upgradeCost(UnitType.City, 1, player));
+
+    upgrade(city.id());
+
+    expect(city.level()).toBe(1);
+    expect(player.upgradeableUnit(game.ref(5, 5))).toBeNull();
+  });
+});
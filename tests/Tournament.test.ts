@@ -0,0 +1,79 @@
+import { Difficulty, GameMapType } from "../src/core/game/Game";
+import { UserSettings } from "../src/core/game/UserSettings";
+import { GameConfig } from "../src/core/Schemas";
+import {
+  runTournamentGame,
+  tournamentCSV,
+  TournamentOptions,
+} from "../src/core/Tournament";
+import { loadTestMap } from "./util/Setup";
+import { TestConfig } from "./util/TestConfig";
+import { TestServerConfig } from "./util/TestServerConfig";
+
+const options: TournamentOptions = {
+  map: GameMapType.Testmap,
+  games: 2,
+  strategies: ["expander", "default"],
+  difficulties: [Difficulty.Easy, Difficulty.Hard],
+  bots: 0,
+  maxTicks: 300,
+  sampleInterval: 100,
+  seed: "test",
+};
+
+const createConfig = (gameConfig: GameConfig) =>
+  new TestConfig(new TestServerConfig(), gameConfig, new UserSettings(), false);
+
+async function runGame(index: number) {
+  const terrain = await loadTestMap("Plains");
+  terrain.nationMap.nations = [
+    { coordinates: [10, 10], flag: "", name: "North", strength: 1 },
+    { coordinates: [40, 40], flag: "", name: "South", strength: 1 },
+  ];
+  return runTournamentGame(options, index, terrain, createConfig);
+}
+
+describe("Tournament", () => {
+  beforeEach(() => {
+    console.debug = () => {};
+  });
+
+  test("rotates strategies and difficulties between games", async () => {
+    const first = await runGame(0);
+    const second = await runGame(1);
+
+    expect(first.difficulty).toBe(Difficulty.Easy);
+    expect(second.difficulty).toBe(Difficulty.Hard);
+    expect(first.players.map((p) => [p.name, p.strategy])).toEqual([
+      ["North", "expander"],
+      ["South", "default"],
+    ]);
+    expect(second.players.map((p) => [p.name, p.strategy])).toEqual([
+      ["North", "default"],
+      ["South", "expander"],
+    ]);
+  });
+
+  test("records territory curves and a CSV row per game", async () => {
+    const result = await runGame(0);
+
+    expect(result.winner).toBeNull();
+    expect(result.ticks).toBe(options.maxTicks);
+    expect(result.territory.map((s) => s.tick)).toEqual([100, 200, 300]);
+    const last = result.territory[result.territory.length - 1];
+    expect(last.shares["North"]).toBeGreaterThan(0);
+    expect(result.players[0].stats).not.toBeNull();
+
+    const csv = tournamentCSV([result]).trim().split("\n");
+    expect(csv).toHaveLength(2);
+    expect(csv[1]).toBe(
+      `0,test-0,Testmap,Easy,,,300,North=expander;South=default`,
+    );
+  });
+
+  test("the same seed replays the same game", async () => {
+    const first = await runGame(0);
+    const second = await runGame(0);
+    expect(second.territory).toEqual(first.territory);
+  });
+});
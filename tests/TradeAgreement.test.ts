@@ -0,0 +1,166 @@
+import { SpawnExecution } from "../src/core/execution/SpawnExecution";
+import { TradeAgreementExecution } from "../src/core/execution/TradeAgreementExecution";
+import { TradeShipExecution } from "../src/core/execution/TradeShipExecution";
+import {
+  Game,
+  Player,
+  PlayerInfo,
+  PlayerType,
+  Unit,
+  UnitType,
+} from "../src/core/game/Game";
+import { PathFinder } from "../src/core/pathfinding/PathFinding";
+import { setup } from "./util/Setup";
+
+const coastX = 7;
+let game: Game;
+let player1: Player;
+let player2: Player;
+
+function offer(from: Player, to: Player, share: number, duration: number) {
+  game.addExecution(
+    new TradeAgreementExecution(from, to.id(), "offer", share, duration),
+  );
+  game.executeNextTick();
+  game.executeNextTick();
+}
+
+// Sends a trade ship from player1's port to player2's, returns once it
+// has moved off the port.
+function sendTradeShip(): { exec: TradeShipExecution; ship: Unit } {
+  const port1 = player1.buildUnit(UnitType.Port, game.ref(coastX, 10), {});
+  const port2 = player2.buildUnit(UnitType.Port, game.ref(coastX, 15), {});
+  const exec = new TradeShipExecution(
+    player1.id(),
+    port1,
+    port2,
+    PathFinder.Mini(game, 2500),
+  );
+  game.addExecution(exec);
+  game.executeNextTick();
+  game.executeNextTick();
+  return { exec, ship: player1.units(UnitType.TradeShip)[0] };
+}
+
+function sail(exec: TradeShipExecution) {
+  for (let i = 0; i < 500 && exec.isActive(); i++) {
+    game.executeNextTick();
+  }
+  expect(exec.isActive()).toBe(false);
+}
+
+describe("TradeAgreement", () => {
+  beforeEach(async () => {
+    game = await setup("half_land_half_ocean", {
+      infiniteGold: true,
+      instantBuild: true,
+    });
+    const info1 = new PlayerInfo(
+      "us",
+      "trader one",
+      PlayerType.Human,
+      null,
+      "player_1_id",
+    );
+    const info2 = new PlayerInfo(
+      "us",
+      "trader two",
+      PlayerType.Human,
+      null,
+      "player_2_id",
+    );
+    game.addPlayer(info1);
+    game.addPlayer(info2);
+    game.addExecution(
+      new SpawnExecution(info1, game.ref(coastX, 10)),
+      new SpawnExecution(info2, game.ref(coastX, 15)),
+    );
+    while (game.inSpawnPhase()) {
+      game.executeNextTick();
+    }
+    player1 = game.player(info1.id);
+    player2 = game.player(info2.id);
+  });
+
+  test("matching offers sign an agreement", () => {
+    offer(player1, player2, 60, 1000);
+    expect(player1.tradeAgreementWith(player2)).toBeNull();
+    expect(player2.incomingTradeOffers()).toEqual([
+      expect.objectContaining({ partner: player1.id(), share: 40 }),
+    ]);
+
+    offer(player2, player1, 40, 1000);
+    expect(player1.tradeAgreementWith(player2)?.share).toBe(60);
+    expect(player2.tradeAgreementWith(player1)?.share).toBe(40);
+    expect(player1.outgoingTradeOffers()).toEqual([]);
+  });
+
+  test("agreement partners' ports are preferred until it expires", () => {
+    const port1 = player1.buildUnit(UnitType.Port, game.ref(coastX, 10), {});
+    player2.buildUnit(UnitType.Port, game.ref(coastX, 15), {});
+    const before = player1.tradingPorts(port1).length;
+
+    offer(player1, player2, 50, 100);
+    offer(player2, player1, 50, 100);
+    expect(player1.tradingPorts(port1).length).toBe(
+      before + game.config().tradeAgreementPortBonus(),
+    );
+
+    for (let i = 0; i < 100; i++) {
+      game.executeNextTick();
+    }
+    expect(player1.tradeAgreements()).toEqual([]);
+    expect(player2.tradeAgreements()).toEqual([]);
+    expect(player1.tradingPorts(port1).length).toBe(before);
+  });
+
+  describe("trade ship gold", () => {
+    beforeEach(() => {
+      // Only the trade moves gold.
+      jest.spyOn(game.config(), "goldAdditionRate").mockReturnValue(0);
+    });
+
+    test.each([
+      ["evenly without an agreement", null, 50],
+      ["70/30 under a signed agreement", 70, 70],
+    ])("is split %s", (_, signed, share) => {
+      if (signed !== null) {
+        offer(player1, player2, signed, 1000);
+        offer(player2, player1, 100 - signed, 1000);
+      }
+      const gold1 = player1.gold();
+      const gold2 = player2.gold();
+
+      const { exec } = sendTradeShip();
+      sail(exec);
+
+      const earned1 = player1.gold() - gold1;
+      const earned2 = player2.gold() - gold2;
+      const total = earned1 + earned2;
+      expect(total).toBeGreaterThan(0);
+      expect(earned1).toBe(Math.floor((total * share) / 100));
+      expect(player1.toUpdate().tradeIncome).toEqual({
+        [player2.id()]: earned1,
+      });
+      expect(player2.toUpdate().tradeIncome).toEqual({
+        [player1.id()]: earned2,
+      });
+    });
+  });
+
+  test("a captured trade ship counts as lost once", () => {
+    const { exec, ship } = sendTradeShip();
+    player2.captureUnit(ship);
+    game.executeNextTick();
+    game.executeNextTick();
+    player1.captureUnit(ship);
+    game.executeNextTick();
+    game.executeNextTick();
+    player2.captureUnit(ship);
+    sail(exec);
+
+    expect(player1.toUpdate().tradeShipsLost).toBe(1);
+    expect(player2.toUpdate().tradeShipsLost).toBe(0);
+    expect(player1.toUpdate().tradeIncome).toEqual({});
+  });
+});
@@ -0,0 +1,104 @@
+import { SpawnExecution } from "../src/core/execution/SpawnExecution";
+import { WinCheckExecution } from "../src/core/execution/WinCheckExecution";
+import {
+  Game,
+  Player,
+  PlayerInfo,
+  PlayerType,
+  UnitType,
+  VictoryMode,
+} from "../src/core/game/Game";
+import { GameUpdateType, WinUpdate } from "../src/core/game/GameUpdates";
+import { VictoryCondition } from "../src/core/Schemas";
+import { setup } from "./util/Setup";
+
+let game: Game;
+let attacker: Player;
+let defender: Player;
+
+async function setupGame(victory: VictoryCondition) {
+  game = await setup("Plains", { victory, instantBuild: true });
+  const attackerInfo = new PlayerInfo(
+    "us",
+    "attacker dude",
+    PlayerType.Human,
+    null,
+    "attacker_id",
+  );
+  const defenderInfo = new PlayerInfo(
+    "us",
+    "defender dude",
+    PlayerType.Human,
+    null,
+    "defender_id",
+  );
+  game.addPlayer(attackerInfo);
+  game.addPlayer(defenderInfo);
+  game.addExecution(
+    new SpawnExecution(attackerInfo, game.ref(10, 10)),
+    new SpawnExecution(defenderInfo, game.ref(40, 40)),
+  );
+  while (game.inSpawnPhase()) {
+    game.executeNextTick();
+  }
+  attacker = game.player(attackerInfo.id);
+  defender = game.player(defenderInfo.id);
+  game.addExecution(new WinCheckExecution());
+}
+
+function runUntilWin(maxTicks: number): WinUpdate | null {
+  for (let i = 0; i < maxTicks; i++) {
+    const wins = game.executeNextTick()[GameUpdateType.Win];
+    if (wins.length > 0) {
+      return wins[0];
+    }
+  }
+  return null;
+}
+
+describe("WinCheck victory modes", () => {
+  test("last standing wins once every rival is eliminated", async () => {
+    await setupGame({ mode: VictoryMode.LastStanding });
+    expect(runUntilWin(30)).toBeNull();
+
+    for (const tile of Array.from(defender.tiles())) {
+      attacker.conquer(tile);
+    }
+
+    expect(runUntilWin(30)?.winner).toBe(attacker.smallID());
+  });
+
+  test("capture cities counts cities taken from other players", async () => {
+    await setupGame({ mode: VictoryMode.CaptureCities, count: 1 });
+    const city = defender.buildUnit(UnitType.City, game.ref(40, 40), {});
+    expect(runUntilWin(30)).toBeNull();
+
+    attacker.captureUnit(city);
+
+    expect(
+      game.stats().getPlayerStats(attacker.id()).unitsCaptured[UnitType.City],
+    ).toBe(1);
+    expect(runUntilWin(30)?.winner).toBe(attacker.smallID());
+  });
+
+  test("king of the hill is won by holding a zone", async () => {
+    await setupGame({
+      mode: VictoryMode.KingOfTheHill,
+      zones: [{ x: 40, y: 40, radius: 1 }],
+      holdSeconds: 3,
+    });
+
+    const win = runUntilWin(50);
+    expect(win?.winner).toBe(defender.smallID());
+  });
+
+  test("score is compared when the time limit is reached", async () => {
+    await setupGame({ mode: VictoryMode.Score, durationMinutes: 1 });
+    for (const tile of Array.from(defender.tiles()).slice(0, 5)) {
+      attacker.conquer(tile);
+    }
+
+    expect(runUntilWin(500)).toBeNull();
+    expect(runUntilWin(200)?.winner).toBe(attacker.smallID());
+  });
+});
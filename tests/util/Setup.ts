@@ -10,7 +10,10 @@ import {
   PlayerType,
 } from "../../src/core/game/Game";
 import { createGame } from "../../src/core/game/GameImpl";
-import { genTerrainFromBin } from "../../src/core/game/TerrainMapLoader";
+import {
+  genTerrainFromBin,
+  TerrainMapData,
+} from "../../src/core/game/TerrainMapLoader";
 import { UserSettings } from "../../src/core/game/UserSettings";
 import { GameConfig } from "../../src/core/Schemas";
 import { generateMap } from "../../src/scripts/TerrainMapGenerator";
@@ -25,14 +28,7 @@ export async function setup(
   // Suppress console.debug for tests.
   console.debug = () => {};
 
-  // Load the specified map
-  const mapPath = path.join(__dirname, "..", "testdata", `${mapName}.png`);
-  const imageBuffer = await fs.readFile(mapPath);
-  const { map, miniMap } = await generateMap(imageBuffer, false);
-  const gameMap = await genTerrainFromBin(String.fromCharCode.apply(null, map));
-  const miniGameMap = await genTerrainFromBin(
-    String.fromCharCode.apply(null, miniMap),
-  );
+  const { gameMap, miniGameMap } = await loadTestMap(mapName);
 
   // Configure the game
   const serverConfig = new TestServerConfig();
@@ -59,6 +55,18 @@ export async function setup(
   return createGame(humans, [], gameMap, miniGameMap, config);
 }
 
+export async function loadTestMap(mapName: string): Promise<TerrainMapData> {
+  // Load the specified map
+  const mapPath = path.join(__dirname, "..", "testdata", `${mapName}.png`);
+  const imageBuffer = await fs.readFile(mapPath);
+  const { map, miniMap } = await generateMap(imageBuffer, false);
+  const gameMap = await genTerrainFromBin(String.fromCharCode.apply(null, map));
+  const miniGameMap = await genTerrainFromBin(
+    String.fromCharCode.apply(null, miniMap),
+  );
+  return { nationMap: { nations: [] }, gameMap, miniGameMap };
+}
+
 export function playerInfo(name: string, type: PlayerType): PlayerInfo {
   return new PlayerInfo("fr", name, type, null, name);
 }
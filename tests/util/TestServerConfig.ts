@@ -25,6 +25,9 @@ export class TestServerConfig implements ServerConfig {
   otelPassword(): string {
     throw new Error("Method not implemented.");
   }
+  metricsToken(): string {
+    throw new Error("Method not implemented.");
+  }
   region(): string {
     return "test";
   }
@@ -37,6 +40,9 @@ export class TestServerConfig implements ServerConfig {
   lobbyMaxPlayers(map: GameMapType): number {
     throw new Error("Method not implemented.");
   }
+  maxSpectators(): number {
+    throw new Error("Method not implemented.");
+  }
   numWorkers(): number {
     throw new Error("Method not implemented.");
   }
@@ -76,4 +82,7 @@ export class TestServerConfig implements ServerConfig {
   r2SecretKey(): string {
     throw new Error("Method not implemented.");
   }
+  archiveDir(): string {
+    throw new Error("Method not implemented.");
+  }
 }